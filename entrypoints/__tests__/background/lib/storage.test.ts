@@ -1,8 +1,14 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { SecureStorage, ImportMethod } from "../../../background/lib/storage";
+import { fakeBrowser } from "wxt/testing";
+import {
+  SecureStorage,
+  ImportMethod,
+  STORAGE_MIGRATIONS,
+} from "../../../background/lib/storage";
 import LocalStorageUtils from "@/src/utils/localStorage.utils";
 import EncryptUtils from "../../../background/utils/encrypt.utils";
 import { LocalStorageKeyEnum } from "@/src/reference-data/local-storage-key.enum";
+import { vaultSession } from "../../../background/lib/vault-session";
 import { Keys } from "@/src/interfaces";
 
 // Mock the dependencies
@@ -14,9 +20,19 @@ vi.mock("@/src/utils/localStorage.utils", () => ({
     getValueFromSessionStorage: vi.fn(),
     saveValueInSessionStorage: vi.fn(),
     removeValueFromSessionStorage: vi.fn(),
+    getKeyForNetwork: vi.fn(),
+    getUnscopedValueFromLocalStorage: vi.fn(),
+    saveUnscopedValueInLocalStorage: vi.fn(),
+    removeUnscopedValueFromLocalStorage: vi.fn(),
   },
 }));
 vi.mock("../../../background/utils/encrypt.utils");
+vi.mock("../../../background/lib/vault-session", () => ({
+  vaultSession: {
+    getVaultKey: vi.fn(),
+    close: vi.fn(),
+  },
+}));
 vi.mock("@/src/utils/logger.utils", () => ({
   default: {
     info: vi.fn(),
@@ -235,9 +251,7 @@ describe("SecureStorage", () => {
       (LocalStorageUtils.saveValueInLocalStorage as any).mockResolvedValue(
         undefined,
       );
-      (LocalStorageUtils.getValueFromSessionStorage as any).mockResolvedValue(
-        null,
-      );
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       await storage.setActiveAccount(mockUsername);
 
@@ -247,8 +261,8 @@ describe("SecureStorage", () => {
       );
     });
 
-    it("should update last used timestamp if mk is available", async () => {
-      const mk = "master-key";
+    it("should update last used timestamp while the vault is unlocked", async () => {
+      const mk = "vault-key";
       const accounts = [
         {
           name: mockUsername,
@@ -260,9 +274,7 @@ describe("SecureStorage", () => {
         },
       ];
 
-      (LocalStorageUtils.getValueFromSessionStorage as any).mockResolvedValue(
-        mk,
-      );
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(mk);
       (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(
         "encrypted",
       );
@@ -558,9 +570,7 @@ describe("SecureStorage", () => {
       expect(
         LocalStorageUtils.removeValueFromLocalStorage,
       ).toHaveBeenCalledWith(LocalStorageKeyEnum.ACTIVE_ACCOUNT);
-      expect(
-        LocalStorageUtils.removeValueFromSessionStorage,
-      ).toHaveBeenCalledWith(LocalStorageKeyEnum.__MK);
+      expect(vaultSession.close).toHaveBeenCalled();
     });
   });
 
@@ -588,7 +598,7 @@ describe("SecureStorage", () => {
 
       expect(result).toBe(exportedData);
       expect(vi.mocked(EncryptUtils).encrypt).toHaveBeenCalledWith(
-        expect.stringContaining('"version":1'),
+        expect.stringContaining('"version":3'),
         mockPassword,
       );
     });
@@ -632,4 +642,280 @@ describe("SecureStorage", () => {
       ).rejects.toThrow("Invalid backup format");
     });
   });
+
+  describe("STORAGE_MIGRATIONS", () => {
+    it("should add metadata to accounts stored before it existed (1 -> 2)", () => {
+      const withMetadata = {
+        name: "other",
+        keys: mockKeys,
+        metadata: { importMethod: "master_password" as ImportMethod, importedAt: 1 },
+      };
+
+      const result = STORAGE_MIGRATIONS[1]({
+        list: [{ name: mockUsername, keys: mockKeys }, withMetadata],
+      });
+
+      expect(result.list[0]).toMatchObject({
+        name: mockUsername,
+        metadata: { importMethod: "individual_keys" },
+      });
+      expect(result.list[1]).toEqual(withMetadata);
+    });
+
+    it("should drop unnamed entries and keep the last entry per name (2 -> 3)", () => {
+      const updatedKeys = { ...mockKeys, active: "new-active-key" };
+
+      const result = STORAGE_MIGRATIONS[2]({
+        list: [
+          { name: mockUsername, keys: mockKeys },
+          { name: "", keys: mockKeys },
+          { name: mockUsername, keys: updatedKeys },
+        ],
+      });
+
+      expect(result.list).toEqual([{ name: mockUsername, keys: updatedKeys }]);
+    });
+  });
+
+  describe("upgradeVault", () => {
+    beforeEach(() => {
+      (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(
+        "stored-vault",
+      );
+      vi.mocked(EncryptUtils).encryptJson.mockReturnValue("upgraded-vault");
+    });
+
+    it("should run every pending step and re-encrypt a version 1 vault", async () => {
+      vi.mocked(EncryptUtils).decryptToJson.mockReturnValue({
+        list: [
+          { name: mockUsername, keys: mockKeys },
+          { name: mockUsername, keys: mockKeys },
+        ],
+        hash: "hash",
+      });
+
+      const upgraded = await storage.upgradeVault(mockPassword);
+
+      expect(upgraded).toBe(true);
+      expect(vi.mocked(EncryptUtils).encryptJson).toHaveBeenCalledWith(
+        {
+          list: [
+            expect.objectContaining({
+              name: mockUsername,
+              metadata: expect.objectContaining({ importMethod: "individual_keys" }),
+            }),
+          ],
+          version: 3,
+        },
+        mockPassword,
+      );
+      expect(LocalStorageUtils.saveValueInLocalStorage).toHaveBeenCalledWith(
+        LocalStorageKeyEnum.ACCOUNTS,
+        "upgraded-vault",
+      );
+    });
+
+    it("should re-encrypt a current schema when the KDF settings changed", async () => {
+      vi.mocked(EncryptUtils).decryptToJson.mockReturnValue({
+        list: [],
+        hash: "hash",
+        version: 3,
+      });
+      vi.mocked(EncryptUtils).needsUpgrade.mockReturnValue(true);
+
+      expect(await storage.upgradeVault(mockPassword)).toBe(true);
+      expect(vi.mocked(EncryptUtils).encryptJson).toHaveBeenCalled();
+    });
+
+    it("should leave an up to date vault alone", async () => {
+      vi.mocked(EncryptUtils).decryptToJson.mockReturnValue({
+        list: [],
+        hash: "hash",
+        version: 3,
+      });
+      vi.mocked(EncryptUtils).needsUpgrade.mockReturnValue(false);
+
+      expect(await storage.upgradeVault(mockPassword)).toBe(false);
+      expect(LocalStorageUtils.saveValueInLocalStorage).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to rewrite a vault it cannot decrypt", async () => {
+      vi.mocked(EncryptUtils).decryptToJson.mockReturnValue(null);
+
+      await expect(storage.upgradeVault("wrong-password")).rejects.toThrow(
+        "Unable to decrypt the vault",
+      );
+      expect(LocalStorageUtils.saveValueInLocalStorage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rekeyVault", () => {
+    // Testnet is active, so a key scoped twice would land on the wrong vault
+    const readVaults = async () => {
+      const { network, ...vaults } = await fakeBrowser.storage.local.get();
+      return vaults;
+    };
+
+    beforeEach(async () => {
+      fakeBrowser.reset();
+      const actual = (
+        await vi.importActual<{ default: typeof LocalStorageUtils }>(
+          "@/src/utils/localStorage.utils",
+        )
+      ).default;
+      for (const method of [
+        "getKeyForNetwork",
+        "getValueFromLocalStorage",
+        "saveValueInLocalStorage",
+        "removeValueFromLocalStorage",
+        "getUnscopedValueFromLocalStorage",
+        "saveUnscopedValueInLocalStorage",
+        "removeUnscopedValueFromLocalStorage",
+      ] as const) {
+        vi.mocked(LocalStorageUtils[method]).mockImplementation(
+          (actual[method] as any).bind(actual),
+        );
+      }
+
+      await fakeBrowser.storage.local.set({
+        network: "testnet",
+        accounts: "mainnet-vault",
+        "accounts@testnet": "testnet-vault",
+      });
+      vi.mocked(EncryptUtils).decryptToJson.mockImplementation(
+        (msg: string, pwd: string) =>
+          pwd === mockPassword || msg.startsWith("rekeyed-")
+            ? { list: [{ name: mockUsername, keys: mockKeys }], hash: "hash", version: 3 }
+            : null,
+      );
+      vi.mocked(EncryptUtils).encryptJson.mockReturnValue("rekeyed-vault");
+    });
+
+    it("should re-encrypt the vault of every network and clear the staging keys", async () => {
+      await storage.rekeyVault(mockPassword, "New-password-1", { auth_data: { passwordHash: "new" } });
+
+      expect(vi.mocked(EncryptUtils).encryptJson).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(EncryptUtils).encryptJson).toHaveBeenCalledWith(
+        expect.objectContaining({ version: 3 }),
+        "New-password-1",
+      );
+      expect(await readVaults()).toEqual({
+        accounts: "rekeyed-vault",
+        "accounts@testnet": "rekeyed-vault",
+        auth_data: { passwordHash: "new" },
+      });
+    });
+
+    it("should not write anything when a vault can't be decrypted", async () => {
+      await expect(
+        storage.rekeyVault("wrong-password", "New-password-1"),
+      ).rejects.toThrow("Unable to decrypt the mainnet vault");
+
+      expect(LocalStorageUtils.saveUnscopedValueInLocalStorage).not.toHaveBeenCalled();
+      expect(await readVaults()).toEqual({
+        accounts: "mainnet-vault",
+        "accounts@testnet": "testnet-vault",
+      });
+    });
+
+    it("should restore the previous vaults when the commit fails", async () => {
+      const save = vi.mocked(LocalStorageUtils.saveValueInLocalStorage);
+      const write = save.getMockImplementation()!;
+      save.mockImplementation(async (key: string, value: any) => {
+        if (key === "auth_data") throw new Error("Quota exceeded");
+        await write(key, value);
+      });
+
+      await expect(
+        storage.rekeyVault(mockPassword, "New-password-1", { auth_data: { passwordHash: "new" } }),
+      ).rejects.toThrow("Quota exceeded");
+
+      expect(await readVaults()).toEqual({
+        accounts: "mainnet-vault",
+        "accounts@testnet": "testnet-vault",
+      });
+    });
+
+    it("should restore the vaults already swapped when a write fails mid-way", async () => {
+      const save = vi.mocked(LocalStorageUtils.saveUnscopedValueInLocalStorage);
+      const write = save.getMockImplementation()!;
+      save.mockImplementation(async (key: string, value: any) => {
+        if (key === "accounts@testnet" && value === "rekeyed-vault") {
+          throw new Error("Write failed");
+        }
+        await write(key, value);
+      });
+
+      await expect(
+        storage.rekeyVault(mockPassword, "New-password-1"),
+      ).rejects.toThrow("Write failed");
+
+      expect(await readVaults()).toEqual({
+        accounts: "mainnet-vault",
+        "accounts@testnet": "testnet-vault",
+      });
+    });
+
+    describe("recoverInterruptedRekey", () => {
+      // The worker stops for good on the first write to `stopAt`
+      const stopWritingAt = (stopAt: string) => {
+        for (const method of ["saveValueInLocalStorage", "saveUnscopedValueInLocalStorage"] as const) {
+          const save = vi.mocked(LocalStorageUtils[method]);
+          const write = save.getMockImplementation()!;
+          save.mockImplementation(async (key: string, value: any) =>
+            key === stopAt ? new Promise<void>(() => undefined) : write(key, value),
+          );
+        }
+      };
+
+      const restart = async () => {
+        const actual = (
+          await vi.importActual<{ default: typeof LocalStorageUtils }>("@/src/utils/localStorage.utils")
+        ).default;
+        for (const method of ["saveValueInLocalStorage", "saveUnscopedValueInLocalStorage"] as const) {
+          vi.mocked(LocalStorageUtils[method]).mockImplementation((actual[method] as any).bind(actual));
+        }
+        return new SecureStorage().recoverInterruptedRekey();
+      };
+
+      it("should roll back a rekey stopped while the vaults were being staged", async () => {
+        stopWritingAt("accounts@testnet.staging");
+        storage.rekeyVault(mockPassword, "New-password-1", { auth_data: { passwordHash: "new" } });
+        await vi.waitFor(async () => expect(await fakeBrowser.storage.local.get("accounts.staging")).not.toEqual({}));
+
+        expect(await restart()).toBe(true);
+
+        expect(await readVaults()).toEqual({
+          accounts: "mainnet-vault",
+          "accounts@testnet": "testnet-vault",
+        });
+      });
+
+      it("should finish a rekey stopped before the new auth data was saved", async () => {
+        stopWritingAt("auth_data");
+        storage.rekeyVault(mockPassword, "New-password-1", { auth_data: { passwordHash: "new" } });
+        await vi.waitFor(async () =>
+          expect(await fakeBrowser.storage.local.get("accounts@testnet")).toEqual({
+            "accounts@testnet": "rekeyed-vault",
+          }),
+        );
+
+        expect(await restart()).toBe(true);
+
+        expect(await readVaults()).toEqual({
+          accounts: "rekeyed-vault",
+          "accounts@testnet": "rekeyed-vault",
+          auth_data: { passwordHash: "new" },
+        });
+      });
+
+      it("should do nothing without an interrupted rekey", async () => {
+        expect(await storage.recoverInterruptedRekey()).toBe(false);
+        expect(await readVaults()).toEqual({
+          accounts: "mainnet-vault",
+          "accounts@testnet": "testnet-vault",
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { VaultSession } from '../../../background/lib/vault-session';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+describe('VaultSession', () => {
+  const vaultKey = 'a1'.repeat(32);
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+  });
+
+  it('should hand out the vault key once opened', async () => {
+    const session = new VaultSession();
+    expect(await session.getVaultKey()).toBeNull();
+
+    await session.open(vaultKey);
+
+    expect(session.isOpen()).toBe(true);
+    expect(await session.getVaultKey()).toBe(vaultKey);
+  });
+
+  it('should only keep the vault key wrapped in session storage', async () => {
+    await new VaultSession().open(vaultKey);
+
+    const stored = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.VAULT_SESSION);
+    expect(JSON.stringify(stored)).not.toContain(vaultKey);
+    expect(stored.wrappedKey).toHaveLength(vaultKey.length + 32);
+  });
+
+  it('should reopen the session after the service worker restarts', async () => {
+    await new VaultSession().open(vaultKey);
+
+    const restarted = new VaultSession();
+    expect(restarted.isOpen()).toBe(false);
+    expect(await restarted.getVaultKey()).toBe(vaultKey);
+    expect(restarted.isOpen()).toBe(true);
+  });
+
+  it('should forget the key everywhere when closed', async () => {
+    const session = new VaultSession();
+    await session.open(vaultKey);
+
+    await session.close();
+
+    expect(await session.getVaultKey()).toBeNull();
+    expect(await new VaultSession().getVaultKey()).toBeNull();
+  });
+
+  it('should drop a wrapped key it cannot unwrap', async () => {
+    await new VaultSession().open(vaultKey);
+    const stored = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.VAULT_SESSION);
+    await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.VAULT_SESSION, {
+      ...stored,
+      sessionKey: 'b2'.repeat(32),
+    });
+
+    expect(await new VaultSession().getVaultKey()).toBeNull();
+    expect(await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.VAULT_SESSION)).toBeNull();
+  });
+});
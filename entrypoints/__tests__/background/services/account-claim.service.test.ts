@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { AccountClaimService } from '../../../background/services/account-claim.service';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const now = Date.now();
+
+// An RC account at `pct` percent of a 100B max mana, updated right now
+const rcAt = (pct: number) => ({
+  max_rc: '100000000000',
+  rc_manabar: { current_mana: String(pct * 1000000000), last_update_time: Math.floor(now / 1000) },
+  percentage: 0,
+});
+
+describe('AccountClaimService', () => {
+  let service: AccountClaimService;
+  let mockSteemApi: any;
+  let mockTransactionService: any;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+
+    mockSteemApi = {
+      getAccount: vi.fn().mockResolvedValue([{ name: 'alice', pending_claimed_accounts: 4 }]),
+      getAccountRC: vi.fn().mockResolvedValue(rcAt(95)),
+    };
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({ success: true, result: { id: 'tx_1' }, transaction: {} }),
+    };
+
+    service = new AccountClaimService(mockSteemApi, mockTransactionService);
+  });
+
+  it('should add the mana regenerated since the last update', () => {
+    const rc = rcAt(40);
+    rc.rc_manabar.last_update_time -= 43200; // a tenth of the regeneration window
+
+    const { percentage } = AccountClaimService.getCurrentMana(rc, now);
+
+    expect(percentage).toBeCloseTo(50, 0);
+    expect(AccountClaimService.getCurrentMana(rcAt(100), now + 1e9).percentage).toBe(100);
+  });
+
+  it('should report pending tokens and claim eligibility', async () => {
+    await service.setAutoClaim('alice', true);
+
+    const status = await service.getStatus('alice');
+
+    expect(status).toMatchObject({
+      username: 'alice',
+      pendingClaimedAccounts: 4,
+      canClaim: true,
+      autoClaim: true,
+    });
+  });
+
+  it('should broadcast claim_account with a zero fee when RC allows it', async () => {
+    const result = await service.claim('alice', 'active-key');
+
+    expect(result).toEqual({ username: 'alice', claimed: true, transactionId: 'tx_1' });
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [['claim_account', { creator: 'alice', fee: '0.000 STEEM', extensions: [] }]],
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should not claim below the RC threshold', async () => {
+    mockSteemApi.getAccountRC.mockResolvedValue(rcAt(80));
+
+    const result = await service.claim('alice', 'active-key');
+
+    expect(result.claimed).toBe(false);
+    expect(result.reason).toBe('RC is at 80%, claiming needs at least 90%');
+    expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+  });
+
+  it('should not claim when the mana is below the minimum, whatever the percentage', async () => {
+    mockSteemApi.getAccountRC.mockResolvedValue({
+      max_rc: '1000000000',
+      rc_manabar: { current_mana: '1000000000', last_update_time: Math.floor(now / 1000) },
+    });
+
+    expect((await service.claim('alice', 'active-key')).claimed).toBe(false);
+  });
+
+  it('should only claim for auto-claim accounts with an available key', async () => {
+    await service.setAutoClaim('alice', true);
+    await service.setAutoClaim('bob', true);
+    await service.setAutoClaim('carol', true);
+    await service.setAutoClaim('carol', false);
+
+    const results = await service.claimEligibleAccounts(async (username) =>
+      username === 'alice' ? 'active-key' : undefined
+    );
+
+    expect(results).toEqual([
+      { username: 'alice', claimed: true, transactionId: 'tx_1' },
+      { username: 'bob', claimed: false, reason: 'Active key not available' },
+    ]);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report broadcast failures instead of throwing', async () => {
+    mockTransactionService.sendOperation.mockResolvedValue({ success: false, error: 'missing required active authority' });
+
+    const result = await service.claim('alice', 'active-key');
+
+    expect(result).toEqual({ username: 'alice', claimed: false, reason: 'missing required active authority' });
+  });
+});
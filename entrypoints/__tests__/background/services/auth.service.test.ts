@@ -7,6 +7,13 @@ import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
 
 // Mock dependencies
 vi.mock('../../../../lib/crypto');
+vi.mock('../../../background/utils/encrypt.utils', () => ({
+  default: {
+    createVaultKeyParams: vi.fn(() => ({ salt: 'ab'.repeat(32), kdf: { name: 'scrypt', N: 1024, r: 8, p: 1 } })),
+    deriveVaultKey: vi.fn((password: string) => `vault-key-of-${password}`),
+    clearKeyCache: vi.fn(),
+  },
+}));
 vi.mock('../../../../src/utils/logger.utils', () => ({
   default: {
     info: vi.fn(),
@@ -29,6 +36,8 @@ vi.mock('../../../../src/utils/localStorage.utils', () => ({
 describe('AuthService', () => {
   let authService: AuthService;
   let mockCrypto: any;
+  let mockStorage: any;
+  let mockVault: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -42,7 +51,21 @@ describe('AuthService', () => {
       decryptData: vi.fn(),
     };
     
-    authService = new AuthService(mockCrypto);
+    mockStorage = {
+      rekeyVault: vi.fn(async (_old: string, _new: string, commit: Record<string, any> = {}) => {
+        for (const [key, value] of Object.entries(commit)) {
+          await LocalStorageUtils.saveValueInLocalStorage(key, value);
+        }
+      }),
+    };
+
+    mockVault = {
+      open: vi.fn(),
+      close: vi.fn(),
+      getVaultKey: vi.fn(),
+    };
+
+    authService = new AuthService(mockCrypto, mockStorage, mockVault);
   });
 
   afterEach(() => {
@@ -66,6 +89,7 @@ describe('AuthService', () => {
         passwordHash: hash,
         salt: bytesToHex(salt),
         failedAttempts: 0,
+        vault: { salt: 'ab'.repeat(32), kdf: { name: 'scrypt', N: 1024, r: 8, p: 1 } },
       });
     });
 
@@ -179,9 +203,65 @@ describe('AuthService', () => {
         passwordHash: newHash,
         salt: bytesToHex(newSalt),
         failedAttempts: 0,
+        vault: expect.objectContaining({ salt: expect.any(String) }),
       });
     });
 
+    it('should re-encrypt the vault with the new vault key before saving the new hash', async () => {
+      const vault = { salt: 'cd'.repeat(32), kdf: { name: 'scrypt', N: 1024, r: 8, p: 1 } };
+      (LocalStorageUtils.getValueFromLocalStorage as any).mockImplementation(async () => ({ ...authData, vault }));
+      mockCrypto.validatePassword.mockResolvedValue(true);
+      mockCrypto.generateSalt.mockReturnValue(new Uint8Array(32).fill(2));
+      mockCrypto.hashPassword.mockResolvedValue('rotatedhash');
+
+      await authService.changeKeychainPassword('OldPassword123!', 'NewPassword123!', 'NewPassword123!');
+
+      expect(mockStorage.rekeyVault).toHaveBeenCalledWith(
+        'vault-key-of-OldPassword123!',
+        'vault-key-of-NewPassword123!',
+        { auth_data: expect.any(Object) }
+      );
+      expect(LocalStorageUtils.saveValueInLocalStorage).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ passwordHash: 'rotatedhash' })
+      );
+    });
+
+    it('should rekey a vault still encrypted with the old password', async () => {
+      (LocalStorageUtils.getValueFromLocalStorage as any).mockImplementation(async () => ({
+        passwordHash: 'oldhash',
+        salt: bytesToHex(new Uint8Array(32).fill(1)),
+        failedAttempts: 0,
+      }));
+      mockCrypto.validatePassword.mockResolvedValue(true);
+      mockCrypto.generateSalt.mockReturnValue(new Uint8Array(32).fill(2));
+      mockCrypto.hashPassword.mockResolvedValue('rotatedhash');
+
+      await authService.changeKeychainPassword('OldPassword123!', 'NewPassword123!', 'NewPassword123!');
+
+      expect(mockStorage.rekeyVault).toHaveBeenCalledWith(
+        'OldPassword123!',
+        'vault-key-of-NewPassword123!',
+        { auth_data: expect.any(Object) }
+      );
+    });
+
+    it('should keep the old password when the vault rekey fails', async () => {
+      (LocalStorageUtils.getValueFromLocalStorage as any).mockImplementation(async () => ({ ...authData }));
+      mockCrypto.validatePassword.mockResolvedValue(true);
+      mockCrypto.generateSalt.mockReturnValue(new Uint8Array(32).fill(2));
+      mockCrypto.hashPassword.mockResolvedValue('rotatedhash');
+      mockStorage.rekeyVault.mockRejectedValue(new Error('Unable to decrypt the mainnet vault'));
+
+      await expect(
+        authService.changeKeychainPassword('OldPassword123!', 'NewPassword123!', 'NewPassword123!')
+      ).rejects.toThrow('Unable to decrypt the mainnet vault');
+      expect(LocalStorageUtils.saveValueInLocalStorage).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ passwordHash: 'rotatedhash' })
+      );
+    });
+
     it('should throw error if current password is incorrect', async () => {
       (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(authData);
       mockCrypto.validatePassword.mockResolvedValue(false);
@@ -253,52 +333,41 @@ describe('AuthService', () => {
         expect(authService.getSessionKey()).toMatch(/^[a-f0-9]{64}$/);
       });
 
-      it('should not unlock with invalid password', async () => {
-        const authData = {
+      it('should open the vault session with the key derived from the password', async () => {
+        const vault = { salt: 'cd'.repeat(32), kdf: { name: 'scrypt', N: 1024, r: 8, p: 1 } };
+        (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue({
           passwordHash: 'hash',
           salt: bytesToHex(new Uint8Array(32).fill(1)),
           failedAttempts: 0,
-        };
-
-        (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(authData);
-        mockCrypto.validatePassword.mockResolvedValue(false);
+          vault,
+        });
+        mockCrypto.validatePassword.mockResolvedValue(true);
 
-        const result = await authService.unlockKeychain('wrong');
+        await authService.unlockKeychain('password');
 
-        expect(result).toBe(false);
-        expect(authService.isLocked()).toBe(true);
+        expect(mockVault.open).toHaveBeenCalledWith('vault-key-of-password');
+        expect(mockStorage.rekeyVault).not.toHaveBeenCalled();
       });
-    });
 
-    describe('lockKeychain', () => {
-      it('should lock keychain and clear session', async () => {
-        // First unlock
-        const authData = {
+      it('should move a vault encrypted with the password to the vault key on first unlock', async () => {
+        (LocalStorageUtils.getValueFromLocalStorage as any).mockImplementation(async () => ({
           passwordHash: 'hash',
           salt: bytesToHex(new Uint8Array(32).fill(1)),
           failedAttempts: 0,
-        };
-
-        (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(authData);
+        }));
         mockCrypto.validatePassword.mockResolvedValue(true);
-        (LocalStorageUtils.saveValueInLocalStorage as any).mockResolvedValue(undefined);
 
         await authService.unlockKeychain('password');
-        expect(authService.isLocked()).toBe(false);
-
-        // Then lock
-        authService.lockKeychain();
 
-        expect(authService.isLocked()).toBe(true);
-        expect(authService.getSessionKey()).toBe(null);
+        expect(mockStorage.rekeyVault).toHaveBeenCalledWith('password', 'vault-key-of-password', { auth_data: expect.any(Object) });
+        expect(LocalStorageUtils.saveValueInLocalStorage).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ vault: expect.objectContaining({ salt: 'ab'.repeat(32) }) })
+        );
+        expect(mockVault.open).toHaveBeenCalledWith('vault-key-of-password');
       });
-    });
 
-    describe('Auto-lock', () => {
-      it('should setup auto-lock timer', async () => {
-        vi.useFakeTimers();
-
-        // Unlock first
+      it('should not unlock with invalid password', async () => {
         const authData = {
           passwordHash: 'hash',
           salt: bytesToHex(new Uint8Array(32).fill(1)),
@@ -306,27 +375,18 @@ describe('AuthService', () => {
         };
 
         (LocalStorageUtils.getValueFromLocalStorage as any).mockResolvedValue(authData);
-        mockCrypto.validatePassword.mockResolvedValue(true);
-        (LocalStorageUtils.saveValueInLocalStorage as any).mockResolvedValue(undefined);
-
-        await authService.unlockKeychain('password');
-
-        // Setup auto-lock for 5 minutes
-        authService.setupAutoLock(5);
+        mockCrypto.validatePassword.mockResolvedValue(false);
 
-        // Fast forward 4 minutes - should still be unlocked
-        vi.advanceTimersByTime(4 * 60 * 1000);
-        expect(authService.isLocked()).toBe(false);
+        const result = await authService.unlockKeychain('wrong');
 
-        // Fast forward another 2 minutes - should be locked
-        vi.advanceTimersByTime(2 * 60 * 1000);
+        expect(result).toBe(false);
         expect(authService.isLocked()).toBe(true);
       });
+    });
 
-      it('should clear auto-lock timer', async () => {
-        vi.useFakeTimers();
-
-        // Unlock and setup auto-lock
+    describe('lockKeychain', () => {
+      it('should lock keychain and clear session', async () => {
+        // First unlock
         const authData = {
           passwordHash: 'hash',
           salt: bytesToHex(new Uint8Array(32).fill(1)),
@@ -338,18 +398,14 @@ describe('AuthService', () => {
         (LocalStorageUtils.saveValueInLocalStorage as any).mockResolvedValue(undefined);
 
         await authService.unlockKeychain('password');
-        authService.setupAutoLock(5);
-
-        // Clear auto-lock
-        authService.clearAutoLock();
-
-        // Fast forward 10 minutes - should still be unlocked
-        vi.advanceTimersByTime(10 * 60 * 1000);
         expect(authService.isLocked()).toBe(false);
-      });
 
-      it('should throw error if no session when setting auto-lock', () => {
-        expect(() => authService.setupAutoLock(5)).toThrow('No active session');
+        // Then lock
+        authService.lockKeychain();
+
+        expect(authService.isLocked()).toBe(true);
+        expect(authService.getSessionKey()).toBe(null);
+        expect(mockVault.close).toHaveBeenCalled();
       });
     });
   });
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { browser } from 'wxt/browser';
+import { fakeBrowser } from 'wxt/testing';
+import { AutoLockService } from '../../../background/services/auto-lock.service';
+import { SettingsService } from '../../../background/services/settings.service';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+
+describe('AutoLockService', () => {
+  let service: AutoLockService;
+  let settings: SettingsService;
+  let lock: ReturnType<typeof vi.fn>;
+  const start = new Date('2026-01-01T00:00:00Z').getTime();
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.restoreAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+    vi.spyOn(browser.alarms, 'create').mockResolvedValue(undefined as any);
+    vi.spyOn(browser.alarms, 'clear').mockResolvedValue(true as any);
+    vi.spyOn(browser.idle, 'setDetectionInterval').mockImplementation(() => undefined as any);
+    vi.spyOn(browser.windows, 'getAll').mockResolvedValue([]);
+    lock = vi.fn().mockResolvedValue(undefined);
+    settings = new SettingsService();
+    service = new AutoLockService(lock, settings);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fall back to the configured defaults', async () => {
+    expect(await service.getSettings()).toEqual(SettingsService.getDefaultSettings().autoLock);
+  });
+
+  it('should keep other settings when saving its own', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.SETTINGS, { theme: 'dark' });
+
+    await service.saveSettings({ idleMinutes: 5, maxSessionMinutes: 120 });
+
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.SETTINGS)).toMatchObject({
+      theme: 'dark',
+      autoLock: expect.objectContaining({ idleMinutes: 5, maxSessionMinutes: 120 }),
+    });
+    expect(browser.idle.setDetectionInterval).toHaveBeenCalledWith(300);
+  });
+
+  it('should reject settings out of range', async () => {
+    await expect(service.saveSettings({ idleMinutes: -1 })).rejects.toThrow('idleMinutes must be');
+    await expect(service.saveSettings({ maxSessionMinutes: 1.5 })).rejects.toThrow('maxSessionMinutes must be');
+    await expect(service.saveSettings({ lockOnSystemLock: 'yes' as any })).rejects.toThrow('lockOnSystemLock must be');
+  });
+
+  it('should set the alarm to the nearest deadline', async () => {
+    await service.saveSettings({ idleMinutes: 15, maxSessionMinutes: 10 });
+    await service.start();
+
+    expect(await service.getStatus()).toMatchObject({ lockAt: start + 10 * MINUTE, reason: 'max_session' });
+    expect(browser.alarms.create).toHaveBeenLastCalledWith(AutoLockService.LOCK_ALARM, {
+      when: start + 10 * MINUTE,
+    });
+  });
+
+  it('should push the inactivity deadline back when the keychain is used', async () => {
+    await service.saveSettings({ idleMinutes: 15, maxSessionMinutes: 0 });
+    await service.start();
+
+    vi.setSystemTime(start + 5 * MINUTE);
+    await service.touch();
+
+    expect(await service.getStatus()).toMatchObject({ lockAt: start + 20 * MINUTE, reason: 'idle' });
+  });
+
+  it('should lock once the alarm finds the deadline passed', async () => {
+    await service.saveSettings({ idleMinutes: 15 });
+    await service.start();
+
+    vi.setSystemTime(start + 14 * MINUTE);
+    await service.handleAlarm();
+    expect(lock).not.toHaveBeenCalled();
+
+    vi.setSystemTime(start + 15 * MINUTE);
+    await service.handleAlarm();
+    expect(lock).toHaveBeenCalledWith('idle');
+    expect(await service.getStatus()).toMatchObject({ lockAt: null });
+  });
+
+  it('should reschedule when the policies change through the settings', async () => {
+    await service.start();
+
+    await settings.updateSettings({ autoLock: { idleMinutes: 5 } });
+
+    expect(browser.alarms.create).toHaveBeenLastCalledWith(AutoLockService.LOCK_ALARM, {
+      when: start + 5 * MINUTE,
+    });
+  });
+
+  it('should have no deadline while locked or when timed policies are off', async () => {
+    expect((await service.getStatus()).lockAt).toBeNull();
+
+    await service.saveSettings({ idleMinutes: 0, maxSessionMinutes: 0 });
+    await service.start();
+    expect((await service.getStatus()).lockAt).toBeNull();
+  });
+
+  it('should lock when the system locks, if enabled', async () => {
+    await service.start();
+
+    await service.saveSettings({ lockOnSystemLock: false });
+    await service.handleIdleStateChange('locked');
+    expect(lock).not.toHaveBeenCalled();
+
+    await service.saveSettings({ lockOnSystemLock: true });
+    await service.handleIdleStateChange('locked');
+    expect(lock).toHaveBeenCalledWith('system_lock');
+  });
+
+  it('should ignore idle events while locked', async () => {
+    await service.handleIdleStateChange('locked');
+
+    expect(lock).not.toHaveBeenCalled();
+  });
+
+  it('should lock when the last browser window closes', async () => {
+    await service.start();
+    vi.mocked(browser.windows.getAll).mockResolvedValueOnce([{ id: 1 } as any]);
+
+    await service.handleWindowRemoved();
+    expect(lock).not.toHaveBeenCalled();
+
+    await service.handleWindowRemoved();
+    expect(lock).toHaveBeenCalledWith('browser_close');
+  });
+
+  it('should lock on start up when a deadline passed while the worker was stopped', async () => {
+    await service.saveSettings({ idleMinutes: 0, maxSessionMinutes: 30 });
+    await service.start();
+
+    vi.setSystemTime(start + 31 * MINUTE);
+    await new AutoLockService(lock, new SettingsService()).init();
+
+    expect(lock).toHaveBeenCalledWith('max_session');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { EscrowTrackerService } from '../../../background/services/escrow-tracker.service';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const chainEscrow = {
+  escrow_id: 9,
+  from: 'buyer',
+  to: 'seller',
+  agent: 'agent',
+  ratification_deadline: '2030-01-01T00:00:00',
+  escrow_expiration: '2030-01-15T00:00:00',
+  sbd_balance: '5.000 SBD',
+  steem_balance: '0.000 STEEM',
+  pending_fee: '0.100 STEEM',
+  to_approved: true,
+  agent_approved: false,
+  disputed: false,
+};
+
+const release = (receiver: string, sbd: string) => [
+  12,
+  {
+    op: [
+      'escrow_release',
+      { from: 'buyer', to: 'seller', agent: 'agent', who: 'buyer', receiver, escrow_id: 9, sbd_amount: sbd, steem_amount: '0.000 STEEM' },
+    ],
+  },
+];
+
+const sale = { universal_id: 'ua_1', seller: 'seller', buyer: 'buyer', price: { amount: '5.000', currency: 'SBD' } };
+
+describe('EscrowTrackerService', () => {
+  let service: EscrowTrackerService;
+  let mockSteemApi: any;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+
+    mockSteemApi = {
+      getEscrow: vi.fn().mockResolvedValue(chainEscrow),
+      getAccountHistory: vi.fn().mockResolvedValue([]),
+    };
+
+    service = new EscrowTrackerService(mockSteemApi);
+  });
+
+  it('should link a sale to an escrow found on chain', async () => {
+    const linked = await service.linkAssetTransfer('buyer', 9, sale);
+
+    expect(linked).toMatchObject({ from: 'buyer', to: 'seller', sbd_amount: '5.000 SBD', agent_approved: false });
+    expect(linked.linked_asset).toEqual({
+      ...sale,
+      escrowed: { sbd_amount: '5.000 SBD', steem_amount: '0.000 STEEM' },
+      transferred: false,
+    });
+    expect(await service.find('buyer', 9)).toEqual(linked);
+  });
+
+  it('should refuse escrows that do not pay the seller', async () => {
+    await expect(
+      service.linkAssetTransfer('buyer', 9, { ...sale, seller: 'someone' })
+    ).rejects.toThrow('Escrow 9 must be from @buyer to @someone');
+  });
+
+  it('should refuse escrows worth less than the price', async () => {
+    await expect(
+      service.linkAssetTransfer('buyer', 9, { ...sale, price: { amount: '5.001', currency: 'SBD' } })
+    ).rejects.toThrow('Escrow 9 holds 5.000 SBD, less than the price of 5.001 SBD');
+    await expect(
+      service.linkAssetTransfer('buyer', 9, { ...sale, price: { amount: '1.000', currency: 'STEEM' } })
+    ).rejects.toThrow('Escrow 9 holds 0.000 STEEM');
+    await expect(service.linkAssetTransfer('buyer', 9, { ...sale, price: undefined })).rejects.toThrow(
+      'needs a price in SBD or STEEM'
+    );
+    expect(await service.find('buyer', 9)).toBeUndefined();
+  });
+
+  it('should keep the escrowed amounts when a partial release shrinks the balance', async () => {
+    const escrow = await service.linkAssetTransfer('buyer', 9, sale);
+    mockSteemApi.getEscrow.mockResolvedValue({ ...chainEscrow, sbd_balance: '2.000 SBD' });
+
+    const [refreshed] = await service.getOpenEscrows('seller');
+
+    expect(refreshed.sbd_amount).toBe('2.000 SBD');
+    expect(refreshed.linked_asset?.escrowed).toEqual(escrow.linked_asset?.escrowed);
+    mockSteemApi.getAccountHistory.mockResolvedValue([release('seller', '3.000 SBD')]);
+    expect(await service.isReleasedToSeller(refreshed)).toBe(false);
+  });
+
+  it('should refuse to pay for two assets with one escrow', async () => {
+    await service.linkAssetTransfer('buyer', 9, sale);
+
+    await expect(service.linkAssetTransfer('buyer', 9, { ...sale, universal_id: 'ua_2' })).rejects.toThrow(
+      'Escrow 9 already pays for asset ua_1'
+    );
+  });
+
+  it('should only count releases to the seller', async () => {
+    const escrow = await service.linkAssetTransfer('buyer', 9, sale);
+
+    mockSteemApi.getAccountHistory.mockResolvedValue([release('buyer', '5.000 SBD')]);
+    expect(await service.isReleasedToSeller(escrow)).toBe(false);
+
+    mockSteemApi.getAccountHistory.mockResolvedValue([release('seller', '2.000 SBD'), release('seller', '3.000 SBD')]);
+    expect(await service.isReleasedToSeller(escrow)).toBe(true);
+    expect(mockSteemApi.getAccountHistory).toHaveBeenCalledWith('seller', -1, 100);
+  });
+
+  it('should list released sales until their asset is delivered', async () => {
+    await service.linkAssetTransfer('buyer', 9, sale);
+    mockSteemApi.getAccountHistory.mockResolvedValue([release('seller', '5.000 SBD')]);
+
+    expect(await service.getReleasedAssetTransfers()).toHaveLength(1);
+
+    await service.markTransferred('buyer', 9, 'tx_1');
+
+    expect(await service.getReleasedAssetTransfers()).toEqual([]);
+    expect((await service.find('buyer', 9))?.linked_asset).toMatchObject({ transferred: true, transaction_id: 'tx_1' });
+  });
+
+  it('should drop escrows that closed on chain from the open list', async () => {
+    await service.track({
+      from: 'buyer',
+      to: 'seller',
+      agent: 'agent',
+      escrow_id: 10,
+      sbd_amount: '1.000 SBD',
+      steem_amount: '0.000 STEEM',
+      fee: '0.001 STEEM',
+      ratification_deadline: '2030-01-01T00:00:00',
+      escrow_expiration: '2030-01-15T00:00:00',
+      to_approved: false,
+      agent_approved: false,
+      disputed: false,
+      closed: false,
+    });
+    await service.linkAssetTransfer('buyer', 9, sale);
+    mockSteemApi.getEscrow.mockImplementation(async (_from: string, id: number) => (id === 9 ? chainEscrow : null));
+
+    const open = await service.getOpenEscrows('seller');
+
+    expect(open.map((escrow) => escrow.escrow_id)).toEqual([9]);
+    expect(await service.find('buyer', 10)).toBeUndefined();
+  });
+});
@@ -79,8 +79,12 @@ vi.mock('../../../background/services/keychain/account-management.service', () =
   AccountManagementService: vi.fn(() => ({}))
 }));
 
+const mockAccountCreationService = {
+  handleCreateOnboardingAccount: vi.fn()
+};
+
 vi.mock('../../../background/services/keychain/account-creation.service', () => ({
-  AccountCreationService: vi.fn(() => ({}))
+  AccountCreationService: vi.fn(() => mockAccountCreationService)
 }));
 
 vi.mock('../../../background/services/keychain/broadcast.service', () => ({
@@ -377,6 +381,95 @@ describe('KeychainApiService', () => {
     });
   });
 
+  describe('createOnboardingAccount', () => {
+    const request = { type: 'createOnboardingAccount', request_id: 123, username: 'gamemaster', new_account: 'playerone' };
+
+    it('should create the account and hand back the new keys', async () => {
+      const handoff = { account: 'playerone', creator: 'gamemaster', masterPassword: 'P5secret' };
+      mockAccountCreationService.handleCreateOnboardingAccount.mockResolvedValue({
+        success: true,
+        result: { id: 'tx_1', handoff },
+        request_id: 123
+      });
+
+      const result = await service.createOnboardingAccount(request);
+
+      expect(mockAccountCreationService.handleCreateOnboardingAccount).toHaveBeenCalledWith(request);
+      expect(result.result.handoff).toEqual(handoff);
+    });
+
+    it('should not be reachable as a dApp request', async () => {
+      const result = await service.handleKeychainRequest(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown request type');
+      expect(mockAccountCreationService.handleCreateOnboardingAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleKeychainRequest - Request RPC', () => {
+    const pinnedApi = { pinned: true };
+    let steemApi: { forRpc: ReturnType<typeof vi.fn> };
+    let transactionService: { withSteemApi: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      steemApi = { forRpc: vi.fn().mockResolvedValue(pinnedApi) };
+      transactionService = { withSteemApi: vi.fn(() => ({})) };
+      service = new KeychainApiService({} as any, steemApi as any, {} as any, transactionService as any);
+    });
+
+    it('should run the request against the node it names', async () => {
+      const request = { type: 'powerUp', request_id: 123, username: 'testuser', steem: '1.000', rpc: 'https://own.rpc' };
+
+      const result = await service.handleKeychainRequest(request);
+
+      expect(result.success).toBe(true);
+      expect(steemApi.forRpc).toHaveBeenCalledWith('https://own.rpc');
+      expect(transactionService.withSteemApi).toHaveBeenCalledWith(pinnedApi);
+      expect(mockPowerService.handlePowerUp).toHaveBeenCalledWith({
+        type: 'powerUp',
+        request_id: 123,
+        username: 'testuser',
+        steem: '1.000',
+      });
+    });
+
+    it('should build authority changes from the pool the preview came from', async () => {
+      const request = {
+        type: 'addAccountAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedUsername: 'authorized',
+        role: 'posting',
+        weight: 1,
+        rpc: 'https://own.rpc'
+      };
+
+      await service.handleKeychainRequest(request);
+
+      expect(steemApi.forRpc).not.toHaveBeenCalled();
+      expect(mockAccountAuthorityService.handleAddAccountAuthority).toHaveBeenCalledWith(
+        expect.not.objectContaining({ rpc: expect.anything() })
+      );
+    });
+
+    it('should fail the request when the node is refused', async () => {
+      steemApi.forRpc.mockRejectedValue(new Error('https://own.rpc does not serve the Mainnet chain'));
+
+      const result = await service.handleKeychainRequest({
+        type: 'powerUp',
+        request_id: 123,
+        username: 'testuser',
+        steem: '1.000',
+        rpc: 'https://own.rpc'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('https://own.rpc does not serve the Mainnet chain');
+      expect(mockPowerService.handlePowerUp).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle unknown request types', async () => {
       const request = {
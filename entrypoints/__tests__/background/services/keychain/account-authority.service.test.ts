@@ -1,10 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PrivateKey } from '@steempro/dsteem';
 import { AccountAuthorityService } from '../../../../background/services/keychain/account-authority.service';
 import { KeychainError } from '../../../../../src/keychain-error';
 
-vi.mock('../../../../../src/utils/localStorage.utils', () => ({
-  default: {
-    getValueFromSessionStorage: vi.fn().mockResolvedValue('mock-password')
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
   }
 }));
 
@@ -12,6 +13,14 @@ describe('AccountAuthorityService', () => {
   let service: AccountAuthorityService;
   let mockAccountService: any;
   let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const publicKey = (role: 'owner' | 'active' | 'posting' | 'memo') => PrivateKey.fromLogin('testuser', 'password', role).createPublic().toString();
+  const authority = (role: 'owner' | 'active' | 'posting', accounts: [string, number][] = [['authorized_user', 1]]) => ({
+    weight_threshold: 1,
+    account_auths: accounts,
+    key_auths: [[publicKey(role), 1]]
+  });
 
   beforeEach(async () => {
     mockAccountService = {
@@ -24,13 +33,27 @@ describe('AccountAuthorityService', () => {
 
     mockTransactionService = {
       sendOperation: vi.fn().mockResolvedValue({
-        id: 'tx_123',
-        block_num: 12345,
-        trx_num: 1
+        success: true,
+        result: {
+          id: 'tx_123',
+          block_num: 12345,
+          trx_num: 1
+        }
       })
     } as any;
 
-    service = new AccountAuthorityService(mockAccountService, mockTransactionService);
+    mockSteemApiService = {
+      getAccount: vi.fn().mockResolvedValue([{
+        name: 'testuser',
+        owner: authority('owner'),
+        active: authority('active'),
+        posting: authority('posting'),
+        memo_key: publicKey('memo'),
+        json_metadata: '{"profile":{}}'
+      }])
+    } as any;
+
+    service = new AccountAuthorityService(mockAccountService, mockTransactionService, mockSteemApiService);
   });
 
   describe('handleAddAccountAuthority', () => {
@@ -55,9 +78,29 @@ describe('AccountAuthorityService', () => {
       });
     });
 
+    it('should fail when the broadcast is rejected', async () => {
+      mockTransactionService.sendOperation.mockResolvedValue({
+        success: false,
+        error: 'Transaction rejected by blockchain: missing required active authority',
+        transaction: null
+      });
+
+      const result = await service.handleAddAccountAuthority({
+        type: 'addAccountAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedUsername: 'authorized_user',
+        role: 'Posting',
+        weight: 1
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction rejected by blockchain: missing required active authority');
+    });
+
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'addAccountAuthority',
@@ -75,7 +118,7 @@ describe('AccountAuthorityService', () => {
       expect(result.request_id).toBe(123);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
@@ -190,8 +233,8 @@ describe('AccountAuthorityService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'removeAccountAuthority',
@@ -208,7 +251,7 @@ describe('AccountAuthorityService', () => {
       expect(result.request_id).toBe(456);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
@@ -257,4 +300,100 @@ describe('AccountAuthorityService', () => {
       expect(result.request_id).toBe(456);
     });
   });
-});
\ No newline at end of file
+
+  describe('authority preservation', () => {
+    it('should keep existing keys, accounts and threshold when adding', async () => {
+      const request = {
+        type: 'addAccountAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedUsername: 'another_app',
+        role: 'Posting',
+        weight: 1
+      };
+
+      await service.handleAddAccountAuthority(request);
+
+      const [[operations, key]] = mockTransactionService.sendOperation.mock.calls;
+      expect(key).toEqual({ type: 'active', value: 'active-key' });
+      expect(operations[0][0]).toBe('account_update');
+      expect(operations[0][1]).toEqual({
+        account: 'testuser',
+        memo_key: publicKey('memo'),
+        json_metadata: '{"profile":{}}',
+        posting: {
+          weight_threshold: 1,
+          account_auths: [['another_app', 1], ['authorized_user', 1]],
+          key_auths: [[publicKey('posting'), 1]]
+        }
+      });
+    });
+
+    it('should sign owner changes with the owner key', async () => {
+      const request = {
+        type: 'removeAccountAuthority',
+        request_id: 456,
+        username: 'testuser',
+        authorizedUsername: 'authorized_user',
+        role: 'Owner'
+      };
+
+      await service.handleRemoveAccountAuthority(request);
+
+      expect(mockTransactionService.sendOperation.mock.calls[0][1]).toEqual({ type: 'owner', value: 'owner-key' });
+      expect(mockTransactionService.sendOperation.mock.calls[0][0][0][1].owner.account_auths).toEqual([]);
+    });
+
+    it('should refuse a removal that leaves the threshold unreachable', async () => {
+      mockSteemApiService.getAccount.mockResolvedValue([{
+        name: 'testuser',
+        active: { weight_threshold: 2, account_auths: [['authorized_user', 1]], key_auths: [[publicKey('active'), 1]] },
+        memo_key: publicKey('memo'),
+        json_metadata: ''
+      }]);
+
+      const result = await service.handleRemoveAccountAuthority({
+        type: 'removeAccountAuthority',
+        request_id: 456,
+        username: 'testuser',
+        authorizedUsername: 'authorized_user',
+        role: 'Active'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This change would leave the active authority unable to reach its weight threshold');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+
+    it('should fail when removing an account that is not authorized', async () => {
+      const result = await service.handleRemoveAccountAuthority({
+        type: 'removeAccountAuthority',
+        request_id: 456,
+        username: 'testuser',
+        authorizedUsername: 'stranger',
+        role: 'Posting'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('@stranger is not part of this authority');
+    });
+
+    it('should preview the before/after diff without signing', async () => {
+      const result = await service.previewAccountAuthorityChange({
+        type: 'addAccountAuthority',
+        request_id: 789,
+        username: 'testuser',
+        authorizedUsername: 'authorized_user',
+        role: 'Active',
+        weight: 2
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.changes).toEqual([
+        { type: 'account', name: 'authorized_user', before: 1, after: 2 }
+      ]);
+      expect(result.result.before.account_auths).toEqual([['authorized_user', 1]]);
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+  });
+});
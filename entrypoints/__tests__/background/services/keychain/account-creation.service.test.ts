@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PrivateKey } from '@steempro/dsteem';
+import { AccountCreationService } from '../../../../background/services/keychain/account-creation.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('AccountCreationService', () => {
+  let service: AccountCreationService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const memoKey = PrivateKey.fromSeed('memo').createPublic().toString();
+  const authority = (seed: string) => ({
+    weight_threshold: 1,
+    account_auths: [],
+    key_auths: [[PrivateKey.fromSeed(seed).createPublic().toString(), 1]]
+  });
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'gamemaster',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      })
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    mockSteemApiService = {
+      getAccount: vi.fn(async (name: string) =>
+        name === 'gamemaster' ? [{ name, pending_claimed_accounts: 2 }] : []
+      )
+    };
+
+    service = new AccountCreationService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  describe('handleCreateClaimedAccount', () => {
+    it('should broadcast create_claimed_account with authorities sent as JSON strings', async () => {
+      const result = await service.handleCreateClaimedAccount({
+        request_id: 1,
+        username: 'gamemaster',
+        new_account: 'newplayer',
+        owner: JSON.stringify(authority('owner')),
+        active: JSON.stringify(authority('active')),
+        posting: JSON.stringify(authority('posting')),
+        memo: memoKey
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual({ id: 'tx_123', block_num: 12345 });
+      expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+        [
+          [
+            'create_claimed_account',
+            {
+              creator: 'gamemaster',
+              new_account_name: 'newplayer',
+              owner: authority('owner'),
+              active: authority('active'),
+              posting: authority('posting'),
+              memo_key: memoKey,
+              json_metadata: '',
+              extensions: []
+            }
+          ]
+        ],
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should refuse when the creator has no claimed tokens', async () => {
+      mockSteemApiService.getAccount.mockResolvedValue([{ name: 'gamemaster', pending_claimed_accounts: 0 }]);
+
+      const result = await service.handleCreateClaimedAccount({
+        request_id: 1,
+        username: 'gamemaster',
+        new_account: 'newplayer',
+        owner: authority('owner'),
+        active: authority('active'),
+        posting: authority('posting'),
+        memo: memoKey
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('gamemaster has no claimed account tokens');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleCreateOnboardingAccount', () => {
+    it('should create the account with keys derived from a generated master password', async () => {
+      const result = await service.handleCreateOnboardingAccount({
+        request_id: 2,
+        username: 'gamemaster',
+        new_account: 'newplayer'
+      });
+
+      expect(result.success).toBe(true);
+      const { handoff } = result.result;
+      expect(handoff).toMatchObject({ account: 'newplayer', creator: 'gamemaster' });
+      expect(handoff.masterPassword).toMatch(/^P5/);
+
+      const active = PrivateKey.fromLogin('newplayer', handoff.masterPassword, 'active');
+      expect(handoff.keys.active).toEqual({
+        private: active.toString(),
+        public: active.createPublic().toString()
+      });
+
+      const operation = mockTransactionService.sendOperation.mock.calls[0][0][0][1];
+      expect(operation.active.key_auths).toEqual([[handoff.keys.active.public, 1]]);
+      expect(operation.owner.key_auths).toEqual([[handoff.keys.owner.public, 1]]);
+      expect(operation.memo_key).toBe(handoff.keys.memo.public);
+    });
+
+    it('should generate a different master password every time', async () => {
+      const first = await service.handleCreateOnboardingAccount({ request_id: 3, username: 'gamemaster', new_account: 'playerone' });
+      const second = await service.handleCreateOnboardingAccount({ request_id: 4, username: 'gamemaster', new_account: 'playertwo' });
+
+      expect(first.result.handoff.masterPassword).not.toBe(second.result.handoff.masterPassword);
+    });
+
+    it('should refuse names that are already taken', async () => {
+      mockSteemApiService.getAccount.mockImplementation(async (name: string) => [{ name, pending_claimed_accounts: 2 }]);
+
+      const result = await service.handleCreateOnboardingAccount({
+        request_id: 5,
+        username: 'gamemaster',
+        new_account: 'taken'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Account taken already exists');
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { AssetService } from '../../../../background/services/keychain/asset.service';
+import { EscrowTrackerService } from '../../../../background/services/escrow-tracker.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+vi.mock('../../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn()
+  }
+}));
+
+describe('AssetService', () => {
+  let service: AssetService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key' }
+      })
+    };
+
+    mockTransactionService = {
+      broadcastCustomJson: vi.fn().mockResolvedValue({ success: true, result: { id: 'tx_123' } })
+    };
+
+    mockSteemApiService = {
+      getCustomJsonByAccount: vi.fn().mockResolvedValue([])
+    };
+
+    service = new AssetService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  describe('handleAssetCreate', () => {
+    it('should broadcast an etta_asset custom_json and return the new id', async () => {
+      const result = await service.handleAssetCreate({
+        type: 'asset_create',
+        request_id: 1,
+        username: 'testuser',
+        assetRequest: { base_metadata: { name: 'Sword' }, asset_type: 'weapon' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.transaction_id).toBe('tx_123');
+      expect(result.result.universal_id).toMatch(/^ua_/);
+      expect(result.result.asset).toMatchObject({ name: 'Sword', asset_type: 'weapon', creator: 'testuser' });
+      expect(mockTransactionService.broadcastCustomJson).toHaveBeenCalledWith(
+        'etta_asset',
+        { operation: 'asset_create', data: result.result.asset },
+        'testuser',
+        { type: 'posting', value: 'posting-key' }
+      );
+    });
+
+    it('should fail when the broadcast returns no transaction id', async () => {
+      mockTransactionService.broadcastCustomJson.mockResolvedValue({ success: false, error: 'Missing posting authority' });
+
+      const result = await service.handleAssetCreate({
+        type: 'asset_create',
+        request_id: 1,
+        username: 'testuser',
+        assetRequest: {}
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Missing posting authority');
+    });
+  });
+
+  describe('handleAssetTransfer', () => {
+    it('should broadcast the transfer to the new owner', async () => {
+      const result = await service.handleAssetTransfer({
+        type: 'asset_transfer',
+        request_id: 2,
+        username: 'testuser',
+        universalId: 'ua_1',
+        toUser: 'bob',
+        transferType: 'gift'
+      });
+
+      expect(result).toEqual({
+        success: true,
+        result: { universal_id: 'ua_1', transaction_id: 'tx_123', to: 'bob' },
+        request_id: 2
+      });
+      expect(mockTransactionService.broadcastCustomJson.mock.calls[0][1]).toMatchObject({
+        operation: 'asset_transfer',
+        data: { universal_id: 'ua_1', from: 'testuser', to: 'bob' }
+      });
+    });
+
+    it('should refuse transfers to yourself', async () => {
+      const result = await service.handleAssetTransfer({
+        type: 'asset_transfer',
+        request_id: 2,
+        username: 'testuser',
+        universalId: 'ua_1',
+        toUser: 'testuser'
+      });
+
+      expect(result.error).toBe('Cannot transfer an asset to yourself');
+    });
+
+    describe('with an escrow', () => {
+      let mockEscrowTracker: any;
+      const saleRequest = {
+        type: 'asset_transfer',
+        request_id: 3,
+        username: 'testuser',
+        universalId: 'ua_1',
+        toUser: 'bob',
+        transferType: 'sale',
+        options: { price: { amount: '5.000', currency: 'SBD' }, escrow: { from: 'bob', escrow_id: 9 } }
+      };
+
+      beforeEach(() => {
+        mockEscrowTracker = {
+          linkAssetTransfer: vi.fn().mockResolvedValue({ from: 'bob', escrow_id: 9 }),
+          isReleasedToSeller: vi.fn().mockResolvedValue(false),
+          markTransferred: vi.fn().mockResolvedValue(undefined)
+        };
+        service = new AssetService(mockAccountService, mockTransactionService, mockSteemApiService, mockEscrowTracker);
+      });
+
+      it('should hold the sale until the escrow is released to the seller', async () => {
+        const result = await service.handleAssetTransfer(saleRequest);
+
+        expect(result.result).toEqual({ universal_id: 'ua_1', pending: true, escrow_id: 9, to: 'bob' });
+        expect(mockEscrowTracker.linkAssetTransfer).toHaveBeenCalledWith('bob', 9, {
+          universal_id: 'ua_1',
+          seller: 'testuser',
+          buyer: 'bob',
+          price: { amount: '5.000', currency: 'SBD' },
+          memo: undefined,
+          game_context: undefined
+        });
+        expect(mockTransactionService.broadcastCustomJson).not.toHaveBeenCalled();
+      });
+
+      it('should deliver the asset once the payment was released', async () => {
+        mockEscrowTracker.isReleasedToSeller.mockResolvedValue(true);
+
+        const result = await service.handleAssetTransfer(saleRequest);
+
+        expect(result.result).toEqual({ universal_id: 'ua_1', transaction_id: 'tx_123', to: 'bob' });
+        expect(mockEscrowTracker.markTransferred).toHaveBeenCalledWith('bob', 9, 'tx_123');
+      });
+
+      it('should only settle sales through an escrow', async () => {
+        const result = await service.handleAssetTransfer({ ...saleRequest, transferType: 'gift' });
+
+        expect(result.error).toBe('Only sales can be settled through an escrow');
+      });
+
+      describe('settleEscrowAssetTransfer', () => {
+        let escrowTracker: EscrowTrackerService;
+
+        beforeEach(() => {
+          fakeBrowser.reset();
+          mockSteemApiService.getEscrow = vi.fn().mockResolvedValue({
+            escrow_id: 9,
+            from: 'bob',
+            to: 'testuser',
+            agent: 'agent',
+            ratification_deadline: '2030-01-01T00:00:00',
+            escrow_expiration: '2030-01-15T00:00:00',
+            sbd_balance: '5.000 SBD',
+            steem_balance: '0.000 STEEM',
+            pending_fee: '0.100 STEEM',
+            to_approved: true,
+            agent_approved: true,
+            disputed: false
+          });
+          mockSteemApiService.getAccountHistory = vi.fn().mockResolvedValue([]);
+          escrowTracker = new EscrowTrackerService(mockSteemApiService);
+          service = new AssetService(mockAccountService, mockTransactionService, mockSteemApiService, escrowTracker);
+        });
+
+        it('should deliver a fully released sale although the escrow is gone from the chain', async () => {
+          const held = await service.handleAssetTransfer(saleRequest);
+          expect(held.result.pending).toBe(true);
+
+          // Fully paid out: the release is in the seller's history and the escrow is gone
+          mockSteemApiService.getAccountHistory.mockResolvedValue([
+            [
+              12,
+              {
+                op: [
+                  'escrow_release',
+                  { from: 'bob', receiver: 'testuser', escrow_id: 9, sbd_amount: '5.000 SBD', steem_amount: '0.000 STEEM' }
+                ]
+              }
+            ]
+          ]);
+          mockSteemApiService.getEscrow.mockResolvedValue(null);
+
+          const [released] = await escrowTracker.getReleasedAssetTransfers();
+          const result = await service.settleEscrowAssetTransfer(released);
+
+          expect(result.result).toEqual({ universal_id: 'ua_1', transaction_id: 'tx_123', to: 'bob' });
+          expect(mockTransactionService.broadcastCustomJson).toHaveBeenCalledWith(
+            'etta_asset',
+            {
+              operation: 'asset_transfer',
+              data: expect.objectContaining({ universal_id: 'ua_1', from: 'testuser', to: 'bob', transfer_type: 'sale' })
+            },
+            'testuser',
+            { type: 'posting', value: 'posting-key' }
+          );
+          expect((await escrowTracker.find('bob', 9))?.linked_asset).toMatchObject({
+            transferred: true,
+            transaction_id: 'tx_123'
+          });
+          expect(await escrowTracker.getReleasedAssetTransfers()).toEqual([]);
+        });
+      });
+    });
+  });
+
+  describe('handleAssetBurn', () => {
+    it('should require a universal id', async () => {
+      const result = await service.handleAssetBurn({ type: 'asset_burn', request_id: 3, username: 'testuser' });
+
+      expect(result.error).toBe('Missing required parameters: universalId');
+      expect(mockTransactionService.broadcastCustomJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleAssetVerifyOwnership', () => {
+    const op = (sequence: number, operation: string, universal_id = 'ua_1') => ({
+      sequence,
+      transaction_id: `tx_${sequence}`,
+      json_data: { operation, data: { universal_id } }
+    });
+
+    it('should verify assets the account created and still holds', async () => {
+      mockSteemApiService.getCustomJsonByAccount.mockResolvedValue([op(1, 'asset_create'), op(2, 'asset_update')]);
+
+      const result = await service.handleAssetVerifyOwnership({
+        type: 'asset_verify_ownership',
+        request_id: 4,
+        username: 'testuser',
+        universalId: 'ua_1'
+      });
+
+      expect(result.result).toMatchObject({ verified: true, last_operation: 'asset_update', transaction_id: 'tx_2' });
+    });
+
+    it('should not verify assets that were transferred away', async () => {
+      mockSteemApiService.getCustomJsonByAccount.mockResolvedValue([
+        op(3, 'asset_transfer'),
+        op(1, 'asset_create'),
+        op(2, 'asset_create', 'ua_other')
+      ]);
+
+      const result = await service.handleAssetVerifyOwnership({
+        type: 'asset_verify_ownership',
+        request_id: 4,
+        username: 'testuser',
+        universalId: 'ua_1'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.verified).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CustomJsonService } from '../../../../background/services/keychain/custom-json.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('CustomJsonService', () => {
+  let service: CustomJsonService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      }),
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
+    };
+
+    mockTransactionService = {
+      broadcastCustomJson: vi.fn().mockResolvedValue({ success: true, result: { id: 'tx_123' } }),
+      simulateCustomJson: vi.fn().mockResolvedValue({ isValid: true, errors: [], warnings: [], info: [] })
+    };
+
+    service = new CustomJsonService(mockAccountService, mockTransactionService);
+  });
+
+  it('should broadcast with the posting key by default', async () => {
+    const result = await service.handleCustomJson({
+      type: 'custom',
+      request_id: 1,
+      username: 'testuser',
+      id: 'etta_game',
+      json: '{"action":"play"}'
+    });
+
+    expect(result).toEqual({ success: true, result: { id: 'tx_123' }, request_id: 1 });
+    // The string payload is parsed so it isn't stringified twice
+    expect(mockTransactionService.broadcastCustomJson).toHaveBeenCalledWith(
+      'etta_game',
+      { action: 'play' },
+      'testuser',
+      { type: 'posting', value: 'posting-key' }
+    );
+  });
+
+  it('should use the active key when requested', async () => {
+    await service.handleCustomJson({
+      type: 'custom',
+      request_id: 1,
+      username: 'testuser',
+      id: 'etta_game',
+      method: 'Active',
+      json: { action: 'play' }
+    });
+
+    expect(mockTransactionService.broadcastCustomJson).toHaveBeenCalledWith(
+      'etta_game',
+      { action: 'play' },
+      'testuser',
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should fall back to the active account when no username is given', async () => {
+    await service.handleCustomJson({ type: 'custom', request_id: 1, id: 'etta_game', json: '{}' });
+
+    expect(mockAccountService.getActiveAccount).toHaveBeenCalled();
+    expect(mockTransactionService.broadcastCustomJson.mock.calls[0][2]).toBe('testuser');
+  });
+
+  it('should reject invalid JSON and methods', async () => {
+    const invalidJson = await service.handleCustomJson({ type: 'custom', request_id: 1, id: 'x', json: '{nope' });
+    const invalidMethod = await service.handleCustomJson({
+      type: 'custom',
+      request_id: 1,
+      id: 'x',
+      json: '{}',
+      method: 'Owner'
+    });
+
+    expect(invalidJson.error).toBe('Invalid JSON');
+    expect(invalidMethod.error).toBe('Invalid method. Must be Posting or Active');
+    expect(mockTransactionService.broadcastCustomJson).not.toHaveBeenCalled();
+  });
+
+  it('should surface broadcast failures', async () => {
+    mockTransactionService.broadcastCustomJson.mockResolvedValue({ success: false, error: 'RC exhausted' });
+
+    const result = await service.handleCustomJson({
+      type: 'custom',
+      request_id: 1,
+      username: 'testuser',
+      id: 'etta_game',
+      json: '{}'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('RC exhausted');
+  });
+
+  it('should simulate the operation it would broadcast without broadcasting', async () => {
+    const result = await service.simulateCustomJson({
+      type: 'custom',
+      request_id: 1,
+      username: 'testuser',
+      id: 'etta_game',
+      json: '{"action":"play"}'
+    });
+
+    expect(result).toEqual({
+      success: true,
+      result: { isValid: true, errors: [], warnings: [], info: [] },
+      request_id: 1
+    });
+    expect(mockTransactionService.simulateCustomJson).toHaveBeenCalledWith(
+      'etta_game',
+      { action: 'play' },
+      'testuser',
+      { type: 'posting', value: 'posting-key' }
+    );
+    expect(mockTransactionService.broadcastCustomJson).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DHFService } from '../../../../background/services/keychain/dhf.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('DHFService', () => {
+  let service: DHFService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const broadcast = {
+    success: true,
+    result: { id: 'tx_123', block_num: 12345, trx_num: 1 },
+    transaction: {}
+  };
+
+  const createRequest = (overrides: any = {}) => ({
+    type: 'createProposal',
+    request_id: 1,
+    username: 'testuser',
+    receiver: 'testuser',
+    subject: 'Build things',
+    permlink: 'build-things',
+    daily_pay: '100.000 SBD',
+    start: '2030-01-01T00:00:00.000Z',
+    end: '2030-03-01T00:00:00.000Z',
+    extensions: '[]',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      })
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue(broadcast)
+    };
+
+    mockSteemApiService = {
+      findProposals: vi.fn().mockResolvedValue([
+        { id: 3, creator: 'alice', receiver: 'alice', subject: 'Tools', daily_pay: '10.000 SBD' }
+      ])
+    };
+
+    service = new DHFService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  describe('handleCreateProposal', () => {
+    it('should broadcast create_proposal with the active key', async () => {
+      const result = await service.handleCreateProposal(createRequest());
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual(broadcast.result);
+      expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+        [
+          [
+            'create_proposal',
+            {
+              creator: 'testuser',
+              receiver: 'testuser',
+              start_date: '2030-01-01T00:00:00',
+              end_date: '2030-03-01T00:00:00',
+              daily_pay: '100.000 SBD',
+              subject: 'Build things',
+              permlink: 'build-things',
+              extensions: []
+            }
+          ]
+        ],
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it.each(['100 SBD', '100.000 STEEM', '100.00 SBD', 'lots'])('should reject daily pay %s', async daily_pay => {
+      const result = await service.handleCreateProposal(createRequest({ daily_pay }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Daily pay must be an SBD amount with 3 decimals, e.g. 10.000 SBD');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+
+    it('should reject an end date before the start date', async () => {
+      const result = await service.handleCreateProposal(
+        createRequest({ start: '2030-03-01', end: '2030-01-01' })
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('End date must be after start date');
+    });
+
+    it('should surface broadcast errors', async () => {
+      mockTransactionService.sendOperation.mockResolvedValue({ success: false, error: 'missing required active authority' });
+
+      const result = await service.handleCreateProposal(createRequest());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('missing required active authority');
+    });
+  });
+
+  describe('handleRemoveProposal', () => {
+    it('should parse the keychain id array string and broadcast remove_proposal', async () => {
+      const result = await service.handleRemoveProposal({
+        request_id: 2,
+        username: 'testuser',
+        proposal_ids: '[5, 2, 5]',
+        extensions: '[]'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.sendOperation.mock.calls[0][0][0]).toEqual([
+        'remove_proposal',
+        { proposal_owner: 'testuser', proposal_ids: [2, 5], extensions: [] }
+      ]);
+    });
+
+    it('should reject malformed ids', async () => {
+      const result = await service.handleRemoveProposal({
+        request_id: 2,
+        username: 'testuser',
+        proposal_ids: '[1, "abc"]'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid proposal IDs format');
+    });
+  });
+
+  describe('handleUpdateProposalVote', () => {
+    it('should broadcast update_proposal_votes', async () => {
+      const result = await service.handleUpdateProposalVote({
+        request_id: 3,
+        username: 'testuser',
+        proposal_ids: [3],
+        approve: true
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.sendOperation.mock.calls[0][0][0]).toEqual([
+        'update_proposal_votes',
+        { voter: 'testuser', proposal_ids: [3], approve: true, extensions: [] }
+      ]);
+    });
+
+    it('should treat the string "false" as an unvote', async () => {
+      await service.handleUpdateProposalVote({
+        request_id: 3,
+        username: 'testuser',
+        proposal_ids: '7',
+        approve: 'false'
+      });
+
+      expect(mockTransactionService.sendOperation.mock.calls[0][0][0][1]).toMatchObject({
+        proposal_ids: [7],
+        approve: false
+      });
+    });
+  });
+
+  describe('previewProposals', () => {
+    it('should return the proposals found on chain and flag missing ids', async () => {
+      const result = await service.previewProposals({ request_id: 4, proposal_ids: '[3, 9]' });
+
+      expect(mockSteemApiService.findProposals).toHaveBeenCalledWith([3, 9]);
+      expect(result.success).toBe(true);
+      expect(result.result.proposals).toHaveLength(1);
+      expect(result.result.missing).toEqual([9]);
+    });
+  });
+});
@@ -3,10 +3,11 @@ import { EncodeService } from '../../../../background/services/keychain/encode.s
 import { AccountService } from '../../../../background/services/account.service';
 import { TransactionService } from '../../../../background/services/transaction.service';
 import { KeychainError } from '../../../../../src/keychain-error';
+import { Memo, PrivateKey } from '@steempro/dsteem';
 
-vi.mock('../../../../../src/utils/localStorage.utils', () => ({
-  default: {
-    getValueFromSessionStorage: vi.fn().mockResolvedValue('mock-password')
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
   }
 }));
 
@@ -15,17 +16,23 @@ describe('EncodeService', () => {
   let mockAccountService: AccountService;
   let mockTransactionService: TransactionService;
 
+  const postingKey = PrivateKey.fromLogin('testuser', 'password', 'posting');
+  const memoKey = PrivateKey.fromLogin('testuser', 'password', 'memo');
+  const receiverMemoKey = PrivateKey.fromLogin('receiver123', 'password', 'memo');
+  const otherKey = PrivateKey.fromLogin('someone', 'password', 'memo');
+
   beforeEach(async () => {
     // Reset localStorage mock to default authenticated state
-    const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-    vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+    const { vaultSession } = await import('../../../../background/lib/vault-session');
+    vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
 
     mockAccountService = {
       getAccount: vi.fn().mockResolvedValue({
         name: 'testuser',
-        keys: { active: 'active-key', posting: 'posting-key', memo: 'memo-key' }
+        keys: { active: 'active-key', posting: postingKey.toString(), memo: memoKey.toString() }
       }),
-      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' }),
+      getPublicMemoKey: vi.fn().mockResolvedValue(receiverMemoKey.createPublic().toString())
     } as any;
 
     mockTransactionService = {
@@ -55,12 +62,51 @@ describe('EncodeService', () => {
 
       expect(result.success).toBe(true);
       expect(result.request_id).toBe(123);
-      expect(result.result).toBe('[ENCODED]Hello World[/ENCODED]');
+      expect(result.result.startsWith('#')).toBe(true);
+      expect(result.result).not.toContain('Hello World');
+      expect(mockAccountService.getPublicMemoKey).toHaveBeenCalledWith('receiver123');
+      // The receiver reads it with their memo key, the sender with theirs
+      expect(Memo.decode(receiverMemoKey, result.result)).toBe('#Hello World');
+      expect(Memo.decode(postingKey, result.result)).toBe('#Hello World');
+    });
+
+    it('should keep an existing # prefix instead of doubling it', async () => {
+      const request = {
+        type: 'encode',
+        request_id: 123,
+        username: 'testuser',
+        receiver: 'receiver123',
+        message: '#Hello World',
+        method: 'posting'
+      };
+
+      const result = await service.handleEncodeMessage(request);
+
+      expect(Memo.decode(receiverMemoKey, result.result)).toBe('#Hello World');
+    });
+
+    it('should fail when the receiver does not exist on chain', async () => {
+      vi.mocked(mockAccountService.getPublicMemoKey).mockResolvedValue(null);
+
+      const request = {
+        type: 'encode',
+        request_id: 123,
+        username: 'testuser',
+        receiver: 'ghost',
+        message: 'Hello World',
+        method: 'posting'
+      };
+
+      const result = await service.handleEncodeMessage(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Receiver account not found');
+      expect(result.request_id).toBe(123);
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'encode',
@@ -154,30 +200,45 @@ describe('EncodeService', () => {
 
   describe('handleEncodeWithKeys', () => {
     it('should successfully encode with multiple keys', async () => {
+      const publicKeys = [receiverMemoKey.createPublic().toString(), otherKey.createPublic().toString()];
       const request = {
         type: 'encodeWithKeys',
         request_id: 456,
         username: 'testuser',
-        publicKeys: ['STM5TestKey1', 'STM5TestKey2'],
+        publicKeys,
         message: 'Multi-recipient message',
-        method: 'posting'
+        method: 'memo'
       };
 
       const result = await service.handleEncodeWithKeys(request);
 
       expect(result.success).toBe(true);
       expect(result.request_id).toBe(456);
-      expect(Array.isArray(result.result)).toBe(true);
-      expect(result.result).toHaveLength(2);
-      expect(result.result[0]).toEqual({
-        publicKey: 'STM5TestKey1',
-        message: '[ENCODED:STM5TestKey1]Multi-recipient message[/ENCODED:STM5TestKey1]'
-      });
+      expect(Object.keys(result.result)).toEqual(publicKeys);
+      expect(Memo.decode(receiverMemoKey, result.result[publicKeys[0]])).toBe('#Multi-recipient message');
+      expect(Memo.decode(otherKey, result.result[publicKeys[1]])).toBe('#Multi-recipient message');
+    });
+
+    it('should fail on an invalid public key', async () => {
+      const request = {
+        type: 'encodeWithKeys',
+        request_id: 456,
+        username: 'testuser',
+        publicKeys: ['STM5TestKey1'],
+        message: 'Multi-recipient message',
+        method: 'memo'
+      };
+
+      const result = await service.handleEncodeWithKeys(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid public key: STM5TestKey1');
+      expect(result.request_id).toBe(456);
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'encodeWithKeys',
@@ -227,4 +288,74 @@ describe('EncodeService', () => {
       expect(result.request_id).toBe(456);
     });
   });
-});
\ No newline at end of file
+
+  describe('handleVerifyKey', () => {
+    const encryptedFor = (message: string) =>
+      Memo.encode(otherKey, memoKey.createPublic(), message);
+
+    it('should decrypt a memo sent to the user', async () => {
+      const request = {
+        type: 'decode',
+        request_id: 789,
+        username: 'testuser',
+        message: encryptedFor('#login-challenge-42'),
+        method: 'Memo'
+      };
+
+      const result = await service.handleVerifyKey(request);
+
+      expect(result.success).toBe(true);
+      expect(result.request_id).toBe(789);
+      expect(result.result).toBe('#login-challenge-42');
+    });
+
+    it('should fail when the key does not match the memo', async () => {
+      const request = {
+        type: 'decode',
+        request_id: 789,
+        username: 'testuser',
+        message: encryptedFor('#login-challenge-42'),
+        method: 'posting'
+      };
+
+      const result = await service.handleVerifyKey(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unable to decrypt message with this key');
+      expect(result.request_id).toBe(789);
+    });
+
+    it('should fail when the message is not encrypted', async () => {
+      const request = {
+        type: 'decode',
+        request_id: 789,
+        username: 'testuser',
+        message: 'plain text',
+        method: 'Memo'
+      };
+
+      const result = await service.handleVerifyKey(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Message is not an encrypted memo');
+    });
+
+    it('should fail when user is not authenticated', async () => {
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
+
+      const request = {
+        type: 'decode',
+        request_id: 789,
+        username: 'testuser',
+        message: encryptedFor('#login-challenge-42'),
+        method: 'Memo'
+      };
+
+      const result = await service.handleVerifyKey(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('User not authenticated');
+    });
+  });
+});
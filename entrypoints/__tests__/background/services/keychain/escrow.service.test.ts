@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EscrowService } from '../../../../background/services/keychain/escrow.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+const chainEscrow = {
+  from: 'buyer',
+  to: 'seller',
+  agent: 'agent',
+  escrow_id: 9,
+  sbd_amount: '5.000 SBD',
+  steem_amount: '0.000 STEEM',
+  fee: '0.100 STEEM',
+  ratification_deadline: '2030-01-01T00:00:00',
+  escrow_expiration: '2030-01-15T00:00:00',
+  to_approved: true,
+  agent_approved: true,
+  disputed: false,
+  closed: false
+};
+
+describe('EscrowService', () => {
+  let service: EscrowService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+  let mockEscrowTracker: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockImplementation(async (username: string) => ({
+        name: username,
+        keys: { posting: 'posting-key', active: 'active-key' }
+      }))
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    mockSteemApiService = {
+      getEscrow: vi.fn().mockResolvedValue(null)
+    };
+
+    mockEscrowTracker = {
+      track: vi.fn().mockResolvedValue(undefined),
+      fetchEscrow: vi.fn().mockResolvedValue(chainEscrow),
+      getOpenEscrows: vi.fn().mockResolvedValue([chainEscrow])
+    };
+
+    service = new EscrowService(mockAccountService, mockTransactionService, mockSteemApiService, mockEscrowTracker);
+  });
+
+  describe('handleEscrowTransfer', () => {
+    it('should broadcast escrow_transfer with default deadlines and track the escrow', async () => {
+      const result = await service.handleEscrowTransfer({
+        request_id: 1,
+        username: 'buyer',
+        to: 'seller',
+        agent: 'agent',
+        sbd_amount: '5.000 SBD',
+        fee: '0.100 STEEM',
+        universal_id: 'ua_1'
+      });
+
+      expect(result.success).toBe(true);
+      const [[[name, operation]], key] = mockTransactionService.sendOperation.mock.calls[0];
+      expect(name).toBe('escrow_transfer');
+      expect(operation).toMatchObject({
+        from: 'buyer',
+        to: 'seller',
+        agent: 'agent',
+        escrow_id: result.result.escrow_id,
+        sbd_amount: '5.000 SBD',
+        steem_amount: '0.000 STEEM',
+        fee: '0.100 STEEM',
+        json_meta: JSON.stringify({ universal_id: 'ua_1' })
+      });
+      expect(new Date(operation.escrow_expiration).getTime()).toBeGreaterThan(
+        new Date(operation.ratification_deadline).getTime()
+      );
+      expect(key).toEqual({ type: 'active', value: 'active-key' });
+      expect(mockEscrowTracker.track).toHaveBeenCalledWith(
+        expect.objectContaining({ from: 'buyer', escrow_id: result.result.escrow_id, to_approved: false })
+      );
+    });
+
+    it('should pick an escrow id the sender has not used yet', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+      mockSteemApiService.getEscrow.mockImplementation(async (_from: string, id: number) =>
+        id === now ? chainEscrow : null
+      );
+
+      const result = await service.handleEscrowTransfer({
+        request_id: 1,
+        username: 'buyer',
+        to: 'seller',
+        agent: 'agent',
+        steem_amount: '10.000 STEEM',
+        fee: '0.001 STEEM'
+      });
+
+      vi.mocked(Date.now).mockRestore();
+
+      expect(result.result.escrow_id).toBe(now + 1);
+    });
+
+    it('should reject empty escrows and a ratification deadline after the expiration', async () => {
+      const empty = await service.handleEscrowTransfer({
+        request_id: 1,
+        username: 'buyer',
+        to: 'seller',
+        agent: 'agent',
+        fee: '0.001 STEEM'
+      });
+      const lateDeadline = await service.handleEscrowTransfer({
+        request_id: 1,
+        username: 'buyer',
+        to: 'seller',
+        agent: 'agent',
+        sbd_amount: '1.000 SBD',
+        fee: '0.001 STEEM',
+        ratification_deadline: '2030-02-01T00:00:00',
+        escrow_expiration: '2030-01-01T00:00:00'
+      });
+
+      expect(empty.error).toBe('An escrow must hold some STEEM or SBD');
+      expect(lateDeadline.error).toBe('The escrow must expire after the ratification deadline');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+
+    it('should require three different accounts', async () => {
+      const result = await service.handleEscrowTransfer({
+        request_id: 1,
+        username: 'buyer',
+        to: 'seller',
+        agent: 'seller',
+        sbd_amount: '1.000 SBD',
+        fee: '0.001 STEEM'
+      });
+
+      expect(result.error).toBe('Sender, receiver and agent must be different accounts');
+    });
+  });
+
+  it('should approve as the agent with the parties taken from the chain', async () => {
+    const result = await service.handleEscrowApprove({ request_id: 2, username: 'agent', from: 'buyer', escrow_id: '9' });
+
+    expect(result.success).toBe(true);
+    expect(mockEscrowTracker.fetchEscrow).toHaveBeenCalledWith('buyer', 9);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [['escrow_approve', { from: 'buyer', to: 'seller', agent: 'agent', who: 'agent', escrow_id: 9, approve: true }]],
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should not let the sender approve its own escrow', async () => {
+    const result = await service.handleEscrowApprove({ request_id: 2, username: 'buyer', from: 'buyer', escrow_id: 9 });
+
+    expect(result.error).toBe('Only the receiver or the agent can approve an escrow');
+  });
+
+  it('should not let the agent raise a dispute', async () => {
+    const result = await service.handleEscrowDispute({ request_id: 3, username: 'agent', from: 'buyer', escrow_id: 9 });
+
+    expect(result.error).toBe('Only the sender or the receiver can dispute an escrow');
+  });
+
+  it('should release the remaining balance to the receiver by default', async () => {
+    const result = await service.handleEscrowRelease({ request_id: 4, username: 'buyer', from: 'buyer', escrow_id: 9 });
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [
+        [
+          'escrow_release',
+          {
+            from: 'buyer',
+            to: 'seller',
+            agent: 'agent',
+            who: 'buyer',
+            receiver: 'seller',
+            escrow_id: 9,
+            sbd_amount: '5.000 SBD',
+            steem_amount: '0.000 STEEM'
+          }
+        ]
+      ],
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should report escrows that no longer exist', async () => {
+    mockEscrowTracker.fetchEscrow.mockResolvedValue(null);
+
+    const result = await service.handleEscrowRelease({ request_id: 4, username: 'buyer', from: 'buyer', escrow_id: 9 });
+
+    expect(result.error).toBe('Escrow 9 from buyer not found');
+  });
+});
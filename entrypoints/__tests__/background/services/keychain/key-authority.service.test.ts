@@ -1,10 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PrivateKey } from '@steempro/dsteem';
 import { KeyAuthorityService } from '../../../../background/services/keychain/key-authority.service';
 import { KeychainError } from '../../../../../src/keychain-error';
 
-vi.mock('../../../../../src/utils/localStorage.utils', () => ({
-  default: {
-    getValueFromSessionStorage: vi.fn().mockResolvedValue('mock-password')
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
   }
 }));
 
@@ -12,25 +13,48 @@ describe('KeyAuthorityService', () => {
   let service: KeyAuthorityService;
   let mockAccountService: any;
   let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const publicKey = (role: 'owner' | 'active' | 'posting' | 'memo') => PrivateKey.fromLogin('testuser', 'password', role).createPublic().toString();
+  const authorizedKey = PrivateKey.fromLogin('app', 'password', 'posting').createPublic().toString();
+  const authority = (role: 'owner' | 'active' | 'posting') => ({
+    weight_threshold: 1,
+    account_auths: [],
+    key_auths: [[publicKey(role), 1], [authorizedKey, 1]]
+  });
 
   beforeEach(async () => {
     mockAccountService = {
       getAccount: vi.fn().mockResolvedValue({
         name: 'testuser',
-        keys: { posting: 'posting-key', active: 'active-key', memo: 'memo-key' }
+        keys: { posting: 'posting-key', active: 'active-key', owner: 'owner-key', memo: 'memo-key' }
       }),
       getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
     } as any;
 
     mockTransactionService = {
       sendOperation: vi.fn().mockResolvedValue({
-        id: 'tx_123',
-        block_num: 12345,
-        trx_num: 1
+        success: true,
+        result: {
+          id: 'tx_123',
+          block_num: 12345,
+          trx_num: 1
+        }
       })
     } as any;
 
-    service = new KeyAuthorityService(mockAccountService, mockTransactionService);
+    mockSteemApiService = {
+      getAccount: vi.fn().mockResolvedValue([{
+        name: 'testuser',
+        owner: authority('owner'),
+        active: authority('active'),
+        posting: authority('posting'),
+        memo_key: publicKey('memo'),
+        json_metadata: ''
+      }])
+    } as any;
+
+    service = new KeyAuthorityService(mockAccountService, mockTransactionService, mockSteemApiService);
   });
 
   describe('handleAddKeyAuthority', () => {
@@ -39,7 +63,7 @@ describe('KeyAuthorityService', () => {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting',
         weight: 1
       };
@@ -55,15 +79,35 @@ describe('KeyAuthorityService', () => {
       });
     });
 
+    it('should fail when the broadcast is rejected', async () => {
+      mockTransactionService.sendOperation.mockResolvedValue({
+        success: false,
+        error: 'Transaction rejected by blockchain: missing required active authority',
+        transaction: null
+      });
+
+      const result = await service.handleAddKeyAuthority({
+        type: 'addKeyAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedKey: authorizedKey,
+        role: 'Posting',
+        weight: 1
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction rejected by blockchain: missing required active authority');
+    });
+
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting',
         weight: 1
       };
@@ -75,7 +119,7 @@ describe('KeyAuthorityService', () => {
       expect(result.request_id).toBe(123);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
@@ -98,7 +142,7 @@ describe('KeyAuthorityService', () => {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'invalid_role',
         weight: 1
       };
@@ -134,7 +178,7 @@ describe('KeyAuthorityService', () => {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'nonexistentuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting',
         weight: 1
       };
@@ -156,7 +200,7 @@ describe('KeyAuthorityService', () => {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting',
         weight: 1
       };
@@ -173,7 +217,7 @@ describe('KeyAuthorityService', () => {
         type: 'addKeyAuthority',
         request_id: 123,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Active',
         weight: 2
       };
@@ -191,7 +235,7 @@ describe('KeyAuthorityService', () => {
         type: 'removeKeyAuthority',
         request_id: 456,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting'
       };
 
@@ -207,14 +251,14 @@ describe('KeyAuthorityService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'removeKeyAuthority',
         request_id: 456,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Posting'
       };
 
@@ -225,7 +269,7 @@ describe('KeyAuthorityService', () => {
       expect(result.request_id).toBe(456);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
@@ -248,7 +292,7 @@ describe('KeyAuthorityService', () => {
         type: 'removeKeyAuthority',
         request_id: 456,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'invalid_role'
       };
 
@@ -264,7 +308,7 @@ describe('KeyAuthorityService', () => {
         type: 'removeKeyAuthority',
         request_id: 456,
         username: 'testuser',
-        authorizedKey: 'STM5TestPublicKey123456789012345678901234567890123456789',
+        authorizedKey: authorizedKey,
         role: 'Owner'
       };
 
@@ -274,4 +318,87 @@ describe('KeyAuthorityService', () => {
       expect(result.request_id).toBe(456);
     });
   });
-});
\ No newline at end of file
+
+  describe('authority preservation', () => {
+    const newKey = PrivateKey.fromLogin('another_app', 'password', 'posting').createPublic().toString();
+
+    it('should keep existing keys and threshold when adding', async () => {
+      await service.handleAddKeyAuthority({
+        type: 'addKeyAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedKey: newKey,
+        role: 'Posting',
+        weight: 1
+      });
+
+      const posting = mockTransactionService.sendOperation.mock.calls[0][0][0][1].posting;
+      expect(posting.weight_threshold).toBe(1);
+      expect(posting.key_auths.map(([key]: [string, number]) => key).sort()).toEqual(
+        [publicKey('posting'), authorizedKey, newKey].sort()
+      );
+    });
+
+    it('should refuse removing the only key that reaches the threshold', async () => {
+      mockSteemApiService.getAccount.mockResolvedValue([{
+        name: 'testuser',
+        active: { weight_threshold: 1, account_auths: [], key_auths: [[publicKey('active'), 1]] },
+        memo_key: publicKey('memo'),
+        json_metadata: ''
+      }]);
+
+      const result = await service.handleRemoveKeyAuthority({
+        type: 'removeKeyAuthority',
+        request_id: 456,
+        username: 'testuser',
+        authorizedKey: publicKey('active'),
+        role: 'Active'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This change would leave the active authority unable to reach its weight threshold');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+
+    it('should replace the memo key but never remove it', async () => {
+      await service.handleAddKeyAuthority({
+        type: 'addKeyAuthority',
+        request_id: 123,
+        username: 'testuser',
+        authorizedKey: newKey,
+        role: 'Memo',
+        weight: 1
+      });
+      expect(mockTransactionService.sendOperation.mock.calls[0][0][0][1]).toEqual({
+        account: 'testuser',
+        memo_key: newKey,
+        json_metadata: ''
+      });
+
+      const result = await service.handleRemoveKeyAuthority({
+        type: 'removeKeyAuthority',
+        request_id: 456,
+        username: 'testuser',
+        authorizedKey: publicKey('memo'),
+        role: 'Memo'
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Memo key cannot be removed, only replaced');
+    });
+
+    it('should preview the before/after diff without signing', async () => {
+      const result = await service.previewKeyAuthorityChange({
+        type: 'removeKeyAuthority',
+        request_id: 789,
+        username: 'testuser',
+        authorizedKey,
+        role: 'Posting'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.changes).toEqual([{ type: 'key', name: authorizedKey, before: 1, after: undefined }]);
+      expect(result.result.after.key_auths).toEqual([[publicKey('posting'), 1]]);
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MarketService } from '../../../../background/services/keychain/market.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('MarketService', () => {
+  let service: MarketService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      })
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    mockSteemApiService = {
+      getOrderBook: vi.fn().mockResolvedValue({
+        bids: [
+          { real_price: '0.250000', steem: 10000, sbd: 2500 },
+          { real_price: '0.200000', steem: 100000, sbd: 20000 }
+        ],
+        asks: [{ real_price: '0.260000', steem: 50000, sbd: 13000 }]
+      }),
+      getOpenOrders: vi.fn().mockResolvedValue([])
+    };
+
+    service = new MarketService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  it('should broadcast limit_order_create with an order id not used by open orders', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+    mockSteemApiService.getOpenOrders.mockResolvedValue([{ orderid: now }]);
+
+    const result = await service.handleLimitOrderCreate({
+      request_id: 1,
+      username: 'testuser',
+      amount_to_sell: '10.000 STEEM',
+      min_to_receive: '2.500 SBD',
+      fill_or_kill: 'false'
+    });
+
+    vi.mocked(Date.now).mockRestore();
+
+    expect(result.success).toBe(true);
+    expect(result.result.orderid).toBe(now + 1);
+    const [[[name, operation]], key] = mockTransactionService.sendOperation.mock.calls[0];
+    expect(name).toBe('limit_order_create');
+    expect(operation).toMatchObject({
+      owner: 'testuser',
+      orderid: now + 1,
+      amount_to_sell: '10.000 STEEM',
+      min_to_receive: '2.500 SBD',
+      fill_or_kill: false
+    });
+    expect(operation.expiration).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/);
+    expect(key).toEqual({ type: 'active', value: 'active-key' });
+  });
+
+  it('should reject orders that do not trade STEEM against SBD', async () => {
+    const sameAsset = await service.handleLimitOrderCreate({
+      request_id: 1,
+      username: 'testuser',
+      amount_to_sell: '10.000 STEEM',
+      min_to_receive: '9.000 STEEM'
+    });
+    const badAmount = await service.handleLimitOrderCreate({
+      request_id: 1,
+      username: 'testuser',
+      amount_to_sell: '10 STEEM',
+      min_to_receive: '2.500 SBD'
+    });
+
+    expect(sameAsset.error).toBe('An order must trade STEEM against SBD');
+    expect(badAmount.error).toContain('Invalid amount: 10 STEEM');
+    expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+  });
+
+  it('should accept the exchange rate of limit_order_create2 as a JSON string', async () => {
+    const result = await service.handleLimitOrderCreate2({
+      request_id: 2,
+      username: 'testuser',
+      orderid: 7,
+      amount_to_sell: '4.000 SBD',
+      exchange_rate: JSON.stringify({ base: '1.000 SBD', quote: '4.000 STEEM' }),
+      fill_or_kill: true
+    });
+
+    expect(result.success).toBe(true);
+    const [[[name, operation]]] = mockTransactionService.sendOperation.mock.calls[0];
+    expect(name).toBe('limit_order_create2');
+    expect(operation).toMatchObject({
+      orderid: 7,
+      exchange_rate: { base: '1.000 SBD', quote: '4.000 STEEM' },
+      fill_or_kill: true
+    });
+    expect(mockSteemApiService.getOpenOrders).not.toHaveBeenCalled();
+  });
+
+  it('should reject an exchange rate whose base is not the asset being sold', async () => {
+    const result = await service.handleLimitOrderCreate2({
+      request_id: 2,
+      username: 'testuser',
+      amount_to_sell: '4.000 SBD',
+      exchange_rate: { base: '4.000 STEEM', quote: '1.000 SBD' }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Exchange rate base must be the asset being sold');
+  });
+
+  it('should cancel an order by id', async () => {
+    const result = await service.handleLimitOrderCancel({ request_id: 3, username: 'testuser', orderid: '42' });
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [['limit_order_cancel', { owner: 'testuser', orderid: 42 }]],
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should warn when a sell order walks deep into the bids', async () => {
+    const result = await service.previewLimitOrder({
+      type: 'limitOrderCreate',
+      request_id: 4,
+      username: 'testuser',
+      amount_to_sell: '50.000 STEEM',
+      min_to_receive: '10.000 SBD'
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockSteemApiService.getOrderBook).toHaveBeenCalledWith(50);
+    expect(result.result.estimate).toMatchObject({ side: 'sell', bestPrice: 0.25, filledPct: 100 });
+    expect(result.result.estimate.priceImpactPct).toBeGreaterThanOrEqual(5);
+    expect(result.result.estimate.warnings[0]).toContain('away from the best bid');
+  });
+
+  it('should preview a small buy order without warnings', async () => {
+    const result = await service.previewLimitOrder({
+      type: 'limitOrderCreate',
+      request_id: 5,
+      username: 'testuser',
+      amount_to_sell: '2.600 SBD',
+      min_to_receive: '10.000 STEEM'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.result.estimate).toMatchObject({ side: 'buy', bestPrice: 0.26, filledPct: 100, warnings: [] });
+  });
+});
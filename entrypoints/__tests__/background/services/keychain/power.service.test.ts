@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PowerService } from '../../../../background/services/keychain/power.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('PowerService', () => {
+  let service: PowerService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const broadcast = {
+    success: true,
+    result: { id: 'tx_123', block_num: 12345, trx_num: 1 },
+    transaction: {}
+  };
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      }),
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
+    };
+
+    mockTransactionService = {
+      transferToVesting: vi.fn().mockResolvedValue(broadcast),
+      withdrawVesting: vi.fn().mockResolvedValue(broadcast),
+      delegateVestingShares: vi.fn().mockResolvedValue(broadcast)
+    };
+
+    // 1 SP = 2 VESTS
+    mockSteemApiService = {
+      getDynamicGlobalProperties: vi.fn().mockResolvedValue({
+        total_vesting_fund_steem: '1000.000 STEEM',
+        total_vesting_shares: '2000.000000 VESTS'
+      })
+    };
+
+    service = new PowerService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  describe('handlePowerUp', () => {
+    it('should broadcast transfer_to_vesting and return the transaction', async () => {
+      const result = await service.handlePowerUp({
+        type: 'powerUp',
+        request_id: 1,
+        username: 'testuser',
+        recipient: 'friend',
+        steem: '5'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual(broadcast.result);
+      expect(mockTransactionService.transferToVesting).toHaveBeenCalledWith(
+        'testuser',
+        'friend',
+        '5.000',
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should reject a zero amount', async () => {
+      const result = await service.handlePowerUp({
+        request_id: 1,
+        username: 'testuser',
+        recipient: 'testuser',
+        steem: '0.000'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid STEEM amount');
+      expect(mockTransactionService.transferToVesting).not.toHaveBeenCalled();
+    });
+
+    it('should surface broadcast errors', async () => {
+      mockTransactionService.transferToVesting.mockResolvedValue({ success: false, error: 'RPC down' });
+
+      const result = await service.handlePowerUp({
+        request_id: 1,
+        username: 'testuser',
+        recipient: 'testuser',
+        steem: '1.000'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('RPC down');
+    });
+  });
+
+  describe('handlePowerDown', () => {
+    it('should convert SP to VESTS before withdrawing', async () => {
+      const result = await service.handlePowerDown({
+        request_id: 2,
+        username: 'testuser',
+        steem_power: '10.000'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.withdrawVesting).toHaveBeenCalledWith(
+        'testuser',
+        '20.000000 VESTS',
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should allow 0 to cancel a power down', async () => {
+      const result = await service.handlePowerDown({
+        request_id: 2,
+        username: 'testuser',
+        steem_power: '0'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.withdrawVesting.mock.calls[0][1]).toBe('0.000000 VESTS');
+    });
+  });
+
+  describe('handleDelegation', () => {
+    it('should convert SP delegations to VESTS', async () => {
+      const result = await service.handleDelegation({
+        request_id: 3,
+        username: 'testuser',
+        delegatee: 'friend',
+        amount: '1.500',
+        unit: 'SP'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual(broadcast.result);
+      expect(mockTransactionService.delegateVestingShares).toHaveBeenCalledWith(
+        'testuser',
+        'friend',
+        '3.000000 VESTS',
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should pass VESTS through without fetching global properties', async () => {
+      await service.handleDelegation({
+        request_id: 3,
+        username: 'testuser',
+        delegatee: 'friend',
+        amount: '100',
+        unit: 'VESTS'
+      });
+
+      expect(mockSteemApiService.getDynamicGlobalProperties).not.toHaveBeenCalled();
+      expect(mockTransactionService.delegateVestingShares.mock.calls[0][2]).toBe('100.000000 VESTS');
+    });
+
+    it('should use the active account when no username is given', async () => {
+      await service.handleDelegation({
+        request_id: 3,
+        delegatee: 'friend',
+        amount: '1.000',
+        unit: 'SP'
+      });
+
+      expect(mockAccountService.getActiveAccount).toHaveBeenCalled();
+      expect(mockTransactionService.delegateVestingShares.mock.calls[0][0]).toBe('testuser');
+    });
+
+    it('should reject unknown units', async () => {
+      const result = await service.handleDelegation({
+        request_id: 3,
+        username: 'testuser',
+        delegatee: 'friend',
+        amount: '1.000',
+        unit: 'STEEM'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid unit: STEEM. Must be SP or VESTS');
+    });
+  });
+
+  describe('handleSetWithdrawVestingRoute', () => {
+    it('should convert the percentage to basis points', async () => {
+      mockTransactionService.sendOperation = vi.fn().mockResolvedValue({ success: true, result: { id: 'tx_route' } });
+
+      const result = await service.handleSetWithdrawVestingRoute({
+        request_id: 9,
+        username: 'testuser',
+        to: 'savingsbot',
+        percent: '12.5',
+        auto_vest: 'true'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+        [['set_withdraw_vesting_route', { from_account: 'testuser', to_account: 'savingsbot', percent: 1250, auto_vest: true }]],
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should reject percentages above 100', async () => {
+      const result = await service.handleSetWithdrawVestingRoute({
+        request_id: 9,
+        username: 'testuser',
+        to: 'savingsbot',
+        percent: 101
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Percent must be between 0 and 100');
+    });
+  });
+});
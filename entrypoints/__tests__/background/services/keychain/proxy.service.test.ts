@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProxyService } from '../../../../background/services/keychain/proxy.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('ProxyService', () => {
+  let service: ProxyService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      }),
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
+    };
+
+    mockTransactionService = {
+      setWitnessProxy: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    service = new ProxyService(mockAccountService, mockTransactionService);
+  });
+
+  it('should broadcast account_witness_proxy with the active key', async () => {
+    const result = await service.handleProxy({ request_id: 1, username: 'testuser', proxy: 'delegate' });
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ id: 'tx_123', block_num: 12345 });
+    expect(result.message).toBe('Proxy set to delegate successfully');
+    expect(mockTransactionService.setWitnessProxy).toHaveBeenCalledWith('testuser', 'delegate', {
+      type: 'active',
+      value: 'active-key'
+    });
+  });
+
+  it('should clear the proxy with an empty string', async () => {
+    const result = await service.handleProxy({ request_id: 2, username: 'testuser', proxy: '' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Proxy removed successfully');
+    expect(mockTransactionService.setWitnessProxy.mock.calls[0][1]).toBe('');
+  });
+
+  it('should refuse to proxy to the account itself', async () => {
+    const result = await service.handleProxy({ request_id: 3, username: 'testuser', proxy: 'testuser' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Cannot set yourself as witness proxy');
+    expect(mockTransactionService.setWitnessProxy).not.toHaveBeenCalled();
+  });
+
+  it('should surface broadcast errors', async () => {
+    mockTransactionService.setWitnessProxy.mockResolvedValue({ success: false, error: 'proxy account does not exist' });
+
+    const result = await service.handleProxy({ request_id: 4, username: 'testuser', proxy: 'ghost' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('proxy account does not exist');
+  });
+});
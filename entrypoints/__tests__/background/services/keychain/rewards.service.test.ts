@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RewardsService } from '../../../../background/services/keychain/rewards.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('RewardsService', () => {
+  let service: RewardsService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  const chainAccounts: Record<string, any> = {
+    alice: {
+      name: 'alice',
+      reward_steem_balance: '0.000 STEEM',
+      reward_sbd_balance: '1.234 SBD',
+      reward_vesting_balance: '2000.000000 VESTS'
+    },
+    bob: {
+      name: 'bob',
+      reward_steem_balance: '0.000 STEEM',
+      reward_sbd_balance: '0.000 SBD',
+      reward_vesting_balance: '0.000000 VESTS'
+    }
+  };
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn(async (name: string) => ({ name, keys: { posting: `${name}-posting` } })),
+      getAllAccounts: vi.fn().mockResolvedValue([
+        { name: 'alice', keys: { posting: 'alice-posting' } },
+        { name: 'bob', keys: { posting: 'bob-posting' } },
+        { name: 'carol', keys: { memo: 'carol-memo' } }
+      ])
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({ success: true, result: { id: 'tx_123' }, transaction: {} })
+    };
+
+    mockSteemApiService = {
+      getAccount: vi.fn(async (name: string) => (chainAccounts[name] ? [chainAccounts[name]] : []))
+    };
+
+    service = new RewardsService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  it('should claim every pending reward with the posting key', async () => {
+    const result = await service.handleClaimRewards({ request_id: 1, username: 'alice' });
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [
+        [
+          'claim_reward_balance',
+          {
+            account: 'alice',
+            reward_steem: '0.000 STEEM',
+            reward_sbd: '1.234 SBD',
+            reward_vests: '2000.000000 VESTS'
+          }
+        ]
+      ],
+      { type: 'posting', value: 'alice-posting' }
+    );
+  });
+
+  it('should refuse to claim when nothing is pending', async () => {
+    const result = await service.handleClaimRewards({ request_id: 2, username: 'bob' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No pending rewards to claim');
+    expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+  });
+
+  it('should claim across the vault and report the accounts it skipped', async () => {
+    const result = await service.claimAllRewards({ request_id: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual([
+      expect.objectContaining({ username: 'alice', claimed: true }),
+      { username: 'bob', claimed: false, reason: 'No pending rewards to claim' },
+      { username: 'carol', claimed: false, reason: 'Posting key not available' }
+    ]);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep claiming other accounts when one broadcast fails', async () => {
+    chainAccounts.bob.reward_sbd_balance = '0.500 SBD';
+    mockTransactionService.sendOperation
+      .mockResolvedValueOnce({ success: false, error: 'missing required posting authority' })
+      .mockResolvedValueOnce({ success: true, result: { id: 'tx_456' } });
+
+    const result = await service.claimAllRewards({ request_id: 4 });
+    chainAccounts.bob.reward_sbd_balance = '0.000 SBD';
+
+    expect(result.result[0]).toEqual({ username: 'alice', claimed: false, reason: 'missing required posting authority' });
+    expect(result.result[1].claimed).toBe(true);
+  });
+});
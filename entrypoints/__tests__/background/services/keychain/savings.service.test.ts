@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SavingsService } from '../../../../background/services/keychain/savings.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('SavingsService', () => {
+  let service: SavingsService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemApiService: any;
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      })
+    };
+
+    mockTransactionService = {
+      sendOperation: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    mockSteemApiService = {
+      getAccount: vi.fn().mockResolvedValue([
+        { name: 'testuser', savings_balance: '5.000 STEEM', savings_sbd_balance: '2.000 SBD' }
+      ]),
+      getSavingsWithdrawFrom: vi.fn().mockResolvedValue([])
+    };
+
+    service = new SavingsService(mockAccountService, mockTransactionService, mockSteemApiService);
+  });
+
+  it('should deposit into the sender\'s own savings by default', async () => {
+    const result = await service.handleTransferToSavings({
+      request_id: 1,
+      username: 'testuser',
+      amount: '1.500',
+      currency: 'SBD'
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+      [['transfer_to_savings', { from: 'testuser', to: 'testuser', amount: '1.500 SBD', memo: '' }]],
+      { type: 'active', value: 'active-key' }
+    );
+  });
+
+  it('should reject amounts without 3 decimals and unknown currencies', async () => {
+    const badAmount = await service.handleTransferToSavings({
+      request_id: 1,
+      username: 'testuser',
+      amount: '1.5',
+      currency: 'STEEM'
+    });
+    const badCurrency = await service.handleTransferToSavings({
+      request_id: 1,
+      username: 'testuser',
+      amount: '1.500',
+      currency: 'ENG'
+    });
+
+    expect(badAmount.error).toBe('Invalid amount format. Must be a positive number with 3 decimals');
+    expect(badCurrency.error).toBe('Invalid currency. Must be STEEM or SBD');
+    expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+  });
+
+  it('should withdraw with a savings request id not used by open withdrawals', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+    mockSteemApiService.getSavingsWithdrawFrom.mockResolvedValue([{ request_id: now }]);
+
+    const result = await service.handleTransferFromSavings({
+      request_id: 2,
+      username: 'testuser',
+      to: 'friend',
+      amount: '1.000',
+      currency: 'STEEM',
+      memo: 'rent'
+    });
+
+    vi.mocked(Date.now).mockRestore();
+    expect(result.success).toBe(true);
+    expect(result.result.savings_request_id).toBe(now + 1);
+    expect(mockTransactionService.sendOperation.mock.calls[0][0][0]).toEqual([
+      'transfer_from_savings',
+      { from: 'testuser', request_id: now + 1, to: 'friend', amount: '1.000 STEEM', memo: 'rent' }
+    ]);
+  });
+
+  it('should cancel a pending withdrawal', async () => {
+    const result = await service.handleCancelTransferFromSavings({
+      request_id: 3,
+      username: 'testuser',
+      savings_request_id: '42'
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockTransactionService.sendOperation.mock.calls[0][0][0]).toEqual([
+      'cancel_transfer_from_savings',
+      { from: 'testuser', request_id: 42 }
+    ]);
+  });
+
+  it('should surface broadcast errors', async () => {
+    mockTransactionService.sendOperation.mockResolvedValue({ success: false, error: 'insufficient savings' });
+
+    const result = await service.handleCancelTransferFromSavings({
+      request_id: 3,
+      username: 'testuser',
+      savings_request_id: 42
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('insufficient savings');
+  });
+
+  it('should report savings balances with pending withdrawals', async () => {
+    mockSteemApiService.getSavingsWithdrawFrom.mockResolvedValue([{ request_id: 7, amount: '1.000 STEEM' }]);
+
+    const result = await service.getSavingsOverview({ request_id: 4, username: 'testuser' });
+
+    expect(result.result).toEqual({
+      steem: '5.000 STEEM',
+      sbd: '2.000 SBD',
+      withdrawals: [{ request_id: 7, amount: '1.000 STEEM' }]
+    });
+  });
+});
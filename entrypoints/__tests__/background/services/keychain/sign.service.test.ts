@@ -2,9 +2,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SignService } from '../../../../background/services/keychain/sign.service';
 import { KeychainError } from '../../../../../src/keychain-error';
 
-vi.mock('../../../../../src/utils/localStorage.utils', () => ({
-  default: {
-    getValueFromSessionStorage: vi.fn().mockResolvedValue('mock-password')
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
   }
 }));
 
@@ -63,8 +63,8 @@ describe('SignService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'signBuffer',
@@ -81,7 +81,7 @@ describe('SignService', () => {
       expect(result.request_id).toBe(123);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
@@ -187,8 +187,8 @@ describe('SignService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'signTx',
@@ -210,7 +210,7 @@ describe('SignService', () => {
       expect(result.request_id).toBe(456);
       
       // Reset the mock for other tests
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
     });
 
     it('should fail when required parameters are missing', async () => {
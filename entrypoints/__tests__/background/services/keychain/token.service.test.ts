@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TokenService } from '../../../../background/services/keychain/token.service';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+  let mockSteemEngineService: any;
+
+  const sidechainTx = { transactionId: 'tx_123', blockNumber: 42, contract: 'tokens', action: 'transfer', logs: {} };
+
+  beforeEach(() => {
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { posting: 'posting-key', active: 'active-key' }
+      }),
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' })
+    };
+
+    mockTransactionService = {
+      broadcastCustomJson: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 },
+        transaction: {}
+      })
+    };
+
+    mockSteemEngineService = {
+      getToken: vi.fn().mockResolvedValue({
+        symbol: 'ENG',
+        name: 'Engine',
+        precision: 3,
+        stakingEnabled: true,
+        delegationEnabled: false
+      }),
+      getBalance: vi.fn().mockResolvedValue({ symbol: 'ENG', balance: '10', stake: '2' }),
+      getBalances: vi.fn().mockResolvedValue([]),
+      confirmTransaction: vi.fn().mockResolvedValue(sidechainTx)
+    };
+
+    service = new TokenService(mockAccountService, mockTransactionService, mockSteemEngineService);
+  });
+
+  describe('handleSendToken', () => {
+    it('should broadcast a tokens.transfer custom_json and wait for the sidechain', async () => {
+      const result = await service.handleSendToken({
+        request_id: 1,
+        username: 'testuser',
+        to: 'friend',
+        amount: '1.23456',
+        currency: 'ENG',
+        memo: 'thanks'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.broadcastCustomJson).toHaveBeenCalledWith(
+        'ssc-mainnet1',
+        {
+          contractName: 'tokens',
+          contractAction: 'transfer',
+          contractPayload: { symbol: 'ENG', to: 'friend', quantity: '1.234', memo: 'thanks' }
+        },
+        'testuser',
+        { type: 'active', value: 'active-key' }
+      );
+      expect(mockSteemEngineService.confirmTransaction).toHaveBeenCalledWith('tx_123');
+      expect(result.result.sidechain).toEqual(sidechainTx);
+    });
+
+    it('should refuse transfers above the liquid balance', async () => {
+      const result = await service.handleSendToken({
+        request_id: 1,
+        username: 'testuser',
+        to: 'friend',
+        amount: '11',
+        currency: 'ENG'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Insufficient ENG balance: 10 available');
+      expect(mockTransactionService.broadcastCustomJson).not.toHaveBeenCalled();
+    });
+
+    it('should fail for unknown tokens', async () => {
+      mockSteemEngineService.getToken.mockResolvedValue(null);
+
+      const result = await service.handleSendToken({
+        request_id: 1,
+        username: 'testuser',
+        to: 'friend',
+        amount: '1',
+        currency: 'NOPE'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Token NOPE not found');
+    });
+
+    it('should report sidechain rejections', async () => {
+      mockSteemEngineService.confirmTransaction.mockRejectedValue(new Error('overdrawn balance'));
+
+      const result = await service.handleSendToken({
+        request_id: 1,
+        username: 'testuser',
+        to: 'friend',
+        amount: '1',
+        currency: 'ENG'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('overdrawn balance');
+    });
+  });
+
+  describe('staking', () => {
+    it('should stake to the sender by default', async () => {
+      await service.handleStakeToken({ request_id: 2, username: 'testuser', symbol: 'ENG', amount: '5' });
+
+      expect(mockTransactionService.broadcastCustomJson.mock.calls[0][1]).toEqual({
+        contractName: 'tokens',
+        contractAction: 'stake',
+        contractPayload: { to: 'testuser', symbol: 'ENG', quantity: '5.000' }
+      });
+    });
+
+    it('should check the staked balance when unstaking', async () => {
+      const result = await service.handleUnstakeToken({ request_id: 2, username: 'testuser', symbol: 'ENG', amount: '3' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Insufficient staked ENG balance: 2 available');
+    });
+
+    it('should refuse delegation for tokens without it', async () => {
+      const result = await service.handleDelegateToken({
+        request_id: 2,
+        username: 'testuser',
+        to: 'friend',
+        symbol: 'ENG',
+        amount: '1'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Delegation is not enabled for ENG');
+    });
+  });
+
+  describe('market', () => {
+    it('should place a market order with an 8 decimal price', async () => {
+      const result = await service.handleTokenMarketOrder({
+        request_id: 3,
+        username: 'testuser',
+        side: 'buy',
+        symbol: 'ENG',
+        amount: '2',
+        price: '0.5'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.broadcastCustomJson.mock.calls[0][1]).toEqual({
+        contractName: 'market',
+        contractAction: 'buy',
+        contractPayload: { symbol: 'ENG', quantity: '2.000', price: '0.50000000' }
+      });
+    });
+
+    it('should send swap steps as one custom_json with slippage applied', async () => {
+      const result = await service.handleSwap({
+        request_id: 4,
+        username: 'testuser',
+        startToken: 'ENG',
+        endToken: 'BEE',
+        amount: 1,
+        slippage: 10,
+        steps: [
+          { side: 'sell', symbol: 'ENG', quantity: '1', price: '2' },
+          { side: 'buy', symbol: 'BEE', quantity: '1', price: '1' }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+      const payload = mockTransactionService.broadcastCustomJson.mock.calls[0][1];
+      expect(payload).toHaveLength(2);
+      expect(payload[0].contractPayload.price).toBe('1.80000000');
+      expect(payload[1].contractPayload.price).toBe('1.10000000');
+    });
+  });
+
+  describe('conversion', () => {
+    let mockSteemApiService: any;
+
+    beforeEach(() => {
+      mockTransactionService.sendOperation = vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_456', block_num: 12346 },
+        transaction: {}
+      });
+      mockSteemApiService = {
+        getConversionRequests: vi.fn().mockResolvedValue([]),
+        getCurrentMedianHistoryPrice: vi.fn().mockResolvedValue({ base: '0.250 SBD', quote: '1.000 STEEM' })
+      };
+      service = new TokenService(mockAccountService, mockTransactionService, mockSteemEngineService, mockSteemApiService);
+    });
+
+    it('should broadcast convert with a requestid not used by open conversions', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      mockSteemApiService.getConversionRequests.mockResolvedValue([{ requestid: now }, { requestid: now + 1 }]);
+      vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+
+      const result = await service.handleConversion({ request_id: 5, username: 'testuser', amount: '10', collaterized: false });
+
+      vi.mocked(Date.now).mockRestore();
+      expect(result.success).toBe(true);
+      expect(result.result.requestid).toBe(now + 2);
+      expect(mockTransactionService.sendOperation).toHaveBeenCalledWith(
+        [['convert', { owner: 'testuser', requestid: now + 2, amount: '10.000 SBD' }]],
+        { type: 'active', value: 'active-key' }
+      );
+    });
+
+    it('should broadcast collateralized_convert for STEEM when collaterized is "true"', async () => {
+      await service.handleConversion({ request_id: 6, username: 'testuser', amount: 4, collaterized: 'true' });
+
+      const [name, payload] = mockTransactionService.sendOperation.mock.calls[0][0][0];
+      expect(name).toBe('collateralized_convert');
+      expect(payload.amount).toBe('4.000 STEEM');
+    });
+
+    it('should surface broadcast errors', async () => {
+      mockTransactionService.sendOperation.mockResolvedValue({ success: false, error: 'insufficient SBD' });
+
+      const result = await service.handleConversion({ request_id: 7, username: 'testuser', amount: '1', collaterized: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('insufficient SBD');
+    });
+
+    it('should preview conversions at the median feed price', async () => {
+      const plain = await service.previewConversion({ request_id: 8, amount: '10', collaterized: false });
+      expect(plain.result).toMatchObject({
+        from: 'SBD',
+        to: 'STEEM',
+        amount: '10.000 SBD',
+        estimate: '40.000 STEEM',
+        feePct: 0,
+        delayHours: 84
+      });
+
+      const collateralized = await service.previewConversion({ request_id: 9, amount: '10', collaterized: true });
+      expect(collateralized.result).toMatchObject({ from: 'STEEM', to: 'SBD', estimate: '1.188 SBD', feePct: 5 });
+    });
+  });
+});
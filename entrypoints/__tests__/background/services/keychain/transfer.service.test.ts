@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TransferService } from '../../../../background/services/keychain/transfer.service';
+import { Memo, PrivateKey } from '@steempro/dsteem';
+
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
+  }
+}));
+
+describe('TransferService', () => {
+  let service: TransferService;
+  let mockAccountService: any;
+  let mockTransactionService: any;
+
+  const memoKey = PrivateKey.fromLogin('testuser', 'password', 'memo');
+  const receiverMemoKey = PrivateKey.fromLogin('receiver', 'password', 'memo');
+
+  const baseRequest = {
+    type: 'transfer',
+    request_id: 123,
+    username: 'testuser',
+    to: 'receiver',
+    amount: '1.000',
+    memo: 'thanks',
+    currency: 'STEEM'
+  };
+
+  beforeEach(async () => {
+    const { vaultSession } = await import('../../../../background/lib/vault-session');
+    vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
+
+    mockAccountService = {
+      getAccount: vi.fn().mockResolvedValue({
+        name: 'testuser',
+        keys: { active: 'active-key', posting: 'posting-key', memo: memoKey.toString() }
+      }),
+      getActiveAccount: vi.fn().mockResolvedValue({ name: 'testuser' }),
+      getPublicMemoKey: vi.fn().mockResolvedValue(receiverMemoKey.createPublic().toString())
+    };
+
+    mockTransactionService = {
+      transfer: vi.fn().mockResolvedValue({
+        success: true,
+        result: { id: 'tx_123', block_num: 12345 }
+      })
+    };
+
+    service = new TransferService(mockAccountService, mockTransactionService);
+  });
+
+  it('should broadcast the transfer with the active key', async () => {
+    const result = await service.handleTransfer(baseRequest);
+
+    expect(result).toEqual({ success: true, result: { id: 'tx_123', block_num: 12345 }, request_id: 123 });
+    expect(mockTransactionService.transfer).toHaveBeenCalledWith(
+      'testuser',
+      'receiver',
+      '1.000',
+      'thanks',
+      { type: 'active', value: 'active-key' },
+      'STEEM'
+    );
+  });
+
+  it('should encrypt memos that start with #', async () => {
+    await service.handleTransfer({ ...baseRequest, memo: '#secret' });
+
+    const sentMemo = mockTransactionService.transfer.mock.calls[0][3];
+    expect(sentMemo).not.toBe('#secret');
+    expect(Memo.decode(receiverMemoKey, sentMemo)).toBe('#secret');
+    expect(mockAccountService.getPublicMemoKey).toHaveBeenCalledWith('receiver');
+  });
+
+  it('should fail when the receiver memo key cannot be found', async () => {
+    mockAccountService.getPublicMemoKey.mockResolvedValue(null);
+
+    const result = await service.handleTransfer({ ...baseRequest, memo: '#secret' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Receiver account not found');
+    expect(mockTransactionService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the memo key is missing for an encrypted memo', async () => {
+    mockAccountService.getAccount.mockResolvedValue({ name: 'testuser', keys: { active: 'active-key' } });
+
+    const result = await service.handleTransfer({ ...baseRequest, memo: '#secret' });
+
+    expect(result.error).toBe('Memo key required to encrypt memo');
+  });
+
+  it('should reject malformed amounts and unknown currencies', async () => {
+    expect((await service.handleTransfer({ ...baseRequest, amount: '1' })).success).toBe(false);
+    expect((await service.handleTransfer({ ...baseRequest, currency: 'HIVE' })).error).toBe(
+      'Invalid currency. Must be STEEM or SBD'
+    );
+    expect(mockTransactionService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('should require the active key', async () => {
+    mockAccountService.getAccount.mockResolvedValue({ name: 'testuser', keys: { posting: 'posting-key' } });
+
+    const result = await service.handleTransfer(baseRequest);
+
+    expect(result.error).toBe('active key not available for this account');
+  });
+
+  it('should surface broadcast failures', async () => {
+    mockTransactionService.transfer.mockResolvedValue({ success: false, error: 'Insufficient funds' });
+
+    const result = await service.handleTransfer(baseRequest);
+
+    expect(result).toEqual({ success: false, error: 'Insufficient funds', message: undefined, request_id: 123 });
+  });
+
+  it('should fail when the keychain is locked', async () => {
+    const { vaultSession } = await import('../../../../background/lib/vault-session');
+    vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
+
+    const result = await service.handleTransfer(baseRequest);
+
+    expect(result.error).toBe('User not authenticated');
+  });
+});
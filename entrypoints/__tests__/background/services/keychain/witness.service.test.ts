@@ -4,9 +4,9 @@ import { AccountService } from '../../../../background/services/account.service'
 import { TransactionService } from '../../../../background/services/transaction.service';
 import { KeychainError } from '../../../../../src/keychain-error';
 
-vi.mock('../../../../../src/utils/localStorage.utils', () => ({
-  default: {
-    getValueFromSessionStorage: vi.fn().mockResolvedValue('mock-password')
+vi.mock('../../../../background/lib/vault-session', () => ({
+  vaultSession: {
+    getVaultKey: vi.fn().mockResolvedValue('mock-vault-key')
   }
 }));
 
@@ -47,8 +47,8 @@ describe('WitnessService', () => {
 
   beforeEach(async () => {
     // Reset localStorage mock to default authenticated state
-    const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-    vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue('mock-password');
+    const { vaultSession } = await import('../../../../background/lib/vault-session');
+    vi.mocked(vaultSession.getVaultKey).mockResolvedValue('mock-vault-key');
 
     mockAccountService = {
       getAccount: vi.fn().mockResolvedValue({
@@ -60,9 +60,12 @@ describe('WitnessService', () => {
 
     mockTransactionService = {
       sendOperation: vi.fn().mockResolvedValue({
-        id: 'tx_123',
-        block_num: 12345,
-        trx_num: 1
+        success: true,
+        result: {
+          id: 'tx_123',
+          block_num: 12345,
+          trx_num: 1
+        }
       })
     } as any;
 
@@ -107,8 +110,8 @@ describe('WitnessService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'witnessVote',
@@ -173,6 +176,25 @@ describe('WitnessService', () => {
       expect(result.error).toBe('Failed to vote for witness: Witness vote broadcast failed');
       expect(result.request_id).toBe(123);
     });
+
+    it('should fail when the broadcast is rejected', async () => {
+      vi.mocked(mockTransactionService.sendOperation).mockResolvedValue({
+        success: false,
+        error: 'Transaction rejected by blockchain: missing required active authority',
+        transaction: null
+      });
+
+      const result = await service.handleWitnessVote({
+        type: 'witnessVote',
+        request_id: 123,
+        username: 'testuser',
+        witness: 'witness-account',
+        vote: true
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction rejected by blockchain: missing required active authority');
+    });
   });
 
   describe('handleWitnessProxy', () => {
@@ -210,8 +232,8 @@ describe('WitnessService', () => {
     });
 
     it('should fail when user is not authenticated', async () => {
-      const LocalStorageUtils = await import('../../../../../src/utils/localStorage.utils');
-      vi.mocked(LocalStorageUtils.default.getValueFromSessionStorage).mockResolvedValue(null);
+      const { vaultSession } = await import('../../../../background/lib/vault-session');
+      vi.mocked(vaultSession.getVaultKey).mockResolvedValue(null);
 
       const request = {
         type: 'witnessProxy',
@@ -259,6 +281,24 @@ describe('WitnessService', () => {
       expect(result.request_id).toBe(456);
     });
 
+    it('should fail when the broadcast is rejected', async () => {
+      vi.mocked(mockTransactionService.sendOperation).mockResolvedValue({
+        success: false,
+        error: 'Transaction rejected by blockchain: missing required active authority',
+        transaction: null
+      });
+
+      const result = await service.handleWitnessProxy({
+        type: 'witnessProxy',
+        request_id: 456,
+        username: 'testuser',
+        proxy: 'proxy-account'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction rejected by blockchain: missing required active authority');
+    });
+
     it('should prevent self-proxy', async () => {
       const request = {
         type: 'witnessProxy',
@@ -274,4 +314,126 @@ describe('WitnessService', () => {
       expect(result.request_id).toBe(456);
     });
   });
-});
\ No newline at end of file
+
+  describe('with chain data', () => {
+    let mockSteemApiService: any;
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600 * 1000).toISOString().slice(0, 19);
+
+    beforeEach(() => {
+      mockSteemApiService = {
+        getAccount: vi.fn().mockResolvedValue([
+          { name: 'testuser', witness_votes: ['alpha', 'beta'], proxy: '' }
+        ]),
+        getWitnessesByVote: vi.fn().mockResolvedValue([
+          {
+            owner: 'alpha',
+            votes: '90000000000000000',
+            total_missed: 3,
+            last_sbd_exchange_update: hoursAgo(1),
+            sbd_exchange_rate: { base: '0.250 SBD', quote: '1.000 STEEM' },
+            signing_key: 'STM6LLegbAgLAy28EHrffBVuANFWcFgmqRMW13wBmTExqFE9SCkg4'
+          },
+          {
+            owner: 'gamma',
+            votes: '80000000000000000',
+            total_missed: 900,
+            last_sbd_exchange_update: hoursAgo(72),
+            signing_key: 'STM1111111111111111111111111111111114T1Anm'
+          }
+        ])
+      };
+      service = new WitnessService(mockAccountService, mockTransactionService, mockSteemApiService);
+    });
+
+    it('should accept the approve flag sent by requestWitnessVote', async () => {
+      const result = await service.handleWitnessVote({
+        type: 'witnessVote',
+        request_id: 1,
+        username: 'testuser',
+        witness: 'alpha',
+        approve: 'false'
+      });
+
+      expect(result.success).toBe(true);
+      expect(vi.mocked(mockTransactionService.sendOperation).mock.calls[0][0][0]).toEqual([
+        'account_witness_vote',
+        { account: 'testuser', witness: 'alpha', approve: false }
+      ]);
+    });
+
+    it('should batch vote changes into one transaction and drop no-ops', async () => {
+      const result = await service.handleWitnessVotes({
+        request_id: 2,
+        username: 'testuser',
+        votes: [
+          { witness: 'beta', approve: false },
+          { witness: 'gamma', approve: true },
+          { witness: 'alpha', approve: true }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionService.sendOperation).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockTransactionService.sendOperation).mock.calls[0][0]).toEqual([
+        ['account_witness_vote', { account: 'testuser', witness: 'beta', approve: false }],
+        ['account_witness_vote', { account: 'testuser', witness: 'gamma', approve: true }]
+      ]);
+    });
+
+    it('should fail the batch when the broadcast is rejected', async () => {
+      vi.mocked(mockTransactionService.sendOperation).mockResolvedValue({
+        success: false,
+        error: 'Transaction rejected by blockchain: missing required active authority',
+        transaction: null
+      });
+
+      const result = await service.handleWitnessVotes({
+        request_id: 2,
+        username: 'testuser',
+        votes: [{ witness: 'gamma', approve: true }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction rejected by blockchain: missing required active authority');
+    });
+
+    it('should refuse to go over 30 witness votes', async () => {
+      const votes = Array.from({ length: 29 }, (_, i) => `witness${i}`);
+      mockSteemApiService.getAccount.mockResolvedValue([{ name: 'testuser', witness_votes: votes, proxy: '' }]);
+
+      const result = await service.handleWitnessVotes({
+        request_id: 3,
+        username: 'testuser',
+        votes: [{ witness: 'alpha', approve: true }, { witness: 'gamma', approve: true }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('An account can vote for at most 30 witnesses');
+      expect(mockTransactionService.sendOperation).not.toHaveBeenCalled();
+    });
+
+    it('should refuse vote changes while a proxy is set', async () => {
+      mockSteemApiService.getAccount.mockResolvedValue([{ name: 'testuser', witness_votes: [], proxy: 'delegate' }]);
+
+      const result = await service.handleWitnessVotes({
+        request_id: 4,
+        username: 'testuser',
+        votes: [{ witness: 'alpha', approve: true }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Witness votes cannot be changed while @delegate is set as proxy');
+    });
+
+    it('should list witnesses with health flags alongside the current votes', async () => {
+      const result = await service.getWitnessOverview({ request_id: 5, username: 'testuser' });
+
+      expect(result.success).toBe(true);
+      expect(mockSteemApiService.getWitnessesByVote).toHaveBeenCalledWith('', 100);
+      expect(result.result.votes).toEqual(['alpha', 'beta']);
+      expect(result.result.proxy).toBe('');
+      expect(result.result.witnesses[0]).toMatchObject({ owner: 'alpha', rank: 1, feedPrice: '0.250 SBD', flags: [] });
+      expect(result.result.witnesses[1].flags).toEqual(['disabled', 'stale_feed', 'missed_blocks']);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { PrivateKey, Signature, cryptoUtils, Operation } from '@steempro/dsteem';
+import { MultisigService } from '../../../background/services/multisig.service';
+import { NetworkProfiles } from '../../../../src/reference-data/network-profiles.list';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+describe('MultisigService', () => {
+  const keyA = PrivateKey.fromLogin('multi', 'password-a', 'active');
+  const keyB = PrivateKey.fromLogin('multi', 'password-b', 'active');
+  const keyC = PrivateKey.fromLogin('cosigner', 'password', 'active');
+  const outsider = PrivateKey.fromLogin('outsider', 'password', 'active');
+
+  const authority = (
+    threshold: number,
+    keys: [PrivateKey, number][],
+    accounts: [string, number][] = [],
+    prefix = 'STM'
+  ) => ({
+    weight_threshold: threshold,
+    key_auths: keys.map(([key, weight]) => [key.createPublic(prefix).toString(), weight]),
+    account_auths: accounts,
+  });
+
+  const accounts: Record<string, any> = {};
+  let steemApi: any;
+  let service: MultisigService;
+
+  const operations: Operation[] = [['transfer', { from: 'multi', to: 'bob', amount: '1.000 STEEM', memo: '' }]];
+  const unsignedTx = () => ({
+    ref_block_num: 1,
+    ref_block_prefix: 2,
+    expiration: new Date(Date.now() + 30 * 60 * 1000).toISOString().split('.')[0],
+    operations,
+    extensions: [],
+  });
+
+  const start = async () => {
+    const context = await service.detect(operations, keyA.toString(), 'active');
+    return service.create(unsignedTx(), keyA.toString(), context!);
+  };
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    accounts.multi = { name: 'multi', active: authority(2, [[keyA, 1], [keyB, 1]]) };
+    accounts.cosigner = { name: 'cosigner', active: authority(1, [[keyC, 1]]) };
+    steemApi = {
+      getAccount: vi.fn(async (name: string) => (accounts[name] ? [accounts[name]] : [])),
+      broadcastTransaction: vi.fn().mockResolvedValue({ id: 'tx_123', block_num: 10 }),
+      getChainId: vi.fn().mockReturnValue(NetworkProfiles[0].chainId),
+      getNetwork: vi.fn().mockReturnValue(NetworkProfiles[0]),
+    };
+    service = new MultisigService(steemApi);
+  });
+
+  describe('detect', () => {
+    it('should flag keys whose weight is below the threshold', async () => {
+      const context = await service.detect(operations, keyA.toString(), 'active');
+
+      expect(context).toMatchObject({ role: 'active', threshold: 2, weight: 1 });
+      expect(context!.account.name).toBe('multi');
+    });
+
+    it('should ignore keys that meet the threshold alone or are not listed', async () => {
+      accounts.multi.active = authority(1, [[keyA, 1]]);
+
+      expect(await service.detect(operations, keyA.toString(), 'active')).toBeNull();
+      expect(await service.detect(operations, outsider.toString(), 'active')).toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('should store the partially signed transaction without broadcasting', async () => {
+      const progress = await start();
+
+      expect(progress.broadcastResult).toBeUndefined();
+      expect(progress.transaction).toMatchObject({ account: 'multi', role: 'active', threshold: 2, signedWeight: 1 });
+      expect(progress.transaction.signers).toEqual([{ publicKey: keyA.createPublic().toString(), weight: 1 }]);
+      expect(await service.getPending()).toHaveLength(1);
+      expect(steemApi.broadcastTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sign', () => {
+    it('should broadcast once a second local key reaches the threshold', async () => {
+      const { transaction } = await start();
+
+      const progress = await service.sign(transaction.id, keyB.toString());
+
+      expect(progress.broadcastResult).toEqual({ id: 'tx_123', block_num: 10 });
+      expect(steemApi.broadcastTransaction.mock.calls[0][0].signatures).toHaveLength(2);
+      expect(await service.getPending()).toHaveLength(0);
+    });
+
+    it('should not count keys outside the authority', async () => {
+      const { transaction } = await start();
+
+      const progress = await service.sign(transaction.id, outsider.toString());
+
+      expect(progress.transaction.signedWeight).toBe(1);
+      expect(steemApi.broadcastTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should count keys of accounts listed in account_auths', async () => {
+      accounts.multi.active = authority(2, [[keyA, 1]], [['cosigner', 1]]);
+      const { transaction } = await start();
+
+      const progress = await service.sign(transaction.id, keyC.toString());
+
+      expect(progress.transaction.signers).toContainEqual(
+        expect.objectContaining({ account: 'cosigner', weight: 1 })
+      );
+      expect(progress.broadcastResult).toBeDefined();
+    });
+  });
+
+  describe('on a testnet', () => {
+    const testnet = NetworkProfiles[1];
+
+    beforeEach(() => {
+      steemApi.getChainId.mockReturnValue(testnet.chainId);
+      steemApi.getNetwork.mockReturnValue(testnet);
+      accounts.multi = { name: 'multi', active: authority(2, [[keyA, 1], [keyB, 1]], [], 'TST') };
+    });
+
+    it('should match the TST keys of the authority', async () => {
+      const context = await service.detect(operations, keyA.toString(), 'active');
+
+      expect(context).toMatchObject({ role: 'active', threshold: 2, weight: 1 });
+    });
+
+    it('should sign with the testnet chain id', async () => {
+      const { transaction } = await start();
+
+      const progress = await service.sign(transaction.id, keyB.toString());
+
+      const { signatures, ...unsigned } = steemApi.broadcastTransaction.mock.calls[0][0];
+      const digest = cryptoUtils.transactionDigest(unsigned, Buffer.from(testnet.chainId!, 'hex'));
+      expect(progress.broadcastResult).toBeDefined();
+      expect(signatures.map((signature: string) => Signature.fromString(signature).recover(digest, 'TST').toString())).toEqual([
+        keyA.createPublic('TST').toString(),
+        keyB.createPublic('TST').toString(),
+      ]);
+    });
+  });
+
+  describe('export / import', () => {
+    it('should merge signatures collected by a co-signer and broadcast', async () => {
+      const { transaction } = await start();
+      const exported = JSON.parse(await service.export(transaction.id));
+
+      // The co-signer adds their signature on another device
+      const { signatures, ...unsigned } = exported.transaction;
+      const coSigned = cryptoUtils.signTransaction(unsigned, keyB);
+      const progress = await service.import(
+        JSON.stringify({ ...exported, transaction: { ...unsigned, signatures: coSigned.signatures } })
+      );
+
+      expect(progress.transaction.id).toBe(transaction.id);
+      expect(progress.transaction.signedWeight).toBe(2);
+      expect(progress.broadcastResult).toBeDefined();
+    });
+
+    it('should track an imported transaction that still needs signatures', async () => {
+      const { transaction } = await start();
+      const json = await service.export(transaction.id);
+      fakeBrowser.reset();
+
+      const progress = await new MultisigService(steemApi).import(json);
+
+      expect(progress.transaction.signedWeight).toBe(1);
+      expect(await service.getPending()).toHaveLength(1);
+    });
+
+    it('should reject malformed and expired transactions', async () => {
+      await expect(service.import('{nope')).rejects.toThrow('Invalid multisig transaction JSON');
+      await expect(
+        service.import(
+          JSON.stringify({
+            account: 'multi',
+            role: 'active',
+            transaction: { ...unsignedTx(), expiration: '2020-01-01T00:00:00', signatures: [] },
+          })
+        )
+      ).rejects.toThrow('Multisig transaction has expired');
+    });
+  });
+
+  describe('getAuthorityAccount', () => {
+    it('should use the auth list matching the role for custom_json', () => {
+      const ops: Operation[] = [
+        ['custom_json', { required_auths: ['active-acc'], required_posting_auths: ['posting-acc'], id: 'x', json: '{}' }],
+      ];
+
+      expect(MultisigService.getAuthorityAccount(ops, 'posting')).toBe('posting-acc');
+      expect(MultisigService.getAuthorityAccount(ops, 'active')).toBe('active-acc');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { NetworkService } from '../../../background/services/network.service';
+import NetworkUtils from '../../../background/utils/network.utils';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+import { NetworkProfiles } from '../../../../src/reference-data/network-profiles.list';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const [mainnet, testnet, devnet] = NetworkProfiles;
+
+describe('NetworkService', () => {
+  let service: NetworkService;
+  let mockSteemApi: any;
+  let mockRpcSettings: any;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    await NetworkUtils.getActiveNetwork();
+
+    mockSteemApi = {
+      setNetwork: vi.fn(),
+      getNetwork: vi.fn().mockReturnValue(mainnet),
+      getChainId: vi.fn().mockReturnValue(mainnet.chainId),
+    };
+    mockRpcSettings = { load: vi.fn().mockResolvedValue(undefined) };
+
+    service = new NetworkService(mockSteemApi, mockRpcSettings);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should start on mainnet when no network was saved', async () => {
+    const profile = await service.load();
+
+    expect(profile.id).toBe('mainnet');
+    expect(mockSteemApi.setNetwork).toHaveBeenCalledWith(mainnet, mainnet.chainId);
+    expect(mockRpcSettings.load).toHaveBeenCalled();
+  });
+
+  it('should switch chain id, address prefix and node settings to the testnet', async () => {
+    await service.switchNetwork('testnet');
+
+    expect(mockSteemApi.setNetwork).toHaveBeenCalledWith(testnet, testnet.chainId);
+    expect(mockRpcSettings.load).toHaveBeenCalled();
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.NETWORK)).toBe('testnet');
+    expect(NetworkUtils.isPublicKeyFormat('TST6LLegbAgLAy28EHrffBVuANFWcFgmqRMW13wBmTExqFE9SCkg4')).toBe(true);
+    expect(NetworkUtils.isPublicKeyFormat('STM6LLegbAgLAy28EHrffBVuANFWcFgmqRMW13wBmTExqFE9SCkg4')).toBe(false);
+  });
+
+  it('should keep accounts and permissions of each network apart', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.PERMISSIONS, ['mainnet rule']);
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.AUTH_DATA, 'shared');
+
+    await service.switchNetwork('testnet');
+
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.PERMISSIONS)).toBeNull();
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.AUTH_DATA)).toBe('shared');
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.ACCOUNTS, 'testnet vault');
+
+    await service.switchNetwork('mainnet');
+
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.PERMISSIONS)).toEqual(['mainnet rule']);
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.ACCOUNTS)).toBeNull();
+  });
+
+  it('should read the chain id of a local devnet from its node', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ result: { STEEM_CHAIN_ID: 'ab'.repeat(32) } }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await service.switchNetwork('devnet');
+
+    expect(fetchMock).toHaveBeenCalledWith(devnet.rpcs[0].uri, expect.anything());
+    expect(mockSteemApi.setNetwork).toHaveBeenCalledWith(devnet, 'ab'.repeat(32));
+  });
+
+  it('should stay on the current network when the devnet is not running', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')));
+
+    await expect(service.switchNetwork('devnet')).rejects.toThrow(
+      'Local devnet is not reachable at http://127.0.0.1:8090: ECONNREFUSED'
+    );
+
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.NETWORK)).toBeNull();
+    expect(mockSteemApi.setNetwork).not.toHaveBeenCalled();
+  });
+
+  it('should refuse unknown networks', async () => {
+    await expect(service.switchNetwork('regtest' as any)).rejects.toThrow('Unknown network regtest');
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { PermissionService } from '../../../background/services/permission.service';
+import { KeychainError } from '../../../../src/keychain-error';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  const origin = 'https://game.example';
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    service = new PermissionService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('addRule', () => {
+    it('should store a vote rule', async () => {
+      const rule = await service.addRule({ origin, account: 'alice', operation: 'vote' });
+
+      expect(rule.id).toBeDefined();
+      expect(await service.getRules()).toEqual([rule]);
+    });
+
+    it('should replace an existing rule for the same scope', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 5 });
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 10 });
+
+      const rules = await service.getRules();
+      expect(rules).toHaveLength(1);
+      expect(rules[0].dailyLimit).toBe(10);
+    });
+
+    it('should refuse operations that cannot be pre-approved', async () => {
+      await expect(
+        service.addRule({ origin, account: 'alice', operation: 'powerDown' as any })
+      ).rejects.toThrow(KeychainError);
+    });
+
+    it('should require a custom_json id for custom rules', async () => {
+      await expect(service.addRule({ origin, account: 'alice', operation: 'custom' })).rejects.toThrow(
+        'Custom JSON rules must name a custom_json id'
+      );
+    });
+
+    it('should require a positive daily limit for transfer rules', async () => {
+      await expect(
+        service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM' })
+      ).rejects.toThrow('Transfer rules need a currency and a positive daily limit');
+    });
+  });
+
+  describe('authorize', () => {
+    it('should allow votes covered by a rule', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'vote' });
+
+      const rule = await service.authorize({ type: 'vote', request_id: 1, username: 'alice' }, origin);
+
+      expect(rule).not.toBeNull();
+      expect(rule!.lastUsed).toBeDefined();
+    });
+
+    it('should not allow other origins, accounts or operations', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'vote' });
+
+      expect(await service.authorize({ type: 'vote', request_id: 1, username: 'alice' }, 'https://evil.example')).toBeNull();
+      expect(await service.authorize({ type: 'vote', request_id: 1, username: 'bob' }, origin)).toBeNull();
+      expect(await service.authorize({ type: 'post', request_id: 1, username: 'alice' }, origin)).toBeNull();
+    });
+
+    it('should only allow posting custom_json with the whitelisted id', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'custom', customJsonId: 'etta_game' });
+
+      const base = { type: 'custom', request_id: 1, username: 'alice' };
+      expect(await service.authorize({ ...base, id: 'etta_game', method: 'Posting' }, origin)).not.toBeNull();
+      expect(await service.authorize({ ...base, id: 'other_game', method: 'Posting' }, origin)).toBeNull();
+      expect(await service.authorize({ ...base, id: 'etta_game', method: 'Active' }, origin)).toBeNull();
+    });
+
+    it('should enforce the daily transfer limit', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 5 });
+      const transfer = (amount: string) => ({
+        type: 'transfer',
+        request_id: 1,
+        username: 'alice',
+        to: 'bob',
+        amount,
+        currency: 'STEEM',
+      });
+
+      expect(await service.authorize(transfer('3.000'), origin)).not.toBeNull();
+      expect(await service.authorize(transfer('2.500'), origin)).toBeNull();
+      expect(await service.authorize(transfer('2.000'), origin)).not.toBeNull();
+      expect((await service.getRules())[0].spent?.amount).toBe(5);
+    });
+
+    it('should not apply a STEEM limit to SBD transfers', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 5 });
+
+      const rule = await service.authorize(
+        { type: 'transfer', request_id: 1, username: 'alice', amount: '1.000', currency: 'SBD' },
+        origin
+      );
+
+      expect(rule).toBeNull();
+    });
+
+    it('should reset spending on a new day', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-01T12:00:00Z'));
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 5 });
+      const transfer = { type: 'transfer', request_id: 1, username: 'alice', amount: '5.000', currency: 'STEEM' };
+
+      expect(await service.authorize(transfer, origin)).not.toBeNull();
+      expect(await service.authorize(transfer, origin)).toBeNull();
+
+      vi.setSystemTime(new Date('2025-01-02T00:00:01Z'));
+      expect(await service.authorize(transfer, origin)).not.toBeNull();
+    });
+  });
+
+  describe('refund', () => {
+    it('should give back a reservation after a failed transfer', async () => {
+      await service.addRule({ origin, account: 'alice', operation: 'transfer', currency: 'STEEM', dailyLimit: 5 });
+      const transfer = { type: 'transfer', request_id: 1, username: 'alice', amount: '4.000', currency: 'STEEM' };
+
+      const rule = await service.authorize(transfer, origin);
+      await service.refund(rule!.id, transfer);
+
+      expect((await service.getRules())[0].spent?.amount).toBe(0);
+    });
+  });
+
+  describe('updateRule / removeRule', () => {
+    it('should update the daily limit', async () => {
+      const rule = await service.addRule({
+        origin,
+        account: 'alice',
+        operation: 'transfer',
+        currency: 'STEEM',
+        dailyLimit: 5,
+      });
+
+      const updated = await service.updateRule(rule.id, { dailyLimit: 20 });
+
+      expect(updated.dailyLimit).toBe(20);
+      expect(updated.createdAt).toBe(rule.createdAt);
+    });
+
+    it('should reject invalid updates', async () => {
+      const rule = await service.addRule({
+        origin,
+        account: 'alice',
+        operation: 'transfer',
+        currency: 'STEEM',
+        dailyLimit: 5,
+      });
+
+      await expect(service.updateRule(rule.id, { dailyLimit: 0 })).rejects.toThrow(KeychainError);
+      expect((await service.getRules())[0].dailyLimit).toBe(5);
+    });
+
+    it('should throw for unknown rules', async () => {
+      await expect(service.updateRule('missing', { dailyLimit: 1 })).rejects.toThrow('Permission rule not found');
+    });
+
+    it('should remove rules by id and by origin', async () => {
+      const rule = await service.addRule({ origin, account: 'alice', operation: 'vote' });
+      await service.addRule({ origin: 'https://other.example', account: 'alice', operation: 'vote' });
+      await service.addRule({ origin, account: 'bob', operation: 'vote' });
+
+      await service.removeRule(rule.id);
+      expect(await service.getRules()).toHaveLength(2);
+
+      await service.removeRulesForOrigin(origin);
+      expect((await service.getRules()).map((r) => r.origin)).toEqual(['https://other.example']);
+    });
+  });
+
+  describe('ruleFromRequest', () => {
+    it('should derive a custom_json rule from the request', () => {
+      const rule = PermissionService.ruleFromRequest(
+        { type: 'custom', request_id: 1, username: 'alice', id: 'etta_game', method: 'Posting' },
+        origin
+      );
+
+      expect(rule).toEqual({ origin, account: 'alice', operation: 'custom', customJsonId: 'etta_game' });
+    });
+
+    it('should carry the daily limit for transfers', () => {
+      const rule = PermissionService.ruleFromRequest(
+        { type: 'transfer', request_id: 1, username: 'alice', amount: '1.000', currency: 'SBD' },
+        origin,
+        25
+      );
+
+      expect(rule).toMatchObject({ operation: 'transfer', currency: 'SBD', dailyLimit: 25 });
+    });
+
+    it('should refuse high-risk request types', () => {
+      expect(() =>
+        PermissionService.ruleFromRequest({ type: 'removeAccountAuthority', request_id: 1, username: 'alice' }, origin)
+      ).toThrow(KeychainError);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { browser } from 'wxt/browser';
+import { fakeBrowser } from 'wxt/testing';
+import { RequestApprovalService } from '../../../background/services/request-approval.service';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+describe('RequestApprovalService', () => {
+  let service: RequestApprovalService;
+  let dispatch: ReturnType<typeof vi.fn>;
+  const transferRequest = {
+    type: 'transfer',
+    request_id: 1,
+    username: 'alice',
+    to: 'bob',
+    amount: '1.000',
+    currency: 'STEEM',
+  };
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.restoreAllMocks();
+    vi.spyOn(browser.windows, 'create').mockResolvedValue({ id: 42 } as any);
+    vi.spyOn(browser.windows, 'update').mockResolvedValue({ id: 42 } as any);
+    vi.spyOn(browser.tabs, 'sendMessage').mockResolvedValue(undefined);
+    dispatch = vi.fn().mockImplementation(async (request) => ({
+      success: true,
+      result: { id: 'tx123' },
+      request_id: request.request_id,
+    }));
+    service = new RequestApprovalService(dispatch);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('requiresApproval', () => {
+    it('should gate requests that use keys', () => {
+      expect(RequestApprovalService.requiresApproval(transferRequest)).toBe(true);
+      expect(RequestApprovalService.requiresApproval({ type: 'signBuffer', request_id: 2 })).toBe(true);
+    });
+
+    it('should let read-only queries through', () => {
+      expect(
+        RequestApprovalService.requiresApproval({ type: 'query_custom_json_by_account', request_id: 3 })
+      ).toBe(false);
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should persist the request in session storage and open the approval window', async () => {
+      const approval = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      const stored = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.PENDING_REQUESTS);
+      expect(stored).toEqual([approval]);
+      expect(approval).toMatchObject({
+        request: transferRequest,
+        origin: 'https://dapp.example',
+        tabId: 7,
+      });
+      expect(approval.expiresAt - approval.timestamp).toBe(RequestApprovalService.REQUEST_TTL);
+      expect(browser.windows.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'popup' }));
+    });
+
+    it('should open a single window for concurrent requests', async () => {
+      await Promise.all([
+        service.enqueue(transferRequest, 'https://dapp.example', 7),
+        service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7),
+      ]);
+
+      expect(browser.windows.create).toHaveBeenCalledTimes(1);
+      expect(await service.getPendingRequests()).toHaveLength(2);
+    });
+
+    it('should focus the existing window for later requests', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      expect(browser.windows.create).toHaveBeenCalledTimes(1);
+      expect(browser.windows.update).toHaveBeenCalledWith(42, { focused: true });
+    });
+
+    it('should reuse the window opened before the service worker restarted', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      const restarted = new RequestApprovalService(dispatch);
+      await restarted.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      expect(browser.windows.create).toHaveBeenCalledTimes(1);
+      expect(browser.windows.update).toHaveBeenCalledWith(42, { focused: true });
+    });
+
+    it('should reject back to the page when the approval window cannot be opened', async () => {
+      vi.mocked(browser.windows.create).mockRejectedValueOnce(new Error('No windows'));
+
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      expect(await service.getPendingRequests()).toHaveLength(0);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(7, {
+        type: 'keychain_response',
+        response: expect.objectContaining({ success: false, error: 'Unable to open approval window', request_id: 1 }),
+      }, { frameId: 0 });
+    });
+
+    it('should push new requests to connected approval ports', async () => {
+      const port = {
+        postMessage: vi.fn(),
+        onDisconnect: { addListener: vi.fn() },
+      } as any;
+      service.attachPort(port);
+
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      expect(port.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'transaction_request',
+          request: transferRequest,
+          origin: 'https://dapp.example',
+        })
+      );
+    });
+  });
+
+  describe('survival across restarts', () => {
+    it('should let a fresh instance see and approve requests queued by the previous worker', async () => {
+      const approval = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      const restarted = new RequestApprovalService(dispatch);
+      const pending = await restarted.getPendingRequests();
+      expect(pending.map((req) => req.id)).toEqual([approval.id]);
+
+      await restarted.approve([approval.id]);
+      expect(dispatch).toHaveBeenCalledWith(transferRequest);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(7, {
+        type: 'keychain_response',
+        response: expect.objectContaining({ success: true, request_id: 1 }),
+      }, { frameId: 0 });
+    });
+  });
+
+  describe('approve', () => {
+    it('should dispatch in queue order and deliver each result to its tab', async () => {
+      const first = await service.enqueue(transferRequest, 'https://a.example', 7);
+      const second = await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://b.example', 8);
+
+      const results = await service.approve([second.id, first.id]);
+
+      expect(dispatch.mock.calls.map(([request]) => request.request_id)).toEqual([1, 2]);
+      expect(results[first.id].success).toBe(true);
+      expect(results[second.id].success).toBe(true);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(
+        8,
+        expect.objectContaining({ type: 'keychain_response' }),
+        { frameId: 0 }
+      );
+      expect(await service.getPendingRequests()).toHaveLength(0);
+    });
+
+    it('should deliver the result only to the frame that sent the request', async () => {
+      const approval = await service.enqueue(transferRequest, 'https://dapp.example', 7, 3);
+
+      await service.approve([approval.id]);
+
+      expect(approval.frameId).toBe(3);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(
+        7,
+        expect.objectContaining({ type: 'keychain_response' }),
+        { frameId: 3 }
+      );
+    });
+
+    it('should turn dispatcher failures into error responses', async () => {
+      dispatch.mockRejectedValueOnce(new Error('Keychain is locked'));
+      const approval = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      const results = await service.approve([approval.id]);
+
+      expect(results[approval.id]).toEqual({ success: false, error: 'Keychain is locked', request_id: 1 });
+    });
+
+    it('should not sign a request on another network than the one it was made on', async () => {
+      const approval = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.NETWORK, 'testnet');
+
+      const results = await service.approve([approval.id]);
+
+      expect(approval.network).toBe('mainnet');
+      expect(dispatch).not.toHaveBeenCalled();
+      expect(results[approval.id]).toEqual({
+        success: false,
+        error: 'The request was made on Mainnet, switch back to that network to approve it',
+        request_id: 1,
+      });
+    });
+
+    it('should ignore ids that are no longer queued', async () => {
+      const results = await service.approve(['missing']);
+
+      expect(results).toEqual({});
+      expect(dispatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reject', () => {
+    it('should reject only the requested entries with the given reason', async () => {
+      const first = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      const rejected = await service.reject([first.id], 'Looks suspicious');
+
+      expect(rejected).toBe(1);
+      expect(dispatch).not.toHaveBeenCalled();
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(7, {
+        type: 'keychain_response',
+        response: expect.objectContaining({ success: false, error: 'Looks suspicious', request_id: 1 }),
+      }, { frameId: 0 });
+      expect(await service.getPendingRequests()).toHaveLength(1);
+    });
+
+    it('should reject everything with rejectAll', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      expect(await service.rejectAll()).toBe(2);
+      expect(await service.getPendingRequests()).toHaveLength(0);
+    });
+  });
+
+  describe('reorder', () => {
+    it('should move the given ids to the front in the supplied order', async () => {
+      const a = await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      const b = await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+      const c = await service.enqueue({ ...transferRequest, request_id: 3 }, 'https://dapp.example', 7);
+
+      const queue = await service.reorder([c.id, a.id]);
+
+      expect(queue.map((req) => req.id)).toEqual([c.id, a.id, b.id]);
+    });
+  });
+
+  describe('pruneExpired', () => {
+    it('should auto-reject entries past their expiry', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      const fresh = await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      vi.setSystemTime(Date.now() + RequestApprovalService.REQUEST_TTL + 1);
+      // Keep the second request within its window
+      await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.PENDING_REQUESTS, [
+        ...(await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.PENDING_REQUESTS)).slice(0, 1),
+        { ...fresh, expiresAt: Date.now() + 1000 },
+      ]);
+
+      const expired = await service.pruneExpired();
+
+      expect(expired).toBe(1);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(7, {
+        type: 'keychain_response',
+        response: expect.objectContaining({ error: 'Request expired before it was approved', request_id: 1 }),
+      }, { frameId: 0 });
+      expect((await service.getPendingRequests()).map((req) => req.id)).toEqual([fresh.id]);
+    });
+  });
+
+  describe('handleWindowRemoved', () => {
+    it('should reject everything pending when the approval window closes', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+      await service.enqueue({ ...transferRequest, request_id: 2 }, 'https://dapp.example', 7);
+
+      await service.handleWindowRemoved(42);
+
+      expect(await service.getPendingRequests()).toHaveLength(0);
+      expect(browser.tabs.sendMessage).toHaveBeenCalledWith(7, {
+        type: 'keychain_response',
+        response: expect.objectContaining({ error: 'User closed the approval window' }),
+      }, { frameId: 0 });
+    });
+
+    it('should recognise the approval window after the service worker restarted', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      await new RequestApprovalService(dispatch).handleWindowRemoved(42);
+
+      expect(await service.getPendingRequests()).toHaveLength(0);
+      expect(await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.APPROVAL_WINDOW)).toBeNull();
+    });
+
+    it('should ignore unrelated windows', async () => {
+      await service.enqueue(transferRequest, 'https://dapp.example', 7);
+
+      await service.handleWindowRemoved(9);
+
+      expect(await service.getPendingRequests()).toHaveLength(1);
+    });
+  });
+});
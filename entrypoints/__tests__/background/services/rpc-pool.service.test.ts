@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RpcPoolService } from '../../../background/services/rpc-pool.service';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const nodes = [{ uri: 'https://a.rpc' }, { uri: 'https://b.rpc' }, { uri: 'https://c.rpc' }];
+
+// fetch stub answering get_dynamic_global_properties with a head block per node
+const mockHeads = (heads: Record<string, number | Error>) =>
+  vi.fn().mockImplementation(async (uri: string) => {
+    const head = heads[uri];
+    if (head instanceof Error) throw head;
+    return { ok: true, json: async () => ({ result: { head_block_number: head } }) };
+  });
+
+describe('RpcPoolService', () => {
+  let pool: RpcPoolService;
+
+  beforeEach(() => {
+    pool = new RpcPoolService(nodes);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should rank nodes by score and move failing nodes down', () => {
+    pool.recordSuccess('https://a.rpc', 900);
+    pool.recordSuccess('https://b.rpc', 100);
+    pool.recordSuccess('https://c.rpc', 300);
+    expect(pool.getRankedNodes().map((rpc) => rpc.uri)).toEqual(['https://b.rpc', 'https://c.rpc', 'https://a.rpc']);
+
+    pool.recordFailure('https://b.rpc', new Error('socket hang up'));
+    expect(pool.getRankedNodes()[0].uri).toBe('https://c.rpc');
+  });
+
+  it('should eject nodes whose error rate gets too high', () => {
+    ['https://a.rpc', 'https://a.rpc', 'https://a.rpc'].forEach((uri) => pool.recordFailure(uri, 'timeout'));
+
+    const health = pool.getHealth().find((node) => node.uri === 'https://a.rpc');
+    expect(health).toMatchObject({ ejected: true, errorRate: 1, lastError: 'timeout' });
+    expect(pool.getRankedNodes().map((rpc) => rpc.uri).pop()).toBe('https://a.rpc');
+  });
+
+  it('should keep the preferred node first while it is healthy', () => {
+    pool.recordSuccess('https://a.rpc', 50);
+    pool.setPreferred({ uri: 'https://c.rpc' });
+    expect(pool.getRankedNodes()[0].uri).toBe('https://c.rpc');
+
+    ['https://c.rpc', 'https://c.rpc', 'https://c.rpc'].forEach((uri) => pool.recordFailure(uri));
+    expect(pool.getRankedNodes()[0].uri).toBe('https://a.rpc');
+  });
+
+  it('should eject nodes that fall behind the best head block and bring them back once caught up', async () => {
+    vi.stubGlobal('fetch', mockHeads({ 'https://a.rpc': 1000, 'https://b.rpc': 950, 'https://c.rpc': new Error('ECONNREFUSED') }));
+
+    const health = await pool.checkAll();
+
+    expect(health.find((node) => node.uri === 'https://a.rpc')).toMatchObject({ headBlock: 1000, blockLag: 0, ejected: false });
+    expect(health.find((node) => node.uri === 'https://b.rpc')).toMatchObject({ blockLag: 50, ejected: true });
+    expect(health.find((node) => node.uri === 'https://c.rpc')).toMatchObject({ headBlock: null, ejected: true });
+    expect(pool.getRankedNodes()[0].uri).toBe('https://a.rpc');
+
+    vi.stubGlobal('fetch', mockHeads({ 'https://a.rpc': 1010, 'https://b.rpc': 1009, 'https://c.rpc': new Error('ECONNREFUSED') }));
+    await pool.checkAll();
+
+    expect(pool.getHealth().find((node) => node.uri === 'https://b.rpc')?.ejected).toBe(false);
+  });
+
+  it('should probe nodes outside the pool without adding them', async () => {
+    vi.stubGlobal('fetch', mockHeads({ 'https://custom.rpc': 1234 }));
+
+    const result = await pool.probe('https://custom.rpc');
+
+    expect(result.headBlock).toBe(1234);
+    expect(pool.getHealth().map((node) => node.uri)).not.toContain('https://custom.rpc');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { RpcSettingsService } from '../../../background/services/rpc-settings.service';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+import { DefaultRpcs } from '../../../../src/reference-data/default-rpc.list';
+import { NetworkProfiles } from '../../../../src/reference-data/network-profiles.list';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const custom = { uri: 'https://custom.rpc' };
+
+// fetch stub answering get_config with the given chain id
+const mockChainId = (chainId: string) =>
+  vi.fn().mockResolvedValue({ ok: true, json: async () => ({ result: { STEEM_CHAIN_ID: chainId } }) });
+
+describe('RpcSettingsService', () => {
+  let service: RpcSettingsService;
+  let mockSteemApi: any;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+
+    mockSteemApi = {
+      addRpcNode: vi.fn(),
+      removeRpcNode: vi.fn(),
+      switchRpc: vi.fn().mockResolvedValue(undefined),
+      getRpcHealth: vi.fn().mockReturnValue([]),
+      getChainId: vi.fn().mockReturnValue(NetworkProfiles[0].chainId),
+      testRpc: vi.fn().mockResolvedValue({ latencyMs: 120, headBlock: 1000 }),
+    };
+
+    vi.stubGlobal('fetch', mockChainId(NetworkProfiles[0].chainId!));
+    service = new RpcSettingsService(mockSteemApi);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should restore custom nodes and the current node on load', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.RPC, {
+      currentRpc: custom,
+      customRpcs: [custom],
+      testResults: {},
+    });
+
+    await service.load();
+
+    expect(mockSteemApi.addRpcNode).toHaveBeenCalledWith(custom);
+    expect(mockSteemApi.switchRpc).toHaveBeenCalledWith(custom);
+  });
+
+  it('should fall back to the node saved before the RPC key existed', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage('currentRpc', custom);
+
+    const settings = await service.load();
+
+    expect(settings.currentRpc).toEqual(custom);
+    expect(settings.customRpcs).toEqual([custom]);
+  });
+
+  it('should use the built-in nodes of the active network', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage('currentRpc', custom);
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.NETWORK, 'testnet');
+
+    const settings = await service.load();
+
+    expect(settings.currentRpc).toEqual(NetworkProfiles[1].rpcs[0]);
+    expect(settings.customRpcs).toEqual([]);
+    expect((await service.getSettings()).defaultRpcs).toEqual(NetworkProfiles[1].rpcs);
+  });
+
+  it('should only switch to default or custom nodes and persist the choice', async () => {
+    await expect(service.setRpc({ uri: 'https://unknown.rpc' })).rejects.toThrow('Unknown RPC node https://unknown.rpc');
+
+    await service.setRpc(DefaultRpcs[1]);
+
+    expect(mockSteemApi.switchRpc).toHaveBeenCalledWith(DefaultRpcs[1]);
+    const saved = await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.RPC);
+    expect(saved.currentRpc).toEqual(DefaultRpcs[1]);
+  });
+
+  it('should dedupe custom nodes, sync the pool and leave a removed current node', async () => {
+    await expect(service.saveCustomRpcs([{ uri: 'http://plain.rpc' }])).rejects.toThrow('RPC URL must start with https://');
+
+    const saved = await service.saveCustomRpcs([custom, { uri: 'https://custom.rpc/' }, DefaultRpcs[0]]);
+    expect(saved).toEqual([custom]);
+    expect(mockSteemApi.addRpcNode).toHaveBeenCalledWith(custom);
+
+    await service.setRpc(custom);
+    await service.saveCustomRpcs([]);
+
+    expect(mockSteemApi.removeRpcNode).toHaveBeenCalledWith(custom.uri);
+    expect(mockSteemApi.switchRpc).toHaveBeenLastCalledWith(DefaultRpcs[0]);
+    expect((await service.getSettings()).currentRpc).toEqual(DefaultRpcs[0]);
+  });
+
+  it('should only add custom nodes serving the chain of the network', async () => {
+    vi.stubGlobal('fetch', mockChainId('18dcf0a285365fc58b71f18b3d3fec954aa0c141c44e4e5cb4cf777b9eab274e'));
+
+    await expect(service.saveCustomRpcs([custom])).rejects.toThrow(`Could not add ${custom.uri}: Node serves chain 18dcf0a2`);
+    expect(mockSteemApi.addRpcNode).not.toHaveBeenCalled();
+    expect((await service.getSettings()).customRpcs).toEqual([]);
+
+    vi.stubGlobal('fetch', mockChainId(NetworkProfiles[0].chainId!));
+    const saved = await service.saveCustomRpcs([{ ...custom, chainId: 'f'.repeat(64) }]);
+
+    expect(saved).toEqual([custom]);
+    expect((await service.getSettings()).testResults[custom.uri]).toMatchObject({ success: true });
+  });
+
+  it('should reject nodes serving another chain and keep the result per node', async () => {
+    await service.saveCustomRpcs([custom]);
+    vi.stubGlobal('fetch', mockChainId('18dcf0a285365fc58b71f18b3d3fec954aa0c141c44e4e5cb4cf777b9eab274e'));
+
+    const result = await service.testRpc(custom.uri);
+
+    expect(result).toMatchObject({ uri: custom.uri, success: false, latencyMs: 120, headBlock: 1000 });
+    expect(result.error).toContain('expected 00000000');
+    expect((await service.getSettings()).testResults[custom.uri]).toEqual(result);
+
+    vi.stubGlobal('fetch', mockChainId(NetworkProfiles[0].chainId!));
+    expect((await service.testRpc(custom.uri)).success).toBe(true);
+  });
+
+  it('should report unreachable nodes without remembering unknown ones', async () => {
+    mockSteemApi.testRpc.mockRejectedValue(new Error('https://new.rpc timed out'));
+
+    const result = await service.testRpc('https://new.rpc');
+
+    expect(result).toMatchObject({ success: false, error: 'https://new.rpc timed out' });
+    expect((await service.getSettings()).testResults).toEqual({});
+  });
+});
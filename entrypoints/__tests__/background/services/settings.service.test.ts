@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { browser } from 'wxt/browser';
+import { fakeBrowser } from 'wxt/testing';
+import { SettingsService } from '../../../background/services/settings.service';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+describe('SettingsService', () => {
+  let service: SettingsService;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.restoreAllMocks();
+    vi.spyOn(browser.runtime, 'sendMessage').mockResolvedValue(undefined);
+    service = new SettingsService();
+  });
+
+  it('should return the defaults until something is saved', async () => {
+    expect(await service.getSettings()).toEqual(SettingsService.getDefaultSettings());
+  });
+
+  it('should read the auto-lock policies saved before the store existed', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.SETTINGS, {
+      autoLock: { idleMinutes: 5, lockOnSystemLock: false, lockOnBrowserClose: true, maxSessionMinutes: 60 },
+    });
+
+    expect(await service.getSettings()).toEqual({
+      ...SettingsService.getDefaultSettings(),
+      autoLock: { idleMinutes: 5, lockOnSystemLock: false, lockOnBrowserClose: true, maxSessionMinutes: 60 },
+    });
+  });
+
+  it('should fall back to the default of each invalid stored field only', async () => {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.SETTINGS, {
+      version: 1,
+      theme: 'dark',
+      fiatCurrency: 'XYZ',
+      autoLock: { idleMinutes: -3, maxSessionMinutes: 30 },
+    });
+
+    const settings = await service.getSettings();
+    const defaults = SettingsService.getDefaultSettings();
+
+    expect(settings.theme).toBe('dark');
+    expect(settings.fiatCurrency).toBe(defaults.fiatCurrency);
+    expect(settings.autoLock).toEqual({ ...defaults.autoLock, maxSessionMinutes: 30 });
+  });
+
+  it('should merge updates into the saved settings', async () => {
+    await service.updateSettings({ theme: 'dark', autoLock: { idleMinutes: 30 } });
+    const settings = await service.updateSettings({ fiatCurrency: 'EUR', autoLock: { maxSessionMinutes: 120 } });
+
+    expect(settings).toMatchObject({
+      theme: 'dark',
+      fiatCurrency: 'EUR',
+      autoLock: { idleMinutes: 30, maxSessionMinutes: 120 },
+    });
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.SETTINGS)).toEqual(settings);
+  });
+
+  it('should reject invalid updates without saving anything', async () => {
+    await expect(service.updateSettings({ transactionExpirationMinutes: 90 })).rejects.toThrow(
+      'transactionExpirationMinutes must be'
+    );
+    await expect(service.updateSettings({ theme: 'blue' as any })).rejects.toThrow('theme must be');
+    await expect(service.updateSettings({ language: 'xx' })).rejects.toThrow('Unsupported language xx');
+    await expect(service.updateSettings({ debug: true } as any)).rejects.toThrow("Unrecognized key(s) in object: 'debug'");
+
+    expect(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.SETTINGS)).toBeNull();
+  });
+
+  it('should tell listeners and open popups what changed', async () => {
+    const listener = vi.fn();
+    const unsubscribe = service.onChange(listener);
+
+    const settings = await service.updateSettings({ debugLogging: true });
+
+    expect(listener).toHaveBeenCalledWith(settings, SettingsService.getDefaultSettings());
+    expect(browser.runtime.sendMessage).toHaveBeenCalledWith({ action: 'settingsChanged', data: settings });
+
+    unsubscribe();
+    await service.resetSettings();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should go back to the defaults on reset', async () => {
+    await service.updateSettings({ theme: 'light', waitForConfirmation: true });
+
+    expect(await service.resetSettings()).toEqual(SettingsService.getDefaultSettings());
+    expect(await service.getSettings()).toEqual(SettingsService.getDefaultSettings());
+  });
+});
@@ -1,13 +1,22 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SteemApiService } from '../../../background/services/steem-api.service';
-import { call } from '@steempro/steem-tx-js';
+import { config as SteemTxConfig } from '@steempro/steem-tx-js';
+import { RpcPoolService, jsonRpcCall, jsonRpcRequest } from '../../../background/services/rpc-pool.service';
 import { DefaultRpcs } from '../../../../src/reference-data/default-rpc.list';
+import { NetworkProfiles } from '../../../../src/reference-data/network-profiles.list';
 
 vi.mock('@steempro/steem-tx-js', () => ({
-  call: vi.fn(),
   config: { node: '', chain_id: '' },
 }));
 
+vi.mock('../../../background/services/rpc-pool.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../background/services/rpc-pool.service')>()),
+  jsonRpcCall: vi.fn(),
+  jsonRpcRequest: vi.fn(),
+}));
+
+const call = vi.mocked(jsonRpcRequest);
+
 describe('SteemApiService', () => {
   let service: SteemApiService;
 
@@ -27,16 +36,16 @@ describe('SteemApiService', () => {
         memo_key: 'STM1234567890',
       };
 
-      vi.mocked(call).mockResolvedValueOnce([mockAccount]);
+      call.mockResolvedValueOnce([mockAccount]);
 
       const result = await service.getAccount('testuser');
 
-      expect(call).toHaveBeenCalledWith('condenser_api.get_accounts', [['testuser']]);
+      expect(call).toHaveBeenCalledWith(expect.any(String), 'condenser_api.get_accounts', [['testuser']]);
       expect(result).toEqual([mockAccount]);
     });
 
     it('should throw error when account not found', async () => {
-      vi.mocked(call).mockRejectedValue(new Error('Account not found'));
+      call.mockRejectedValue(new Error('Account not found'));
 
       await expect(service.getAccount('nonexistent')).rejects.toThrow('Account not found');
     });
@@ -52,16 +61,16 @@ describe('SteemApiService', () => {
         }],
       };
 
-      vi.mocked(call).mockResolvedValueOnce(mockRC);
+      call.mockResolvedValueOnce(mockRC);
 
       const result = await service.getAccountRC('testuser');
 
-      expect(call).toHaveBeenCalledWith('rc_api.find_rc_accounts', { accounts: ['testuser'] });
+      expect(call).toHaveBeenCalledWith(expect.any(String), 'rc_api.find_rc_accounts', { accounts: ['testuser'] });
       expect(result).toEqual(mockRC.rc_accounts[0]);
     });
 
     it('should throw error when RC account not found', async () => {
-      vi.mocked(call).mockResolvedValueOnce({ rc_accounts: [] });
+      call.mockResolvedValueOnce({ rc_accounts: [] });
 
       await expect(service.getAccountRC('testuser')).rejects.toThrow('RC account not found');
     });
@@ -75,11 +84,11 @@ describe('SteemApiService', () => {
         time: '2024-01-01T00:00:00',
       };
 
-      vi.mocked(call).mockResolvedValueOnce(mockProps);
+      call.mockResolvedValueOnce(mockProps);
 
       const result = await service.getDynamicGlobalProperties();
 
-      expect(call).toHaveBeenCalledWith('condenser_api.get_dynamic_global_properties', []);
+      expect(call).toHaveBeenCalledWith(expect.any(String), 'condenser_api.get_dynamic_global_properties', []);
       expect(result).toEqual(mockProps);
     });
   });
@@ -87,7 +96,7 @@ describe('SteemApiService', () => {
   describe('getHeadBlockNumber', () => {
     it('should return head block number', async () => {
       const mockProps = { head_block_number: 12345678 };
-      vi.mocked(call).mockResolvedValueOnce(mockProps);
+      call.mockResolvedValueOnce(mockProps);
 
       const result = await service.getHeadBlockNumber();
 
@@ -104,17 +113,17 @@ describe('SteemApiService', () => {
         witness: 'witness1',
       };
 
-      vi.mocked(call).mockResolvedValueOnce(mockBlockHeader);
+      call.mockResolvedValueOnce(mockBlockHeader);
 
       const result = await service.getRefBlockHeader(blockNumber);
 
-      expect(call).toHaveBeenCalledWith('condenser_api.get_block_header', [blockNumber]);
+      expect(call).toHaveBeenCalledWith(expect.any(String), 'condenser_api.get_block_header', [blockNumber]);
       expect(result.ref_block_num).toBe(blockNumber & 0xffff);
       expect(result.ref_block_prefix).toBeDefined();
     });
 
     it('should throw error when block header not found', async () => {
-      vi.mocked(call).mockResolvedValueOnce(null);
+      call.mockResolvedValueOnce(null);
 
       await expect(service.getRefBlockHeader(12345678)).rejects.toThrow('Block header not found');
     });
@@ -125,15 +134,121 @@ describe('SteemApiService', () => {
       const mockTx = { operations: [], signatures: [] };
       const mockResult = { id: 'tx123', block_num: 12345678 };
 
-      vi.mocked(call).mockResolvedValueOnce(mockResult);
+      vi.mocked(jsonRpcCall).mockResolvedValueOnce({ jsonrpc: '2.0', result: mockResult, id: 1 });
 
       const result = await service.broadcastTransaction(mockTx as any);
 
-      expect(call).toHaveBeenCalledWith('condenser_api.broadcast_transaction', [mockTx]);
+      expect(jsonRpcCall).toHaveBeenCalledWith(expect.any(String), 'condenser_api.broadcast_transaction', [mockTx]);
       expect(result).toEqual(mockResult);
     });
   });
 
+  describe('RPC failover', () => {
+    it('should retry a failed call on the next node and lower the failing node\'s score', async () => {
+      const nodesCalled: string[] = [];
+      call.mockImplementation(async (uri) => {
+        nodesCalled.push(uri);
+        if (nodesCalled.length === 1) throw new Error('socket hang up');
+        return { head_block_number: 100 };
+      });
+
+      const result = await service.getDynamicGlobalProperties();
+
+      expect(result.head_block_number).toBe(100);
+      expect(nodesCalled).toHaveLength(2);
+      expect(nodesCalled[1]).not.toBe(nodesCalled[0]);
+      const failed = service.getRpcHealth().find((node) => node.uri === nodesCalled[0]);
+      expect(failed).toMatchObject({ errorRate: 1, lastError: 'socket hang up' });
+    });
+
+    it('should start with the node the user picked', async () => {
+      call.mockResolvedValue({ head_block_number: 100 });
+
+      await service.switchRpc(DefaultRpcs[2]);
+      await service.getDynamicGlobalProperties();
+
+      expect(call).toHaveBeenCalledWith(DefaultRpcs[2].uri, 'condenser_api.get_dynamic_global_properties', []);
+      expect(SteemTxConfig.node).toBe(DefaultRpcs[2].uri);
+    });
+
+    it('should fall back to the network\'s first node when the pool is empty', async () => {
+      const ranked = vi.spyOn(RpcPoolService.prototype, 'getRankedNodes').mockReturnValue([]);
+      call.mockResolvedValue({ head_block_number: 100 });
+      vi.mocked(jsonRpcCall).mockResolvedValueOnce({ jsonrpc: '2.0', result: { id: 'abc123' }, id: 1 });
+
+      await service.getDynamicGlobalProperties();
+      await service.broadcastTransaction({
+        ref_block_num: 1,
+        ref_block_prefix: 2,
+        expiration: '2026-01-01T00:00:00',
+        operations: [['vote', { voter: 'alice', author: 'bob', permlink: 'post', weight: 10000 }]],
+        extensions: [],
+        signatures: ['sig'],
+      } as any);
+      ranked.mockRestore();
+
+      expect(call).toHaveBeenCalledWith(NetworkProfiles[0].rpcs[0].uri, 'condenser_api.get_dynamic_global_properties', []);
+      expect(jsonRpcCall).toHaveBeenCalledWith(NetworkProfiles[0].rpcs[0].uri, 'condenser_api.broadcast_transaction', expect.any(Array));
+    });
+  });
+
+  describe('forRpc', () => {
+    const chainId = NetworkProfiles[0].chainId;
+
+    // Nodes answer get_config with the mainnet chain id unless `chains` says otherwise
+    const mockNodes = (handler: (uri: string, method: string) => any, chains: Record<string, string> = {}) => {
+      call.mockImplementation(async (uri, method) => {
+        if (method === 'condenser_api.get_config') {
+          return { STEEM_CHAIN_ID: chains[uri] ?? chainId };
+        }
+        return handler(uri, method);
+      });
+    };
+
+    it('should pin every call to the requested node without failing over', async () => {
+      const nodesCalled: string[] = [];
+      mockNodes((uri) => {
+        nodesCalled.push(uri);
+        throw new Error('socket hang up');
+      });
+
+      const pinned = await service.forRpc('https://own.rpc');
+
+      await expect(pinned.getDynamicGlobalProperties()).rejects.toThrow('socket hang up');
+      expect(nodesCalled).toEqual(['https://own.rpc', 'https://own.rpc']);
+      expect(SteemTxConfig.node).not.toBe('https://own.rpc');
+    });
+
+    it('should leave concurrent calls on their own nodes', async () => {
+      mockNodes(async (uri) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { node: uri };
+      });
+
+      const pinned = await service.forRpc('https://own.rpc');
+      const [own, pool] = await Promise.all([
+        pinned.getDynamicGlobalProperties(),
+        service.getDynamicGlobalProperties(),
+      ]);
+
+      expect(own).toEqual({ node: 'https://own.rpc' });
+      expect(pool).toEqual({ node: DefaultRpcs[0].uri });
+    });
+
+    it('should refuse nodes of another chain', async () => {
+      mockNodes(() => ({}), { 'https://testnet.rpc': 'f'.repeat(64) });
+
+      await expect(service.forRpc('https://testnet.rpc')).rejects.toThrow(
+        'https://testnet.rpc does not serve the Mainnet chain'
+      );
+    });
+
+    it('should refuse nodes without https', async () => {
+      await expect(service.forRpc('http://own.rpc')).rejects.toThrow('RPC URL must start with https://');
+      expect(await service.forRpc('DEFAULT')).toBe(service);
+    });
+  });
+
   describe('switchRpc', () => {
     it('should switch to new RPC', async () => {
       const newRpc = { uri: 'https://new.rpc.com', chainId: 'abc123' };
@@ -143,6 +258,14 @@ describe('SteemApiService', () => {
       expect(service.getRpc()).toEqual(newRpc);
     });
 
+    it('should keep the chain id of the network', async () => {
+      service.setNetwork(NetworkProfiles[0]);
+
+      await service.switchRpc({ uri: 'https://new.rpc.com', chainId: 'abc123' });
+
+      expect(SteemTxConfig.chain_id).toBe(NetworkProfiles[0].chainId);
+    });
+
     it('should use default RPC when uri is DEFAULT', async () => {
       const defaultRpc = { uri: 'DEFAULT', chainId: 'abc123' };
       
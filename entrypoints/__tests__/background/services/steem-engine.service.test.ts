@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fakeBrowser } from 'wxt/testing';
+import { SteemEngineService } from '../../../background/services/steem-engine.service';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+// Minimal stand-in for a Steem-Engine node: answers the JSON-RPC calls the service makes
+const sidechain = {
+  balances: [
+    { account: 'alice', symbol: 'ENG', balance: '12.5', stake: '3', delegationsIn: '0', delegationsOut: '1' },
+    { account: 'alice', symbol: 'BEE', balance: '1' },
+  ],
+  tokens: [{ symbol: 'ENG', name: 'Engine', precision: 8, stakingEnabled: true, delegationEnabled: false }],
+  transactions: {} as Record<string, any>,
+  calls: [] as Array<{ path: string; method: string; params: any }>,
+};
+
+const handle = (path: string, method: string, params: any) => {
+  sidechain.calls.push({ path, method, params });
+  if (path === '/contracts' && method === 'find' && params.table === 'balances') {
+    return sidechain.balances.filter((balance) => balance.account === params.query.account);
+  }
+  if (path === '/contracts' && method === 'findOne' && params.table === 'tokens') {
+    return sidechain.tokens.find((token) => token.symbol === params.query.symbol) || null;
+  }
+  if (path === '/blockchain' && method === 'getTransactionInfo') {
+    return sidechain.transactions[params.txid] || null;
+  }
+  return null;
+};
+
+describe('SteemEngineService', () => {
+  let server: Server;
+  let rpc: string;
+  let service: SteemEngineService;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: handle(req.url || '', method, params) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    rpc = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    sidechain.transactions = {};
+    sidechain.calls = [];
+    service = new SteemEngineService(rpc);
+  });
+
+  it('should look up balances and fill in missing fields', async () => {
+    const balances = await service.getBalances('alice');
+
+    expect(balances).toHaveLength(2);
+    expect(balances[1]).toEqual({
+      account: 'alice',
+      symbol: 'BEE',
+      balance: '1',
+      stake: '0',
+      pendingUnstake: '0',
+      delegationsIn: '0',
+      delegationsOut: '0',
+      pendingUndelegations: '0',
+    });
+    expect(sidechain.calls[0]).toMatchObject({ path: '/contracts', method: 'find' });
+  });
+
+  it('should return token metadata or null when unknown', async () => {
+    expect(await service.getToken('ENG')).toEqual({
+      symbol: 'ENG',
+      name: 'Engine',
+      precision: 8,
+      stakingEnabled: true,
+      delegationEnabled: false,
+    });
+    expect(await service.getToken('NOPE')).toBeNull();
+  });
+
+  it('should poll until the sidechain processes the transaction', async () => {
+    setTimeout(() => {
+      sidechain.transactions.abc = {
+        transactionId: 'abc',
+        blockNumber: 7,
+        contract: 'tokens',
+        action: 'transfer',
+        logs: '{"events":[{"event":"transfer"}]}',
+      };
+    }, 30);
+
+    const transaction = await service.confirmTransaction('abc', 20, 10);
+
+    expect(transaction.blockNumber).toBe(7);
+    expect(transaction.logs.events).toHaveLength(1);
+  });
+
+  it('should surface sidechain errors and timeouts', async () => {
+    sidechain.transactions.bad = {
+      transactionId: 'bad',
+      blockNumber: 8,
+      logs: '{"errors":["overdrawn balance"]}',
+    };
+
+    await expect(service.confirmTransaction('bad', 2, 1)).rejects.toThrow('overdrawn balance');
+    await expect(service.confirmTransaction('missing', 2, 1)).rejects.toThrow(
+      'Sidechain did not confirm the transaction in time'
+    );
+  });
+
+  it('should persist a custom RPC and fall back to the default', async () => {
+    const unset = new SteemEngineService();
+    expect(await unset.getRpc()).toBe('https://api.steem-engine.net/rpc');
+
+    await unset.setRpc(`${rpc}/`);
+    expect(await new SteemEngineService().getRpc()).toBe(rpc);
+
+    await expect(unset.setRpc('not a url')).rejects.toThrow('Invalid Steem-Engine RPC URL');
+  });
+});
@@ -538,6 +538,101 @@ describe('TransactionService', () => {
     });
   });
 
+  describe('simulateTransaction', () => {
+    const authority = (key: string, weight = 1, threshold = 1) => ({
+      weight_threshold: threshold,
+      account_auths: [] as [string, number][],
+      key_auths: [[key, weight]] as [string, number][],
+    });
+
+    const chainAccount = {
+      name: 'testuser',
+      balance: '10.000 STEEM',
+      sbd_balance: '0.000 SBD',
+      owner: authority('STMOwnerKey'),
+      active: authority('STMActiveKey'),
+      posting: authority('STMPostingKey'),
+    };
+
+    const transfer = (amount: string): Operation => [
+      'transfer',
+      { from: 'testuser', to: 'receiver', amount, memo: '' },
+    ];
+
+    const weightOf = (publicKey: string, auth: any): number =>
+      auth.key_auths.find(([key]: [string, number]) => key === publicKey)?.[1] ?? 0;
+
+    beforeEach(() => {
+      vi.mocked(mockSteemApi.getAccount).mockResolvedValue([chainAccount] as any);
+      vi.mocked(mockSteemApi.getAccountRC).mockResolvedValue({
+        rc_manabar: { current_mana: '1000000000', last_update_time: Math.floor(Date.now() / 1000) },
+        max_rc: '1000000000',
+        percentage: 100,
+      });
+      vi.mocked(mockSteemApi.getResourceParams).mockResolvedValue({ resource_params: {} });
+      vi.mocked(mockSteemApi.getResourcePool).mockResolvedValue({ resource_pool: {} });
+      vi.mocked(mockSteemApi.getDynamicGlobalProperties).mockResolvedValue({
+        ...mockDynamicGlobalProps,
+        total_vesting_shares: '1000.000000 VESTS',
+      });
+      vi.mocked(mockKeyManager.getPublicKeyFromPrivateKeyString).mockReturnValue('STMActiveKey');
+      vi.mocked(mockKeyManager.getPubkeyWeight).mockImplementation(weightOf);
+      vi.mocked(mockKeyManager.hasRequiredAuthority).mockImplementation(
+        (publicKey, requiredAuth, auth) => weightOf(publicKey, auth) >= requiredAuth
+      );
+    });
+
+    it('should pass a transfer the key can sign and the balance covers', async () => {
+      const result = await service.simulateTransaction([transfer('5.000 STEEM')], mockKey);
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.rc).toMatchObject({ account: 'testuser', cost: 0 });
+      expect(mockSteemApi.broadcastTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should report malformed operations without querying the chain', async () => {
+      const result = await service.simulateTransaction([transfer('5 STEEM')], mockKey);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'transfer.amount', rule: 'format' });
+      expect(mockSteemApi.getAccount).not.toHaveBeenCalled();
+    });
+
+    it('should flag a key without the authority and spending above the balance', async () => {
+      vi.mocked(mockKeyManager.getPublicKeyFromPrivateKeyString).mockReturnValue('STMPostingKey');
+
+      const result = await service.simulateTransaction([transfer('50.000 STEEM')], {
+        type: 'posting',
+        value: '5JPostingKey',
+      });
+
+      expect(result.errors.map(({ rule }) => rule)).toEqual(['authority', 'balance']);
+      expect(result.errors[1].message).toBe('Needs 50.000 STEEM but @testuser has 10.000 STEEM');
+    });
+
+    it('should warn when the key holds only part of a multisig authority', async () => {
+      vi.mocked(mockSteemApi.getAccount).mockResolvedValue([
+        { ...chainAccount, active: authority('STMActiveKey', 1, 2) },
+      ] as any);
+
+      const result = await service.simulateTransaction([transfer('5.000 STEEM')], mockKey);
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0]).toMatchObject({ rule: 'authority', field: '@testuser active' });
+    });
+
+    it('should keep the other checks when the RC estimate fails', async () => {
+      vi.mocked(mockSteemApi.getResourceParams).mockRejectedValue(new Error('rc_api not enabled'));
+
+      const result = await service.simulateTransaction([transfer('5.000 STEEM')], mockKey);
+
+      expect(result.isValid).toBe(true);
+      expect(result.rc).toBeUndefined();
+      expect(result.warnings[0].message).toBe('The RC cost could not be estimated');
+    });
+  });
+
   describe('waitForConfirmation', () => {
     it('should timeout after max retries', async () => {
       // Mock setTimeout to run immediately
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import EncryptUtils from '../../../background/utils/encrypt.utils';
+import { KdfParams } from '../../../../src/interfaces/vault.interface';
+
+vi.mock('../../../../src/utils/logger.utils', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    log: vi.fn(),
+  },
+}));
+
+const password = 'Keychain-Password-1';
+
+// Cheap settings so the suite stays fast; the configured defaults are far stronger
+const fastKdfs: KdfParams[] = [
+  { name: 'pbkdf2', hash: 'sha256', iterations: 1000 },
+  { name: 'scrypt', N: 1024, r: 8, p: 1 },
+  { name: 'argon2id', t: 1, m: 256, p: 1 },
+];
+
+// A vault as written before the envelope: hex of salt, iv and AES-GCM output keyed with 100 PBKDF2 rounds
+const legacyEncrypt = (content: string, pass: string): string => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(16);
+  const key = pbkdf2(sha256, new TextEncoder().encode(pass), salt, { c: 100, dkLen: 32 });
+  const encrypted = gcm(key, iv).encrypt(new TextEncoder().encode(content));
+  return bytesToHex(salt) + bytesToHex(iv) + bytesToHex(encrypted);
+};
+
+describe('EncryptUtils', () => {
+  beforeEach(() => {
+    EncryptUtils.clearKeyCache();
+  });
+
+  it.each(fastKdfs)('should round trip a vault keyed with $name', (kdf) => {
+    const encrypted = EncryptUtils.encrypt('secret keys', password, kdf);
+    const envelope = JSON.parse(encrypted);
+
+    expect(envelope).toMatchObject({ version: 2, kdf, cipher: 'aes-256-gcm' });
+    expect(envelope.salt).toHaveLength(64);
+    expect(envelope.nonce).toHaveLength(24);
+    expect(EncryptUtils.decrypt(encrypted, password)).toBe('secret keys');
+  });
+
+  it('should reject a wrong password', () => {
+    const encrypted = EncryptUtils.encrypt('secret keys', password, fastKdfs[1]);
+
+    expect(() => EncryptUtils.decrypt(encrypted, 'Wrong-Password-1')).toThrow('Decryption failed');
+  });
+
+  it('should still read version 1 vaults and flag them for upgrade', () => {
+    const legacy = legacyEncrypt(JSON.stringify({ list: [{ name: 'alice' }], hash: 'hash' }), password);
+
+    expect(EncryptUtils.decryptToJson(legacy, password)).toEqual({ list: [{ name: 'alice' }], hash: 'hash' });
+    expect(EncryptUtils.needsUpgrade(legacy)).toBe(true);
+  });
+
+  it('should only flag envelopes whose KDF differs from the configured one', () => {
+    const current = EncryptUtils.encrypt('secret keys', password);
+
+    expect(JSON.parse(current).kdf).toEqual(EncryptUtils.getDefaultKdf());
+    expect(EncryptUtils.needsUpgrade(current)).toBe(false);
+    expect(EncryptUtils.needsUpgrade(EncryptUtils.encrypt('secret keys', password, fastKdfs[1]))).toBe(true);
+  });
+
+  it('should derive the same vault key for the same password and parameters only', () => {
+    const params = { ...EncryptUtils.createVaultKeyParams(), kdf: fastKdfs[1] };
+    const vaultKey = EncryptUtils.deriveVaultKey(password, params);
+
+    expect(vaultKey).toMatch(/^[a-f0-9]{64}$/);
+    expect(EncryptUtils.deriveVaultKey(password, params)).toBe(vaultKey);
+    expect(EncryptUtils.deriveVaultKey('Other-Password-1', params)).not.toBe(vaultKey);
+    expect(EncryptUtils.deriveVaultKey(password, { ...params, salt: 'cd'.repeat(32) })).not.toBe(vaultKey);
+  });
+
+  it('should keep the hash check of JSON vaults', () => {
+    const encrypted = EncryptUtils.encryptJson({ list: [{ name: 'alice' }] }, password);
+
+    expect(EncryptUtils.decryptToJson(encrypted, password)).toMatchObject({ list: [{ name: 'alice' }] });
+    expect(EncryptUtils.decryptToJson(encrypted, 'Wrong-Password-1')).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { browser } from 'wxt/browser';
+import { TransactionApproval } from '../popup/pages/TransactionApproval';
+import '../../assets/globals.css';
+
+// Close the window once the user has worked through every queued request
+const handleComplete = async () => {
+  try {
+    const response = await browser.runtime.sendMessage({ action: 'getPendingRequests' });
+    if (response?.success && response.requests.length === 0) {
+      window.close();
+    }
+  } catch (error) {
+    console.error('Failed to check remaining requests:', error);
+  }
+};
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <TransactionApproval onComplete={handleComplete} />
+  </React.StrictMode>,
+);
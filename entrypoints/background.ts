@@ -1,21 +1,48 @@
 // // Only create polyfills in service worker context (not during build)
 
 import { browser } from "wxt/browser";
-import { Operation } from "@steempro/dsteem";
+import { KeychainResponse } from "./background/services/types/keychain-api.types";
 import { AuthService } from "./background/services/auth.service";
 import { AccountService } from "./background/services/account.service";
 import { SteemApiService } from "./background/services/steem-api.service";
 import { KeyManagementService } from "./background/services/key-management.service";
 import { TransactionService } from "./background/services/transaction.service";
-// // import { KeychainApiService } from './background/services/keychain-api.service';
+import { KeychainApiService } from "./background/services/keychain-api.service";
+import { RequestApprovalService } from "./background/services/request-approval.service";
+import { PermissionService } from "./background/services/permission.service";
+import { SteemEngineService } from "./background/services/steem-engine.service";
+import { AccountClaimService } from "./background/services/account-claim.service";
+import { RewardsService } from "./background/services/keychain/rewards.service";
+import { EscrowTrackerService } from "./background/services/escrow-tracker.service";
+import { RpcPoolService } from "./background/services/rpc-pool.service";
+import { RpcSettingsService } from "./background/services/rpc-settings.service";
+import { NetworkService } from "./background/services/network.service";
+import { AutoLockService } from "./background/services/auto-lock.service";
+import { settingsService } from "./background/services/settings.service";
 import { SecureStorage } from "./background/lib/storage";
+import { vaultSession } from "./background/lib/vault-session";
 import { CryptoManager } from "../lib/crypto";
 import LocalStorageUtils from "@/src/utils/localStorage.utils";
+import Logger from "@/src/utils/logger.utils";
 import { LocalStorageKeyEnum } from "@/src/reference-data/local-storage-key.enum";
+import Config from "@/src/config";
 
 // // Import asset services - temporarily commented due to dependency issues
 // // import { KeychainAssetService } from './background/services/keychain-asset.service';
 
+// Operations the popup wallet panel may run directly, without the approval queue
+const WALLET_REQUEST_TYPES = [
+  "transferToSavings",
+  "transferFromSavings",
+  "cancelTransferFromSavings",
+  "claimRewards",
+  "setWithdrawVestingRoute",
+  "limitOrderCancel",
+  "escrow_approve",
+  "escrow_dispute",
+  "escrow_release",
+];
+
 export default defineBackground(() => {
   console.log("Etta Keychain background script started");
   console.log("Buffer polyfill available:", !!globalThis.Buffer);
@@ -26,17 +53,37 @@ export default defineBackground(() => {
   let authService: AuthService | undefined;
   let storage: SecureStorage | undefined;
   let steemApi: SteemApiService | undefined;
+  let rpcSettings: RpcSettingsService | undefined;
+  let networkService: NetworkService | undefined;
   let keyManager: KeyManagementService | undefined;
   let accountService: AccountService | undefined;
   let transactionService: TransactionService | null = null;
+  let accountClaimService: AccountClaimService | undefined;
   // let keychainAssetService: KeychainAssetService;
-  // let keychainApiService: KeychainApiService;
+  let keychainApiService: KeychainApiService | undefined;
+  const requestApprovalService = new RequestApprovalService(
+    dispatchKeychainRequest,
+  );
+  const steemEngine = new SteemEngineService();
+  const autoLockService = new AutoLockService(async () => {
+    await authService?.lockKeychain();
+  });
+  settingsService.onChange((settings) => {
+    Logger.setDebugLogging(settings.debugLogging);
+  });
 
   // Initialize services asynchronously with comprehensive error handling
   (async () => {
     try {
       console.log("Starting service initialization...");
 
+      try {
+        const settings = await settingsService.getSettings();
+        Logger.setDebugLogging(settings.debugLogging);
+      } catch (error) {
+        console.error("Failed to load settings:", error);
+      }
+
       // Initialize crypto manager
       try {
         const crypto = new CryptoManager();
@@ -50,18 +97,25 @@ export default defineBackground(() => {
       // Initialize storage
       try {
         storage = new SecureStorage();
+        // A password change cut short by the worker stopping is settled before the vault is read
+        await storage.recoverInterruptedRekey();
         console.log("SecureStorage initialized successfully");
       } catch (error) {
         console.error("Failed to initialize SecureStorage:", error);
         // Continue without storage - will affect some functionality
       }
 
-      // Initialize SteemApiService with saved RPC preference
+      // Initialize SteemApiService with the saved network and RPC settings
       try {
-        const savedRpc =
-          await LocalStorageUtils.getValueFromLocalStorage("currentRpc");
-        steemApi = new SteemApiService(savedRpc || undefined);
+        steemApi = new SteemApiService();
+        rpcSettings = new RpcSettingsService(steemApi);
+        networkService = new NetworkService(steemApi, rpcSettings);
+        await networkService.load();
         console.log("SteemApiService initialized successfully");
+        // Score the nodes right away instead of waiting for the first alarm
+        steemApi.checkRpcHealth().catch((error) => {
+          console.error("Initial RPC health check failed:", error);
+        });
       } catch (error) {
         console.error("Failed to initialize SteemApiService:", error);
         // Continue without SteemApiService - will affect blockchain functionality
@@ -104,12 +158,39 @@ export default defineBackground(() => {
         transactionService = null;
       }
 
+      if (steemApi && transactionService) {
+        accountClaimService = new AccountClaimService(
+          steemApi,
+          transactionService,
+        );
+      }
+
+      // Initialize KeychainApiService (dispatches approved dApp requests)
+      try {
+        if (accountService && steemApi && keyManager && transactionService) {
+          keychainApiService = new KeychainApiService(
+            accountService,
+            steemApi,
+            keyManager,
+            transactionService,
+            steemEngine,
+          );
+          console.log("KeychainApiService initialized successfully");
+        } else {
+          console.log("KeychainApiService skipped - missing dependencies");
+        }
+      } catch (error) {
+        console.error("Failed to initialize KeychainApiService:", error);
+      }
+
       // Try to restore session from session storage
       try {
         if (authService) {
           await authService.restoreSession();
           console.log("Session restoration completed");
         }
+        // Deadlines that passed while the worker was stopped lock right away
+        await autoLockService.init();
       } catch (error) {
         console.error("Failed to restore session:", error);
         // Continue - session restoration failure is not critical
@@ -122,10 +203,122 @@ export default defineBackground(() => {
     }
   })();
 
+  const permissionService = new PermissionService();
+
+  // The approval window keeps a port open so new requests show up live
+  browser.runtime.onConnect.addListener((port) => {
+    if (port.name === RequestApprovalService.PORT_NAME) {
+      requestApprovalService.attachPort(port);
+    }
+  });
+
+  browser.windows.onRemoved.addListener((windowId) => {
+    requestApprovalService.handleWindowRemoved(windowId);
+    autoLockService.handleWindowRemoved();
+  });
+
+  browser.idle.onStateChanged.addListener((state) => {
+    autoLockService.handleIdleStateChange(state);
+  });
+
+  // Queued requests outlive the worker, so stale ones are swept on a timer
+  // and again whenever the worker starts back up
+  browser.alarms.create(RequestApprovalService.EXPIRY_ALARM, {
+    periodInMinutes: 0.5,
+  });
+  browser.alarms.create(AccountClaimService.CLAIM_ALARM, {
+    periodInMinutes: Config.claims.freeAccount.CHECK_INTERVAL_IN_MINUTES,
+  });
+  browser.alarms.create(RewardsService.AUTO_CLAIM_ALARM, {
+    periodInMinutes: Config.rewards.AUTO_CLAIM_INTERVAL_IN_MINUTES,
+  });
+  browser.alarms.create(EscrowTrackerService.SETTLEMENT_ALARM, {
+    periodInMinutes: Config.escrow.SETTLEMENT_CHECK_INTERVAL_IN_MINUTES,
+  });
+  browser.alarms.create(RpcPoolService.HEALTH_ALARM, {
+    periodInMinutes: Config.rpc.HEALTH_CHECK_INTERVAL_IN_MINUTES,
+  });
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === RequestApprovalService.EXPIRY_ALARM) {
+      requestApprovalService.pruneExpired();
+    }
+    if (alarm.name === AccountClaimService.CLAIM_ALARM && accountClaimService) {
+      accountClaimService
+        .claimEligibleAccounts(getStoredActiveKey)
+        .then((results) => console.log("Account claim run:", results))
+        .catch((error) => {
+          console.error("Account claim run failed:", error);
+        });
+    }
+    if (alarm.name === RewardsService.AUTO_CLAIM_ALARM) {
+      claimRewardsIfEnabled().catch((error) => {
+        console.error("Reward claim run failed:", error);
+      });
+    }
+    if (alarm.name === EscrowTrackerService.SETTLEMENT_ALARM) {
+      settleEscrowAssetTransfers().catch((error) => {
+        console.error("Escrow settlement run failed:", error);
+      });
+    }
+    if (alarm.name === AutoLockService.LOCK_ALARM) {
+      autoLockService.handleAlarm();
+    }
+    if (alarm.name === RpcPoolService.HEALTH_ALARM && steemApi) {
+      steemApi.checkRpcHealth().catch((error) => {
+        console.error("RPC health check failed:", error);
+      });
+    }
+  });
+  requestApprovalService.pruneExpired();
+
+  // Rewards can only be claimed while the vault is unlocked
+  async function claimRewardsIfEnabled() {
+    if (
+      !keychainApiService ||
+      authService?.isLocked() ||
+      !(await keychainApiService.isAutoClaimRewardsEnabled())
+    ) {
+      return;
+    }
+    const response = await keychainApiService.claimAllRewards();
+    console.log("Reward claim run:", response.result ?? response.error);
+  }
+
+  // Held asset sales need the seller's posting key, so they settle while unlocked
+  async function settleEscrowAssetTransfers() {
+    if (!keychainApiService || authService?.isLocked()) {
+      return;
+    }
+    const results = await keychainApiService.settleEscrowAssetTransfers();
+    if (results.length) {
+      console.log("Escrow settlement run:", results);
+    }
+  }
+
+  // Active key of a stored account, or undefined while the keychain is locked
+  async function getStoredActiveKey(username: string) {
+    if (!accountService || authService?.isLocked()) {
+      return undefined;
+    }
+    const keychainPassword = await vaultSession.getVaultKey();
+    if (!keychainPassword) {
+      return undefined;
+    }
+    const account = await accountService.getAccount(username, keychainPassword);
+    return account?.keys.active;
+  }
+
   // Message handler
   browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
     console.log("Background received message:", message.action || message.type);
 
+    // Any use of the keychain pushes back the inactivity lock, except the popup polling it
+    if (message.action !== "getAutoLockStatus") {
+      autoLockService.touch().catch((error) => {
+        console.error("Failed to record keychain activity:", error);
+      });
+    }
+
     // Handle async operations
     (async () => {
       try {
@@ -174,10 +367,7 @@ export default defineBackground(() => {
                     }
 
                     // Check if user has imported accounts
-                    const keychainPassword =
-                      await LocalStorageUtils.getValueFromSessionStorage(
-                        LocalStorageKeyEnum.__MK,
-                      );
+                    const keychainPassword = await vaultSession.getVaultKey();
                     if (!keychainPassword) {
                       sendResponse({
                         success: false,
@@ -247,10 +437,7 @@ export default defineBackground(() => {
                       return;
                     }
 
-                    const keychainPassword =
-                      await LocalStorageUtils.getValueFromSessionStorage(
-                        LocalStorageKeyEnum.__MK,
-                      );
+                    const keychainPassword = await vaultSession.getVaultKey();
                     if (!keychainPassword) {
                       sendResponse({
                         success: false,
@@ -353,10 +540,7 @@ export default defineBackground(() => {
                       return;
                     }
 
-                    const keychainPassword =
-                      await LocalStorageUtils.getValueFromSessionStorage(
-                        LocalStorageKeyEnum.__MK,
-                      );
+                    const keychainPassword = await vaultSession.getVaultKey();
                     if (!keychainPassword) {
                       sendResponse({
                         success: false,
@@ -396,447 +580,54 @@ export default defineBackground(() => {
                   const requestType = message.data?.type;
                   console.log("🔍 Request type detected:", requestType);
 
-                  if (requestType === "signBuffer") {
-                    console.log("✍️ Sign buffer request:", message.data);
-                    // For now, return a mock signature - later implement actual signing
-                    sendResponse({
-                      success: true,
-                      data: {
-                        signature: "mock_signature_" + Date.now(),
-                        publicKey: "STM1234567890abcdef",
-                        username: message.data.username,
-                      },
-                      message: "Buffer signed successfully",
-                      request_id: message.data?.request_id,
-                    });
-                    return;
-                  }
-
-                  if (requestType === "broadcast") {
-                    console.log("📡 Broadcast request:", message.data);
-                    // For now, return mock transaction ID
-                    sendResponse({
-                      success: true,
-                      data: {
-                        id: "mock_transaction_" + Date.now(),
-                      },
-                      message: "Transaction broadcast successfully",
-                      request_id: message.data?.request_id,
-                    });
-                    return;
-                  }
-
-                  // Asset operation handlers
-                  if (requestType === "asset_create") {
-                    console.log(
-                      "🪙 Asset creation request received:",
-                      message.data,
-                    );
-                    console.log("🔧 Service status check:", {
-                      transactionService: !!transactionService,
-                      accountService: !!accountService,
-                      steemApi: !!steemApi,
-                      allServicesAvailable: !!(
-                        transactionService &&
-                        accountService &&
-                        steemApi
-                      ),
-                    });
-
-                    try {
-                      // Check if blockchain services are available
-                      if (transactionService && accountService && steemApi) {
-                        console.log("✅ Using real blockchain integration");
-                        // Use real blockchain integration
-                        const result = await createAssetOnBlockchain(
-                          message.data.username,
-                          message.data.assetRequest,
-                        );
-
-                        console.log("🎉 Asset creation result:", result);
-                        sendResponse({
-                          success: true,
-                          universal_id: result.universal_id,
-                          transaction_id: result.transaction_id,
-                          asset: result.asset,
-                          message:
-                            "Asset created successfully on STEEM blockchain",
-                          request_id: message.data?.request_id,
-                        });
-                      } else {
-                        // Fall back to mock implementation if services aren't available
-                        console.log(
-                          "⚠️ Blockchain services not available, using mock implementation",
-                        );
-                        const mockUniversalId = `ua_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-                        const mockTransactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-                        sendResponse({
-                          success: true,
-                          universal_id: mockUniversalId,
-                          transaction_id: mockTransactionId,
-                          asset: {
-                            universal_id: mockUniversalId,
-                            name:
-                              message.data.assetRequest?.base_metadata?.name ||
-                              "Unknown Asset",
-                            description:
-                              message.data.assetRequest?.base_metadata
-                                ?.description || "Asset created via extension",
-                            asset_type:
-                              message.data.assetRequest?.asset_type ||
-                              "universal",
-                            creator: message.data.username,
-                            created_at: new Date().toISOString(),
-                          },
-                          message: "Asset created successfully (mock mode)",
-                          request_id: message.data?.request_id,
-                        });
-                      }
-                    } catch (error) {
-                      console.error("Asset creation failed:", error);
-
-                      // Enhanced error handling with specific error types
-                      let errorMessage = "Asset creation failed";
-                      if (error instanceof Error) {
-                        if (error.message.includes("Keychain is locked")) {
-                          errorMessage =
-                            "Keychain is locked. Please unlock your keychain first.";
-                        } else if (
-                          error.message.includes("Account not found")
-                        ) {
-                          errorMessage =
-                            "Account not found. Please check your account setup.";
-                        } else if (error.message.includes("No posting key")) {
-                          errorMessage =
-                            "No posting key available. Please import your account with proper keys.";
-                        } else if (error.message.includes("insufficient")) {
-                          errorMessage =
-                            "Insufficient resource credits. Please wait or power up STEEM.";
-                        } else {
-                          errorMessage = `Blockchain error: ${error.message}`;
-                        }
-                      }
-
-                      sendResponse({
-                        success: false,
-                        error: errorMessage,
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "asset_transfer") {
-                    console.log("🔄 Asset transfer request:", message.data);
-                    try {
-                      // Mock asset transfer for now - later integrate with KeychainAssetService
-                      const mockTransactionId = `tx_transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-                      sendResponse({
-                        success: true,
-                        transaction_id: mockTransactionId,
-                        universal_id: message.data.universalId,
-                        message: `Asset transferred to ${message.data.toUser}`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Asset transfer failed:", error);
-                      sendResponse({
-                        success: false,
-                        error:
-                          "Asset transfer failed: " +
-                          (error instanceof Error
-                            ? error.message
-                            : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "asset_convert") {
-                    console.log("🔄 Asset conversion request:", message.data);
-                    try {
-                      // Mock asset conversion for now - later integrate with KeychainAssetService
-                      const mockTransactionId = `tx_convert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-                      sendResponse({
-                        success: true,
-                        transaction_id: mockTransactionId,
-                        universal_id: message.data.universalId,
-                        conversion_result: {
-                          fromGame: message.data.fromGame,
-                          toGame: message.data.toGame,
-                          quality: 0.85, // Mock quality score
-                        },
-                        message: `Asset converted from ${message.data.fromGame} to ${message.data.toGame}`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Asset conversion failed:", error);
+                  // Nothing that needs keys runs until the user approves it.
+                  // The result is pushed to the tab once the queue entry is decided.
+                  if (RequestApprovalService.requiresApproval(message.data)) {
+                    if (sender?.tab?.id === undefined) {
                       sendResponse({
                         success: false,
-                        error:
-                          "Asset conversion failed: " +
-                          (error instanceof Error
-                            ? error.message
-                            : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "asset_update") {
-                    console.log("📝 Asset update request:", message.data);
-                    try {
-                      // Mock asset update for now - later integrate with KeychainAssetService
-                      const mockTransactionId = `tx_update_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-                      sendResponse({
-                        success: true,
-                        transaction_id: mockTransactionId,
-                        universal_id: message.data.universalId,
-                        message: "Asset updated successfully",
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Asset update failed:", error);
-                      sendResponse({
-                        success: false,
-                        error:
-                          "Asset update failed: " +
-                          (error instanceof Error
-                            ? error.message
-                            : "Unknown error"),
+                        error: "Requests must originate from a browser tab",
                         request_id: message.data?.request_id,
                       });
+                      return;
                     }
-                    return;
-                  }
 
-                  if (requestType === "asset_burn") {
-                    console.log("🔥 Asset burn request:", message.data);
-                    try {
-                      // Mock asset burn for now - later integrate with KeychainAssetService
-                      const mockTransactionId = `tx_burn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+                    const origin =
+                      sender.origin ||
+                      (sender.url ? new URL(sender.url).origin : "unknown");
 
-                      sendResponse({
-                        success: true,
-                        transaction_id: mockTransactionId,
-                        universal_id: message.data.universalId,
-                        message: "Asset burned successfully",
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Asset burn failed:", error);
-                      sendResponse({
-                        success: false,
-                        error:
-                          "Asset burn failed: " +
-                          (error instanceof Error
-                            ? error.message
-                            : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "asset_verify_ownership") {
-                    console.log(
-                      "✅ Asset ownership verification request:",
+                    // Sites the user trusts for this exact operation skip the prompt
+                    const rule = await permissionService.authorize(
                       message.data,
+                      origin,
                     );
-                    try {
-                      // Mock ownership verification for now - later integrate with KeychainAssetService
-                      sendResponse({
-                        success: true,
-                        verified: true,
-                        owner: message.data.username,
-                        message: "Asset ownership verified",
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error(
-                        "Asset ownership verification failed:",
-                        error,
-                      );
-                      sendResponse({
-                        success: false,
-                        error:
-                          "Ownership verification failed: " +
-                          (error instanceof Error
-                            ? error.message
-                            : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  // Custom JSON query handlers for blockchain explorer
-                  if (requestType === "query_custom_json_by_account") {
-                    console.log("🔍 Custom JSON query by account request:", message.data);
-                    try {
-                      if (!steemApi) {
-                        sendResponse({
-                          success: false,
-                          error: "Blockchain API not available",
-                          request_id: message.data?.request_id,
-                        });
-                        return;
-                      }
-
-                      const { account, customJsonId, limit } = message.data;
-                      const operations = await steemApi.getCustomJsonByAccount(
-                        account,
-                        customJsonId || 'etta_asset',
-                        limit || 100
-                      );
-
-                      sendResponse({
-                        success: true,
-                        operations,
-                        count: operations.length,
-                        query_type: 'by_account',
-                        message: `Found ${operations.length} operations for account ${account}`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Custom JSON query by account failed:", error);
-                      sendResponse({
-                        success: false,
-                        error: "Query failed: " + (error instanceof Error ? error.message : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "query_custom_json_by_block") {
-                    console.log("🔍 Custom JSON query by block request:", message.data);
-                    try {
-                      if (!steemApi) {
-                        sendResponse({
-                          success: false,
-                          error: "Blockchain API not available",
-                          request_id: message.data?.request_id,
-                        });
-                        return;
-                      }
-
-                      const { blockNumber, customJsonId } = message.data;
-                      const operations = await steemApi.getCustomJsonInBlock(
-                        blockNumber,
-                        customJsonId || 'etta_asset'
+                    if (rule) {
+                      console.log("✅ Pre-approved by permission rule:", rule.id);
+                      const response = await dispatchKeychainRequest(
+                        message.data,
                       );
-
-                      sendResponse({
-                        success: true,
-                        operations,
-                        count: operations.length,
-                        query_type: 'by_block',
-                        message: `Found ${operations.length} operations in block ${blockNumber}`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Custom JSON query by block failed:", error);
-                      sendResponse({
-                        success: false,
-                        error: "Query failed: " + (error instanceof Error ? error.message : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
-                    return;
-                  }
-
-                  if (requestType === "query_custom_json_by_date_range") {
-                    console.log("🔍 Custom JSON query by date range request:", message.data);
-                    try {
-                      if (!steemApi) {
-                        sendResponse({
-                          success: false,
-                          error: "Blockchain API not available",
-                          request_id: message.data?.request_id,
-                        });
-                        return;
+                      if (!response.success) {
+                        await permissionService.refund(rule.id, message.data);
                       }
-
-                      const { accounts, customJsonId, startDate, endDate, maxResults } = message.data;
-                      const operations = await steemApi.getCustomJsonByDateRange(
-                        accounts,
-                        customJsonId || 'etta_asset',
-                        new Date(startDate),
-                        new Date(endDate),
-                        maxResults || 5000
-                      );
-
-                      sendResponse({
-                        success: true,
-                        operations,
-                        count: operations.length,
-                        query_type: 'by_date_range',
-                        message: `Found ${operations.length} operations in date range`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Custom JSON query by date range failed:", error);
-                      sendResponse({
-                        success: false,
-                        error: "Query failed: " + (error instanceof Error ? error.message : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
+                      sendResponse(response);
+                      return;
                     }
-                    return;
-                  }
-
-                  if (requestType === "query_custom_json_by_block_range") {
-                    console.log("🔍 Custom JSON query by block range request:", message.data);
-                    try {
-                      if (!steemApi) {
-                        sendResponse({
-                          success: false,
-                          error: "Blockchain API not available",
-                          request_id: message.data?.request_id,
-                        });
-                        return;
-                      }
-
-                      const { startBlock, endBlock, customJsonId, maxResults } = message.data;
-                      const operations = await steemApi.getCustomJsonByBlockRange(
-                        startBlock,
-                        endBlock,
-                        customJsonId || 'etta_asset',
-                        maxResults || 1000
-                      );
 
-                      sendResponse({
-                        success: true,
-                        operations,
-                        count: operations.length,
-                        query_type: 'by_block_range',
-                        message: `Found ${operations.length} operations in block range`,
-                        request_id: message.data?.request_id,
-                      });
-                    } catch (error) {
-                      console.error("Custom JSON query by block range failed:", error);
-                      sendResponse({
-                        success: false,
-                        error: "Query failed: " + (error instanceof Error ? error.message : "Unknown error"),
-                        request_id: message.data?.request_id,
-                      });
-                    }
+                    await requestApprovalService.enqueue(
+                      message.data,
+                      origin,
+                      sender.tab.id,
+                      sender.frameId,
+                    );
+                    sendResponse({
+                      success: true,
+                      queued: true,
+                      request_id: message.data?.request_id,
+                    });
                     return;
                   }
 
-                  // For other request types, return not implemented
-                  sendResponse({
-                    success: false,
-                    error: "Request type not yet implemented: " + requestType,
-                    request_id: message.data?.request_id,
-                  });
+                  sendResponse(await dispatchKeychainRequest(message.data));
                   return;
                 }
 
@@ -866,10 +657,7 @@ export default defineBackground(() => {
                 return;
               }
 
-              const keychainPassword =
-                await LocalStorageUtils.getValueFromSessionStorage(
-                  LocalStorageKeyEnum.__MK,
-                );
+              const keychainPassword = await vaultSession.getVaultKey();
               if (!keychainPassword) {
                 sendResponse({ success: false, error: "Keychain is locked" });
                 return;
@@ -985,10 +773,7 @@ export default defineBackground(() => {
             );
             // Auto-unlock after setting up password
             await authService.unlockKeychain(message.password);
-            await LocalStorageUtils.saveValueInSessionStorage(
-              LocalStorageKeyEnum.__MK,
-              message.password,
-            );
+            await autoLockService.start();
             sendResponse({ success: true });
             return;
           }
@@ -1003,11 +788,16 @@ export default defineBackground(() => {
             }
             const unlocked = await authService.unlockKeychain(message.password);
             if (unlocked) {
-              // Save the keychain password to session storage for account operations
-              await LocalStorageUtils.saveValueInSessionStorage(
-                LocalStorageKeyEnum.__MK,
-                message.password,
-              );
+              await autoLockService.start();
+              // Re-encrypt vaults in an older format or KDF now that the vault key is at hand
+              try {
+                const vaultKey = await vaultSession.getVaultKey();
+                if (vaultKey) {
+                  await storage?.upgradeVault(vaultKey);
+                }
+              } catch (error) {
+                console.error("Failed to upgrade the vault:", error);
+              }
               sendResponse({ success: true });
             } else {
               const failedAttempts = await authService.getFailedAttempts();
@@ -1024,6 +814,7 @@ export default defineBackground(() => {
             if (authService) {
               await authService.lockKeychain();
             }
+            await autoLockService.stop();
             sendResponse({ success: true });
             return;
           }
@@ -1074,10 +865,7 @@ export default defineBackground(() => {
               sendResponse({ success: false, error: "Keychain is locked" });
               return;
             }
-            const keychainPassword =
-              await LocalStorageUtils.getValueFromSessionStorage(
-                LocalStorageKeyEnum.__MK,
-              );
+            const keychainPassword = await vaultSession.getVaultKey();
             if (!keychainPassword) {
               sendResponse({ success: false, error: "Keychain is locked" });
               return;
@@ -1097,10 +885,7 @@ export default defineBackground(() => {
               return;
             }
             try {
-              const keychainPassword =
-                await LocalStorageUtils.getValueFromSessionStorage(
-                  LocalStorageKeyEnum.__MK,
-                );
+              const keychainPassword = await vaultSession.getVaultKey();
               if (!keychainPassword) {
                 sendResponse({ success: false, error: "Keychain is locked" });
                 return;
@@ -1154,6 +939,590 @@ export default defineBackground(() => {
             return;
           }
 
+          case "getPendingRequests": {
+            sendResponse({
+              success: true,
+              requests: await requestApprovalService.getPendingRequests(),
+            });
+            return;
+          }
+
+          case "approveTransaction": {
+            // "Don't ask again" turns the approved request into a standing rule,
+            // saved only once the request was dispatched. A rule that can't be
+            // saved doesn't undo the approval, it is reported next to the result.
+            const entry = message.remember
+              ? (await requestApprovalService.getPendingRequests()).find(
+                  (req) => req.id === message.id,
+                )
+              : undefined;
+
+            const results = await requestApprovalService.approve([message.id]);
+            const result = results[message.id];
+            if (!result) {
+              sendResponse({ success: false, error: "Request no longer pending" });
+              return;
+            }
+
+            let ruleError: string | undefined;
+            if (entry) {
+              try {
+                await permissionService.addRule(
+                  PermissionService.ruleFromRequest(
+                    entry.request,
+                    entry.origin,
+                    message.dailyLimit,
+                  ),
+                );
+              } catch (error) {
+                ruleError = error instanceof Error ? error.message : String(error);
+                Logger.warn("Could not save the permission rule:", ruleError);
+              }
+            }
+            sendResponse({ success: true, result, ruleError });
+            return;
+          }
+
+          case "rejectTransaction": {
+            const rejected = await requestApprovalService.reject(
+              [message.id],
+              message.reason,
+            );
+            sendResponse(
+              rejected
+                ? { success: true }
+                : { success: false, error: "Request no longer pending" },
+            );
+            return;
+          }
+
+          case "approveRequests": {
+            const results = await requestApprovalService.approve(message.ids);
+            sendResponse({ success: true, results });
+            return;
+          }
+
+          case "rejectRequests": {
+            const rejected = message.ids
+              ? await requestApprovalService.reject(message.ids, message.reason)
+              : await requestApprovalService.rejectAll(message.reason);
+            sendResponse({ success: true, rejected });
+            return;
+          }
+
+          case "reorderRequests": {
+            sendResponse({
+              success: true,
+              requests: await requestApprovalService.reorder(message.ids),
+            });
+            return;
+          }
+
+          case "getPermissionRules": {
+            sendResponse({
+              success: true,
+              rules: await permissionService.getRules(),
+            });
+            return;
+          }
+
+          case "addPermissionRule": {
+            sendResponse({
+              success: true,
+              rule: await permissionService.addRule(message.rule),
+            });
+            return;
+          }
+
+          case "updatePermissionRule": {
+            sendResponse({
+              success: true,
+              rule: await permissionService.updateRule(
+                message.id,
+                message.changes,
+              ),
+            });
+            return;
+          }
+
+          case "removePermissionRule": {
+            await permissionService.removeRule(message.id);
+            sendResponse({ success: true });
+            return;
+          }
+
+          case "getTokenBalances": {
+            sendResponse({
+              success: true,
+              balances: await steemEngine.getBalances(message.username),
+            });
+            return;
+          }
+
+          case "getAutoLockStatus": {
+            sendResponse({ success: true, data: await autoLockService.getStatus() });
+            return;
+          }
+
+          case "setAutoLockSettings": {
+            await autoLockService.saveSettings(message.payload || {});
+            sendResponse({ success: true, data: await autoLockService.getStatus() });
+            return;
+          }
+
+          case "getSettings": {
+            sendResponse({ success: true, data: await settingsService.getSettings() });
+            return;
+          }
+
+          case "updateSettings": {
+            sendResponse({
+              success: true,
+              data: await settingsService.updateSettings(message.payload || {}),
+            });
+            return;
+          }
+
+          case "resetSettings": {
+            const settings = await settingsService.resetSettings();
+            // The settings page also picks the node, so it goes back to the network's default too
+            if (rpcSettings) {
+              const { defaultRpcs } = await rpcSettings.getSettings();
+              await rpcSettings.setRpc(defaultRpcs[0]);
+            }
+            sendResponse({ success: true, data: settings });
+            return;
+          }
+
+          case "getRpcSettings": {
+            if (!rpcSettings) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              data: {
+                ...(await rpcSettings.getSettings()),
+                currentRpc: steemApi!.getRpc(),
+              },
+            });
+            return;
+          }
+
+          case "setRpc": {
+            if (!rpcSettings) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              data: { currentRpc: await rpcSettings.setRpc(message.payload?.rpc) },
+            });
+            return;
+          }
+
+          case "saveCustomRpcs": {
+            if (!rpcSettings) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            const customRpcs = await rpcSettings.saveCustomRpcs(
+              message.payload?.customRpcs,
+            );
+            sendResponse({
+              success: true,
+              data: { customRpcs, currentRpc: steemApi!.getRpc() },
+            });
+            return;
+          }
+
+          case "testRpc": {
+            if (!rpcSettings || !steemApi) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            const result = await rpcSettings.testRpc(
+              message.payload?.rpc || message.payload?.uri,
+            );
+            sendResponse({
+              ...result,
+              health: steemApi
+                .getRpcHealth()
+                .find((node) => node.uri === result.uri),
+            });
+            return;
+          }
+
+          case "getNetwork": {
+            if (!networkService) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            sendResponse({ success: true, data: networkService.getNetwork() });
+            return;
+          }
+
+          case "setNetwork": {
+            if (!networkService || !steemApi) {
+              sendResponse({ success: false, error: "Steem API not available" });
+              return;
+            }
+            await networkService.switchNetwork(message.payload?.network);
+            // The new network's nodes have not been scored yet
+            steemApi.checkRpcHealth().catch((error) => {
+              console.error("RPC health check after network switch failed:", error);
+            });
+            sendResponse({ success: true, data: networkService.getNetwork() });
+            return;
+          }
+
+          case "getSteemEngineRpc": {
+            sendResponse({ success: true, rpc: await steemEngine.getRpc() });
+            return;
+          }
+
+          case "setSteemEngineRpc": {
+            await steemEngine.setRpc(message.rpc);
+            sendResponse({ success: true, rpc: await steemEngine.getRpc() });
+            return;
+          }
+
+          case "getMultisigTransactions": {
+            if (!transactionService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              transactions:
+                await transactionService.getPendingMultisigTransactions(),
+            });
+            return;
+          }
+
+          case "exportMultisigTransaction": {
+            if (!transactionService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              json: await transactionService.exportMultisigTransaction(
+                message.id,
+              ),
+            });
+            return;
+          }
+
+          case "importMultisigTransaction": {
+            if (!transactionService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            sendResponse(
+              await transactionService.importMultisigTransaction(message.json),
+            );
+            return;
+          }
+
+          case "signMultisigTransaction": {
+            if (!transactionService || !accountService || authService?.isLocked()) {
+              sendResponse({ success: false, error: "Keychain is locked" });
+              return;
+            }
+            const keychainPassword = await vaultSession.getVaultKey();
+            const account = keychainPassword
+              ? await accountService.getAccount(message.username, keychainPassword)
+              : null;
+            const pending = (
+              await transactionService.getPendingMultisigTransactions()
+            ).find((entry) => entry.id === message.id);
+            const keyValue = pending && account?.keys[pending.role];
+            if (!pending || !keyValue) {
+              sendResponse({
+                success: false,
+                error: pending
+                  ? `No ${pending.role} key stored for ${message.username}`
+                  : "Multisig transaction not found",
+              });
+              return;
+            }
+            sendResponse(
+              await transactionService.signMultisigTransaction(message.id, {
+                type: pending.role,
+                value: keyValue,
+              }),
+            );
+            return;
+          }
+
+          case "discardMultisigTransaction": {
+            if (!transactionService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            await transactionService.discardMultisigTransaction(message.id);
+            sendResponse({ success: true });
+            return;
+          }
+
+          case "getAccountClaimStatus": {
+            if (!accountClaimService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              status: await accountClaimService.getStatus(message.username),
+            });
+            return;
+          }
+
+          case "setAutoClaimAccount": {
+            if (!accountClaimService) {
+              sendResponse({ success: false, error: "Services not initialized" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              accounts: await accountClaimService.setAutoClaim(
+                message.username,
+                !!message.enabled,
+              ),
+            });
+            return;
+          }
+
+          case "claimAccountToken": {
+            const activeKey = await getStoredActiveKey(message.username);
+            if (!accountClaimService || !activeKey) {
+              sendResponse({
+                success: false,
+                error: accountClaimService
+                  ? `No active key stored for ${message.username}`
+                  : "Services not initialized",
+              });
+              return;
+            }
+            const result = await accountClaimService.claim(
+              message.username,
+              activeKey,
+            );
+            sendResponse({ success: result.claimed, error: result.reason, result });
+            return;
+          }
+
+          case "createOnboardingAccount": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            // The response carries the new user's keys, so only the popup may ask for it
+            if (sender.tab) {
+              sendResponse({ success: false, error: "Account creation is only available from the popup" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.createOnboardingAccount(message.request),
+            );
+            return;
+          }
+
+          case "getWitnessOverview": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.getWitnessOverview(message.request),
+            );
+            return;
+          }
+
+          case "updateWitnessVotes": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.updateWitnessVotes(message.request),
+            );
+            return;
+          }
+
+          case "setWitnessProxy": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.setWitnessProxy(message.request),
+            );
+            return;
+          }
+
+          case "getWalletOverview": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.getWalletOverview(message.request),
+            );
+            return;
+          }
+
+          case "walletRequest": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            // These skip the approval queue, so only extension pages may send them
+            if (
+              sender.tab ||
+              !WALLET_REQUEST_TYPES.includes(message.request?.type)
+            ) {
+              sendResponse({ success: false, error: "Unsupported wallet request" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.handleKeychainRequest(message.request),
+            );
+            return;
+          }
+
+          case "claimAllRewards": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(await keychainApiService.claimAllRewards());
+            return;
+          }
+
+          case "getAutoClaimRewards": {
+            sendResponse({
+              success: true,
+              enabled: !!(await keychainApiService?.isAutoClaimRewardsEnabled()),
+            });
+            return;
+          }
+
+          case "setAutoClaimRewards": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            await keychainApiService.setAutoClaimRewards(!!message.enabled);
+            sendResponse({ success: true, enabled: !!message.enabled });
+            return;
+          }
+
+          case "previewConversion": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.previewConversion(message.request),
+            );
+            return;
+          }
+
+          case "getConversionRequests": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              conversions: await keychainApiService.getConversionRequests(
+                message.username,
+              ),
+            });
+            return;
+          }
+
+          case "previewLimitOrder": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.previewLimitOrder(message.request),
+            );
+            return;
+          }
+
+          case "getOrderBook": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              book: await keychainApiService.getOrderBook(),
+            });
+            return;
+          }
+
+          case "getOpenOrders": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              orders: await keychainApiService.getOpenOrders(message.username),
+            });
+            return;
+          }
+
+          case "getOpenEscrows": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse({
+              success: true,
+              escrows: await keychainApiService.getOpenEscrows(message.username),
+            });
+            return;
+          }
+
+          case "previewProposals": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.previewProposals(message.request),
+            );
+            return;
+          }
+
+          case "simulateTransaction": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.simulateTransaction(message.request),
+            );
+            return;
+          }
+
+          case "previewAuthorityChange": {
+            if (!keychainApiService) {
+              sendResponse({ success: false, error: "Keychain API not available" });
+              return;
+            }
+            sendResponse(
+              await keychainApiService.previewAuthorityChange(message.request),
+            );
+            return;
+          }
+
           case "getAuthorizations": {
             try {
               const authorizations =
@@ -1250,142 +1619,19 @@ export default defineBackground(() => {
     return true;
   });
 
-  // Asset creation function that uses real blockchain operations
-  async function createAssetOnBlockchain(
-    username: string,
-    assetRequest: any,
-  ): Promise<any> {
-    try {
-      // Check if services are initialized
-      if (!transactionService || !accountService || !steemApi) {
-        throw new Error("Services not initialized");
-      }
-
-      // Get user account and keys
-      const keychainPassword =
-        await LocalStorageUtils.getValueFromSessionStorage(
-          LocalStorageKeyEnum.__MK,
-        );
-      if (!keychainPassword) {
-        throw new Error("Keychain is locked");
-      }
-
-      const allAccounts = await accountService.getAllAccounts(keychainPassword);
-      const userAccount = allAccounts.find((acc) => acc.name === username);
-
-      if (!userAccount) {
-        throw new Error("Account not found");
-      }
-
-      if (!userAccount.keys.posting) {
-        throw new Error("No posting key available for account");
-      }
-
-      // Generate Universal Asset ID
-      const universalId = `ua_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Create asset data structure
-      const assetData = {
-        universal_id: universalId,
-        name: assetRequest.base_metadata?.name || "Unknown Asset",
-        description:
-          assetRequest.base_metadata?.description ||
-          "Asset created via extension",
-        image_url: assetRequest.base_metadata?.image_url,
-        asset_type: assetRequest.asset_type || "universal",
-        domain: assetRequest.domain || "gaming",
-        creator: username,
-        created_at: new Date().toISOString(),
-        source_platform: assetRequest.initial_game_id || "extension",
-        core_essence: assetRequest.core_essence || {
-          power_tier: 50,
-          rarity_class: "common",
-          element: "neutral",
-        },
-        initial_variant: assetRequest.initial_variant || {
-          properties: {},
-        },
+  // Every swRequest type, approved or ungated, goes through the keychain API
+  async function dispatchKeychainRequest(
+    data: any,
+  ): Promise<KeychainResponse> {
+    if (!keychainApiService) {
+      return {
+        success: false,
+        error: "Keychain API not available",
+        request_id: data?.request_id,
       };
-
-      // Create custom JSON operation for asset minting
-      // Use a simple ID that's more likely to be accepted
-      const customJsonOp: Operation = [
-        "custom_json",
-        {
-          required_auths: [],
-          required_posting_auths: [username],
-          id: "etta_asset", // Simplified ID
-          json: JSON.stringify({
-            operation: "asset_create",
-            data: assetData,
-          }),
-        },
-      ];
-      
-      // Log the operation details
-      console.log("📋 Custom JSON operation:", {
-        operationType: customJsonOp[0],
-        operationId: customJsonOp[1].id,
-        requiredPostingAuths: customJsonOp[1].required_posting_auths,
-        jsonData: JSON.parse(customJsonOp[1].json),
-        jsonString: customJsonOp[1].json,
-        jsonLength: customJsonOp[1].json.length,
-        isValidJson: (() => {
-          try {
-            JSON.parse(customJsonOp[1].json);
-            return true;
-          } catch {
-            return false;
-          }
-        })()
-      });
-
-      // Send transaction to blockchain
-      console.log("🚀 Sending transaction to blockchain...", {
-        customJsonOp,
-        userAccount: userAccount.name,
-      });
-      const result = await transactionService.sendOperation(
-        [customJsonOp],
-        {
-          type: "posting",
-          value: userAccount.keys.posting,
-        },
-        false, // no confirmation needed
-      );
-
-      console.log("📊 Transaction result received:", {
-        result: result,
-        hasResult: !!result,
-        hasResultResult: !!result?.result,
-        hasResultResultId: !!result?.result?.id,
-        resultResultId: result?.result?.id,
-        hasTransaction: !!result?.transaction,
-        hasTransactionId: !!result?.transaction?.id,
-        transactionId: result?.transaction?.id,
-        resultStructure: result ? Object.keys(result) : "null",
-        fullResult: JSON.stringify(result, null, 2),
-      });
-
-      if (result && result.result?.id) {
-        console.log("✅ Transaction successful with ID:", result.result.id);
-        return {
-          success: true,
-          universal_id: universalId,
-          transaction_id: result.result.id,
-          asset: assetData,
-        };
-      } else {
-        console.error(
-          "❌ Transaction failed - no transaction ID found in result:",
-          result,
-        );
-        throw new Error("Transaction failed - no transaction ID returned");
-      }
-    } catch (error) {
-      console.error("Blockchain asset creation failed:", error);
-      throw error;
     }
+
+    return keychainApiService.handleKeychainRequest(data);
   }
 
   console.log("Background script initialized successfully");
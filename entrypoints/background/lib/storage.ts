@@ -2,8 +2,10 @@ import { LocalAccount, Keys } from '../../../src/interfaces';
 import { LocalStorageKeyEnum } from '@/src/reference-data/local-storage-key.enum';
 import { Accounts } from '@/src/interfaces/accounts.interface';
 import LocalStorageUtils from '@/src/utils/localStorage.utils';
+import { NetworkProfiles } from '@/src/reference-data/network-profiles.list';
 import EncryptUtils from '../utils/encrypt.utils';
 import Logger from '@/src/utils/logger.utils';
+import { vaultSession } from './vault-session';
 
 export type ImportMethod = 'master_password' | 'owner_key' | 'individual_keys';
 
@@ -28,7 +30,66 @@ export interface StorageSchema {
   version: number;
 }
 
-const STORAGE_VERSION = 1;
+const STORAGE_VERSION = 3;
+
+// Re-encrypted vaults are written here first and only swapped in once every one of them is staged
+const STAGING_SUFFIX = '.staging';
+
+interface RekeyEntry {
+  key: string;
+  previous: string;
+  next: string;
+}
+
+/**
+ * Saved before a rekey touches any vault and removed once it is done. A rekey
+ * that is still `staging` rolls back, one that reached `swapping` has every new
+ * vault staged and rolls forward, writing `commit` with them.
+ */
+interface RekeyJournal {
+  state: 'staging' | 'swapping';
+  entries: Omit<RekeyEntry, 'next'>[];
+  commit: Record<string, any>;
+}
+
+type StorageMigration = (vault: Accounts) => Accounts;
+
+/**
+ * Schema upgrades keyed by the version they upgrade from. Each step takes a
+ * decrypted vault of that version and returns the next one; vaults without a
+ * version are version 1.
+ */
+export const STORAGE_MIGRATIONS: Record<number, StorageMigration> = {
+  // Accounts imported before metadata existed
+  1: (vault) => ({
+    ...vault,
+    list: vault.list.map((acc: any) =>
+      acc.metadata
+        ? acc
+        : { ...acc, metadata: { importMethod: 'individual_keys' as ImportMethod, importedAt: Date.now() } }
+    ),
+  }),
+  // The older account utils could leave unnamed entries and repeat a name; the last entry wins as in saveAccount
+  2: (vault) => {
+    const byName = new Map<string, LocalAccount>();
+    for (const acc of vault.list) {
+      if (acc?.name) byName.set(acc.name, acc);
+    }
+    return { ...vault, list: [...byName.values()] };
+  },
+};
+
+const migrate = (vault: Accounts): Accounts => {
+  let current = vault;
+  for (let version = vault.version || 1; version < STORAGE_VERSION; version++) {
+    const step = STORAGE_MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No storage migration from version ${version}`);
+    }
+    current = { ...step(current), version: version + 1 };
+  }
+  return current;
+};
 
 export class SecureStorage {
   /**
@@ -126,7 +187,7 @@ export class SecureStorage {
     );
     
     // Update last used timestamp
-    const mk = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+    const mk = await vaultSession.getVaultKey();
     if (mk) {
       const accounts = await this.getAllAccountsInternal(mk);
       const account = accounts.find(acc => acc.name === username);
@@ -287,6 +348,184 @@ export class SecureStorage {
     }
   }
 
+  /**
+   * Bring the stored vault up to date: run pending schema migrations and
+   * re-encrypt it when it predates the vault envelope or uses other KDF
+   * settings. Called on unlock, when the password is at hand.
+   *
+   * @returns whether the vault was rewritten
+   */
+  async upgradeVault(keychainPassword: string): Promise<boolean> {
+    const encryptedData = await LocalStorageUtils.getValueFromLocalStorage(
+      LocalStorageKeyEnum.ACCOUNTS
+    );
+    if (!encryptedData) {
+      return false;
+    }
+
+    const decrypted = EncryptUtils.decryptToJson(encryptedData, keychainPassword);
+    if (!decrypted || !decrypted.list) {
+      throw new Error('Unable to decrypt the vault');
+    }
+
+    const outdatedSchema = (decrypted.version || 1) < STORAGE_VERSION;
+    if (!outdatedSchema && !EncryptUtils.needsUpgrade(encryptedData)) {
+      return false;
+    }
+
+    await this.saveAccountsInternal(migrate(decrypted).list as StoredAccount[], keychainPassword);
+    Logger.info(`Vault upgraded from schema version ${decrypted.version || 1} to ${STORAGE_VERSION}`);
+    return true;
+  }
+
+  /**
+   * Re-encrypt the vault of every network with a new password.
+   *
+   * Every vault is decrypted and re-encrypted in memory first, so a vault the
+   * old password can't open stops the change before anything is written. The
+   * new vaults are then staged next to the live ones and swapped in together
+   * with `commit`, the values (keyed by storage key) that go with the new
+   * password. If a write fails, the previous vaults are restored, the staging
+   * keys removed and the error rethrown. A rekey cut short by the worker
+   * stopping is finished or rolled back by `recoverInterruptedRekey`.
+   *
+   * Only the account vaults are encrypted with the keychain password; the
+   * other stores, authorizations included, are kept in plain storage.
+   */
+  async rekeyVault(
+    oldPassword: string,
+    newPassword: string,
+    commit: Record<string, any> = {}
+  ): Promise<void> {
+    const entries: RekeyEntry[] = [];
+    for (const { id } of NetworkProfiles) {
+      // Already scoped to `id`, so it must not be scoped again to the active network
+      const key = LocalStorageUtils.getKeyForNetwork(LocalStorageKeyEnum.ACCOUNTS, id);
+      const previous = await LocalStorageUtils.getUnscopedValueFromLocalStorage(key);
+      if (!previous) continue;
+
+      const decrypted = EncryptUtils.decryptToJson(previous, oldPassword);
+      if (!decrypted || !decrypted.list) {
+        throw new Error(`Unable to decrypt the ${id} vault`);
+      }
+
+      const storageData: Accounts = { list: migrate(decrypted).list, version: STORAGE_VERSION };
+      const next = EncryptUtils.encryptJson(storageData, newPassword);
+      if (!EncryptUtils.decryptToJson(next, newPassword)) {
+        throw new Error(`Unable to re-encrypt the ${id} vault`);
+      }
+      entries.push({ key, previous, next });
+    }
+
+    const journal: RekeyJournal = {
+      state: 'staging',
+      entries: entries.map(({ key, previous }) => ({ key, previous })),
+      commit,
+    };
+
+    try {
+      // Phase 1: stage every new vault
+      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.VAULT_REKEY, journal);
+      for (const { key, next } of entries) {
+        await LocalStorageUtils.saveUnscopedValueInLocalStorage(key + STAGING_SUFFIX, next);
+      }
+
+      // Phase 2: from here on an interrupted rekey is finished rather than undone
+      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.VAULT_REKEY, {
+        ...journal,
+        state: 'swapping',
+      });
+      await this.swapStagedVaults(journal);
+    } catch (error) {
+      Logger.error('Vault rekey failed, restoring the previous vaults', error);
+      await this.rollbackRekey(journal);
+      throw error;
+    }
+
+    await this.finishRekey(journal);
+    Logger.info(`Vault re-encrypted for ${entries.length} network(s)`);
+  }
+
+  /**
+   * Finish or undo a rekey the worker stopped in the middle of, before anything
+   * reads the vaults or the auth data. Called once at startup.
+   *
+   * @returns whether an interrupted rekey was found
+   */
+  async recoverInterruptedRekey(): Promise<boolean> {
+    const journal: RekeyJournal | null = await LocalStorageUtils.getValueFromLocalStorage(
+      LocalStorageKeyEnum.VAULT_REKEY
+    );
+    if (!journal) {
+      return false;
+    }
+
+    if (journal.state === 'swapping') {
+      Logger.warn('Finishing an interrupted vault rekey');
+      await this.swapStagedVaults(journal);
+      await this.finishRekey(journal);
+    } else {
+      Logger.warn('Rolling back an interrupted vault rekey');
+      await this.rollbackRekey(journal);
+    }
+    return true;
+  }
+
+  // Staged vaults already swapped in and cleared by an earlier run are skipped
+  private async swapStagedVaults(journal: RekeyJournal): Promise<void> {
+    for (const { key } of journal.entries) {
+      const staged = await LocalStorageUtils.getUnscopedValueFromLocalStorage(key + STAGING_SUFFIX);
+      if (staged) {
+        await LocalStorageUtils.saveUnscopedValueInLocalStorage(key, staged);
+      } else if (journal.state === 'staging') {
+        throw new Error(`The staged ${key} vault is missing`);
+      }
+    }
+    for (const [key, value] of Object.entries(journal.commit)) {
+      await LocalStorageUtils.saveValueInLocalStorage(key, value);
+    }
+  }
+
+  private async finishRekey(journal: RekeyJournal): Promise<void> {
+    await this.clearStaging(journal);
+    await LocalStorageUtils.removeValueFromLocalStorage(LocalStorageKeyEnum.VAULT_REKEY);
+  }
+
+  private async rollbackRekey(journal: RekeyJournal): Promise<void> {
+    try {
+      // A rollback cut short must be rolled back again, not finished
+      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.VAULT_REKEY, {
+        ...journal,
+        state: 'staging',
+      });
+    } catch (error) {
+      Logger.error('Failed to save the vault rekey journal', error);
+    }
+    for (const { key, previous } of journal.entries) {
+      try {
+        await LocalStorageUtils.saveUnscopedValueInLocalStorage(key, previous);
+      } catch (error) {
+        Logger.error(`Failed to restore ${key}`, error);
+      }
+    }
+    await this.clearStaging(journal);
+    try {
+      await LocalStorageUtils.removeValueFromLocalStorage(LocalStorageKeyEnum.VAULT_REKEY);
+    } catch (error) {
+      Logger.error('Failed to remove the vault rekey journal', error);
+    }
+  }
+
+  private async clearStaging(journal: RekeyJournal): Promise<void> {
+    for (const { key } of journal.entries) {
+      try {
+        await LocalStorageUtils.removeUnscopedValueFromLocalStorage(key + STAGING_SUFFIX);
+      } catch (error) {
+        Logger.error(`Failed to remove the staged ${key}`, error);
+      }
+    }
+  }
+
   /**
    * Get all accounts with full data (internal use)
    */
@@ -304,19 +543,8 @@ export class SecureStorage {
       return [];
     }
     
-    // Handle legacy accounts without metadata
-    return decrypted.list.map((acc: any) => {
-      if (!acc.metadata) {
-        return {
-          ...acc,
-          metadata: {
-            importMethod: 'individual_keys' as ImportMethod,
-            importedAt: Date.now()
-          }
-        };
-      }
-      return acc;
-    });
+    // Vaults that weren't upgraded yet are migrated in memory; upgradeVault persists it
+    return migrate(decrypted).list as StoredAccount[];
   }
 
   /**
@@ -327,7 +555,8 @@ export class SecureStorage {
     keychainPassword: string
   ): Promise<void> {
     const storageData: Accounts = {
-      list: accounts
+      list: accounts,
+      version: STORAGE_VERSION
     };
     
     const encrypted = EncryptUtils.encryptJson(storageData, keychainPassword);
@@ -343,7 +572,7 @@ export class SecureStorage {
   async clearAllData(): Promise<void> {
     await LocalStorageUtils.removeValueFromLocalStorage(LocalStorageKeyEnum.ACCOUNTS);
     await LocalStorageUtils.removeValueFromLocalStorage(LocalStorageKeyEnum.ACTIVE_ACCOUNT);
-    await LocalStorageUtils.removeValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+    await vaultSession.close();
     Logger.info('All storage data cleared');
   }
 
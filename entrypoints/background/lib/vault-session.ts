@@ -0,0 +1,91 @@
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/hashes/utils';
+import { LocalStorageKeyEnum } from '@/src/reference-data/local-storage-key.enum';
+import LocalStorageUtils from '@/src/utils/localStorage.utils';
+import Logger from '@/src/utils/logger.utils';
+import EncryptUtils from '../utils/encrypt.utils';
+
+// What session storage holds while unlocked: the vault key wrapped with a key made for this session
+interface WrappedVaultKey {
+  sessionKey: string;
+  nonce: string;
+  wrappedKey: string;
+}
+
+/**
+ * The unlock session. Holds the vault key derived from the keychain password
+ * in memory, and is the one place services get it from.
+ *
+ * The service worker can be stopped at any time, so the key is also kept in
+ * session storage, wrapped with a per-session key, to reopen the session when
+ * the worker wakes up. The password itself is never stored.
+ */
+export class VaultSession {
+  private vaultKey: string | null = null;
+
+  /**
+   * Start a session with a freshly derived vault key
+   */
+  async open(vaultKey: string): Promise<void> {
+    const sessionKey = randomBytes(32);
+    const nonce = randomBytes(12);
+    const wrapped: WrappedVaultKey = {
+      sessionKey: bytesToHex(sessionKey),
+      nonce: bytesToHex(nonce),
+      wrappedKey: bytesToHex(gcm(sessionKey, nonce).encrypt(hexToBytes(vaultKey))),
+    };
+
+    await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.VAULT_SESSION, wrapped);
+    this.vaultKey = vaultKey;
+  }
+
+  /**
+   * The vault key, or null while locked
+   */
+  async getVaultKey(): Promise<string | null> {
+    if (this.vaultKey) {
+      return this.vaultKey;
+    }
+    return await this.restore();
+  }
+
+  /**
+   * Whether the key is in memory, without reopening a session left by a stopped worker
+   */
+  isOpen(): boolean {
+    return this.vaultKey !== null;
+  }
+
+  /**
+   * End the session and forget every derived key
+   */
+  async close(): Promise<void> {
+    this.vaultKey = null;
+    EncryptUtils.clearKeyCache();
+    await LocalStorageUtils.removeValueFromSessionStorage(LocalStorageKeyEnum.VAULT_SESSION);
+  }
+
+  private async restore(): Promise<string | null> {
+    const wrapped: WrappedVaultKey | null = await LocalStorageUtils.getValueFromSessionStorage(
+      LocalStorageKeyEnum.VAULT_SESSION
+    );
+    if (!wrapped) {
+      return null;
+    }
+
+    try {
+      const vaultKey = gcm(hexToBytes(wrapped.sessionKey), hexToBytes(wrapped.nonce)).decrypt(
+        hexToBytes(wrapped.wrappedKey)
+      );
+      this.vaultKey = bytesToHex(vaultKey);
+      return this.vaultKey;
+    } catch (error) {
+      Logger.error('Failed to restore the vault session', error);
+      await this.close();
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const vaultSession = new VaultSession();
@@ -0,0 +1,134 @@
+import Config from '../../../src/config';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { RC } from '../../../src/interfaces/active-account.interface';
+import { AccountClaimResult, AccountClaimStatus } from '../../../src/interfaces/account-claim.interface';
+import { SteemApiService } from './steem-api.service';
+import { TransactionService } from './transaction.service';
+
+// RC regenerates linearly from empty to full over five days
+const RC_REGENERATION_SECONDS = 432000;
+
+/**
+ * Claims account creation tokens with spare RC so that accounts can later be
+ * created with `create_claimed_account` without paying the STEEM fee.
+ * Accounts opted into auto-claim are checked on an alarm and only claim
+ * while their RC stays above the configured threshold.
+ */
+export class AccountClaimService {
+  static readonly CLAIM_ALARM = 'account-claim-scheduler';
+
+  constructor(
+    private steemApi: SteemApiService,
+    private transactionService: TransactionService
+  ) {}
+
+  /**
+   * Current mana of an RC account, including what regenerated since the
+   * chain last updated the manabar
+   */
+  static getCurrentMana(rc: RC, now: number = Date.now()): { currentMana: number; percentage: number } {
+    const maxMana = Number(rc.max_rc);
+    const elapsed = now / 1000 - rc.rc_manabar.last_update_time;
+    const currentMana = Math.min(
+      maxMana,
+      Number(rc.rc_manabar.current_mana) + (elapsed * maxMana) / RC_REGENERATION_SECONDS
+    );
+    const percentage = maxMana > 0 ? +((currentMana / maxMana) * 100).toFixed(2) : 0;
+    return { currentMana, percentage: Math.max(0, percentage) };
+  }
+
+  static canClaim(currentMana: number, percentage: number): boolean {
+    const { MIN_RC_PCT, MIN_RC } = Config.claims.freeAccount;
+    return percentage >= MIN_RC_PCT && currentMana >= MIN_RC;
+  }
+
+  async getStatus(username: string): Promise<AccountClaimStatus> {
+    const [accounts, rc, autoClaimAccounts] = await Promise.all([
+      this.steemApi.getAccount(username),
+      this.steemApi.getAccountRC(username),
+      this.getAutoClaimAccounts(),
+    ]);
+    const { currentMana, percentage } = AccountClaimService.getCurrentMana(rc);
+
+    return {
+      username,
+      pendingClaimedAccounts: Number((accounts?.[0] as any)?.pending_claimed_accounts || 0),
+      rcPercentage: percentage,
+      currentMana,
+      canClaim: AccountClaimService.canClaim(currentMana, percentage),
+      autoClaim: autoClaimAccounts.includes(username),
+    };
+  }
+
+  /**
+   * Claim one account token for `username` if its RC allows it. Never throws:
+   * the scheduler runs unattended, so failures are reported in the result.
+   */
+  async claim(username: string, activeKey: string): Promise<AccountClaimResult> {
+    try {
+      const rc = await this.steemApi.getAccountRC(username);
+      const { currentMana, percentage } = AccountClaimService.getCurrentMana(rc);
+
+      if (!AccountClaimService.canClaim(currentMana, percentage)) {
+        return {
+          username,
+          claimed: false,
+          reason: `RC is at ${percentage}%, claiming needs at least ${Config.claims.freeAccount.MIN_RC_PCT}%`,
+        };
+      }
+
+      const result = await this.transactionService.sendOperation(
+        [['claim_account', { creator: username, fee: '0.000 STEEM', extensions: [] }]],
+        { type: 'active', value: activeKey }
+      );
+
+      if (!result?.success) {
+        return { username, claimed: false, reason: result?.error || 'Claim account failed' };
+      }
+
+      Logger.info(`Claimed an account token for ${username}`);
+      return { username, claimed: true, transactionId: result.result?.id };
+    } catch (error) {
+      Logger.error(`Claim account error for ${username}:`, error);
+      return {
+        username,
+        claimed: false,
+        reason: error instanceof Error ? error.message : 'Claim account failed',
+      };
+    }
+  }
+
+  /**
+   * Run one scheduler pass over the auto-claim accounts. Accounts whose active
+   * key is not available (e.g. the keychain is locked) are skipped.
+   */
+  async claimEligibleAccounts(
+    getActiveKey: (username: string) => Promise<string | undefined>
+  ): Promise<AccountClaimResult[]> {
+    const results: AccountClaimResult[] = [];
+    for (const username of await this.getAutoClaimAccounts()) {
+      const activeKey = await getActiveKey(username);
+      if (!activeKey) {
+        results.push({ username, claimed: false, reason: 'Active key not available' });
+        continue;
+      }
+      results.push(await this.claim(username, activeKey));
+    }
+    return results;
+  }
+
+  async getAutoClaimAccounts(): Promise<string[]> {
+    return (await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.AUTO_CLAIM_ACCOUNTS)) || [];
+  }
+
+  async setAutoClaim(username: string, enabled: boolean): Promise<string[]> {
+    const accounts = (await this.getAutoClaimAccounts()).filter((account) => account !== username);
+    if (enabled) {
+      accounts.push(username);
+    }
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.AUTO_CLAIM_ACCOUNTS, accounts);
+    return accounts;
+  }
+}
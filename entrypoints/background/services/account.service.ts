@@ -8,6 +8,7 @@ import { ActiveAccount } from '../../../src/interfaces/active-account.interface'
 import { KeychainError } from '../../../src/keychain-error';
 import Logger from '../../../src/utils/logger.utils';
 import MkUtils from '../utils/mk.utils';
+import NetworkUtils from '../utils/network.utils';
 
 export enum AccountErrorMessages {
   INCORRECT_KEY = 'popup_accounts_incorrect_key',
@@ -37,7 +38,7 @@ export class AccountService {
     }
 
     // Check if password is a public key
-    if (password.startsWith('STM')) {
+    if (NetworkUtils.isPublicKeyFormat(password)) {
       throw new KeychainError(AccountErrorMessages.PASSWORD_IS_PUBLIC_KEY);
     }
 
@@ -294,6 +295,14 @@ export class AccountService {
     }
   }
 
+  /**
+   * Get the public memo key of any account on chain
+   */
+  async getPublicMemoKey(username: string): Promise<string | null> {
+    const accounts = await this.steemApi.getAccount(username);
+    return accounts?.[0]?.memo_key || null;
+  }
+
   /**
    * Get account metadata
    */
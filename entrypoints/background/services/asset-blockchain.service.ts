@@ -9,6 +9,7 @@ import { SteemApiService } from './steem-api.service';
 import { call } from '@steempro/steem-tx-js';
 import { UniversalAsset, AssetTransaction, GameVariant, AssetCreationRequest } from '../../../lib/assets/types';
 import Logger from '../../../src/utils/logger.utils';
+import { NetworkProfile } from '../../../src/interfaces/network.interface';
 
 export interface AssetCustomJsonOperation {
   operation_type: 'asset_mint' | 'asset_transfer' | 'asset_convert' | 'asset_update' | 'asset_burn';
@@ -448,6 +449,14 @@ export class AssetBlockchainService extends SteemApiService {
     }
   }
 
+  /**
+   * Assets live on one chain, so cached ones go along with the old network
+   */
+  setNetwork(profile: NetworkProfile, chainId?: string): void {
+    super.setNetwork(profile, chainId);
+    this.clearCache();
+  }
+
   /**
    * Clears the asset cache
    */
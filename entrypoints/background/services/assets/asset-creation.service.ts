@@ -7,6 +7,7 @@
 
 import { AssetRegistryService } from '../asset-registry.service';
 import { AssetBlockchainService } from '../asset-blockchain.service';
+import NetworkUtils from '../../utils/network.utils';
 import { AssetFactory } from '../../../../lib/assets/factories';
 import { 
   AssetCreationRequest, 
@@ -432,7 +433,7 @@ export class AssetCreationService {
       creator: context.creator,
       transaction_id: `temp_${Date.now()}_${Math.random().toString(36).slice(2)}`,
       block_number: await this.blockchainService.getHeadBlockNumber(),
-      network: 'steem' as const
+      network: (await NetworkUtils.getActiveNetwork()).assetNetwork
     };
 
     return await this.assetFactory.createUniversalAsset(request, creationContext);
@@ -1,9 +1,12 @@
 import { SecureStorage } from '../lib/storage';
+import { VaultSession, vaultSession } from '../lib/vault-session';
+import EncryptUtils from '../utils/encrypt.utils';
 import { CryptoManager } from '@/lib/crypto';
 import { KeychainError } from '@/src/keychain-error';
 import logger from '@/src/utils/logger.utils';
 import LocalStorageUtils from '@/src/utils/localStorage.utils';
 import { LocalStorageKeyEnum } from '@/src/reference-data/local-storage-key.enum';
+import { VaultKeyParams } from '@/src/interfaces/vault.interface';
 import { randomBytes } from '@noble/hashes/utils';
 import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
 
@@ -16,7 +19,6 @@ export interface PasswordStrength {
 interface AuthSession {
   sessionKey: string;
   unlockTime: number;
-  autoLockTimer?: NodeJS.Timeout;
 }
 
 interface AuthData {
@@ -25,6 +27,8 @@ interface AuthData {
   failedAttempts: number;
   lastFailedAttempt?: number;
   lockedUntil?: number;
+  // Missing for keychains set up before the vault key, whose vaults are encrypted with the password
+  vault?: VaultKeyParams;
 }
 
 export class AuthService {
@@ -36,7 +40,9 @@ export class AuthService {
   private session: AuthSession | null = null;
 
   constructor(
-    private crypto?: CryptoManager
+    private crypto?: CryptoManager,
+    private storage: SecureStorage = new SecureStorage(),
+    private vault: VaultSession = vaultSession
   ) {}
 
   static getInstance(): AuthService {
@@ -80,7 +86,8 @@ export class AuthService {
       const authData: AuthData = {
         passwordHash,
         salt: saltHex,
-        failedAttempts: 0
+        failedAttempts: 0,
+        vault: EncryptUtils.createVaultKeyParams()
       };
 
       await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.AUTH_DATA, authData);
@@ -175,12 +182,21 @@ export class AuthService {
         throw new KeychainError('No auth data found', ['NO_AUTH']);
       }
 
+      const currentVaultKey = authData.vault
+        ? EncryptUtils.deriveVaultKey(currentPassword, authData.vault)
+        : currentPassword;
+
       authData.passwordHash = passwordHash;
       authData.salt = saltHex;
       authData.failedAttempts = 0;
+      authData.vault = EncryptUtils.createVaultKeyParams();
       delete authData.lockedUntil;
 
-      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.AUTH_DATA, authData);
+      // The new hash is saved with the rekeyed vaults, so the vault and the
+      // password it's checked against are rolled back or recovered together
+      await this.storage.rekeyVault(currentVaultKey, EncryptUtils.deriveVaultKey(newPassword, authData.vault), {
+        [LocalStorageKeyEnum.AUTH_DATA]: authData,
+      });
       logger.info(['Password successfully changed']);
 
       // Clear current session
@@ -259,6 +275,8 @@ export class AuthService {
         return false;
       }
 
+      await this.openVault(password);
+
       // Generate session key
       const sessionKey = bytesToHex(randomBytes(32));
       
@@ -275,17 +293,39 @@ export class AuthService {
     }
   }
 
+  /**
+   * Derive the vault key and open the vault session. Vaults of keychains set
+   * up before the vault key are encrypted with the password itself and are
+   * rekeyed here, the first time the password is at hand.
+   */
+  private async openVault(password: string): Promise<void> {
+    const authData = await this.getAuthData();
+    if (!authData) {
+      throw new KeychainError('No auth data found', ['NO_AUTH']);
+    }
+
+    if (authData.vault) {
+      await this.vault.open(EncryptUtils.deriveVaultKey(password, authData.vault));
+      return;
+    }
+
+    const vault = EncryptUtils.createVaultKeyParams();
+    const vaultKey = EncryptUtils.deriveVaultKey(password, vault);
+    await this.storage.rekeyVault(password, vaultKey, {
+      [LocalStorageKeyEnum.AUTH_DATA]: { ...authData, vault },
+    });
+    await this.vault.open(vaultKey);
+    logger.info(['Vault rekeyed with a key derived from the password']);
+  }
+
   /**
    * Lock the keychain
    */
   async lockKeychain(): Promise<void> {
-    if (this.session?.autoLockTimer) {
-      clearTimeout(this.session.autoLockTimer);
-    }
     this.session = null;
     
-    // Clear session storage when explicitly locking
-    await LocalStorageUtils.removeValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+    // Forget the vault key, in memory and in session storage
+    await this.vault.close();
     
     logger.info(['Keychain locked']);
     console.log('Keychain explicitly locked - session storage cleared');
@@ -296,10 +336,10 @@ export class AuthService {
    */
   async restoreSession(): Promise<boolean> {
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
-      console.log('Restore session check - MK exists:', !!keychainPassword, 'Session exists:', !!this.session);
+      const vaultKey = await this.vault.getVaultKey();
+      console.log('Restore session check - vault key exists:', !!vaultKey, 'Session exists:', !!this.session);
       
-      if (keychainPassword && !this.session) {
+      if (vaultKey && !this.session) {
         // Generate new session key since we can't recover the old one
         const sessionKey = bytesToHex(randomBytes(32));
         
@@ -334,40 +374,6 @@ export class AuthService {
     return this.session?.sessionKey || null;
   }
 
-  /**
-   * Setup auto-lock timer
-   */
-  setupAutoLock(minutes: number): void {
-    if (!this.session) {
-      throw new KeychainError('No active session', ['NO_SESSION']);
-    }
-
-    // Clear existing timer
-    if (this.session.autoLockTimer) {
-      clearTimeout(this.session.autoLockTimer);
-    }
-
-    // Set new timer
-    const milliseconds = minutes * 60 * 1000;
-    this.session.autoLockTimer = setTimeout(() => {
-      this.lockKeychain();
-      logger.info(['Auto-lock triggered']);
-    }, milliseconds);
-
-    logger.info([`Auto-lock set for ${minutes} minutes`]);
-  }
-
-  /**
-   * Clear auto-lock timer
-   */
-  clearAutoLock(): void {
-    if (this.session?.autoLockTimer) {
-      clearTimeout(this.session.autoLockTimer);
-      delete this.session.autoLockTimer;
-      logger.info(['Auto-lock cleared']);
-    }
-  }
-
   /**
    * Track failed login attempt
    */
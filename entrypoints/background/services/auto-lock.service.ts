@@ -0,0 +1,183 @@
+import { browser } from 'wxt/browser';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { AutoLockReason, AutoLockSettings, AutoLockStatus } from '../../../src/interfaces/auto-lock.interface';
+import { SettingsService, settingsService } from './settings.service';
+
+export type LockHandler = (reason: AutoLockReason) => Promise<void>;
+
+// When the current unlock started and when the keychain was last used
+interface AutoLockSession {
+  unlockedAt: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Locks the keychain according to the user's policies: after a while without
+ * use, when the system locks or sleeps, when the last browser window closes
+ * or once the session reaches a maximum age.
+ *
+ * The service worker can be stopped at any time, so timed policies run on a
+ * single alarm set to the next deadline, and the unlock session lives in
+ * session storage. Policies are part of the settings, and are applied again
+ * whenever they change there.
+ */
+export class AutoLockService {
+  static readonly LOCK_ALARM = 'auto-lock';
+  // Activity closer together than this doesn't move the deadline, to spare storage writes
+  private static readonly ACTIVITY_RESOLUTION = 10 * 1000;
+  private static readonly MIN_IDLE_DETECTION_SECONDS = 15;
+
+  constructor(
+    private lock: LockHandler,
+    private settings: SettingsService = settingsService
+  ) {
+    settings.onChange(async (next, previous) => {
+      if (JSON.stringify(next.autoLock) !== JSON.stringify(previous.autoLock)) {
+        this.applyIdleDetection(next.autoLock);
+        await this.schedule();
+      }
+    });
+  }
+
+  async getSettings(): Promise<AutoLockSettings> {
+    return (await this.settings.getSettings()).autoLock;
+  }
+
+  async saveSettings(update: Partial<AutoLockSettings>): Promise<AutoLockSettings> {
+    return (await this.settings.updateSettings({ autoLock: update })).autoLock;
+  }
+
+  /**
+   * Re-apply the policies when the service worker starts
+   */
+  async init(): Promise<void> {
+    this.applyIdleDetection(await this.getSettings());
+    if (await this.readSession()) {
+      await this.handleAlarm();
+    }
+  }
+
+  /**
+   * Start tracking a new unlock
+   */
+  async start(): Promise<void> {
+    const now = Date.now();
+    await this.writeSession({ unlockedAt: now, lastActiveAt: now });
+    this.applyIdleDetection(await this.getSettings());
+    await this.schedule();
+  }
+
+  /**
+   * Stop tracking once the keychain is locked, whatever locked it
+   */
+  async stop(): Promise<void> {
+    await LocalStorageUtils.removeValueFromSessionStorage(LocalStorageKeyEnum.AUTO_LOCK_SESSION);
+    await browser.alarms.clear(AutoLockService.LOCK_ALARM);
+  }
+
+  /**
+   * Record that the keychain was used, pushing the inactivity deadline back
+   */
+  async touch(): Promise<void> {
+    const session = await this.readSession();
+    const now = Date.now();
+    if (!session || now - session.lastActiveAt < AutoLockService.ACTIVITY_RESOLUTION) {
+      return;
+    }
+    await this.writeSession({ ...session, lastActiveAt: now });
+    await this.schedule();
+  }
+
+  async getStatus(): Promise<AutoLockStatus> {
+    const settings = await this.getSettings();
+    const session = await this.readSession();
+    if (!session) {
+      return { settings, lockAt: null, reason: null };
+    }
+
+    const deadlines: { lockAt: number; reason: AutoLockReason }[] = [];
+    if (settings.idleMinutes > 0) {
+      deadlines.push({ lockAt: session.lastActiveAt + settings.idleMinutes * 60 * 1000, reason: 'idle' });
+    }
+    if (settings.maxSessionMinutes > 0) {
+      deadlines.push({
+        lockAt: session.unlockedAt + settings.maxSessionMinutes * 60 * 1000,
+        reason: 'max_session',
+      });
+    }
+    if (!deadlines.length) {
+      return { settings, lockAt: null, reason: null };
+    }
+
+    const next = deadlines.reduce((first, deadline) => (deadline.lockAt < first.lockAt ? deadline : first));
+    return { settings, ...next };
+  }
+
+  /**
+   * Lock if the next deadline has passed, otherwise set the alarm for it
+   */
+  async handleAlarm(): Promise<void> {
+    const { lockAt, reason } = await this.getStatus();
+    if (lockAt !== null && reason && Date.now() >= lockAt) {
+      await this.lockNow(reason);
+    } else {
+      await this.schedule();
+    }
+  }
+
+  async handleIdleStateChange(state: string): Promise<void> {
+    if (!(await this.readSession())) return;
+
+    const settings = await this.getSettings();
+    if (state === 'locked' && settings.lockOnSystemLock) {
+      await this.lockNow('system_lock');
+    } else if (state === 'idle' && settings.idleMinutes > 0) {
+      await this.lockNow('idle');
+    }
+  }
+
+  async handleWindowRemoved(): Promise<void> {
+    if (!(await this.readSession())) return;
+
+    const settings = await this.getSettings();
+    if (!settings.lockOnBrowserClose) return;
+
+    const windows = await browser.windows.getAll({ windowTypes: ['normal'] });
+    if (!windows.length) {
+      await this.lockNow('browser_close');
+    }
+  }
+
+  private async lockNow(reason: AutoLockReason): Promise<void> {
+    Logger.info(`Auto-lock triggered (${reason})`);
+    await this.stop();
+    await this.lock(reason);
+  }
+
+  private async schedule(): Promise<void> {
+    const { lockAt } = await this.getStatus();
+    await browser.alarms.clear(AutoLockService.LOCK_ALARM);
+    if (lockAt !== null) {
+      browser.alarms.create(AutoLockService.LOCK_ALARM, { when: lockAt });
+    }
+  }
+
+  // The system also reports idle after the same delay, for when the worker isn't running
+  private applyIdleDetection(settings: AutoLockSettings): void {
+    if (settings.idleMinutes > 0) {
+      browser.idle.setDetectionInterval(
+        Math.max(AutoLockService.MIN_IDLE_DETECTION_SECONDS, settings.idleMinutes * 60)
+      );
+    }
+  }
+
+  private async readSession(): Promise<AutoLockSession | null> {
+    return (await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.AUTO_LOCK_SESSION)) || null;
+  }
+
+  private async writeSession(session: AutoLockSession): Promise<void> {
+    await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.AUTO_LOCK_SESSION, session);
+  }
+}
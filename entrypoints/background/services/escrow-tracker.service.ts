@@ -0,0 +1,224 @@
+import Config from '../../../src/config';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import { PendingAssetTransfer, TrackedEscrow } from '../../../src/interfaces/escrow.interface';
+import { SteemApiService } from './steem-api.service';
+
+/**
+ * Keeps track of escrows the wallet's accounts are part of. The chain can only
+ * look an escrow up by sender and id, so escrows are remembered locally when
+ * they are created or linked and refreshed from the chain when listed.
+ *
+ * An escrow can be linked to an `asset_transfer` sale: the seller's asset is
+ * held back until the escrowed payment has been released to the seller.
+ */
+export class EscrowTrackerService {
+  static readonly SETTLEMENT_ALARM = 'escrow-settlement';
+
+  constructor(private steemApi: SteemApiService) {}
+
+  async getTrackedEscrows(): Promise<TrackedEscrow[]> {
+    return (await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.ESCROWS)) || [];
+  }
+
+  async find(from: string, escrowId: number): Promise<TrackedEscrow | undefined> {
+    return (await this.getTrackedEscrows()).find((escrow) => this.matches(escrow, from, escrowId));
+  }
+
+  async track(escrow: TrackedEscrow): Promise<void> {
+    const escrows = (await this.getTrackedEscrows()).filter(
+      (tracked) => !this.matches(tracked, escrow.from, escrow.escrow_id)
+    );
+    escrows.push(escrow);
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.ESCROWS, escrows);
+  }
+
+  /**
+   * Current chain state of an escrow, or null once it no longer exists
+   */
+  async fetchEscrow(from: string, escrowId: number): Promise<TrackedEscrow | null> {
+    const escrow = await this.steemApi.getEscrow(from, escrowId);
+    if (!escrow) return null;
+
+    return {
+      from: escrow.from,
+      to: escrow.to,
+      agent: escrow.agent,
+      escrow_id: Number(escrow.escrow_id),
+      sbd_amount: String(escrow.sbd_balance),
+      steem_amount: String(escrow.steem_balance),
+      fee: String(escrow.pending_fee),
+      ratification_deadline: escrow.ratification_deadline,
+      escrow_expiration: escrow.escrow_expiration,
+      to_approved: !!escrow.to_approved,
+      agent_approved: !!escrow.agent_approved,
+      disputed: !!escrow.disputed,
+      closed: false,
+    };
+  }
+
+  /**
+   * Hold an asset sale until the escrow paying for it is released to the seller.
+   * The escrow must run from the buyer to the seller, still be open and hold at
+   * least the sale price. Its balances are recorded here once, as refreshes
+   * only see what is left after partial releases.
+   */
+  async linkAssetTransfer(
+    from: string,
+    escrowId: number,
+    transfer: Omit<PendingAssetTransfer, 'transferred' | 'escrowed'>
+  ): Promise<TrackedEscrow> {
+    const current = await this.fetchEscrow(from, escrowId);
+    if (!current) {
+      throw new KeychainError(`Escrow ${escrowId} from ${from} not found`, ['ESCROW_NOT_FOUND']);
+    }
+    const tracked = await this.find(from, escrowId);
+    const escrow = { ...tracked, ...current, linked_asset: tracked?.linked_asset };
+    if (escrow.from !== transfer.buyer || escrow.to !== transfer.seller) {
+      throw new KeychainError(`Escrow ${escrowId} must be from @${transfer.buyer} to @${transfer.seller}`, [
+        'ESCROW_MISMATCH',
+      ]);
+    }
+    const linked = escrow.linked_asset;
+    if (linked && !linked.transferred && linked.universal_id !== transfer.universal_id) {
+      throw new KeychainError(`Escrow ${escrowId} already pays for asset ${linked.universal_id}`, [
+        'ESCROW_ALREADY_LINKED',
+      ]);
+    }
+
+    // Linking the same sale again keeps the amounts recorded the first time
+    const escrowed =
+      linked?.universal_id === transfer.universal_id && linked.escrowed
+        ? linked.escrowed
+        : { sbd_amount: escrow.sbd_amount, steem_amount: escrow.steem_amount };
+    this.assertCoversPrice(escrowId, escrowed, transfer.price);
+
+    const updated = { ...escrow, linked_asset: { ...transfer, escrowed, transferred: false } };
+    await this.track(updated);
+    return updated;
+  }
+
+  async markTransferred(from: string, escrowId: number, transactionId: string): Promise<void> {
+    const escrow = await this.find(from, escrowId);
+    if (!escrow?.linked_asset) return;
+    await this.track({
+      ...escrow,
+      linked_asset: { ...escrow.linked_asset, transferred: true, transaction_id: transactionId },
+    });
+  }
+
+  /**
+   * Open escrows `username` sends, receives or arbitrates, refreshed from the
+   * chain. Closed escrows without an asset still to deliver are forgotten.
+   */
+  async getOpenEscrows(username: string): Promise<TrackedEscrow[]> {
+    const open: TrackedEscrow[] = [];
+    for (const escrow of await this.getTrackedEscrows()) {
+      if (![escrow.from, escrow.to, escrow.agent].includes(username)) continue;
+
+      const refreshed = await this.refresh(escrow);
+      if (!refreshed.closed) {
+        open.push(refreshed);
+      }
+    }
+    await this.pruneClosed();
+    return open;
+  }
+
+  /**
+   * Whether the seller received the full payment escrowed for the linked sale.
+   * Releases are found in the seller's recent account history since the escrow
+   * disappears from the chain once it is paid out.
+   */
+  async isReleasedToSeller(escrow: TrackedEscrow): Promise<boolean> {
+    const escrowed = escrow.linked_asset?.escrowed;
+    if (!escrowed) {
+      // Linked before the amounts were recorded, the sale has to be linked again
+      Logger.warn(`Escrow ${escrow.escrow_id} from ${escrow.from} has no recorded payment`);
+      return false;
+    }
+
+    const history = await this.steemApi.getAccountHistory(escrow.to, -1, Config.escrow.HISTORY_LOOKBACK);
+    let sbd = 0;
+    let steem = 0;
+    for (const [, entry] of history) {
+      const [name, op] = entry?.op || [];
+      if (
+        name === 'escrow_release' &&
+        op.from === escrow.from &&
+        Number(op.escrow_id) === escrow.escrow_id &&
+        op.receiver === escrow.to
+      ) {
+        sbd += parseFloat(op.sbd_amount);
+        steem += parseFloat(op.steem_amount);
+      }
+    }
+    return sbd >= parseFloat(escrowed.sbd_amount) && steem >= parseFloat(escrowed.steem_amount) && sbd + steem > 0;
+  }
+
+  /**
+   * Linked asset sales whose escrow has been paid out to the seller and whose
+   * asset has not been delivered yet
+   */
+  async getReleasedAssetTransfers(): Promise<TrackedEscrow[]> {
+    const released: TrackedEscrow[] = [];
+    for (const escrow of await this.getTrackedEscrows()) {
+      if (!escrow.linked_asset || escrow.linked_asset.transferred) continue;
+      try {
+        if (await this.isReleasedToSeller(escrow)) {
+          released.push(escrow);
+        }
+      } catch (error) {
+        Logger.error(`Escrow ${escrow.escrow_id} from ${escrow.from} release check failed:`, error);
+      }
+    }
+    return released;
+  }
+
+  private async refresh(escrow: TrackedEscrow): Promise<TrackedEscrow> {
+    if (escrow.closed) return escrow;
+
+    // Balances follow the chain, the amounts a linked sale was paid with stay as recorded
+    const current = await this.fetchEscrow(escrow.from, escrow.escrow_id);
+    const refreshed = current
+      ? { ...escrow, ...current, linked_asset: escrow.linked_asset }
+      : { ...escrow, closed: true };
+    await this.track(refreshed);
+    return refreshed;
+  }
+
+  private assertCoversPrice(
+    escrowId: number,
+    escrowed: NonNullable<PendingAssetTransfer['escrowed']>,
+    price?: PendingAssetTransfer['price']
+  ): void {
+    const currency = price?.currency?.toUpperCase();
+    const amount = parseFloat(price?.amount ?? '');
+    if (!price || !(amount > 0) || (currency !== 'SBD' && currency !== 'STEEM')) {
+      throw new KeychainError('A sale settled through an escrow needs a price in SBD or STEEM', [
+        'ESCROW_PRICE_REQUIRED',
+      ]);
+    }
+
+    const held = parseFloat(currency === 'SBD' ? escrowed.sbd_amount : escrowed.steem_amount);
+    if (!(held >= amount)) {
+      throw new KeychainError(
+        `Escrow ${escrowId} holds ${held.toFixed(3)} ${currency}, less than the price of ${price.amount} ${currency}`,
+        ['ESCROW_UNDERFUNDED']
+      );
+    }
+  }
+
+  private async pruneClosed(): Promise<void> {
+    const escrows = (await this.getTrackedEscrows()).filter(
+      (escrow) => !escrow.closed || (escrow.linked_asset && !escrow.linked_asset.transferred)
+    );
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.ESCROWS, escrows);
+  }
+
+  private matches(escrow: TrackedEscrow, from: string, escrowId: number): boolean {
+    return escrow.from === from && escrow.escrow_id === Number(escrowId);
+  }
+}
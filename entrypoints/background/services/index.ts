@@ -3,6 +3,8 @@ export * from './key-management.service';
 export * from './account.service';
 export * from './transaction.service';
 export * from './auth.service';
+export * from './request-approval.service';
+export * from './permission.service';
 
 // Service factory for dependency injection
 import { SecureStorage } from '../lib/storage';
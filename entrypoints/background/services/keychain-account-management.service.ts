@@ -1,10 +1,9 @@
 import { AccountService } from './account.service';
 import { TransactionService } from './transaction.service';
 import Logger from '../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../src/keychain-error';
 import { KeychainResponse, AccountKeys } from './types/keychain-api.types';
+import { vaultSession } from '../lib/vault-session';
 
 export class KeychainAccountManagementService {
   constructor(
@@ -25,8 +24,8 @@ export class KeychainAccountManagementService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -76,8 +75,8 @@ export class KeychainAccountManagementService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -138,8 +137,8 @@ export class KeychainAccountManagementService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -198,8 +197,8 @@ export class KeychainAccountManagementService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -260,8 +259,8 @@ export class KeychainAccountManagementService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
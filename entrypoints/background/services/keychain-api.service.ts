@@ -2,6 +2,8 @@ import { AccountService } from './account.service';
 import { SteemApiService } from './steem-api.service';
 import { KeyManagementService } from './key-management.service';
 import { TransactionService } from './transaction.service';
+import { SteemEngineService } from './steem-engine.service';
+import { EscrowTrackerService } from './escrow-tracker.service';
 import {
   EncodeService,
   SignService,
@@ -15,10 +17,28 @@ import {
   DHFService,
   PowerService,
   TokenService,
-  AccountCreationService
+  SavingsService,
+  RewardsService,
+  MarketService,
+  EscrowService,
+  AccountCreationService,
+  CustomJsonService,
+  TransferService,
+  VoteService,
+  AssetService,
+  CustomJsonQueryService
 } from './keychain';
 import Logger from '../../../src/utils/logger.utils';
 import { KeychainRequest, KeychainResponse } from './types/keychain-api.types';
+import { OrderBook } from '../../../src/interfaces/market.interface';
+import { EscrowSettlementResult, TrackedEscrow } from '../../../src/interfaces/escrow.interface';
+
+const AUTHORITY_REQUEST_TYPES = [
+  'addAccountAuthority',
+  'removeAccountAuthority',
+  'addKeyAuthority',
+  'removeKeyAuthority',
+];
 
 export class KeychainApiService {
   private static instance: KeychainApiService;
@@ -53,28 +73,49 @@ export class KeychainApiService {
   private dhfService: DHFService;
   private powerService: PowerService;
   private tokenService: TokenService;
+  private savingsService: SavingsService;
+  private rewardsService: RewardsService;
+  private marketService: MarketService;
+  private escrowService: EscrowService;
+  private escrowTracker: EscrowTrackerService;
   private accountCreationService: AccountCreationService;
+  private customJsonService: CustomJsonService;
+  private transferService: TransferService;
+  private voteService: VoteService;
+  private assetService: AssetService;
+  private customJsonQueryService: CustomJsonQueryService;
 
   constructor(
     private accountService: AccountService,
     private steemApiService: SteemApiService,
     private keyManagementService: KeyManagementService,
-    private transactionService: TransactionService
+    private transactionService: TransactionService,
+    private steemEngineService: SteemEngineService = new SteemEngineService()
   ) {
     // Initialize all modular services
     this.encodeService = new EncodeService(accountService, transactionService);
     this.signService = new SignService(accountService, keyManagementService);
-    this.accountAuthorityService = new AccountAuthorityService(accountService, transactionService);
-    this.keyAuthorityService = new KeyAuthorityService(accountService, transactionService);
+    this.accountAuthorityService = new AccountAuthorityService(accountService, transactionService, steemApiService);
+    this.keyAuthorityService = new KeyAuthorityService(accountService, transactionService, steemApiService);
     this.accountManagementService = new AccountManagementService(accountService);
     this.postService = new PostService(accountService, transactionService);
     this.broadcastService = new BroadcastService(accountService, transactionService);
-    this.witnessService = new WitnessService(accountService, transactionService);
+    this.witnessService = new WitnessService(accountService, transactionService, steemApiService);
     this.proxyService = new ProxyService(accountService, transactionService);
-    this.dhfService = new DHFService(accountService, transactionService);
-    this.powerService = new PowerService(accountService, transactionService);
-    this.tokenService = new TokenService(accountService, transactionService);
-    this.accountCreationService = new AccountCreationService(accountService, transactionService);
+    this.dhfService = new DHFService(accountService, transactionService, steemApiService);
+    this.powerService = new PowerService(accountService, transactionService, steemApiService);
+    this.tokenService = new TokenService(accountService, transactionService, steemEngineService, steemApiService);
+    this.savingsService = new SavingsService(accountService, transactionService, steemApiService);
+    this.rewardsService = new RewardsService(accountService, transactionService, steemApiService);
+    this.marketService = new MarketService(accountService, transactionService, steemApiService);
+    this.escrowTracker = new EscrowTrackerService(steemApiService);
+    this.escrowService = new EscrowService(accountService, transactionService, steemApiService, this.escrowTracker);
+    this.accountCreationService = new AccountCreationService(accountService, transactionService, steemApiService);
+    this.customJsonService = new CustomJsonService(accountService, transactionService);
+    this.transferService = new TransferService(accountService, transactionService);
+    this.voteService = new VoteService(accountService, transactionService);
+    this.assetService = new AssetService(accountService, transactionService, steemApiService, this.escrowTracker);
+    this.customJsonQueryService = new CustomJsonQueryService(steemApiService);
   }
 
   async handleRequest(event: string, data: any): Promise<KeychainResponse> {
@@ -128,10 +169,22 @@ export class KeychainApiService {
         };
       }
 
+      // A request naming its own node runs against that node only
+      if (request.rpc) {
+        const { rpc, ...rest } = request;
+        // The user approved an authority preview built from the pool, so the update is built there too
+        if (AUTHORITY_REQUEST_TYPES.includes(request.type)) {
+          Logger.warn(`Ignoring rpc ${rpc} for ${request.type} request`);
+          return await this.handleKeychainRequest(rest as KeychainRequest);
+        }
+        const steemApi = await this.steemApiService.forRpc(rpc);
+        return await this.withSteemApi(steemApi).handleKeychainRequest(rest as KeychainRequest);
+      }
+
       switch (request.type) {
         // Authentication & Encoding
         case 'decode':
-          return await this.handleVerifyKey(request);
+          return await this.encodeService.handleVerifyKey(request);
         case 'encode':
           return await this.encodeService.handleEncodeMessage(request);
         case 'encodeWithKeys':
@@ -141,13 +194,13 @@ export class KeychainApiService {
         case 'signTx':
           return await this.signService.handleSignTx(request);
 
-        // Core Operations (existing)
+        // Core Operations
         case 'custom':
-          return await this.handleCustomJson(request);
+          return await this.customJsonService.handleCustomJson(request);
         case 'transfer':
-          return await this.handleTransfer(request);
+          return await this.transferService.handleTransfer(request);
         case 'vote':
-          return await this.handleVote(request);
+          return await this.voteService.handleVote(request);
 
         // Account Management
         case 'addAccount':
@@ -192,15 +245,77 @@ export class KeychainApiService {
           return await this.powerService.handlePowerDown(request);
         case 'delegation':
           return await this.powerService.handleDelegation(request);
+        case 'setWithdrawVestingRoute':
+          return await this.powerService.handleSetWithdrawVestingRoute(request);
+
+        // Savings and Rewards
+        case 'transferToSavings':
+          return await this.savingsService.handleTransferToSavings(request);
+        case 'transferFromSavings':
+          return await this.savingsService.handleTransferFromSavings(request);
+        case 'cancelTransferFromSavings':
+          return await this.savingsService.handleCancelTransferFromSavings(request);
+        case 'claimRewards':
+          return await this.rewardsService.handleClaimRewards(request);
+
+        // Internal Market
+        case 'limitOrderCreate':
+          return await this.marketService.handleLimitOrderCreate(request);
+        case 'limitOrderCreate2':
+          return await this.marketService.handleLimitOrderCreate2(request);
+        case 'limitOrderCancel':
+          return await this.marketService.handleLimitOrderCancel(request);
+
+        // Escrow
+        case 'escrow_transfer':
+          return await this.escrowService.handleEscrowTransfer(request);
+        case 'escrow_approve':
+          return await this.escrowService.handleEscrowApprove(request);
+        case 'escrow_dispute':
+          return await this.escrowService.handleEscrowDispute(request);
+        case 'escrow_release':
+          return await this.escrowService.handleEscrowRelease(request);
 
         // Token Operations
         case 'sendToken':
           return await this.tokenService.handleSendToken(request);
+        case 'stakeToken':
+          return await this.tokenService.handleStakeToken(request);
+        case 'unstakeToken':
+          return await this.tokenService.handleUnstakeToken(request);
+        case 'delegateToken':
+          return await this.tokenService.handleDelegateToken(request);
+        case 'tokenMarketOrder':
+          return await this.tokenService.handleTokenMarketOrder(request);
         case 'convert':
           return await this.tokenService.handleConversion(request);
         case 'swap':
           return await this.tokenService.handleSwap(request);
 
+        // Universal Asset Operations
+        case 'asset_create':
+          return await this.assetService.handleAssetCreate(request);
+        case 'asset_transfer':
+          return await this.assetService.handleAssetTransfer(request);
+        case 'asset_convert':
+          return await this.assetService.handleAssetConvert(request);
+        case 'asset_update':
+          return await this.assetService.handleAssetUpdate(request);
+        case 'asset_burn':
+          return await this.assetService.handleAssetBurn(request);
+        case 'asset_verify_ownership':
+          return await this.assetService.handleAssetVerifyOwnership(request);
+
+        // Custom JSON Queries (read-only)
+        case 'query_custom_json_by_account':
+          return await this.customJsonQueryService.handleQueryByAccount(request);
+        case 'query_custom_json_by_block':
+          return await this.customJsonQueryService.handleQueryByBlock(request);
+        case 'query_custom_json_by_date_range':
+          return await this.customJsonQueryService.handleQueryByDateRange(request);
+        case 'query_custom_json_by_block_range':
+          return await this.customJsonQueryService.handleQueryByBlockRange(request);
+
         default:
           return {
             success: false,
@@ -219,53 +334,189 @@ export class KeychainApiService {
     }
   }
 
-  // Keep existing core methods for backward compatibility
-  private async handleVerifyKey(request: any): Promise<KeychainResponse> {
-    // This is the existing decode/verify key implementation
-    // We keep it here for now to maintain compatibility with existing tests
-    // TODO: Could be moved to a verification service later
-    return this.handleLegacyVerifyKey(request);
+  /**
+   * Top witnesses with health flags and the account's current witness votes and proxy
+   */
+  async getWitnessOverview(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.witnessService.getWitnessOverview(request);
   }
 
-  private async handleCustomJson(request: any): Promise<KeychainResponse> {
-    // Keep existing implementation for backward compatibility
-    return this.handleLegacyCustomJson(request);
+  /**
+   * Broadcast a batch of witness vote changes as a single transaction
+   */
+  async updateWitnessVotes(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.witnessService.handleWitnessVotes(request);
   }
 
-  private async handleTransfer(request: any): Promise<KeychainResponse> {
-    // Keep existing implementation for backward compatibility
-    return this.handleLegacyTransfer(request);
+  /**
+   * Set or clear the account's witness proxy
+   */
+  async setWitnessProxy(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.proxyService.handleProxy(request);
   }
 
-  private async handleVote(request: any): Promise<KeychainResponse> {
-    // Keep existing implementation for backward compatibility
-    return this.handleLegacyVote(request);
+  /**
+   * Create an account from a claimed token with generated keys. The result carries
+   * the one-time key handoff bundle for the new user.
+   */
+  async createOnboardingAccount(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.accountCreationService.handleCreateOnboardingAccount(request);
   }
 
-  // Legacy method implementations (existing code)
-  private async handleLegacyVerifyKey(request: any): Promise<KeychainResponse> {
-    // ... existing handleVerifyKey implementation
-    const { username, message, method, request_id } = request;
-    // Implementation details would be the same as current version
+  /**
+   * Savings balances and withdrawals, pending rewards and power down routes of an account
+   */
+  async getWalletOverview(request: KeychainRequest): Promise<KeychainResponse> {
+    const [savings, rewards, routes] = await Promise.all([
+      this.savingsService.getSavingsOverview(request),
+      this.rewardsService.getPendingRewards(request),
+      this.powerService.getWithdrawRoutes(request.username!).catch(() => [])
+    ]);
+    if (!savings.success) return savings;
+    if (!rewards.success) return rewards;
+
     return {
       success: true,
-      result: `Verified with ${method} key for ${username}`,
-      request_id
+      result: { savings: savings.result, rewards: rewards.result, routes },
+      request_id: request.request_id
     };
   }
 
-  private async handleLegacyCustomJson(request: any): Promise<KeychainResponse> {
-    // ... existing handleCustomJson implementation
-    return { success: true, request_id: request.request_id };
+  /**
+   * Claim pending rewards for every account in the vault
+   */
+  async claimAllRewards(): Promise<KeychainResponse> {
+    return this.rewardsService.claimAllRewards();
+  }
+
+  async isAutoClaimRewardsEnabled(): Promise<boolean> {
+    return this.rewardsService.isAutoClaimEnabled();
   }
 
-  private async handleLegacyTransfer(request: any): Promise<KeychainResponse> {
-    // ... existing handleTransfer implementation
-    return { success: true, request_id: request.request_id };
+  async setAutoClaimRewards(enabled: boolean): Promise<void> {
+    return this.rewardsService.setAutoClaim(enabled);
   }
 
-  private async handleLegacyVote(request: any): Promise<KeychainResponse> {
-    // ... existing handleVote implementation
-    return { success: true, request_id: request.request_id };
+  /**
+   * Estimate the outcome of a convert request at the current median feed price
+   */
+  async previewConversion(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.tokenService.previewConversion(request);
+  }
+
+  /**
+   * Open SBD to STEEM conversions of an account
+   */
+  async getConversionRequests(username: string): Promise<any[]> {
+    return this.tokenService.getConversionRequests(username);
+  }
+
+  /**
+   * Expected fill and price impact of a limit order request against the current order book
+   */
+  async previewLimitOrder(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.marketService.previewLimitOrder(request);
+  }
+
+  /**
+   * STEEM/SBD order book snapshot
+   */
+  async getOrderBook(): Promise<OrderBook> {
+    return this.marketService.getOrderBook();
+  }
+
+  /**
+   * Open limit orders of an account
+   */
+  async getOpenOrders(username: string): Promise<any[]> {
+    return this.marketService.getOpenOrders(username);
+  }
+
+  /**
+   * Open escrows an account sends, receives or arbitrates
+   */
+  async getOpenEscrows(username: string): Promise<TrackedEscrow[]> {
+    return this.escrowService.getOpenEscrows(username);
+  }
+
+  /**
+   * Deliver the assets of escrow-backed sales whose payment reached the seller.
+   * Sales whose seller is not in the wallet are left for the seller's wallet.
+   */
+  async settleEscrowAssetTransfers(): Promise<EscrowSettlementResult[]> {
+    const results: EscrowSettlementResult[] = [];
+    for (const escrow of await this.escrowTracker.getReleasedAssetTransfers()) {
+      const transfer = escrow.linked_asset!;
+      const response = await this.assetService.settleEscrowAssetTransfer(escrow);
+      results.push({
+        from: escrow.from,
+        escrow_id: escrow.escrow_id,
+        universal_id: transfer.universal_id,
+        transferred: !!response.success,
+        reason: response.success ? undefined : response.error
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Fetch the DHF proposals a removeProposal/updateProposalVote request refers to
+   */
+  async previewProposals(request: KeychainRequest): Promise<KeychainResponse> {
+    return this.dhfService.previewProposals(request);
+  }
+
+  /**
+   * Dry run of a broadcast or custom JSON request: schema, authority, balance and RC checks
+   */
+  async simulateTransaction(request: KeychainRequest): Promise<KeychainResponse> {
+    switch (request.type) {
+      case 'broadcast':
+        return this.broadcastService.simulateBroadcast(request);
+      case 'custom':
+        return this.customJsonService.simulateCustomJson(request);
+      default:
+        return {
+          success: false,
+          error: 'Unsupported request type',
+          message: `Request type '${request.type}' cannot be simulated`,
+          request_id: request.request_id
+        };
+    }
+  }
+
+  // The same handlers, with every chain call going through `steemApi`
+  private withSteemApi(steemApi: SteemApiService): KeychainApiService {
+    if (steemApi === this.steemApiService) {
+      return this;
+    }
+    return new KeychainApiService(
+      this.accountService,
+      steemApi,
+      this.keyManagementService,
+      this.transactionService.withSteemApi(steemApi),
+      this.steemEngineService
+    );
+  }
+
+  /**
+   * Preview the on-chain authority an authority request would produce, without signing
+   */
+  async previewAuthorityChange(request: KeychainRequest): Promise<KeychainResponse> {
+    switch (request.type) {
+      case 'addAccountAuthority':
+      case 'removeAccountAuthority':
+        return this.accountAuthorityService.previewAccountAuthorityChange(request);
+      case 'addKeyAuthority':
+      case 'removeKeyAuthority':
+        return this.keyAuthorityService.previewKeyAuthorityChange(request);
+      default:
+        return {
+          success: false,
+          error: 'Unsupported request type',
+          message: `Request type '${request.type}' does not change an authority`,
+          request_id: request.request_id
+        };
+    }
   }
 }
\ No newline at end of file
@@ -1,10 +1,9 @@
 import { AccountService } from './account.service';
 import { KeyManagementService } from './key-management.service';
 import Logger from '../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../src/keychain-error';
 import { KeychainResponse } from './types/keychain-api.types';
+import { vaultSession } from '../lib/vault-session';
 
 export class KeychainAuthenticationService {
   constructor(
@@ -25,8 +24,8 @@ export class KeychainAuthenticationService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -91,8 +90,8 @@ export class KeychainAuthenticationService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -160,8 +159,8 @@ export class KeychainAuthenticationService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -1,10 +1,9 @@
 import { AccountService } from './account.service';
 import { TransactionService } from './transaction.service';
 import Logger from '../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../src/keychain-error';
 import { KeychainResponse } from './types/keychain-api.types';
+import { vaultSession } from '../lib/vault-session';
 
 export class KeychainContentService {
   constructor(
@@ -36,8 +35,8 @@ export class KeychainContentService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -111,8 +110,8 @@ export class KeychainContentService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -201,8 +200,8 @@ export class KeychainContentService {
     }
 
     try {
-      // Get keychain password from session storage
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      // Get the vault key from the unlock session
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -1,65 +1,40 @@
 import { BaseKeychainService } from './base-keychain.service';
-import { KeychainResponse } from '../types/keychain-api.types';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { AuthorityChangePreview, AuthorityObject, KeychainResponse } from '../types/keychain-api.types';
+import AuthorityUtils from '../../utils/authority.utils';
 import Logger from '../../../../src/utils/logger.utils';
 
+interface AccountAuthorityChange {
+  preview: AuthorityChangePreview;
+  operation: any;
+}
+
 export class AccountAuthorityService extends BaseKeychainService {
   private readonly validRoles = ['Active', 'Posting', 'Owner'];
 
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
   async handleAddAccountAuthority(request: any): Promise<KeychainResponse> {
     const { username, authorizedUsername, role, weight, rpc, request_id } = request;
 
     // Parameter validation
     const paramValidation = this.validateRequiredParams(
-      { username, authorizedUsername, role, weight }, 
-      ['username', 'authorizedUsername', 'role', 'weight'], 
+      { username, authorizedUsername, role, weight },
+      ['username', 'authorizedUsername', 'role', 'weight'],
       request_id
     );
     if (paramValidation) return paramValidation;
 
-    try {
-      // Role validation
-      const roleValidation = this.validateRole(role, request_id);
-      if (roleValidation) return roleValidation;
-
-      // Authentication
-      const authResult = await this.validateAuthentication(request_id);
-      if (typeof authResult !== 'string') return authResult;
-      const keychainPassword = authResult;
-
-      // Services validation
-      if (!this.transactionService) {
-        return this.createErrorResponse('Transaction service not available', request_id);
-      }
-
-      // Get account
-      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
-      if ('success' in accountResult) return accountResult;
-      const account = accountResult;
-
-      // Validate active key
-      if (!account.keys.active) {
-        return this.createErrorResponse('Active key not available for this account', request_id);
-      }
-
-      // Create account authority operation
-      const authorityData = this.createAccountAuthorityUpdate(role, authorizedUsername, weight);
-      const operation = ['account_update', {
-        account: username,
-        ...authorityData
-      }];
-
-      Logger.info(`Adding account authority: ${authorizedUsername} with weight ${weight} to ${username} for role ${role}`);
-
-      const result = await this.transactionService.sendOperation(
-        [operation as any],
-        { type: 'active', value: account.keys.active },
-        false
-      );
-
-      return this.createSuccessResponse(result, request_id);
-    } catch (error) {
-      return this.handleError(error, 'Add account authority', request_id);
-    }
+    Logger.info(`Adding account authority: ${authorizedUsername} with weight ${weight} to ${username} for role ${role}`);
+    return this.applyChange(request, 'add', 'Add account authority');
   }
 
   async handleRemoveAccountAuthority(request: any): Promise<KeychainResponse> {
@@ -67,12 +42,40 @@ export class AccountAuthorityService extends BaseKeychainService {
 
     // Parameter validation
     const paramValidation = this.validateRequiredParams(
-      { username, authorizedUsername, role }, 
-      ['username', 'authorizedUsername', 'role'], 
+      { username, authorizedUsername, role },
+      ['username', 'authorizedUsername', 'role'],
       request_id
     );
     if (paramValidation) return paramValidation;
 
+    Logger.info(`Removing account authority: ${authorizedUsername} from ${username} for role ${role}`);
+    return this.applyChange(request, 'remove', 'Remove account authority');
+  }
+
+  /**
+   * Before/after view of the authority a request would produce, for the approval UI
+   */
+  async previewAccountAuthorityChange(request: any): Promise<KeychainResponse> {
+    const { request_id } = request;
+    try {
+      const roleValidation = this.validateRole(request.role, request_id);
+      if (roleValidation) return roleValidation;
+
+      const change = await this.buildChange(request, request.type === 'removeAccountAuthority' ? 'remove' : 'add');
+      if ('success' in change) return change;
+      return this.createSuccessResponse(change.preview, request_id);
+    } catch (error) {
+      return this.handleError(error, 'Preview account authority', request_id);
+    }
+  }
+
+  private async applyChange(
+    request: any,
+    mode: 'add' | 'remove',
+    operationName: string
+  ): Promise<KeychainResponse> {
+    const { username, role, request_id } = request;
+
     try {
       // Role validation
       const roleValidation = this.validateRole(role, request_id);
@@ -93,30 +96,78 @@ export class AccountAuthorityService extends BaseKeychainService {
       if ('success' in accountResult) return accountResult;
       const account = accountResult;
 
-      // Validate active key
-      if (!account.keys.active) {
-        return this.createErrorResponse('Active key not available for this account', request_id);
+      // The owner authority can only be changed with the owner key
+      const isOwner = role === 'Owner';
+      const signingKey = isOwner ? account.keys.owner : account.keys.active;
+      if (!signingKey) {
+        return this.createErrorResponse(
+          isOwner ? 'Owner key not available for this account' : 'Active key not available for this account',
+          request_id
+        );
       }
 
-      // Create account authority removal operation
-      const authorityData = this.createAccountAuthorityRemoval(role, authorizedUsername);
-      const operation = ['account_update', {
-        account: username,
-        ...authorityData
-      }];
-
-      Logger.info(`Removing account authority: ${authorizedUsername} from ${username} for role ${role}`);
+      const change = await this.buildChange(request, mode);
+      if ('success' in change) return change;
 
       const result = await this.transactionService.sendOperation(
-        [operation as any],
-        { type: 'active', value: account.keys.active },
+        [['account_update', change.operation] as any],
+        { type: isOwner ? 'owner' : 'active', value: signingKey },
         false
       );
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || 'Account authority update failed', request_id);
+      }
 
-      return this.createSuccessResponse(result, request_id);
+      return this.createSuccessResponse(result.result, request_id);
     } catch (error) {
-      return this.handleError(error, 'Remove account authority', request_id);
+      return this.handleError(error, operationName, request_id);
+    }
+  }
+
+  /**
+   * Merge the requested entry into the current on-chain authority, keeping its
+   * threshold and every other key and account
+   */
+  private async buildChange(
+    request: any,
+    mode: 'add' | 'remove'
+  ): Promise<AccountAuthorityChange | KeychainResponse> {
+    const { username, authorizedUsername, role, weight, request_id } = request;
+
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Blockchain API not available', request_id);
+    }
+
+    const [chainAccount] = await this.steemApiService.getAccount(username);
+    if (!chainAccount) {
+      return this.createErrorResponse(`Account ${username} not found on chain`, request_id);
     }
+
+    const roleKey = role.toLowerCase();
+    const before = AuthorityUtils.normalize(chainAccount[roleKey as 'active' | 'posting' | 'owner']);
+    const after: AuthorityObject =
+      mode === 'remove'
+        ? AuthorityUtils.removeAccountAuth(before, authorizedUsername)
+        : AuthorityUtils.addAccountAuth(before, authorizedUsername, Number(weight));
+
+    if (!AuthorityUtils.isReachable(after)) {
+      return this.createErrorResponse(
+        `This change would leave the ${roleKey} authority unable to reach its weight threshold`,
+        request_id,
+        'Refusing to lock the account out'
+      );
+    }
+
+    return {
+      preview: {
+        account: username,
+        role: roleKey,
+        before,
+        after,
+        changes: AuthorityUtils.diff(before, after),
+      },
+      operation: AuthorityUtils.toAccountUpdate(chainAccount, { [roleKey]: after }),
+    };
   }
 
   private validateRole(role: string, request_id: any): KeychainResponse | null {
@@ -128,30 +179,4 @@ export class AccountAuthorityService extends BaseKeychainService {
     }
     return null;
   }
-
-  private createAccountAuthorityUpdate(role: string, authorizedUsername: string, weight: number) {
-    const roleKey = role.toLowerCase();
-    
-    const authorityData: any = {};
-    authorityData[roleKey] = {
-      weight_threshold: 1,
-      account_auths: [[authorizedUsername, weight]],
-      key_auths: []
-    };
-    
-    return authorityData;
-  }
-
-  private createAccountAuthorityRemoval(role: string, authorizedUsername: string) {
-    const roleKey = role.toLowerCase();
-    
-    const authorityData: any = {};
-    authorityData[roleKey] = {
-      weight_threshold: 1,
-      account_auths: [], // Remove account authorities
-      key_auths: []
-    };
-    
-    return authorityData;
-  }
-}
\ No newline at end of file
+}
@@ -1,15 +1,21 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { PrivateKey } from '@steempro/dsteem';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse, AuthorityObject } from '../types/keychain-api.types';
+import { KeyHandoffBundle } from '../../../../src/interfaces/account-claim.interface';
+import NetworkUtils from '../../utils/network.utils';
+import { vaultSession } from '../../lib/vault-session';
+
+const ROLES = ['owner', 'active', 'posting', 'memo'] as const;
 
 export class AccountCreationService {
   constructor(
     private accountService?: AccountService,
-    private transactionService?: TransactionService
+    private transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
   ) {}
 
   async handleCreateClaimedAccount(request: any): Promise<KeychainResponse> {
@@ -34,7 +40,7 @@ export class AccountCreationService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -53,32 +59,95 @@ export class AccountCreationService {
       }
 
       this.validateAccountName(new_account);
-      this.validateAuthorities({ owner, active, posting });
+      const ownerAuthority = this.parseAuthority(owner, 'owner');
+      const activeAuthority = this.parseAuthority(active, 'active');
+      const postingAuthority = this.parseAuthority(posting, 'posting');
+      this.validateAuthorities({ owner: ownerAuthority, active: activeAuthority, posting: postingAuthority });
       this.validateMemoKey(memo);
 
-      if (!this.transactionService) {
-        throw new KeychainError('Transaction service not available');
+      const result = await this.broadcastCreateClaimedAccount(username, account.keys.active, new_account, {
+        owner: ownerAuthority,
+        active: activeAuthority,
+        posting: postingAuthority,
+        memo
+      });
+
+      return {
+        success: true,
+        result,
+        message: `Account ${new_account} created successfully`,
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Create claimed account error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Account creation failed',
+        request_id
+      };
+    }
+  }
+
+  /**
+   * Create an account for a new user from one of `username`'s claimed account
+   * tokens. Keys are derived from a freshly generated master password and
+   * returned once as a handoff bundle; the keychain does not keep them.
+   */
+  async handleCreateOnboardingAccount(request: any): Promise<KeychainResponse> {
+    const { username, new_account, request_id } = request;
+
+    if (!username || !new_account) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'username and new_account are required',
+        request_id
+      };
+    }
+
+    try {
+      const keychainPassword = await vaultSession.getVaultKey();
+      if (!keychainPassword) {
+        throw new KeychainError('Keychain is locked');
       }
 
-      // TODO: Implement actual account creation using TransactionService
-      // This would create a create_claimed_account operation
-      Logger.info(`Creating claimed account ${new_account} by ${username}`);
+      if (!this.accountService) {
+        throw new KeychainError('Account service not available');
+      }
+
+      const account = await this.accountService.getAccount(username, keychainPassword);
+      if (!account) {
+        throw new KeychainError('Account not found in keychain');
+      }
+
+      if (!account.keys.active) {
+        throw new KeychainError('Active key not available for this account');
+      }
+
+      this.validateAccountName(new_account);
+
+      const handoff = this.generateHandoffBundle(username, new_account);
+      const authority = (publicKey: string): AuthorityObject => ({
+        weight_threshold: 1,
+        account_auths: [],
+        key_auths: [[publicKey, 1]]
+      });
+
+      const result = await this.broadcastCreateClaimedAccount(username, account.keys.active, new_account, {
+        owner: authority(handoff.keys.owner.public),
+        active: authority(handoff.keys.active.public),
+        posting: authority(handoff.keys.posting.public),
+        memo: handoff.keys.memo.public
+      });
 
       return {
         success: true,
-        result: {
-          creator: username,
-          new_account,
-          owner,
-          active,
-          posting,
-          memo,
-          message: `Account ${new_account} created successfully`
-        },
+        result: { ...result, handoff },
+        message: `Account ${new_account} created successfully`,
         request_id
       };
     } catch (error) {
-      Logger.error('Create claimed account error:', error);
+      Logger.error('Create onboarding account error:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Account creation failed',
@@ -87,6 +156,87 @@ export class AccountCreationService {
     }
   }
 
+  private async broadcastCreateClaimedAccount(
+    creator: string,
+    activeKey: string,
+    newAccount: string,
+    authorities: { owner: AuthorityObject; active: AuthorityObject; posting: AuthorityObject; memo: string }
+  ): Promise<any> {
+    if (!this.transactionService) {
+      throw new KeychainError('Transaction service not available');
+    }
+
+    if (this.steemApiService) {
+      const [creatorAccount] = await this.steemApiService.getAccount(creator);
+      if (!Number((creatorAccount as any)?.pending_claimed_accounts || 0)) {
+        throw new KeychainError(`${creator} has no claimed account tokens`);
+      }
+      const existing = await this.steemApiService.getAccount(newAccount);
+      if (existing?.length) {
+        throw new KeychainError(`Account ${newAccount} already exists`);
+      }
+    }
+
+    Logger.info(`Creating claimed account ${newAccount} by ${creator}`);
+    const result = await this.transactionService.sendOperation(
+      [
+        [
+          'create_claimed_account',
+          {
+            creator,
+            new_account_name: newAccount,
+            owner: authorities.owner,
+            active: authorities.active,
+            posting: authorities.posting,
+            memo_key: authorities.memo,
+            json_metadata: '',
+            extensions: []
+          }
+        ]
+      ],
+      { type: 'active', value: activeKey }
+    );
+
+    if (!result?.success) {
+      throw new KeychainError(result?.error || 'Account creation failed');
+    }
+    return result.result;
+  }
+
+  // Same scheme as the STEEM wallet: a 'P' prefixed WIF of a random seed
+  private generateHandoffBundle(creator: string, newAccount: string): KeyHandoffBundle {
+    const seed = Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+    const masterPassword = `P${PrivateKey.fromSeed(seed).toString()}`;
+
+    const keys = {} as KeyHandoffBundle['keys'];
+    for (const role of ROLES) {
+      const privateKey = PrivateKey.fromLogin(newAccount, masterPassword, role);
+      keys[role] = { private: privateKey.toString(), public: privateKey.createPublic().toString() };
+    }
+
+    return {
+      account: newAccount,
+      creator,
+      masterPassword,
+      keys,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  // Keychain requests carry authorities as JSON strings
+  private parseAuthority(authority: AuthorityObject | string, type: string): AuthorityObject {
+    if (typeof authority !== 'string') {
+      return authority;
+    }
+    try {
+      return JSON.parse(authority);
+    } catch {
+      throw new KeychainError(`Invalid ${type} authority object`);
+    }
+  }
+
   private validateAccountName(accountName: string): void {
     // Basic validation for Steem account name format
     const accountRegex = /^[a-z][a-z0-9\-\.]{2,15}$/;
@@ -128,7 +278,7 @@ export class AccountCreationService {
 
   private validateMemoKey(memoKey: string): void {
     // Basic validation for public key format
-    if (!memoKey.startsWith('STM') || memoKey.length < 50) {
+    if (!NetworkUtils.isPublicKeyFormat(memoKey) || memoKey.length < 50) {
       throw new KeychainError('Invalid memo key format');
     }
   }
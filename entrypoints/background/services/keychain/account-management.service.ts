@@ -1,9 +1,8 @@
 import { AccountService } from '../account.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { vaultSession } from '../../lib/vault-session';
 
 export class AccountManagementService {
   private readonly validKeys = ['active', 'posting', 'memo', 'owner'];
@@ -23,7 +22,7 @@ export class AccountManagementService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
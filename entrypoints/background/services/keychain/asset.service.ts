@@ -0,0 +1,309 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { EscrowTrackerService } from '../escrow-tracker.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import { TrackedEscrow } from '../../../../src/interfaces/escrow.interface';
+import Logger from '../../../../src/utils/logger.utils';
+
+// Every asset operation is a posting-authority custom_json under this id
+export const ASSET_CUSTOM_JSON_ID = 'etta_asset';
+
+export class AssetService extends BaseKeychainService {
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService,
+    private escrowTracker?: EscrowTrackerService
+  ) {
+    super(accountService, transactionService);
+  }
+
+  async handleAssetCreate(request: any): Promise<KeychainResponse> {
+    const { username, assetRequest, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, assetRequest },
+      ['username', 'assetRequest'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const universalId = `ua_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const asset = {
+      universal_id: universalId,
+      name: assetRequest.base_metadata?.name || 'Unknown Asset',
+      description: assetRequest.base_metadata?.description || 'Asset created via extension',
+      image_url: assetRequest.base_metadata?.image_url,
+      asset_type: assetRequest.asset_type || 'universal',
+      domain: assetRequest.domain || 'gaming',
+      creator: username,
+      created_at: new Date().toISOString(),
+      source_platform: assetRequest.initial_game_id || 'extension',
+      core_essence: assetRequest.core_essence || {
+        power_tier: 50,
+        rarity_class: 'common',
+        element: 'neutral',
+      },
+      initial_variant: assetRequest.initial_variant || {
+        properties: {},
+      },
+    };
+
+    return this.broadcastAssetOperation(username, 'asset_create', asset, request_id, (txId) => ({
+      universal_id: universalId,
+      transaction_id: txId,
+      asset,
+    }));
+  }
+
+  /**
+   * A sale that names an escrow (`options.escrow: { from, escrow_id }`) is held
+   * until the buyer's escrowed payment has been released to the seller, and is
+   * broadcast by the escrow settlement check once it has.
+   */
+  async handleAssetTransfer(request: any): Promise<KeychainResponse> {
+    const { username, universalId, toUser, transferType, options, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, universalId, toUser },
+      ['username', 'universalId', 'toUser'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    if (toUser === username) {
+      return this.createErrorResponse('Cannot transfer an asset to yourself', request_id);
+    }
+
+    const data = {
+      universal_id: universalId,
+      from: username,
+      to: toUser,
+      transfer_type: transferType || 'gift',
+      price: options?.price,
+      game_context: options?.gameContext,
+      memo: options?.memo,
+    };
+
+    const escrow = options?.escrow;
+    if (escrow) {
+      if (data.transfer_type !== 'sale') {
+        return this.createErrorResponse('Only sales can be settled through an escrow', request_id);
+      }
+      if (!this.escrowTracker) {
+        return this.createErrorResponse('Escrow tracker not available', request_id);
+      }
+
+      try {
+        const linked = await this.escrowTracker.linkAssetTransfer(escrow.from, Number(escrow.escrow_id), {
+          universal_id: universalId,
+          seller: username,
+          buyer: toUser,
+          price: data.price,
+          memo: data.memo,
+          game_context: data.game_context,
+        });
+        if (!(await this.escrowTracker.isReleasedToSeller(linked))) {
+          Logger.info(`Holding ${universalId} until escrow ${linked.escrow_id} from ${linked.from} is released`);
+          return this.createSuccessResponse(
+            { universal_id: universalId, pending: true, escrow_id: linked.escrow_id, to: toUser },
+            request_id
+          );
+        }
+      } catch (error) {
+        return this.handleError(error, 'link asset transfer to escrow', request_id);
+      }
+    }
+
+    const response = await this.broadcastAssetOperation(username, 'asset_transfer', data, request_id, (txId) => ({
+      universal_id: universalId,
+      transaction_id: txId,
+      to: toUser,
+    }));
+    if (escrow && response.success) {
+      await this.escrowTracker?.markTransferred(escrow.from, Number(escrow.escrow_id), response.result.transaction_id);
+    }
+    return response;
+  }
+
+  /**
+   * Deliver the asset of a linked sale whose escrow was released. The escrow is
+   * gone from the chain once fully paid out, so the sale is sent as it was
+   * linked instead of being linked again.
+   */
+  async settleEscrowAssetTransfer(escrow: TrackedEscrow): Promise<KeychainResponse> {
+    const transfer = escrow.linked_asset;
+    if (!transfer) {
+      return this.createErrorResponse(`Escrow ${escrow.escrow_id} from ${escrow.from} pays for no asset`, undefined);
+    }
+
+    const data = {
+      universal_id: transfer.universal_id,
+      from: transfer.seller,
+      to: transfer.buyer,
+      transfer_type: 'sale',
+      price: transfer.price,
+      game_context: transfer.game_context,
+      memo: transfer.memo,
+    };
+    const response = await this.broadcastAssetOperation(transfer.seller, 'asset_transfer', data, undefined, (txId) => ({
+      universal_id: transfer.universal_id,
+      transaction_id: txId,
+      to: transfer.buyer,
+    }));
+    if (response.success) {
+      await this.escrowTracker?.markTransferred(escrow.from, escrow.escrow_id, response.result.transaction_id);
+    }
+    return response;
+  }
+
+  async handleAssetConvert(request: any): Promise<KeychainResponse> {
+    const { username, universalId, fromGame, toGame, conversionOptions, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, universalId, fromGame, toGame },
+      ['username', 'universalId', 'fromGame', 'toGame'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const data = {
+      universal_id: universalId,
+      owner: username,
+      from_game: fromGame,
+      to_game: toGame,
+      options: conversionOptions,
+    };
+
+    return this.broadcastAssetOperation(username, 'asset_convert', data, request_id, (txId) => ({
+      universal_id: universalId,
+      transaction_id: txId,
+      from_game: fromGame,
+      to_game: toGame,
+    }));
+  }
+
+  async handleAssetUpdate(request: any): Promise<KeychainResponse> {
+    const { username, universalId, updates, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, universalId, updates },
+      ['username', 'universalId', 'updates'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const data = { universal_id: universalId, owner: username, updates };
+
+    return this.broadcastAssetOperation(username, 'asset_update', data, request_id, (txId) => ({
+      universal_id: universalId,
+      transaction_id: txId,
+    }));
+  }
+
+  async handleAssetBurn(request: any): Promise<KeychainResponse> {
+    const { username, universalId, burnReason, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, universalId },
+      ['username', 'universalId'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const data = { universal_id: universalId, owner: username, reason: burnReason };
+
+    return this.broadcastAssetOperation(username, 'asset_burn', data, request_id, (txId) => ({
+      universal_id: universalId,
+      transaction_id: txId,
+    }));
+  }
+
+  /**
+   * Ownership is derived from the account's own etta_asset history: the most
+   * recent operation it signed for the asset decides whether it still holds it.
+   */
+  async handleAssetVerifyOwnership(request: any): Promise<KeychainResponse> {
+    const { username, universalId, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, universalId },
+      ['username', 'universalId'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Blockchain API not available', request_id);
+    }
+
+    try {
+      const operations = await this.steemApiService.getCustomJsonByAccount(username, ASSET_CUSTOM_JSON_ID, 1000);
+      const latest = operations
+        .filter((op) => op.json_data?.data?.universal_id === universalId)
+        .sort((a, b) => b.sequence - a.sequence)[0];
+
+      const lastOperation: string | undefined = latest?.json_data?.operation;
+      const verified = !!lastOperation && !['asset_transfer', 'asset_burn'].includes(lastOperation);
+
+      return this.createSuccessResponse(
+        {
+          universal_id: universalId,
+          owner: username,
+          verified,
+          last_operation: lastOperation || null,
+          transaction_id: latest?.transaction_id || null,
+        },
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'verify asset ownership', request_id);
+    }
+  }
+
+  private async broadcastAssetOperation(
+    username: string,
+    operation: string,
+    data: Record<string, any>,
+    request_id: any,
+    buildResult: (transactionId: string) => Record<string, any>
+  ): Promise<KeychainResponse> {
+    try {
+      // Authentication
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      // Get account
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+      const account = accountResult;
+
+      // Get private key
+      const keyResult = this.getPrivateKeyByMethod(account, 'posting', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+      const postingKey = keyResult;
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      Logger.info(`Broadcasting ${operation} for ${username}`, { universal_id: data.universal_id });
+      const result = await this.transactionService.broadcastCustomJson(
+        ASSET_CUSTOM_JSON_ID,
+        { operation, data },
+        username,
+        { type: 'posting', value: postingKey }
+      );
+      if (!result?.success || !result.result?.id) {
+        return this.createErrorResponse(result?.error || 'Transaction failed - no transaction ID returned', request_id);
+      }
+
+      return this.createSuccessResponse(buildResult(result.result.id), request_id);
+    } catch (error) {
+      return this.handleError(error, operation.replace('_', ' '), request_id);
+    }
+  }
+}
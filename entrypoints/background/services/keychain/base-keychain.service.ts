@@ -1,10 +1,9 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { vaultSession } from '../../lib/vault-session';
 
 export abstract class BaseKeychainService {
   constructor(
@@ -13,10 +12,10 @@ export abstract class BaseKeychainService {
   ) {}
 
   /**
-   * Validates authentication and returns password or error response
+   * Validates authentication and returns the vault key or error response
    */
   protected async validateAuthentication(request_id: any): Promise<KeychainResponse | string> {
-    const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+    const keychainPassword = await vaultSession.getVaultKey();
     if (!keychainPassword) {
       return {
         success: false,
@@ -1,10 +1,9 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { vaultSession } from '../../lib/vault-session';
 
 export class BroadcastService {
   constructor(
@@ -25,31 +24,9 @@ export class BroadcastService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
-      if (!keychainPassword) {
-        throw new KeychainError('Keychain is locked');
-      }
-
-      const targetUsername = await this.resolveUsername(username, keychainPassword);
-      if (!this.accountService) {
-        throw new KeychainError('Account service not available');
-      }
-
-      const account = await this.accountService.getAccount(targetUsername, keychainPassword);
-      if (!account) {
-        throw new KeychainError('Account not found in keychain');
-      }
-
-      const privateKey = this.getPrivateKeyByMethod(account, method);
-
+      const { targetUsername, key } = await this.resolveSigner(username, method);
       this.validateOperations(operations);
 
-      // Create a key object for the transaction service
-      const key = {
-        type: method.toLowerCase() as 'active' | 'posting' | 'memo',
-        value: privateKey
-      };
-
       if (!this.transactionService) {
         throw new KeychainError('Transaction service not available');
       }
@@ -84,6 +61,71 @@ export class BroadcastService {
     }
   }
 
+  /**
+   * Check the operations of a broadcast request against the chain without broadcasting them
+   */
+  async simulateBroadcast(request: any): Promise<KeychainResponse> {
+    const { username, operations, method, request_id } = request;
+
+    if (!operations || !Array.isArray(operations) || !method) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'operations (array) and method are required',
+        request_id
+      };
+    }
+
+    try {
+      const { key } = await this.resolveSigner(username, method);
+      this.validateOperations(operations);
+
+      if (!this.transactionService) {
+        throw new KeychainError('Transaction service not available');
+      }
+
+      return {
+        success: true,
+        result: await this.transactionService.simulateTransaction(operations, key),
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Broadcast simulation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Simulation failed',
+        request_id
+      };
+    }
+  }
+
+  private async resolveSigner(
+    username: string | undefined,
+    method: string
+  ): Promise<{ targetUsername: string; key: { type: 'active' | 'posting' | 'memo'; value: string } }> {
+    const keychainPassword = await vaultSession.getVaultKey();
+    if (!keychainPassword) {
+      throw new KeychainError('Keychain is locked');
+    }
+
+    const targetUsername = await this.resolveUsername(username, keychainPassword);
+    if (!this.accountService) {
+      throw new KeychainError('Account service not available');
+    }
+
+    const account = await this.accountService.getAccount(targetUsername, keychainPassword);
+    if (!account) {
+      throw new KeychainError('Account not found in keychain');
+    }
+
+    // Create a key object for the transaction service
+    const key = {
+      type: method.toLowerCase() as 'active' | 'posting' | 'memo',
+      value: this.getPrivateKeyByMethod(account, method)
+    };
+    return { targetUsername, key };
+  }
+
   private async resolveUsername(username: string | undefined, keychainPassword: string): Promise<string> {
     if (username) return username;
     
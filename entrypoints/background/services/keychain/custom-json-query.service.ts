@@ -0,0 +1,92 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { SteemApiService } from '../steem-api.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import { ASSET_CUSTOM_JSON_ID } from './asset.service';
+
+/**
+ * Read-only custom_json lookups used by the blockchain explorer. These never
+ * touch keys, so they don't require the keychain to be unlocked.
+ */
+export class CustomJsonQueryService extends BaseKeychainService {
+  constructor(private steemApiService?: SteemApiService) {
+    super();
+  }
+
+  async handleQueryByAccount(request: any): Promise<KeychainResponse> {
+    const { account, customJsonId, limit, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ account }, ['account'], request_id);
+    if (paramValidation) return paramValidation;
+
+    return this.runQuery('by_account', request_id, (api) =>
+      api.getCustomJsonByAccount(account, customJsonId || ASSET_CUSTOM_JSON_ID, limit || 100)
+    );
+  }
+
+  async handleQueryByBlock(request: any): Promise<KeychainResponse> {
+    const { blockNumber, customJsonId, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ blockNumber }, ['blockNumber'], request_id);
+    if (paramValidation) return paramValidation;
+
+    return this.runQuery('by_block', request_id, (api) =>
+      api.getCustomJsonInBlock(blockNumber, customJsonId || ASSET_CUSTOM_JSON_ID)
+    );
+  }
+
+  async handleQueryByDateRange(request: any): Promise<KeychainResponse> {
+    const { accounts, customJsonId, startDate, endDate, maxResults, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { accounts, startDate, endDate },
+      ['accounts', 'startDate', 'endDate'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    return this.runQuery('by_date_range', request_id, (api) =>
+      api.getCustomJsonByDateRange(
+        accounts,
+        customJsonId || ASSET_CUSTOM_JSON_ID,
+        new Date(startDate),
+        new Date(endDate),
+        maxResults || 5000
+      )
+    );
+  }
+
+  async handleQueryByBlockRange(request: any): Promise<KeychainResponse> {
+    const { startBlock, endBlock, customJsonId, maxResults, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { startBlock, endBlock },
+      ['startBlock', 'endBlock'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    return this.runQuery('by_block_range', request_id, (api) =>
+      api.getCustomJsonByBlockRange(startBlock, endBlock, customJsonId || ASSET_CUSTOM_JSON_ID, maxResults || 1000)
+    );
+  }
+
+  private async runQuery(
+    queryType: string,
+    request_id: any,
+    query: (api: SteemApiService) => Promise<any[]>
+  ): Promise<KeychainResponse> {
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Blockchain API not available', request_id);
+    }
+
+    try {
+      const operations = await query(this.steemApiService);
+      return this.createSuccessResponse(
+        { operations, count: operations.length, query_type: queryType },
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'query custom JSON', request_id);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import { Key, KeyType } from '../../../../src/interfaces/keys.interface';
+
+interface ResolvedCustomJson {
+  id: string;
+  payload: any;
+  username: string;
+  key: Key;
+}
+
+export class CustomJsonService extends BaseKeychainService {
+  async handleCustomJson(request: any): Promise<KeychainResponse> {
+    const { request_id } = request;
+
+    try {
+      const resolved = await this.resolveCustomJson(request);
+      if ('success' in resolved) return resolved;
+
+      const result = await this.transactionService!.broadcastCustomJson(
+        resolved.id,
+        resolved.payload,
+        resolved.username,
+        resolved.key
+      );
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || 'Broadcast failed', request_id);
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, 'broadcast custom JSON', request_id);
+    }
+  }
+
+  /**
+   * Check a custom JSON request against the chain without broadcasting it
+   */
+  async simulateCustomJson(request: any): Promise<KeychainResponse> {
+    const { request_id } = request;
+
+    try {
+      const resolved = await this.resolveCustomJson(request);
+      if ('success' in resolved) return resolved;
+
+      const simulation = await this.transactionService!.simulateCustomJson(
+        resolved.id,
+        resolved.payload,
+        resolved.username,
+        resolved.key
+      );
+      return this.createSuccessResponse(simulation, request_id);
+    } catch (error) {
+      return this.handleError(error, 'simulate custom JSON', request_id);
+    }
+  }
+
+  private async resolveCustomJson(request: any): Promise<ResolvedCustomJson | KeychainResponse> {
+    const { username, id, method = 'Posting', json, request_id } = request;
+
+    // Parameter validation
+    const paramValidation = this.validateRequiredParams({ id, json }, ['id', 'json'], request_id);
+    if (paramValidation) return paramValidation;
+
+    const keyType = String(method).toLowerCase();
+    if (keyType !== 'posting' && keyType !== 'active') {
+      return this.createErrorResponse('Invalid method. Must be Posting or Active', request_id);
+    }
+
+    // Dapps send json either as a string or an object; broadcastCustomJson stringifies it once
+    let payload: any = json;
+    if (typeof json === 'string') {
+      try {
+        payload = JSON.parse(json);
+      } catch {
+        return this.createErrorResponse('Invalid JSON', request_id, 'json must be valid JSON');
+      }
+    }
+
+    // Authentication
+    const authResult = await this.validateAuthentication(request_id);
+    if (typeof authResult !== 'string') return authResult;
+    const keychainPassword = authResult;
+
+    // Resolve username
+    const usernameResult = await this.resolveUsername(username, keychainPassword, request_id);
+    if (typeof usernameResult !== 'string') return usernameResult;
+    const targetUsername = usernameResult;
+
+    // Get account
+    const accountResult = await this.getAccountWithValidation(targetUsername, keychainPassword, request_id);
+    if ('success' in accountResult) return accountResult;
+    const account = accountResult;
+
+    // Get private key
+    const keyResult = this.getPrivateKeyByMethod(account, keyType, request_id);
+    if (typeof keyResult !== 'string') return keyResult;
+    const privateKey = keyResult;
+
+    if (!this.transactionService) {
+      return this.createErrorResponse('Transaction service not available', request_id);
+    }
+
+    return {
+      id,
+      payload,
+      username: targetUsername,
+      key: { type: keyType as KeyType, value: privateKey },
+    };
+  }
+}
@@ -1,15 +1,20 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { TransactionResult } from '../../../../src/interfaces/steem-tx.interface';
+import { vaultSession } from '../../lib/vault-session';
+
+// DHF proposals are paid in SBD, e.g. "10.000 SBD"
+const DAILY_PAY_PATTERN = /^\d+\.\d{3} SBD$/;
 
 export class DHFService {
   constructor(
     private accountService?: AccountService,
-    private transactionService?: TransactionService
+    private transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
   ) {}
 
   async handleCreateProposal(request: any): Promise<KeychainResponse> {
@@ -36,7 +41,7 @@ export class DHFService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -63,23 +68,32 @@ export class DHFService {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual DHF proposal creation using TransactionService
-      // This would create a create_proposal operation
       Logger.info(`Creating DHF proposal for ${username}: ${subject}`);
 
+      const result = await this.transactionService.sendOperation(
+        [
+          [
+            'create_proposal',
+            {
+              creator: username,
+              receiver,
+              start_date: this.toChainDate(start),
+              end_date: this.toChainDate(end),
+              daily_pay,
+              subject,
+              permlink,
+              extensions: processedExtensions
+            }
+          ] as any
+        ],
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Failed to create proposal');
+
       return {
         success: true,
-        result: {
-          creator: username,
-          receiver,
-          subject,
-          permlink,
-          daily_pay,
-          start,
-          end,
-          extensions: processedExtensions,
-          message: 'DHF proposal created successfully'
-        },
+        result: result!.result,
+        message: 'DHF proposal created successfully',
         request_id
       };
     } catch (error) {
@@ -105,7 +119,7 @@ export class DHFService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -130,18 +144,27 @@ export class DHFService {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual DHF proposal removal using TransactionService
-      // This would create a remove_proposal operation
       Logger.info(`Removing DHF proposals for ${username}: ${processedProposalIds.join(', ')}`);
 
+      const result = await this.transactionService.sendOperation(
+        [
+          [
+            'remove_proposal',
+            {
+              proposal_owner: username,
+              proposal_ids: processedProposalIds,
+              extensions: processedExtensions
+            }
+          ] as any
+        ],
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Failed to remove proposals');
+
       return {
         success: true,
-        result: {
-          account: username,
-          proposal_ids: processedProposalIds,
-          extensions: processedExtensions,
-          message: 'DHF proposals removed successfully'
-        },
+        result: result!.result,
+        message: 'DHF proposals removed successfully',
         request_id
       };
     } catch (error) {
@@ -167,7 +190,7 @@ export class DHFService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -192,19 +215,30 @@ export class DHFService {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual DHF proposal vote using TransactionService
-      // This would create an update_proposal_votes operation
-      Logger.info(`${approve ? 'Approving' : 'Unapproving'} DHF proposals for ${username}: ${processedProposalIds.join(', ')}`);
+      // Clients built on the string-based keychain API may send "true"/"false"
+      const shouldApprove = approve === true || approve === 'true';
+      Logger.info(`${shouldApprove ? 'Approving' : 'Unapproving'} DHF proposals for ${username}: ${processedProposalIds.join(', ')}`);
+
+      const result = await this.transactionService.sendOperation(
+        [
+          [
+            'update_proposal_votes',
+            {
+              voter: username,
+              proposal_ids: processedProposalIds,
+              approve: shouldApprove,
+              extensions: processedExtensions
+            }
+          ] as any
+        ],
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Failed to update proposal votes');
 
       return {
         success: true,
-        result: {
-          voter: username,
-          proposal_ids: processedProposalIds,
-          approve,
-          extensions: processedExtensions,
-          message: `DHF proposals ${approve ? 'approved' : 'unapproved'} successfully`
-        },
+        result: result!.result,
+        message: `DHF proposals ${shouldApprove ? 'approved' : 'unapproved'} successfully`,
         request_id
       };
     } catch (error) {
@@ -217,6 +251,40 @@ export class DHFService {
     }
   }
 
+  /**
+   * Look up the proposals a remove/vote request targets so the approval window
+   * can show what is being voted on
+   */
+  async previewProposals(request: any): Promise<KeychainResponse> {
+    const { proposal_ids, request_id } = request;
+
+    try {
+      if (!this.steemApiService) {
+        throw new KeychainError('Blockchain API not available');
+      }
+
+      const ids = this.processProposalIds(proposal_ids);
+      const proposals = await this.steemApiService.findProposals(ids);
+      const found = new Set(proposals.map(proposal => Number(proposal.id)));
+
+      return {
+        success: true,
+        result: {
+          proposals,
+          missing: ids.filter(id => !found.has(id))
+        },
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Preview proposals error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load proposals',
+        request_id
+      };
+    }
+  }
+
   private validateDates(start: string, end: string): void {
     const startDate = new Date(start);
     const endDate = new Date(end);
@@ -231,22 +299,41 @@ export class DHFService {
   }
 
   private validateDailyPay(dailyPay: string): void {
-    const amount = parseFloat(dailyPay);
-    if (isNaN(amount) || amount <= 0) {
+    if (typeof dailyPay !== 'string' || !DAILY_PAY_PATTERN.test(dailyPay.trim())) {
+      throw new KeychainError('Daily pay must be an SBD amount with 3 decimals, e.g. 10.000 SBD');
+    }
+    if (parseFloat(dailyPay) <= 0) {
       throw new KeychainError('Daily pay must be a positive number');
     }
   }
 
-  private processProposalIds(proposalIds: string | number[]): number[] {
+  // Keychain clients send ids as a JSON array string ("[1, 2]"), an array, or a single id.
+  // The chain stores them in a flat_set, so they go out sorted and de-duplicated.
+  private processProposalIds(proposalIds: string | number | Array<string | number>): number[] {
+    let ids: unknown;
     try {
-      const ids = typeof proposalIds === 'string' ? JSON.parse(proposalIds) : proposalIds;
-      if (!Array.isArray(ids)) {
-        throw new Error('Proposal IDs must be an array');
-      }
-      return ids.map(id => parseInt(id.toString()));
+      ids = typeof proposalIds === 'string' ? JSON.parse(proposalIds) : proposalIds;
     } catch (error) {
       throw new KeychainError('Invalid proposal IDs format');
     }
+
+    const list = Array.isArray(ids) ? ids : [ids];
+    const parsed = list.map(id => Number(id));
+    if (parsed.length === 0 || parsed.some(id => !Number.isInteger(id) || id < 0)) {
+      throw new KeychainError('Invalid proposal IDs format');
+    }
+    return Array.from(new Set(parsed)).sort((a, b) => a - b);
+  }
+
+  // The chain expects UTC timestamps without milliseconds or a zone suffix
+  private toChainDate(date: string): string {
+    return new Date(date).toISOString().split('.')[0];
+  }
+
+  private assertBroadcast(result: TransactionResult | null, fallback: string): void {
+    if (!result?.success) {
+      throw new KeychainError(result?.error || fallback);
+    }
   }
 
   private processExtensions(extensions: string | any[]): any[] {
@@ -2,6 +2,7 @@ import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
 import { KeychainResponse } from '../types/keychain-api.types';
 import { BaseKeychainService } from './base-keychain.service';
+import MemoUtils from '../../utils/memo.utils';
 
 export class EncodeService extends BaseKeychainService {
   constructor(
@@ -37,8 +38,17 @@ export class EncodeService extends BaseKeychainService {
       const keyResult = this.getPrivateKeyByMethod(account, method, request_id);
       if (typeof keyResult !== 'string') return keyResult;
 
-      // TODO: Implement actual message encoding/encryption
-      const encodedMessage = `[ENCODED]${message}[/ENCODED]`;
+      // Encrypt for the receiver's on-chain memo key
+      const receiverMemoKey = await this.accountService!.getPublicMemoKey(receiver);
+      if (!receiverMemoKey) {
+        return this.createErrorResponse(
+          'Receiver account not found',
+          request_id,
+          `Could not find memo key for @${receiver}`
+        );
+      }
+
+      const encodedMessage = MemoUtils.encodeMemo(keyResult, receiverMemoKey, message);
 
       return this.createSuccessResponse(encodedMessage, request_id);
     } catch (error) {
@@ -81,11 +91,11 @@ export class EncodeService extends BaseKeychainService {
       const keyResult = this.getPrivateKeyByMethod(account, method, request_id);
       if (typeof keyResult !== 'string') return keyResult;
 
-      // TODO: Implement actual message encoding for multiple public keys
-      const encodedMessages = publicKeys.map((publicKey: string) => ({
-        publicKey,
-        message: `[ENCODED:${publicKey}]${message}[/ENCODED:${publicKey}]`
-      }));
+      // Keyed by public key, as dApps read the result of requestEncodeWithKeys
+      const encodedMessages: Record<string, string> = {};
+      for (const publicKey of publicKeys) {
+        encodedMessages[publicKey] = MemoUtils.encodeMemo(keyResult, publicKey, message);
+      }
 
       return this.createSuccessResponse(encodedMessages, request_id);
     } catch (error) {
@@ -93,4 +103,50 @@ export class EncodeService extends BaseKeychainService {
     }
   }
 
+  /**
+   * Decrypts a `#` memo with one of the user's keys (requestVerifyKey).
+   * Succeeding proves the user holds that key, which is what login flows check.
+   */
+  async handleVerifyKey(request: any): Promise<KeychainResponse> {
+    const { username, message, method, request_id } = request;
+
+    // Validate required parameters
+    const paramValidation = this.validateRequiredParams(
+      { username, message, method },
+      ['username', 'message', 'method'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    if (!MemoUtils.isEncrypted(message)) {
+      return this.createErrorResponse(
+        'Message is not an encrypted memo',
+        request_id,
+        'Encrypted messages must start with #'
+      );
+    }
+
+    try {
+      // Validate authentication
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      // Get account with validation
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult && !accountResult.success) return accountResult;
+      const account = accountResult;
+
+      // Get private key
+      const keyResult = this.getPrivateKeyByMethod(account, method, request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+
+      const decodedMessage = MemoUtils.decodeMemo(keyResult, message);
+
+      return this.createSuccessResponse(decodedMessage, request_id);
+    } catch (error) {
+      return this.handleError(error, 'verify key', request_id);
+    }
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,302 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { EscrowTrackerService } from '../escrow-tracker.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import Logger from '../../../../src/utils/logger.utils';
+import Config from '../../../../src/config';
+import { KeychainError } from '../../../../src/keychain-error';
+import { TrackedEscrow } from '../../../../src/interfaces/escrow.interface';
+
+const ZERO_SBD = '0.000 SBD';
+const ZERO_STEEM = '0.000 STEEM';
+
+/**
+ * Escrow transfers: the sender's funds are held until the receiver and the
+ * agent approve, then released by the sender, or by the agent in a dispute.
+ */
+export class EscrowService extends BaseKeychainService {
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService,
+    private escrowTracker?: EscrowTrackerService
+  ) {
+    super(accountService, transactionService);
+  }
+
+  async handleEscrowTransfer(request: any): Promise<KeychainResponse> {
+    const { username, to, agent, fee, json_meta, universal_id, request_id } = request;
+    const sbd_amount = request.sbd_amount || ZERO_SBD;
+    const steem_amount = request.steem_amount || ZERO_STEEM;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, to, agent, fee },
+      ['username', 'to', 'agent', 'fee'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    if (new Set([username, to, agent]).size !== 3) {
+      return this.createErrorResponse('Sender, receiver and agent must be different accounts', request_id);
+    }
+
+    try {
+      this.parseAmount(sbd_amount, 'SBD');
+      this.parseAmount(steem_amount, 'STEEM');
+      this.parseAmount(fee);
+      if (parseFloat(sbd_amount) + parseFloat(steem_amount) <= 0) {
+        throw new KeychainError('An escrow must hold some STEEM or SBD');
+      }
+
+      const { ratification_deadline, escrow_expiration } = this.getDeadlines(request);
+      const escrowId = await this.resolveEscrowId(username, request.escrow_id);
+      const meta = universal_id ? { ...this.parseJsonMeta(json_meta), universal_id } : this.parseJsonMeta(json_meta);
+
+      const terms = {
+        from: username,
+        to,
+        agent,
+        escrow_id: escrowId,
+        sbd_amount,
+        steem_amount,
+        fee,
+        ratification_deadline,
+        escrow_expiration
+      };
+
+      Logger.info(`Escrow ${escrowId}: ${sbd_amount} and ${steem_amount} from ${username} to ${to} via ${agent}`);
+      const response = await this.broadcast(
+        username,
+        ['escrow_transfer', { ...terms, json_meta: JSON.stringify(meta) }],
+        'create escrow',
+        request_id
+      );
+      if (response.success) {
+        await this.escrowTracker?.track({
+          ...terms,
+          to_approved: false,
+          agent_approved: false,
+          disputed: false,
+          closed: false
+        });
+        response.result = { ...response.result, escrow_id: escrowId };
+      }
+      return response;
+    } catch (error) {
+      return this.handleError(error, 'create escrow', request_id);
+    }
+  }
+
+  /**
+   * Approve or decline an escrow as its receiver or agent. Declining returns
+   * the funds to the sender.
+   */
+  async handleEscrowApprove(request: any): Promise<KeychainResponse> {
+    const { username, approve = true, request_id } = request;
+
+    try {
+      const escrow = await this.resolveEscrow(request);
+      if (![escrow.to, escrow.agent].includes(username)) {
+        throw new KeychainError('Only the receiver or the agent can approve an escrow');
+      }
+
+      const approved = approve === true || approve === 'true';
+      Logger.info(`${username} ${approved ? 'approves' : 'declines'} escrow ${escrow.escrow_id} from ${escrow.from}`);
+      return this.broadcast(
+        username,
+        [
+          'escrow_approve',
+          { ...this.parties(escrow), who: username, escrow_id: escrow.escrow_id, approve: approved }
+        ],
+        'approve escrow',
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'approve escrow', request_id);
+    }
+  }
+
+  /**
+   * Hand an approved escrow to the agent. Only the sender or the receiver can
+   * raise a dispute, and only before the escrow expires.
+   */
+  async handleEscrowDispute(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    try {
+      const escrow = await this.resolveEscrow(request);
+      if (![escrow.from, escrow.to].includes(username)) {
+        throw new KeychainError('Only the sender or the receiver can dispute an escrow');
+      }
+
+      Logger.info(`${username} disputes escrow ${escrow.escrow_id} from ${escrow.from}`);
+      return this.broadcast(
+        username,
+        ['escrow_dispute', { ...this.parties(escrow), who: username, escrow_id: escrow.escrow_id }],
+        'dispute escrow',
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'dispute escrow', request_id);
+    }
+  }
+
+  /**
+   * Release escrowed funds. Without amounts the whole remaining balance is
+   * released; the receiver defaults to the other party.
+   */
+  async handleEscrowRelease(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    try {
+      const escrow = await this.resolveEscrow(request);
+      if (![escrow.from, escrow.to, escrow.agent].includes(username)) {
+        throw new KeychainError(`@${username} is not part of escrow ${escrow.escrow_id}`);
+      }
+
+      const receiver = request.receiver || (username === escrow.to ? escrow.from : escrow.to);
+      if (![escrow.from, escrow.to].includes(receiver)) {
+        throw new KeychainError('Funds can only be released to the sender or the receiver');
+      }
+
+      const sbd_amount = request.sbd_amount || escrow.sbd_amount;
+      const steem_amount = request.steem_amount || escrow.steem_amount;
+      this.parseAmount(sbd_amount, 'SBD');
+      this.parseAmount(steem_amount, 'STEEM');
+
+      Logger.info(`${username} releases ${sbd_amount} and ${steem_amount} of escrow ${escrow.escrow_id} to ${receiver}`);
+      return this.broadcast(
+        username,
+        [
+          'escrow_release',
+          {
+            ...this.parties(escrow),
+            who: username,
+            receiver,
+            escrow_id: escrow.escrow_id,
+            sbd_amount,
+            steem_amount
+          }
+        ],
+        'release escrow',
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'release escrow', request_id);
+    }
+  }
+
+  async getOpenEscrows(username: string): Promise<TrackedEscrow[]> {
+    if (!this.escrowTracker) {
+      throw new KeychainError('Escrow tracker not available');
+    }
+    return this.escrowTracker.getOpenEscrows(username);
+  }
+
+  private async broadcast(username: string, operation: any, action: string, request_id: any): Promise<KeychainResponse> {
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+
+      const accountResult = await this.getAccountWithValidation(username, authResult, request_id);
+      if ('success' in accountResult) return accountResult;
+
+      const keyResult = this.getPrivateKeyByMethod(accountResult, 'active', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const result = await this.transactionService.sendOperation([operation], { type: 'active', value: keyResult });
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || `Failed to ${action}`, request_id);
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, action, request_id);
+    }
+  }
+
+  // Approve, dispute and release only need the sender and escrow id, the rest comes from the chain
+  private async resolveEscrow(request: any): Promise<TrackedEscrow> {
+    const { username, from, escrow_id } = request;
+    if (!username || !from || escrow_id === undefined || escrow_id === null || escrow_id === '') {
+      throw new KeychainError('Missing required parameters: username, from and escrow_id are required');
+    }
+    if (!this.escrowTracker) {
+      throw new KeychainError('Escrow tracker not available');
+    }
+
+    const escrow = await this.escrowTracker.fetchEscrow(from, Number(escrow_id));
+    if (!escrow) {
+      throw new KeychainError(`Escrow ${escrow_id} from ${from} not found`);
+    }
+    return escrow;
+  }
+
+  private parties(escrow: TrackedEscrow): { from: string; to: string; agent: string } {
+    return { from: escrow.from, to: escrow.to, agent: escrow.agent };
+  }
+
+  private parseAmount(amount: string, symbol?: 'STEEM' | 'SBD'): void {
+    const match = /^(\d+\.\d{3}) (STEEM|SBD)$/.exec(String(amount));
+    if (!match || (symbol && match[2] !== symbol)) {
+      throw new KeychainError(
+        `Invalid amount: ${amount}. Use 3 decimals and ${symbol || 'STEEM or SBD'}, e.g. 1.000 ${symbol || 'STEEM'}`
+      );
+    }
+  }
+
+  private parseJsonMeta(jsonMeta: any): Record<string, any> {
+    if (!jsonMeta) return {};
+    if (typeof jsonMeta !== 'string') return jsonMeta;
+    try {
+      return JSON.parse(jsonMeta);
+    } catch {
+      throw new KeychainError('json_meta must be valid JSON');
+    }
+  }
+
+  private getDeadlines(request: any): { ratification_deadline: string; escrow_expiration: string } {
+    const now = Date.now();
+    const ratification = request.ratification_deadline
+      ? new Date(request.ratification_deadline).getTime()
+      : now + Config.escrow.RATIFICATION_HOURS * 3600 * 1000;
+    const expiration = request.escrow_expiration
+      ? new Date(request.escrow_expiration).getTime()
+      : ratification + Config.escrow.EXPIRATION_DAYS * 24 * 3600 * 1000;
+
+    if (!Number.isFinite(ratification) || ratification <= now) {
+      throw new KeychainError('The ratification deadline must be in the future');
+    }
+    if (!Number.isFinite(expiration) || expiration <= ratification) {
+      throw new KeychainError('The escrow must expire after the ratification deadline');
+    }
+
+    return {
+      ratification_deadline: new Date(ratification).toISOString().slice(0, 19),
+      escrow_expiration: new Date(expiration).toISOString().slice(0, 19)
+    };
+  }
+
+  // Escrow ids only need to be unique among the sender's escrows
+  private async resolveEscrowId(username: string, escrowId?: number | string): Promise<number> {
+    if (escrowId !== undefined && escrowId !== null && escrowId !== '') {
+      const id = Number(escrowId);
+      if (!Number.isInteger(id) || id < 0 || id >= 2 ** 32) {
+        throw new KeychainError('Invalid escrow id');
+      }
+      return id;
+    }
+
+    let id = Math.floor(Date.now() / 1000) % 2 ** 32;
+    while (this.steemApiService && (await this.steemApiService.getEscrow(username, id))) {
+      id = (id + 1) % 2 ** 32;
+    }
+    return id;
+  }
+}
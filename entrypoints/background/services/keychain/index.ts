@@ -11,4 +11,13 @@ export { ProxyService } from './proxy.service';
 export { DHFService } from './dhf.service';
 export { PowerService } from './power.service';
 export { TokenService } from './token.service';
-export { AccountCreationService } from './account-creation.service';
\ No newline at end of file
+export { SavingsService } from './savings.service';
+export { RewardsService } from './rewards.service';
+export { MarketService } from './market.service';
+export { EscrowService } from './escrow.service';
+export { AccountCreationService } from './account-creation.service';
+export { CustomJsonService } from './custom-json.service';
+export { TransferService } from './transfer.service';
+export { VoteService } from './vote.service';
+export { AssetService } from './asset.service';
+export { CustomJsonQueryService } from './custom-json-query.service';
@@ -1,80 +1,84 @@
 import { BaseKeychainService } from './base-keychain.service';
-import { KeychainResponse } from '../types/keychain-api.types';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { AuthorityChangePreview, AuthorityObject, KeychainResponse } from '../types/keychain-api.types';
+import AuthorityUtils from '../../utils/authority.utils';
+import NetworkUtils from '../../utils/network.utils';
 import Logger from '../../../../src/utils/logger.utils';
 
+interface KeyAuthorityChange {
+  preview: AuthorityChangePreview;
+  operation: any;
+}
+
 export class KeyAuthorityService extends BaseKeychainService {
   private readonly validRoles = ['Active', 'Posting', 'Owner', 'Memo'];
 
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
   async handleAddKeyAuthority(request: any): Promise<KeychainResponse> {
     const { username, authorizedKey, role, weight, rpc, request_id } = request;
 
     // Parameter validation
     const paramValidation = this.validateRequiredParams(
-      { username, authorizedKey, role, weight }, 
-      ['username', 'authorizedKey', 'role', 'weight'], 
+      { username, authorizedKey, role, weight },
+      ['username', 'authorizedKey', 'role', 'weight'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    Logger.info(`Adding key authority: ${authorizedKey} with weight ${weight} to ${username} for role ${role}`);
+    return this.applyChange(request, 'add', 'Add key authority');
+  }
+
+  async handleRemoveKeyAuthority(request: any): Promise<KeychainResponse> {
+    const { username, authorizedKey, role, rpc, request_id } = request;
+
+    // Parameter validation
+    const paramValidation = this.validateRequiredParams(
+      { username, authorizedKey, role },
+      ['username', 'authorizedKey', 'role'],
       request_id
     );
     if (paramValidation) return paramValidation;
 
+    Logger.info(`Removing key authority: ${authorizedKey} from ${username} for role ${role}`);
+    return this.applyChange(request, 'remove', 'Remove key authority');
+  }
+
+  /**
+   * Before/after view of the authority a request would produce, for the approval UI
+   */
+  async previewKeyAuthorityChange(request: any): Promise<KeychainResponse> {
+    const { role, authorizedKey, request_id } = request;
     try {
-      // Additional validations
       const roleValidation = this.validateRole(role, request_id);
       if (roleValidation) return roleValidation;
 
       const keyValidation = this.validatePublicKey(authorizedKey, request_id);
       if (keyValidation) return keyValidation;
 
-      // Authentication
-      const authResult = await this.validateAuthentication(request_id);
-      if (typeof authResult !== 'string') return authResult;
-      const keychainPassword = authResult;
-
-      // Services validation
-      if (!this.transactionService) {
-        return this.createErrorResponse('Transaction service not available', request_id);
-      }
-
-      // Get account
-      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
-      if ('success' in accountResult) return accountResult;
-      const account = accountResult;
-
-      // Validate active key
-      if (!account.keys.active) {
-        return this.createErrorResponse('Active key not available for this account', request_id);
-      }
-
-      // Create account_update operation
-      const authorityData = this.createAuthorityUpdate(role, authorizedKey, weight, account);
-      const operation = ['account_update', {
-        account: username,
-        ...authorityData
-      }];
-
-      Logger.info(`Adding key authority: ${authorizedKey} with weight ${weight} to ${username} for role ${role}`);
-
-      const result = await this.transactionService.sendOperation(
-        [operation as any],
-        { type: 'active', value: account.keys.active },
-        false
-      );
-
-      return this.createSuccessResponse(result, request_id);
+      const change = await this.buildChange(request, request.type === 'removeKeyAuthority' ? 'remove' : 'add');
+      if ('success' in change) return change;
+      return this.createSuccessResponse(change.preview, request_id);
     } catch (error) {
-      return this.handleError(error, 'Add key authority', request_id);
+      return this.handleError(error, 'Preview key authority', request_id);
     }
   }
 
-  async handleRemoveKeyAuthority(request: any): Promise<KeychainResponse> {
-    const { username, authorizedKey, role, rpc, request_id } = request;
-
-    // Parameter validation
-    const paramValidation = this.validateRequiredParams(
-      { username, authorizedKey, role }, 
-      ['username', 'authorizedKey', 'role'], 
-      request_id
-    );
-    if (paramValidation) return paramValidation;
+  private async applyChange(
+    request: any,
+    mode: 'add' | 'remove',
+    operationName: string
+  ): Promise<KeychainResponse> {
+    const { username, authorizedKey, role, request_id } = request;
 
     try {
       // Additional validations
@@ -99,30 +103,91 @@ export class KeyAuthorityService extends BaseKeychainService {
       if ('success' in accountResult) return accountResult;
       const account = accountResult;
 
-      // Validate active key
-      if (!account.keys.active) {
-        return this.createErrorResponse('Active key not available for this account', request_id);
+      // The owner authority can only be changed with the owner key
+      const isOwner = role === 'Owner';
+      const signingKey = isOwner ? account.keys.owner : account.keys.active;
+      if (!signingKey) {
+        return this.createErrorResponse(
+          isOwner ? 'Owner key not available for this account' : 'Active key not available for this account',
+          request_id
+        );
       }
 
-      // Create account_update operation for removal
-      const authorityData = this.createAuthorityRemoval(role, authorizedKey, account);
-      const operation = ['account_update', {
-        account: username,
-        ...authorityData
-      }];
-
-      Logger.info(`Removing key authority: ${authorizedKey} from ${username} for role ${role}`);
+      const change = await this.buildChange(request, mode);
+      if ('success' in change) return change;
 
       const result = await this.transactionService.sendOperation(
-        [operation as any],
-        { type: 'active', value: account.keys.active },
+        [['account_update', change.operation] as any],
+        { type: isOwner ? 'owner' : 'active', value: signingKey },
         false
       );
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || 'Key authority update failed', request_id);
+      }
 
-      return this.createSuccessResponse(result, request_id);
+      return this.createSuccessResponse(result.result, request_id);
     } catch (error) {
-      return this.handleError(error, 'Remove key authority', request_id);
+      return this.handleError(error, operationName, request_id);
+    }
+  }
+
+  /**
+   * Merge the requested key into the current on-chain authority, keeping its
+   * threshold and every other key and account. The memo role holds a single
+   * key, so it can be replaced but never removed.
+   */
+  private async buildChange(
+    request: any,
+    mode: 'add' | 'remove'
+  ): Promise<KeyAuthorityChange | KeychainResponse> {
+    const { username, authorizedKey, role, weight, request_id } = request;
+
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Blockchain API not available', request_id);
+    }
+
+    const [chainAccount] = await this.steemApiService.getAccount(username);
+    if (!chainAccount) {
+      return this.createErrorResponse(`Account ${username} not found on chain`, request_id);
+    }
+
+    const roleKey = role.toLowerCase();
+
+    if (roleKey === 'memo') {
+      if (mode === 'remove') {
+        return this.createErrorResponse('Memo key cannot be removed, only replaced', request_id);
+      }
+      const before = chainAccount.memo_key.toString();
+      return {
+        preview: { account: username, role: roleKey, before, after: authorizedKey, changes: [] },
+        operation: AuthorityUtils.toAccountUpdate(chainAccount, { memo_key: authorizedKey }),
+      };
+    }
+
+    const before = AuthorityUtils.normalize(chainAccount[roleKey as 'active' | 'posting' | 'owner']);
+    const after: AuthorityObject =
+      mode === 'remove'
+        ? AuthorityUtils.removeKeyAuth(before, authorizedKey)
+        : AuthorityUtils.addKeyAuth(before, authorizedKey, Number(weight));
+
+    if (!AuthorityUtils.isReachable(after)) {
+      return this.createErrorResponse(
+        `This change would leave the ${roleKey} authority unable to reach its weight threshold`,
+        request_id,
+        'Refusing to lock the account out'
+      );
     }
+
+    return {
+      preview: {
+        account: username,
+        role: roleKey,
+        before,
+        after,
+        changes: AuthorityUtils.diff(before, after),
+      },
+      operation: AuthorityUtils.toAccountUpdate(chainAccount, { [roleKey]: after }),
+    };
   }
 
   private validateRole(role: string, request_id: any): KeychainResponse | null {
@@ -136,50 +201,9 @@ export class KeyAuthorityService extends BaseKeychainService {
   }
 
   private validatePublicKey(key: string, request_id: any): KeychainResponse | null {
-    if (!key || !key.startsWith('STM') || key.length < 50) {
+    if (!key || !NetworkUtils.isPublicKeyFormat(key) || !AuthorityUtils.isValidPublicKey(key)) {
       return this.createErrorResponse('Invalid public key format', request_id);
     }
     return null;
   }
-
-  private createAuthorityUpdate(role: string, authorizedKey: string, weight: number, account: any) {
-    const roleKey = role.toLowerCase() === 'memo' ? 'memo_key' : role.toLowerCase();
-    
-    // This is a simplified version - in a real implementation,
-    // you'd need to properly manage the authority threshold and existing keys
-    const authorityData: any = {};
-    
-    if (role.toLowerCase() === 'memo') {
-      authorityData.memo_key = authorizedKey;
-    } else {
-      authorityData[roleKey] = {
-        weight_threshold: 1,
-        account_auths: [],
-        key_auths: [[authorizedKey, weight]]
-      };
-    }
-    
-    return authorityData;
-  }
-
-  private createAuthorityRemoval(role: string, authorizedKey: string, account: any) {
-    const roleKey = role.toLowerCase() === 'memo' ? 'memo_key' : role.toLowerCase();
-    
-    // This is a simplified version - in a real implementation,
-    // you'd need to properly manage the authority threshold and existing keys
-    const authorityData: any = {};
-    
-    if (role.toLowerCase() === 'memo') {
-      // For memo key removal, you'd typically set it to an empty/null value
-      authorityData.memo_key = '';
-    } else {
-      authorityData[roleKey] = {
-        weight_threshold: 1,
-        account_auths: [],
-        key_auths: [] // Remove all key authorities
-      };
-    }
-    
-    return authorityData;
-  }
-}
\ No newline at end of file
+}
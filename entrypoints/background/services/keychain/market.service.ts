@@ -0,0 +1,241 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import Logger from '../../../../src/utils/logger.utils';
+import Config from '../../../../src/config';
+import { KeychainError } from '../../../../src/keychain-error';
+import { OrderBook } from '../../../../src/interfaces/market.interface';
+import MarketUtils from '../../utils/market.utils';
+
+/**
+ * Limit orders on STEEM's internal STEEM/SBD market
+ */
+export class MarketService extends BaseKeychainService {
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
+  async handleLimitOrderCreate(request: any): Promise<KeychainResponse> {
+    const { username, amount_to_sell, min_to_receive, fill_or_kill, expiration, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, amount_to_sell, min_to_receive },
+      ['username', 'amount_to_sell', 'min_to_receive'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    try {
+      // Validates both amounts and that they are on opposite sides of the market
+      MarketUtils.estimateLimitOrder(amount_to_sell, min_to_receive, { bids: [], asks: [] });
+      const orderid = await this.resolveOrderId(username, request.orderid);
+
+      Logger.info(`Limit order ${orderid}: ${amount_to_sell} for at least ${min_to_receive} by ${username}`);
+      return this.broadcast(
+        username,
+        [
+          'limit_order_create',
+          {
+            owner: username,
+            orderid,
+            amount_to_sell,
+            min_to_receive,
+            fill_or_kill: this.toBoolean(fill_or_kill),
+            expiration: MarketUtils.getExpiration(expiration)
+          }
+        ],
+        orderid,
+        'create limit order',
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'create limit order', request_id);
+    }
+  }
+
+  /**
+   * Same as limit_order_create, with the price given as an exchange rate
+   * (`base` per `quote`) instead of a minimum amount to receive
+   */
+  async handleLimitOrderCreate2(request: any): Promise<KeychainResponse> {
+    const { username, amount_to_sell, fill_or_kill, expiration, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, amount_to_sell, exchange_rate: request.exchange_rate },
+      ['username', 'amount_to_sell', 'exchange_rate'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    try {
+      const exchange_rate = this.parseExchangeRate(request.exchange_rate, amount_to_sell);
+      MarketUtils.estimateLimitOrder(amount_to_sell, this.toMinToReceive(amount_to_sell, exchange_rate), {
+        bids: [],
+        asks: []
+      });
+      const orderid = await this.resolveOrderId(username, request.orderid);
+
+      Logger.info(`Limit order ${orderid}: ${amount_to_sell} at ${exchange_rate.quote}/${exchange_rate.base} by ${username}`);
+      return this.broadcast(
+        username,
+        [
+          'limit_order_create2',
+          {
+            owner: username,
+            orderid,
+            amount_to_sell,
+            exchange_rate,
+            fill_or_kill: this.toBoolean(fill_or_kill),
+            expiration: MarketUtils.getExpiration(expiration)
+          }
+        ],
+        orderid,
+        'create limit order',
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'create limit order', request_id);
+    }
+  }
+
+  async handleLimitOrderCancel(request: any): Promise<KeychainResponse> {
+    const { username, orderid, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ username, orderid }, ['username', 'orderid'], request_id);
+    if (paramValidation) return paramValidation;
+
+    const id = Number(orderid);
+    if (!Number.isInteger(id) || id < 0) {
+      return this.createErrorResponse('Invalid order id', request_id);
+    }
+
+    Logger.info(`Cancelling limit order ${id} of ${username}`);
+    return this.broadcast(username, ['limit_order_cancel', { owner: username, orderid: id }], id, 'cancel limit order', request_id);
+  }
+
+  /**
+   * Order book snapshot and the expected fill of a limit order request, with
+   * warnings when it would move the price or sit far from the market
+   */
+  async previewLimitOrder(request: any): Promise<KeychainResponse> {
+    const { amount_to_sell, request_id } = request;
+
+    try {
+      const minToReceive =
+        request.type === 'limitOrderCreate2'
+          ? this.toMinToReceive(amount_to_sell, this.parseExchangeRate(request.exchange_rate, amount_to_sell))
+          : request.min_to_receive;
+      const book = await this.getOrderBook();
+
+      return this.createSuccessResponse(
+        {
+          amount_to_sell,
+          min_to_receive: minToReceive,
+          book: { bids: book.bids.slice(0, 5), asks: book.asks.slice(0, 5) },
+          estimate: MarketUtils.estimateLimitOrder(amount_to_sell, minToReceive, book)
+        },
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'preview limit order', request_id);
+    }
+  }
+
+  async getOrderBook(): Promise<OrderBook> {
+    if (!this.steemApiService) {
+      throw new KeychainError('Steem API service not available');
+    }
+    return MarketUtils.toOrderBook(await this.steemApiService.getOrderBook(Config.market.ORDER_BOOK_DEPTH));
+  }
+
+  async getOpenOrders(username: string): Promise<any[]> {
+    if (!this.steemApiService) {
+      throw new KeychainError('Steem API service not available');
+    }
+    return this.steemApiService.getOpenOrders(username);
+  }
+
+  private async broadcast(
+    username: string,
+    operation: any,
+    orderid: number,
+    action: string,
+    request_id: any
+  ): Promise<KeychainResponse> {
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+
+      const accountResult = await this.getAccountWithValidation(username, authResult, request_id);
+      if ('success' in accountResult) return accountResult;
+
+      const keyResult = this.getPrivateKeyByMethod(accountResult, 'active', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const result = await this.transactionService.sendOperation([operation], { type: 'active', value: keyResult });
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || `Failed to ${action}`, request_id);
+      }
+
+      return this.createSuccessResponse({ ...result.result, orderid }, request_id);
+    } catch (error) {
+      return this.handleError(error, action, request_id);
+    }
+  }
+
+  // Order ids only need to be unique among the owner's open orders
+  private async resolveOrderId(username: string, orderid?: number | string): Promise<number> {
+    if (orderid !== undefined && orderid !== null && orderid !== '') {
+      const id = Number(orderid);
+      if (!Number.isInteger(id) || id < 0 || id >= 2 ** 32) {
+        throw new KeychainError('Invalid order id');
+      }
+      return id;
+    }
+
+    const used = new Set((await this.getOpenOrders(username)).map(order => Number(order.orderid)));
+    let id = Math.floor(Date.now() / 1000) % 2 ** 32;
+    while (used.has(id)) {
+      id = (id + 1) % 2 ** 32;
+    }
+    return id;
+  }
+
+  private parseExchangeRate(exchangeRate: any, amountToSell: string): { base: string; quote: string } {
+    let rate = exchangeRate;
+    if (typeof rate === 'string') {
+      try {
+        rate = JSON.parse(rate);
+      } catch {
+        throw new KeychainError('Invalid exchange rate');
+      }
+    }
+    const base = MarketUtils.parseAsset(rate?.base);
+    const quote = MarketUtils.parseAsset(rate?.quote);
+    if (base.symbol !== MarketUtils.parseAsset(amountToSell).symbol || base.symbol === quote.symbol) {
+      throw new KeychainError('Exchange rate base must be the asset being sold');
+    }
+    return { base: rate.base, quote: rate.quote };
+  }
+
+  private toMinToReceive(amountToSell: string, exchangeRate: { base: string; quote: string }): string {
+    const sold = MarketUtils.parseAsset(amountToSell);
+    const base = MarketUtils.parseAsset(exchangeRate.base);
+    const quote = MarketUtils.parseAsset(exchangeRate.quote);
+    return `${((sold.amount * quote.amount) / base.amount).toFixed(3)} ${quote.symbol}`;
+  }
+
+  private toBoolean(value: any): boolean {
+    return value === true || value === 'true';
+  }
+}
@@ -1,15 +1,17 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { TransactionResult } from '../../../../src/interfaces/steem-tx.interface';
+import { vaultSession } from '../../lib/vault-session';
 
 export class PowerService {
   constructor(
     private accountService?: AccountService,
-    private transactionService?: TransactionService
+    private transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
   ) {}
 
   async handlePowerUp(request: any): Promise<KeychainResponse> {
@@ -25,7 +27,7 @@ export class PowerService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -44,23 +46,28 @@ export class PowerService {
       }
 
       this.validateAmount(steem, 'STEEM');
+      if (parseFloat(steem) === 0) {
+        throw new KeychainError('Invalid STEEM amount');
+      }
 
       if (!this.transactionService) {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual power up using TransactionService
-      // This would create a transfer_to_vesting operation
       Logger.info(`Power up: ${steem} STEEM from ${username} to ${recipient}`);
 
+      const result = await this.transactionService.transferToVesting(
+        username,
+        recipient,
+        parseFloat(steem).toFixed(3),
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Power up failed');
+
       return {
         success: true,
-        result: {
-          from: username,
-          to: recipient,
-          amount: steem,
-          message: 'Power up successful'
-        },
+        result: result!.result,
+        message: 'Power up successful',
         request_id
       };
     } catch (error) {
@@ -86,7 +93,7 @@ export class PowerService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -110,17 +117,21 @@ export class PowerService {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual power down using TransactionService
-      // This would create a withdraw_vesting operation
-      Logger.info(`Power down: ${steem_power} STEEM for ${username}`);
+      // Powering down 0 SP cancels an ongoing power down
+      const vestingShares = await this.toVests(steem_power, 'SP');
+      Logger.info(`Power down: ${steem_power} SP (${vestingShares}) for ${username}`);
+
+      const result = await this.transactionService.withdrawVesting(
+        username,
+        vestingShares,
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Power down failed');
 
       return {
         success: true,
-        result: {
-          account: username,
-          vesting_shares: steem_power,
-          message: 'Power down initiated successfully'
-        },
+        result: result!.result,
+        message: 'Power down initiated successfully',
         request_id
       };
     } catch (error) {
@@ -146,7 +157,7 @@ export class PowerService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -172,19 +183,22 @@ export class PowerService {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual delegation using TransactionService
-      // This would create a delegate_vesting_shares operation
-      Logger.info(`Delegation: ${amount} ${unit} from ${targetUsername} to ${delegatee}`);
+      // Delegating 0 removes an existing delegation
+      const vestingShares = await this.toVests(amount, unit);
+      Logger.info(`Delegation: ${amount} ${unit} (${vestingShares}) from ${targetUsername} to ${delegatee}`);
+
+      const result = await this.transactionService.delegateVestingShares(
+        targetUsername,
+        delegatee,
+        vestingShares,
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Delegation failed');
 
       return {
         success: true,
-        result: {
-          delegator: targetUsername,
-          delegatee,
-          amount,
-          unit,
-          message: 'Delegation successful'
-        },
+        result: result!.result,
+        message: 'Delegation successful',
         request_id
       };
     } catch (error) {
@@ -218,6 +232,119 @@ export class PowerService {
     }
   }
 
+  /**
+   * Format an amount as a VESTS asset, converting SP at the current
+   * total_vesting_fund_steem / total_vesting_shares ratio
+   */
+  private async toVests(amount: string, unit: string): Promise<string> {
+    if (unit === 'VESTS') {
+      return `${parseFloat(amount).toFixed(6)} VESTS`;
+    }
+
+    if (!this.steemApiService) {
+      throw new KeychainError('Blockchain API not available');
+    }
+
+    const props = await this.steemApiService.getDynamicGlobalProperties();
+    const totalSteem = parseFloat(props.total_vesting_fund_steem.toString());
+    const totalVests = parseFloat(props.total_vesting_shares.toString());
+    if (!totalSteem || !totalVests) {
+      throw new KeychainError('Unable to convert SP to VESTS');
+    }
+
+    return `${((parseFloat(amount) * totalVests) / totalSteem).toFixed(6)} VESTS`;
+  }
+
+  /**
+   * Route a share of each power down payment to another account, optionally
+   * powering it up there. `percent` is 0-100; 0 removes the route.
+   */
+  async handleSetWithdrawVestingRoute(request: any): Promise<KeychainResponse> {
+    const { username, to, percent, auto_vest, request_id } = request;
+
+    if (!username || !to || percent === undefined) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'username, to, and percent are required',
+        request_id
+      };
+    }
+
+    try {
+      const keychainPassword = await vaultSession.getVaultKey();
+      if (!keychainPassword) {
+        throw new KeychainError('Keychain is locked');
+      }
+
+      if (!this.accountService) {
+        throw new KeychainError('Account service not available');
+      }
+
+      const account = await this.accountService.getAccount(username, keychainPassword);
+      if (!account) {
+        throw new KeychainError('Account not found in keychain');
+      }
+
+      if (!account.keys.active) {
+        throw new KeychainError('Active key not available for this account');
+      }
+
+      const share = Number(percent);
+      if (!Number.isFinite(share) || share < 0 || share > 100) {
+        throw new KeychainError('Percent must be between 0 and 100');
+      }
+
+      if (!this.transactionService) {
+        throw new KeychainError('Transaction service not available');
+      }
+
+      Logger.info(`Withdraw route: ${share}% of ${username}'s power down to ${to}`);
+      const result = await this.transactionService.sendOperation(
+        [
+          [
+            'set_withdraw_vesting_route',
+            {
+              from_account: username,
+              to_account: to,
+              percent: Math.round(share * 100), // chain percentages are basis points
+              auto_vest: auto_vest === true || auto_vest === 'true'
+            }
+          ]
+        ],
+        { type: 'active', value: account.keys.active }
+      );
+      this.assertBroadcast(result, 'Setting withdraw route failed');
+
+      return {
+        success: true,
+        result: result!.result,
+        message: share === 0 ? `Withdraw route to ${to} removed` : `Withdraw route to ${to} set to ${share}%`,
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Withdraw route error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Setting withdraw route failed',
+        request_id
+      };
+    }
+  }
+
+  async getWithdrawRoutes(username: string): Promise<any[]> {
+    if (!this.steemApiService) {
+      throw new KeychainError('Blockchain API not available');
+    }
+    return this.steemApiService.getWithdrawRoutes(username);
+  }
+
+  private assertBroadcast(result: TransactionResult | null, fallback: string): void {
+    if (!result?.success) {
+      throw new KeychainError(result?.error || fallback);
+    }
+  }
+
   private validateDelegationUnit(unit: string): void {
     const validUnits = ['SP', 'VESTS'];
     if (!validUnits.includes(unit)) {
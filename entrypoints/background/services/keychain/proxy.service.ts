@@ -1,10 +1,9 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { vaultSession } from '../../lib/vault-session';
 
 export class ProxyService {
   constructor(
@@ -25,7 +24,7 @@ export class ProxyService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -45,22 +44,28 @@ export class ProxyService {
       }
 
       const isRemovingProxy = proxy === '';
-      
+      if (proxy === targetUsername) {
+        throw new KeychainError('Cannot set yourself as witness proxy');
+      }
+
       if (!this.transactionService) {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual proxy operation using TransactionService
-      // This would create an account_witness_proxy operation
       Logger.info(`${isRemovingProxy ? 'Removing proxy' : `Setting proxy to ${proxy}`} for ${targetUsername}`);
 
+      const result = await this.transactionService.setWitnessProxy(targetUsername, proxy, {
+        type: 'active',
+        value: account.keys.active
+      });
+      if (!result?.success) {
+        throw new KeychainError(result?.error || 'Proxy operation failed');
+      }
+
       return {
         success: true,
-        result: {
-          account: targetUsername,
-          proxy,
-          message: isRemovingProxy ? 'Proxy removed successfully' : `Proxy set to ${proxy} successfully`
-        },
+        result: result.result,
+        message: isRemovingProxy ? 'Proxy removed successfully' : `Proxy set to ${proxy} successfully`,
         request_id
       };
     } catch (error) {
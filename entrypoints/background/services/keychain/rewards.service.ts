@@ -0,0 +1,144 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import Logger from '../../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../../src/keychain-error';
+import { PendingRewards, RewardClaimResult } from '../../../../src/interfaces/rewards.interface';
+
+export class RewardsService extends BaseKeychainService {
+  static readonly AUTO_CLAIM_ALARM = 'rewards-auto-claim';
+
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
+  async handleClaimRewards(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ username }, ['username'], request_id);
+    if (paramValidation) return paramValidation;
+
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+
+      // claim_reward_balance only needs the posting authority
+      const keyResult = this.getPrivateKeyByMethod(accountResult, 'posting', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+
+      const claim = await this.claim(username, keyResult);
+      if (!claim.claimed) {
+        return this.createErrorResponse(claim.reason || 'Failed to claim rewards', request_id);
+      }
+      return this.createSuccessResponse(claim, request_id);
+    } catch (error) {
+      return this.handleError(error, 'claim rewards', request_id);
+    }
+  }
+
+  async getPendingRewards(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    try {
+      return this.createSuccessResponse(await this.fetchPendingRewards(username), request_id);
+    } catch (error) {
+      return this.handleError(error, 'load pending rewards', request_id);
+    }
+  }
+
+  /**
+   * Claim pending rewards for every account in the vault that has a posting key.
+   * Accounts without rewards are reported as skipped rather than failing the run.
+   */
+  async claimAllRewards(request: any = {}): Promise<KeychainResponse> {
+    const { request_id } = request;
+
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+
+      if (!this.accountService) {
+        return this.createErrorResponse('Account service not available', request_id);
+      }
+
+      const results: RewardClaimResult[] = [];
+      for (const account of await this.accountService.getAllAccounts(authResult)) {
+        if (!account.keys.posting) {
+          results.push({ username: account.name, claimed: false, reason: 'Posting key not available' });
+          continue;
+        }
+        results.push(await this.claim(account.name, account.keys.posting));
+      }
+
+      return this.createSuccessResponse(results, request_id);
+    } catch (error) {
+      return this.handleError(error, 'claim all rewards', request_id);
+    }
+  }
+
+  async isAutoClaimEnabled(): Promise<boolean> {
+    return !!(await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.AUTO_CLAIM_REWARDS));
+  }
+
+  async setAutoClaim(enabled: boolean): Promise<void> {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.AUTO_CLAIM_REWARDS, enabled);
+  }
+
+  private async claim(username: string, postingKey: string): Promise<RewardClaimResult> {
+    try {
+      const rewards = await this.fetchPendingRewards(username);
+      if (!this.hasRewards(rewards)) {
+        return { username, claimed: false, reason: 'No pending rewards to claim' };
+      }
+
+      if (!this.transactionService) {
+        return { username, claimed: false, reason: 'Transaction service not available' };
+      }
+
+      Logger.info(`Claiming rewards for ${username}`);
+      const result = await this.transactionService.sendOperation(
+        [['claim_reward_balance', { account: username, ...rewards }]],
+        { type: 'posting', value: postingKey }
+      );
+      if (!result?.success) {
+        return { username, claimed: false, reason: result?.error || 'Failed to claim rewards' };
+      }
+
+      return { username, claimed: true, rewards };
+    } catch (error) {
+      Logger.error(`Claim rewards error for ${username}:`, error);
+      return { username, claimed: false, reason: error instanceof Error ? error.message : 'Failed to claim rewards' };
+    }
+  }
+
+  private async fetchPendingRewards(username: string): Promise<PendingRewards> {
+    if (!this.steemApiService) {
+      throw new KeychainError('Steem API service not available');
+    }
+    const [chainAccount] = await this.steemApiService.getAccount(username);
+    if (!chainAccount) {
+      throw new KeychainError(`Account ${username} not found on chain`);
+    }
+    return {
+      reward_steem: String(chainAccount.reward_steem_balance),
+      reward_sbd: String(chainAccount.reward_sbd_balance),
+      reward_vests: String(chainAccount.reward_vesting_balance)
+    };
+  }
+
+  private hasRewards(rewards: PendingRewards): boolean {
+    return [rewards.reward_steem, rewards.reward_sbd, rewards.reward_vests].some(amount => parseFloat(amount) > 0);
+  }
+}
@@ -0,0 +1,184 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import Logger from '../../../../src/utils/logger.utils';
+
+const SUPPORTED_CURRENCIES = ['STEEM', 'SBD'];
+
+export class SavingsService extends BaseKeychainService {
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
+  async handleTransferToSavings(request: any): Promise<KeychainResponse> {
+    const { username, amount, currency, memo = '', request_id } = request;
+    const to = request.to || username;
+
+    const validation = this.validateSavingsTransfer({ username, amount, currency }, request_id);
+    if (validation) return validation;
+
+    Logger.info(`Moving ${amount} ${currency} from ${username} to savings of ${to}`);
+    return this.broadcast(
+      username,
+      ['transfer_to_savings', { from: username, to, amount: `${amount} ${currency}`, memo }],
+      'transfer to savings',
+      request_id
+    );
+  }
+
+  /**
+   * Start a withdrawal from savings. The funds arrive after the chain's three
+   * day savings delay and the withdrawal can be cancelled until then.
+   */
+  async handleTransferFromSavings(request: any): Promise<KeychainResponse> {
+    const { username, amount, currency, memo = '', request_id } = request;
+    const to = request.to || username;
+
+    const validation = this.validateSavingsTransfer({ username, amount, currency }, request_id);
+    if (validation) return validation;
+
+    try {
+      const savingsRequestId = await this.generateSavingsRequestId(username);
+
+      Logger.info(`Withdrawing ${amount} ${currency} from savings of ${username} to ${to}`);
+      const response = await this.broadcast(
+        username,
+        [
+          'transfer_from_savings',
+          { from: username, request_id: savingsRequestId, to, amount: `${amount} ${currency}`, memo }
+        ],
+        'transfer from savings',
+        request_id
+      );
+      if (response.success) {
+        response.result = { ...response.result, savings_request_id: savingsRequestId };
+      }
+      return response;
+    } catch (error) {
+      return this.handleError(error, 'transfer from savings', request_id);
+    }
+  }
+
+  async handleCancelTransferFromSavings(request: any): Promise<KeychainResponse> {
+    const { username, savings_request_id, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams(
+      { username, savings_request_id },
+      ['username', 'savings_request_id'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const savingsRequestId = Number(savings_request_id);
+    if (!Number.isInteger(savingsRequestId) || savingsRequestId < 0) {
+      return this.createErrorResponse('Invalid savings request id', request_id);
+    }
+
+    Logger.info(`Cancelling savings withdrawal ${savingsRequestId} of ${username}`);
+    return this.broadcast(
+      username,
+      ['cancel_transfer_from_savings', { from: username, request_id: savingsRequestId }],
+      'cancel transfer from savings',
+      request_id
+    );
+  }
+
+  /**
+   * Savings balances and the withdrawals still waiting out the savings delay
+   */
+  async getSavingsOverview(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Steem API service not available', request_id);
+    }
+
+    try {
+      const [[chainAccount], withdrawals] = await Promise.all([
+        this.steemApiService.getAccount(username),
+        this.steemApiService.getSavingsWithdrawFrom(username)
+      ]);
+      if (!chainAccount) {
+        return this.createErrorResponse(`Account ${username} not found on chain`, request_id);
+      }
+
+      return this.createSuccessResponse(
+        {
+          steem: String(chainAccount.savings_balance),
+          sbd: String(chainAccount.savings_sbd_balance),
+          withdrawals
+        },
+        request_id
+      );
+    } catch (error) {
+      return this.handleError(error, 'load savings', request_id);
+    }
+  }
+
+  private validateSavingsTransfer(
+    params: { username: string; amount: string; currency: string },
+    request_id: any
+  ): KeychainResponse | null {
+    const paramValidation = this.validateRequiredParams(params, ['username', 'amount', 'currency'], request_id);
+    if (paramValidation) return paramValidation;
+
+    if (!/^\d+\.\d{3}$/.test(String(params.amount)) || parseFloat(params.amount) <= 0) {
+      return this.createErrorResponse(
+        'Invalid amount format. Must be a positive number with 3 decimals',
+        request_id,
+        'amount must look like 1.000'
+      );
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(params.currency)) {
+      return this.createErrorResponse('Invalid currency. Must be STEEM or SBD', request_id);
+    }
+
+    return null;
+  }
+
+  private async broadcast(username: string, operation: any, action: string, request_id: any): Promise<KeychainResponse> {
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+      const account = accountResult;
+
+      const keyResult = this.getPrivateKeyByMethod(account, 'active', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const result = await this.transactionService.sendOperation([operation], { type: 'active', value: keyResult });
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || `Failed to ${action}`, request_id);
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, action, request_id);
+    }
+  }
+
+  // Savings request ids only need to be unique among the account's open withdrawals
+  private async generateSavingsRequestId(username: string): Promise<number> {
+    const pending = this.steemApiService ? await this.steemApiService.getSavingsWithdrawFrom(username) : [];
+    const used = new Set(pending.map(withdrawal => Number(withdrawal.request_id)));
+    let savingsRequestId = Math.floor(Date.now() / 1000) % 2 ** 32;
+    while (used.has(savingsRequestId)) {
+      savingsRequestId = (savingsRequestId + 1) % 2 ** 32;
+    }
+    return savingsRequestId;
+  }
+}
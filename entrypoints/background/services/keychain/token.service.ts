@@ -1,15 +1,21 @@
 import { AccountService } from '../account.service';
 import { TransactionService } from '../transaction.service';
+import { SteemEngineService } from '../steem-engine.service';
+import { SteemApiService } from '../steem-api.service';
 import Logger from '../../../../src/utils/logger.utils';
-import LocalStorageUtils from '../../../../src/utils/localStorage.utils';
-import { LocalStorageKeyEnum } from '../../../../src/reference-data/local-storage-key.enum';
 import { KeychainError } from '../../../../src/keychain-error';
 import { KeychainResponse } from '../types/keychain-api.types';
+import { SidechainOperation, TokenBalance } from '../../../../src/interfaces/token.interface';
+import SteemEngineUtils from '../../utils/steem-engine.utils';
+import Config from '../../../../src/config';
+import { vaultSession } from '../../lib/vault-session';
 
 export class TokenService {
   constructor(
     private accountService?: AccountService,
-    private transactionService?: TransactionService
+    private transactionService?: TransactionService,
+    private steemEngineService?: SteemEngineService,
+    private steemApiService?: SteemApiService
   ) {}
 
   async handleSendToken(request: any): Promise<KeychainResponse> {
@@ -25,58 +31,205 @@ export class TokenService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
-      if (!keychainPassword) {
-        throw new KeychainError('Keychain is locked');
-      }
+      this.validateAmount(amount);
+      this.validateTokenSymbol(currency);
 
-      const targetUsername = await this.resolveUsername(username, keychainPassword);
-      if (!this.accountService) {
-        throw new KeychainError('Account service not available');
-      }
+      const { targetUsername, activeKey } = await this.getSigningAccount(username);
+      const quantity = await this.prepareQuantity(targetUsername, currency, amount, 'balance');
 
-      const account = await this.accountService.getAccount(targetUsername, keychainPassword);
-      if (!account) {
-        throw new KeychainError('Account not found in keychain');
-      }
+      Logger.info(`Token transfer: ${quantity} ${currency} from ${targetUsername} to ${to}`);
+      const result = await this.broadcastSidechain(
+        targetUsername,
+        activeKey,
+        SteemEngineUtils.transfer(to, currency, quantity, memo || '')
+      );
 
-      if (!account.keys.active) {
-        throw new KeychainError('Active key not available for this account');
+      return {
+        success: true,
+        result,
+        message: 'Token transfer successful',
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Send token error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token transfer failed',
+        request_id
+      };
+    }
+  }
+
+  async handleStakeToken(request: any): Promise<KeychainResponse> {
+    const { username, to, symbol, amount, request_id } = request;
+
+    if (!symbol || !amount) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'symbol and amount are required',
+        request_id
+      };
+    }
+
+    try {
+      this.validateAmount(amount);
+      this.validateTokenSymbol(symbol);
+
+      const { targetUsername, activeKey } = await this.getSigningAccount(username);
+      const token = await this.getToken(symbol);
+      if (!token.stakingEnabled) {
+        throw new KeychainError(`Staking is not enabled for ${symbol}`);
       }
+      const quantity = await this.prepareQuantity(targetUsername, symbol, amount, 'balance');
+
+      Logger.info(`Token stake: ${quantity} ${symbol} from ${targetUsername} to ${to || targetUsername}`);
+      const result = await this.broadcastSidechain(
+        targetUsername,
+        activeKey,
+        SteemEngineUtils.stake(to || targetUsername, symbol, quantity)
+      );
 
+      return { success: true, result, message: 'Token stake successful', request_id };
+    } catch (error) {
+      Logger.error('Stake token error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token stake failed',
+        request_id
+      };
+    }
+  }
+
+  async handleUnstakeToken(request: any): Promise<KeychainResponse> {
+    const { username, symbol, amount, request_id } = request;
+
+    if (!symbol || !amount) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'symbol and amount are required',
+        request_id
+      };
+    }
+
+    try {
       this.validateAmount(amount);
-      this.validateTokenSymbol(currency);
+      this.validateTokenSymbol(symbol);
 
-      if (!this.transactionService) {
-        throw new KeychainError('Transaction service not available');
+      const { targetUsername, activeKey } = await this.getSigningAccount(username);
+      const quantity = await this.prepareQuantity(targetUsername, symbol, amount, 'stake');
+
+      Logger.info(`Token unstake: ${quantity} ${symbol} for ${targetUsername}`);
+      const result = await this.broadcastSidechain(
+        targetUsername,
+        activeKey,
+        SteemEngineUtils.unstake(symbol, quantity)
+      );
+
+      return { success: true, result, message: 'Token unstake started', request_id };
+    } catch (error) {
+      Logger.error('Unstake token error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token unstake failed',
+        request_id
+      };
+    }
+  }
+
+  async handleDelegateToken(request: any): Promise<KeychainResponse> {
+    const { username, to, symbol, amount, request_id } = request;
+
+    if (!to || !symbol || !amount) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'to, symbol, and amount are required',
+        request_id
+      };
+    }
+
+    try {
+      this.validateAmount(amount);
+      this.validateTokenSymbol(symbol);
+
+      const { targetUsername, activeKey } = await this.getSigningAccount(username);
+      const token = await this.getToken(symbol);
+      if (!token.delegationEnabled) {
+        throw new KeychainError(`Delegation is not enabled for ${symbol}`);
       }
+      const quantity = await this.prepareQuantity(targetUsername, symbol, amount, 'stake');
 
-      // TODO: Implement actual token transfer using TransactionService
-      // This would typically be a custom_json operation for Steem Engine tokens
-      Logger.info(`Token transfer: ${amount} ${currency} from ${targetUsername} to ${to}`);
+      Logger.info(`Token delegation: ${quantity} ${symbol} from ${targetUsername} to ${to}`);
+      const result = await this.broadcastSidechain(
+        targetUsername,
+        activeKey,
+        SteemEngineUtils.delegate(to, symbol, quantity)
+      );
 
+      return { success: true, result, message: 'Token delegation successful', request_id };
+    } catch (error) {
+      Logger.error('Delegate token error:', error);
       return {
-        success: true,
-        result: {
-          from: targetUsername,
-          to,
-          amount,
-          currency,
-          memo: memo || '',
-          message: 'Token transfer successful'
-        },
+        success: false,
+        error: error instanceof Error ? error.message : 'Token delegation failed',
         request_id
       };
+    }
+  }
+
+  /**
+   * Place a limit order on the sidechain market; prices are in STEEMP
+   */
+  async handleTokenMarketOrder(request: any): Promise<KeychainResponse> {
+    const { username, side, symbol, amount, price, request_id } = request;
+
+    if (!side || !symbol || !amount || !price) {
+      return {
+        success: false,
+        error: 'Missing required parameters',
+        message: 'side, symbol, amount, and price are required',
+        request_id
+      };
+    }
+
+    try {
+      if (side !== 'buy' && side !== 'sell') {
+        throw new KeychainError(`Invalid side: ${side}. Must be buy or sell`);
+      }
+      this.validateAmount(amount);
+      this.validateTokenSymbol(symbol);
+
+      const { targetUsername, activeKey } = await this.getSigningAccount(username);
+      const token = await this.getToken(symbol);
+      const quantity = SteemEngineUtils.formatQuantity(amount, token.precision);
+
+      Logger.info(`Token market ${side}: ${quantity} ${symbol} at ${price} for ${targetUsername}`);
+      const result = await this.broadcastSidechain(
+        targetUsername,
+        activeKey,
+        SteemEngineUtils.marketOrder(side, symbol, quantity, price)
+      );
+
+      return { success: true, result, message: `Market ${side} order placed`, request_id };
     } catch (error) {
-      Logger.error('Send token error:', error);
+      Logger.error('Token market order error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Token transfer failed',
+        error: error instanceof Error ? error.message : 'Market order failed',
         request_id
       };
     }
   }
 
+  async getTokenBalances(username: string): Promise<TokenBalance[]> {
+    if (!this.steemEngineService) {
+      throw new KeychainError('Steem-Engine service not available');
+    }
+    return this.steemEngineService.getBalances(username);
+  }
+
   async handleConversion(request: any): Promise<KeychainResponse> {
     const { username, amount, collaterized, rpc, request_id } = request;
 
@@ -90,7 +243,7 @@ export class TokenService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -110,27 +263,32 @@ export class TokenService {
 
       this.validateAmount(amount);
 
-      const fromCurrency = collaterized ? 'STEEM' : 'SBD';
-      const toCurrency = collaterized ? 'SBD' : 'STEEM';
+      const collateralized = this.isCollateralized(collaterized);
+      const { from: fromCurrency, to: toCurrency } = this.getConversionCurrencies(collateralized);
 
       if (!this.transactionService) {
         throw new KeychainError('Transaction service not available');
       }
 
-      // TODO: Implement actual conversion using TransactionService
-      // This would create a convert operation
+      const requestid = await this.generateConversionRequestId(username);
+      const operation = [
+        collateralized ? 'collateralized_convert' : 'convert',
+        { owner: username, requestid, amount: `${Number(amount).toFixed(3)} ${fromCurrency}` }
+      ];
+
       Logger.info(`Converting ${amount} ${fromCurrency} to ${toCurrency} for ${username}`);
+      const result = await this.transactionService.sendOperation(
+        [operation as any],
+        { type: 'active', value: account.keys.active }
+      );
+      if (!result?.success) {
+        throw new KeychainError(result?.error || 'Conversion failed');
+      }
 
       return {
         success: true,
-        result: {
-          account: username,
-          amount,
-          from: fromCurrency,
-          to: toCurrency,
-          collaterized,
-          message: `Conversion from ${fromCurrency} to ${toCurrency} initiated`
-        },
+        result: { ...result.result, requestid },
+        message: `Conversion from ${fromCurrency} to ${toCurrency} initiated`,
         request_id
       };
     } catch (error) {
@@ -143,6 +301,66 @@ export class TokenService {
     }
   }
 
+  /**
+   * What a conversion request would do at the current median feed price. The
+   * chain settles at the median price at the end of the conversion window, so
+   * the estimate can still move.
+   */
+  async previewConversion(request: any): Promise<KeychainResponse> {
+    const { amount, collaterized, request_id } = request;
+
+    try {
+      this.validateAmount(amount);
+      if (!this.steemApiService) {
+        throw new KeychainError('Blockchain API not available');
+      }
+
+      const collateralized = this.isCollateralized(collaterized);
+      const { from, to } = this.getConversionCurrencies(collateralized);
+      const medianPrice = await this.steemApiService.getCurrentMedianHistoryPrice();
+      const price = parseFloat(medianPrice.base) / parseFloat(medianPrice.quote);
+      if (!Number.isFinite(price) || price <= 0) {
+        throw new KeychainError('Median feed price not available');
+      }
+
+      const value = Number(amount);
+      // Collateralized conversions pay out half the collateral's value up front, minus the fee
+      const estimate = collateralized
+        ? (value / 2) * price * (1 - Config.conversions.COLLATERALIZED_FEE_PCT / 100)
+        : value / price;
+
+      return {
+        success: true,
+        result: {
+          from,
+          to,
+          amount: `${value.toFixed(3)} ${from}`,
+          estimate: `${estimate.toFixed(3)} ${to}`,
+          medianPrice,
+          price,
+          feePct: collateralized ? Config.conversions.COLLATERALIZED_FEE_PCT : 0,
+          delayHours: Config.conversions.DELAY_HOURS,
+          settlesAt: new Date(Date.now() + Config.conversions.DELAY_HOURS * 3600 * 1000).toISOString()
+        },
+        request_id
+      };
+    } catch (error) {
+      Logger.error('Preview conversion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to preview conversion',
+        request_id
+      };
+    }
+  }
+
+  async getConversionRequests(username: string): Promise<any[]> {
+    if (!this.steemApiService) {
+      throw new KeychainError('Blockchain API not available');
+    }
+    return this.steemApiService.getConversionRequests(username);
+  }
+
   async handleSwap(request: any): Promise<KeychainResponse> {
     const { 
       username, 
@@ -167,7 +385,7 @@ export class TokenService {
     }
 
     try {
-      const keychainPassword = await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
+      const keychainPassword = await vaultSession.getVaultKey();
       if (!keychainPassword) {
         throw new KeychainError('Keychain is locked');
       }
@@ -188,27 +406,29 @@ export class TokenService {
 
       this.validateSwapParameters(amount, slippage, steps);
 
-      if (!this.transactionService) {
-        throw new KeychainError('Transaction service not available');
+      // Each step is a market order; prices are padded by the slippage so the
+      // order still fills if the book moves before the sidechain processes it
+      const operations: SidechainOperation[] = [];
+      for (const step of steps) {
+        const token = await this.getToken(step.symbol);
+        const price = Number(step.price) * (step.side === 'buy' ? 1 + slippage / 100 : 1 - slippage / 100);
+        operations.push(
+          SteemEngineUtils.marketOrder(
+            step.side,
+            step.symbol,
+            SteemEngineUtils.formatQuantity(step.quantity, token.precision),
+            price
+          )
+        );
       }
 
-      // TODO: Implement actual swap using TransactionService
-      // This would involve multiple operations based on the provided steps
       Logger.info(`Swap: ${amount} ${startToken} to ${endToken} for ${targetUsername} with ${slippage}% slippage`);
+      const result = await this.broadcastSidechain(targetUsername, account.keys.active, operations);
 
       return {
         success: true,
-        result: {
-          account: targetUsername,
-          startToken,
-          endToken,
-          amount,
-          slippage,
-          steps,
-          partnerUsername,
-          partnerFee,
-          message: 'Swap executed successfully'
-        },
+        result,
+        message: 'Swap executed successfully',
         request_id
       };
     } catch (error) {
@@ -235,6 +455,28 @@ export class TokenService {
     return activeAccount.name || '';
   }
 
+  private isCollateralized(collaterized: any): boolean {
+    return collaterized === true || collaterized === 'true';
+  }
+
+  private getConversionCurrencies(collateralized: boolean): { from: string; to: string } {
+    return collateralized ? { from: 'STEEM', to: 'SBD' } : { from: 'SBD', to: 'STEEM' };
+  }
+
+  /**
+   * `requestid` only has to be unique among the owner's open conversions, so
+   * start from the current time and step past any id still in use
+   */
+  private async generateConversionRequestId(username: string): Promise<number> {
+    const pending = this.steemApiService ? await this.steemApiService.getConversionRequests(username) : [];
+    const used = new Set(pending.map(conversion => Number(conversion.requestid)));
+    let requestid = Math.floor(Date.now() / 1000) % 2 ** 32;
+    while (used.has(requestid)) {
+      requestid = (requestid + 1) % 2 ** 32;
+    }
+    return requestid;
+  }
+
   private validateAmount(amount: string | number): void {
     const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
     if (isNaN(numAmount) || numAmount <= 0) {
@@ -260,5 +502,100 @@ export class TokenService {
     if (!Array.isArray(steps) || steps.length === 0) {
       throw new KeychainError('Steps must be a non-empty array');
     }
+
+    for (const step of steps) {
+      if (!step || (step.side !== 'buy' && step.side !== 'sell') || !step.symbol || !step.quantity || !step.price) {
+        throw new KeychainError('Each swap step needs a side, symbol, quantity and price');
+      }
+    }
+  }
+
+  private async getSigningAccount(username: string | undefined): Promise<{ targetUsername: string; activeKey: string }> {
+    const keychainPassword = await vaultSession.getVaultKey();
+    if (!keychainPassword) {
+      throw new KeychainError('Keychain is locked');
+    }
+
+    const targetUsername = await this.resolveUsername(username, keychainPassword);
+    if (!this.accountService) {
+      throw new KeychainError('Account service not available');
+    }
+
+    const account = await this.accountService.getAccount(targetUsername, keychainPassword);
+    if (!account) {
+      throw new KeychainError('Account not found in keychain');
+    }
+
+    if (!account.keys.active) {
+      throw new KeychainError('Active key not available for this account');
+    }
+
+    return { targetUsername, activeKey: account.keys.active };
+  }
+
+  private async getToken(symbol: string) {
+    if (!this.steemEngineService) {
+      throw new KeychainError('Steem-Engine service not available');
+    }
+    const token = await this.steemEngineService.getToken(symbol);
+    if (!token) {
+      throw new KeychainError(`Token ${symbol} not found`);
+    }
+    return token;
+  }
+
+  /**
+   * Round `amount` to the token precision and make sure the account holds enough
+   * liquid (`balance`) or staked (`stake`) tokens to cover it
+   */
+  private async prepareQuantity(
+    username: string,
+    symbol: string,
+    amount: string | number,
+    source: 'balance' | 'stake'
+  ): Promise<string> {
+    const token = await this.getToken(symbol);
+    const quantity = SteemEngineUtils.formatQuantity(amount, token.precision);
+
+    const balance = await this.steemEngineService!.getBalance(username, symbol);
+    const available = parseFloat(balance?.[source] || '0');
+    if (available < parseFloat(quantity)) {
+      throw new KeychainError(
+        `Insufficient ${source === 'stake' ? 'staked ' : ''}${symbol} balance: ${available} available`
+      );
+    }
+    return quantity;
+  }
+
+  /**
+   * Broadcast sidechain operations as an active-key custom_json and wait for the
+   * sidechain to process them, so callers learn about sidechain-side failures
+   */
+  private async broadcastSidechain(
+    username: string,
+    activeKey: string,
+    operations: SidechainOperation | SidechainOperation[]
+  ): Promise<any> {
+    if (!this.transactionService) {
+      throw new KeychainError('Transaction service not available');
+    }
+
+    const broadcast = await this.transactionService.broadcastCustomJson(
+      Config.steemEngine.chainId,
+      SteemEngineUtils.toCustomJson(operations),
+      username,
+      { type: 'active', value: activeKey }
+    );
+    if (!broadcast?.success) {
+      throw new KeychainError(broadcast?.error || 'Broadcast failed');
+    }
+
+    // Multisig transactions reach the sidechain only once every co-signer has signed
+    if (broadcast.result?.isUsingMultisig) {
+      return broadcast.result;
+    }
+
+    const sidechain = await this.steemEngineService!.confirmTransaction(broadcast.result.id);
+    return { ...broadcast.result, sidechain };
   }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+import MemoUtils from '../../utils/memo.utils';
+
+const SUPPORTED_CURRENCIES = ['STEEM', 'SBD'];
+
+export class TransferService extends BaseKeychainService {
+  async handleTransfer(request: any): Promise<KeychainResponse> {
+    const { username, to, amount, memo = '', currency, request_id } = request;
+
+    // Parameter validation
+    const paramValidation = this.validateRequiredParams(
+      { username, to, amount, currency },
+      ['username', 'to', 'amount', 'currency'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    if (!/^\d+\.\d{3}$/.test(String(amount)) || parseFloat(amount) <= 0) {
+      return this.createErrorResponse(
+        'Invalid amount format. Must be a positive number with 3 decimals',
+        request_id,
+        'amount must look like 1.000'
+      );
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(currency)) {
+      return this.createErrorResponse('Invalid currency. Must be STEEM or SBD', request_id);
+    }
+
+    try {
+      // Authentication
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      // Get account
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+      const account = accountResult;
+
+      // Transfers always need the active key
+      const keyResult = this.getPrivateKeyByMethod(account, 'active', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+      const activeKey = keyResult;
+
+      // Memos starting with '#' are encrypted for the recipient, as steem-js does
+      let finalMemo = memo;
+      if (MemoUtils.isEncrypted(memo)) {
+        const memoKeyResult = this.getPrivateKeyByMethod(account, 'memo', request_id);
+        if (typeof memoKeyResult !== 'string') {
+          return this.createErrorResponse('Memo key required to encrypt memo', request_id);
+        }
+
+        const receiverMemoKey = await this.accountService!.getPublicMemoKey(to);
+        if (!receiverMemoKey) {
+          return this.createErrorResponse('Receiver account not found', request_id);
+        }
+        finalMemo = MemoUtils.encodeMemo(memoKeyResult, receiverMemoKey, memo);
+      }
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const result = await this.transactionService.transfer(
+        username,
+        to,
+        amount,
+        finalMemo,
+        { type: 'active', value: activeKey },
+        currency
+      );
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || 'Transfer failed', request_id);
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, 'transfer', request_id);
+    }
+  }
+}
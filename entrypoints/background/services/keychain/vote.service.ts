@@ -0,0 +1,57 @@
+import { BaseKeychainService } from './base-keychain.service';
+import { KeychainResponse } from '../types/keychain-api.types';
+
+export class VoteService extends BaseKeychainService {
+  async handleVote(request: any): Promise<KeychainResponse> {
+    const { username, permlink, author, weight, request_id } = request;
+
+    // Parameter validation
+    const paramValidation = this.validateRequiredParams(
+      { username, permlink, author, weight },
+      ['username', 'permlink', 'author', 'weight'],
+      request_id
+    );
+    if (paramValidation) return paramValidation;
+
+    const voteWeight = Number(weight);
+    if (!Number.isInteger(voteWeight) || voteWeight < -10000 || voteWeight > 10000) {
+      return this.createErrorResponse(
+        'Invalid vote weight. Must be an integer between -10000 and 10000',
+        request_id
+      );
+    }
+
+    try {
+      // Authentication
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      // Get account
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+      const account = accountResult;
+
+      // Get private key
+      const keyResult = this.getPrivateKeyByMethod(account, 'posting', request_id);
+      if (typeof keyResult !== 'string') return keyResult;
+      const postingKey = keyResult;
+
+      if (!this.transactionService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const result = await this.transactionService.vote(username, author, permlink, voteWeight, {
+        type: 'posting',
+        value: postingKey,
+      });
+      if (!result?.success) {
+        return this.createErrorResponse(result?.error || 'Vote failed', request_id);
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, 'vote', request_id);
+    }
+  }
+}
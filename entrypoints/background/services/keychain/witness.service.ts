@@ -1,10 +1,27 @@
 import { BaseKeychainService } from './base-keychain.service';
+import { AccountService } from '../account.service';
+import { TransactionService } from '../transaction.service';
+import { SteemApiService } from '../steem-api.service';
 import { KeychainResponse } from '../types/keychain-api.types';
 import Logger from '../../../../src/utils/logger.utils';
+import { KeychainError } from '../../../../src/keychain-error';
+import Config from '../../../../src/config';
+import WitnessUtils from '../../utils/witness.utils';
+import { WitnessOverview, WitnessVoteChange } from '../../../../src/interfaces/witness.interface';
 
 export class WitnessService extends BaseKeychainService {
+  constructor(
+    accountService?: AccountService,
+    transactionService?: TransactionService,
+    private steemApiService?: SteemApiService
+  ) {
+    super(accountService, transactionService);
+  }
+
   async handleWitnessVote(request: any): Promise<KeychainResponse> {
-    const { username, witness, vote, rpc, request_id } = request;
+    const { username, witness, rpc, request_id } = request;
+    // requestWitnessVote sends `approve`; older callers send `vote`
+    const vote = this.parseVote(request.vote ?? request.approve);
 
     // Parameter validation
     const voteValidation = this.validateWitnessVote(witness, vote, request_id);
@@ -51,7 +68,11 @@ export class WitnessService extends BaseKeychainService {
         false
       );
 
-      return this.createSuccessResponse(result, request_id);
+      if (!result?.success) {
+        throw new KeychainError(result?.error || 'Witness vote failed');
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
     } catch (error) {
       return this.handleError(error, 'vote for witness', request_id);
     }
@@ -110,9 +131,123 @@ export class WitnessService extends BaseKeychainService {
         false
       );
 
-      return this.createSuccessResponse(result, request_id);
+      if (!result?.success) {
+        throw new KeychainError(result?.error || 'Witness proxy failed');
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
     } catch (error) {
       return this.handleError(error, 'set witness proxy', request_id);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Apply several witness vote changes in one transaction. Changes that would not
+   * alter the account's current votes are dropped before broadcasting.
+   */
+  async handleWitnessVotes(request: any): Promise<KeychainResponse> {
+    const { username, votes, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ username, votes }, ['username', 'votes'], request_id);
+    if (paramValidation) return paramValidation;
+
+    if (!Array.isArray(votes)) {
+      return this.createErrorResponse('votes must be an array of { witness, approve }', request_id);
+    }
+
+    try {
+      const authResult = await this.validateAuthentication(request_id);
+      if (typeof authResult !== 'string') return authResult;
+      const keychainPassword = authResult;
+
+      if (!this.transactionService || !this.steemApiService) {
+        return this.createErrorResponse('Transaction service not available', request_id);
+      }
+
+      const accountResult = await this.getAccountWithValidation(username, keychainPassword, request_id);
+      if ('success' in accountResult) return accountResult;
+      const account = accountResult;
+
+      if (!account.keys.active) {
+        return this.createErrorResponse('Active key not available for this account', request_id);
+      }
+
+      const [chainAccount] = await this.steemApiService.getAccount(username);
+      if (!chainAccount) {
+        return this.createErrorResponse(`Account ${username} not found on chain`, request_id);
+      }
+
+      const changes = WitnessUtils.planVoteChanges(
+        chainAccount.witness_votes || [],
+        votes.map((change: any): WitnessVoteChange => ({
+          witness: change?.witness,
+          approve: this.parseVote(change?.approve) === true
+        })),
+        chainAccount.proxy
+      );
+
+      Logger.info(`Updating ${changes.length} witness votes for ${username}`);
+
+      const result = await this.transactionService.sendOperation(
+        changes.map(change => ['account_witness_vote', {
+          account: username,
+          witness: change.witness,
+          approve: change.approve
+        }] as any),
+        { type: 'active', value: account.keys.active },
+        false
+      );
+
+      if (!result?.success) {
+        throw new KeychainError(result?.error || 'Witness votes update failed');
+      }
+
+      return this.createSuccessResponse(result.result, request_id);
+    } catch (error) {
+      return this.handleError(error, 'update witness votes', request_id);
+    }
+  }
+
+  /**
+   * Top witnesses by vote with health flags, plus the account's current votes and proxy
+   */
+  async getWitnessOverview(request: any): Promise<KeychainResponse> {
+    const { username, request_id } = request;
+
+    const paramValidation = this.validateRequiredParams({ username }, ['username'], request_id);
+    if (paramValidation) return paramValidation;
+
+    if (!this.steemApiService) {
+      return this.createErrorResponse('Steem API service not available', request_id);
+    }
+
+    try {
+      const [witnesses, [chainAccount]] = await Promise.all([
+        this.steemApiService.getWitnessesByVote('', Config.witnesses.LIST_SIZE),
+        this.steemApiService.getAccount(username)
+      ]);
+      if (!chainAccount) {
+        return this.createErrorResponse(`Account ${username} not found on chain`, request_id);
+      }
+
+      const now = Date.now();
+      const overview: WitnessOverview = {
+        username,
+        witnesses: witnesses.map((witness, index) => WitnessUtils.toWitnessSummary(witness, index + 1, now)),
+        votes: chainAccount.witness_votes || [],
+        proxy: chainAccount.proxy || ''
+      };
+
+      return this.createSuccessResponse(overview, request_id);
+    } catch (error) {
+      return this.handleError(error, 'load witnesses', request_id);
+    }
+  }
+
+  // Requests built from query strings carry booleans as strings
+  private parseVote(vote: any): any {
+    if (vote === 'true') return true;
+    if (vote === 'false') return false;
+    return vote;
+  }
+}
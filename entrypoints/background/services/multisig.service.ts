@@ -0,0 +1,297 @@
+import {
+  AuthorityType,
+  DEFAULT_CHAIN_ID,
+  ExtendedAccount,
+  Operation,
+  PrivateKey,
+  Signature,
+  SignedTransaction,
+  Transaction,
+  cryptoUtils,
+} from '@steempro/dsteem';
+import { SteemApiService } from './steem-api.service';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import {
+  ExportedMultisigTransaction,
+  MultisigProgress,
+  MultisigRole,
+  MultisigSigner,
+  PendingMultisigTransaction,
+} from '../../../src/interfaces/multisig.interface';
+
+export interface MultisigContext {
+  account: ExtendedAccount;
+  role: MultisigRole;
+  threshold: number;
+  weight: number;
+}
+
+// Operation fields that name the account whose authority signs, in priority order
+const AUTHORITY_ACCOUNT_FIELDS = [
+  'from',
+  'account',
+  'voter',
+  'author',
+  'owner',
+  'delegator',
+  'creator',
+  'publisher',
+  'witness',
+  'proposal_owner',
+];
+
+/**
+ * Collects signatures for transactions whose authority needs more weight than
+ * a single stored key carries. Partially signed transactions are kept in local
+ * storage until the threshold is met or they expire.
+ */
+export class MultisigService {
+  constructor(private steemApi: SteemApiService) {}
+
+  /**
+   * Returns the authority context when `privateKey` alone can't satisfy the
+   * account's threshold for `role`, or null for a regular single-key transaction.
+   */
+  async detect(operations: Operation[], privateKey: string, role: MultisigRole): Promise<MultisigContext | null> {
+    const username = MultisigService.getAuthorityAccount(operations, role);
+    if (!username) return null;
+
+    const [account] = await this.steemApi.getAccount(username);
+    if (!account) return null;
+
+    const authority = account[role] as AuthorityType;
+    const publicKey = PrivateKey.fromString(privateKey).createPublic(this.addressPrefix()).toString();
+    const keyAuth = authority.key_auths.find(([key]) => key.toString() === publicKey);
+
+    // Keys that aren't listed directly (e.g. authorized accounts) use the regular flow
+    if (!keyAuth || keyAuth[1] >= authority.weight_threshold) return null;
+
+    return { account, role, threshold: authority.weight_threshold, weight: keyAuth[1] };
+  }
+
+  /**
+   * Sign `transaction` with the first key and park it until co-signers add theirs
+   */
+  async create(transaction: Transaction, privateKey: string, context: MultisigContext): Promise<MultisigProgress> {
+    const signed = cryptoUtils.signTransaction(transaction, PrivateKey.fromString(privateKey), this.chainId());
+
+    const pending = await this.evaluate({
+      id: cryptoUtils.generateTrxId(transaction),
+      account: context.account.name,
+      role: context.role,
+      transaction: signed,
+      threshold: context.threshold,
+      signedWeight: 0,
+      signers: [],
+      createdAt: Date.now(),
+    });
+
+    Logger.info('Multisig transaction created:', {
+      id: pending.id,
+      signedWeight: pending.signedWeight,
+      threshold: pending.threshold,
+    });
+    return this.finalize(pending);
+  }
+
+  async getPending(): Promise<PendingMultisigTransaction[]> {
+    await this.pruneExpired();
+    return this.read();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.write((await this.read()).filter((pending) => pending.id !== id));
+  }
+
+  async export(id: string): Promise<string> {
+    const pending = await this.get(id);
+    const exported: ExportedMultisigTransaction = {
+      account: pending.account,
+      role: pending.role,
+      transaction: pending.transaction,
+    };
+    return JSON.stringify(exported);
+  }
+
+  /**
+   * Merge a partially signed transaction from a co-signer. Signatures are
+   * combined with any copy we already hold and the threshold is re-checked.
+   */
+  async import(json: string): Promise<MultisigProgress> {
+    let exported: ExportedMultisigTransaction;
+    try {
+      exported = JSON.parse(json);
+    } catch {
+      throw new KeychainError('Invalid multisig transaction JSON', ['INVALID_MULTISIG']);
+    }
+
+    const { account, role, transaction } = exported || ({} as ExportedMultisigTransaction);
+    if (!account || !['active', 'posting', 'owner'].includes(role) || !Array.isArray(transaction?.operations)) {
+      throw new KeychainError('Invalid multisig transaction JSON', ['INVALID_MULTISIG']);
+    }
+    if (this.isExpired(transaction)) {
+      throw new KeychainError('Multisig transaction has expired', ['MULTISIG_EXPIRED']);
+    }
+
+    const id = cryptoUtils.generateTrxId(transaction);
+    const existing = (await this.read()).find((pending) => pending.id === id);
+    const signatures = Array.from(
+      new Set([...(existing?.transaction.signatures || []), ...(transaction.signatures || [])])
+    );
+
+    const pending = await this.evaluate({
+      id,
+      account,
+      role,
+      transaction: { ...transaction, signatures },
+      threshold: existing?.threshold || 0,
+      signedWeight: 0,
+      signers: [],
+      createdAt: existing?.createdAt || Date.now(),
+    });
+    return this.finalize(pending);
+  }
+
+  /**
+   * Add a signature from another key stored in this keychain
+   */
+  async sign(id: string, privateKey: string): Promise<MultisigProgress> {
+    const pending = await this.get(id);
+    const { signatures, ...unsigned } = pending.transaction;
+    const signature = cryptoUtils.signTransaction(unsigned, PrivateKey.fromString(privateKey), this.chainId())
+      .signatures[0];
+
+    const updated = await this.evaluate({
+      ...pending,
+      transaction: { ...pending.transaction, signatures: Array.from(new Set([...signatures, signature])) },
+    });
+    return this.finalize(updated);
+  }
+
+  async pruneExpired(): Promise<number> {
+    const queue = await this.read();
+    const live = queue.filter((pending) => !this.isExpired(pending.transaction));
+    if (live.length !== queue.length) {
+      await this.write(live);
+    }
+    return queue.length - live.length;
+  }
+
+  /**
+   * Pick the account whose authority the transaction needs from its first operation
+   */
+  static getAuthorityAccount(operations: Operation[], role: MultisigRole): string | undefined {
+    const operation = operations[0];
+    const data: any = operation?.[1];
+    if (!data) return undefined;
+
+    if (operation[0] === 'custom_json') {
+      return role === 'posting' ? data.required_posting_auths?.[0] : data.required_auths?.[0];
+    }
+    const field = AUTHORITY_ACCOUNT_FIELDS.find((key) => typeof data[key] === 'string');
+    return field ? data[field] : undefined;
+  }
+
+  private async get(id: string): Promise<PendingMultisigTransaction> {
+    const pending = (await this.getPending()).find((entry) => entry.id === id);
+    if (!pending) {
+      throw new KeychainError('Multisig transaction not found', ['MULTISIG_NOT_FOUND']);
+    }
+    return pending;
+  }
+
+  /**
+   * Recover every signature's public key and total the weight it carries in the
+   * account's current authority, including one level of account_auths.
+   */
+  private async evaluate(pending: PendingMultisigTransaction): Promise<PendingMultisigTransaction> {
+    const [account] = await this.steemApi.getAccount(pending.account);
+    if (!account) {
+      throw new KeychainError(`Account ${pending.account} not found`, ['ACCOUNT_NOT_FOUND']);
+    }
+    const authority = account[pending.role] as AuthorityType;
+
+    const { signatures, ...unsigned } = pending.transaction;
+    const digest = cryptoUtils.transactionDigest(unsigned, this.chainId());
+    const recovered = new Set<string>();
+    for (const signature of signatures) {
+      try {
+        recovered.add(Signature.fromString(signature).recover(digest, this.addressPrefix()).toString());
+      } catch (error) {
+        Logger.warn('Ignoring unreadable multisig signature:', error);
+      }
+    }
+
+    const signers: MultisigSigner[] = [];
+    for (const [key, weight] of authority.key_auths) {
+      if (recovered.has(key.toString())) {
+        signers.push({ publicKey: key.toString(), weight });
+      }
+    }
+
+    if (authority.account_auths.length > 0) {
+      const delegates = await Promise.all(
+        authority.account_auths.map(([name]) => this.steemApi.getAccount(name).then(([delegate]) => delegate))
+      );
+      authority.account_auths.forEach(([name, weight], index) => {
+        const delegateAuthority = delegates[index]?.[pending.role === 'owner' ? 'active' : pending.role] as
+          | AuthorityType
+          | undefined;
+        if (!delegateAuthority) return;
+
+        const keys = delegateAuthority.key_auths.filter(([key]) => recovered.has(key.toString()));
+        const delegateWeight = keys.reduce((sum, [, keyWeight]) => sum + keyWeight, 0);
+        if (keys.length > 0 && delegateWeight >= delegateAuthority.weight_threshold) {
+          signers.push({ publicKey: keys[0][0].toString(), weight, account: name });
+        }
+      });
+    }
+
+    return {
+      ...pending,
+      threshold: authority.weight_threshold,
+      signers,
+      signedWeight: signers.reduce((sum, signer) => sum + signer.weight, 0),
+    };
+  }
+
+  // Broadcast once the threshold is reached, otherwise persist the new signatures
+  private async finalize(pending: PendingMultisigTransaction): Promise<MultisigProgress> {
+    const others = (await this.read()).filter((entry) => entry.id !== pending.id);
+
+    if (pending.signedWeight < pending.threshold) {
+      await this.write([...others, pending]);
+      return { transaction: pending };
+    }
+
+    Logger.info('Multisig threshold met, broadcasting:', pending.id);
+    const broadcastResult = await this.steemApi.broadcastTransaction(pending.transaction);
+    await this.write(others);
+    return { transaction: pending, broadcastResult };
+  }
+
+  private isExpired(transaction: Transaction): boolean {
+    return new Date(`${transaction.expiration}Z`).getTime() <= Date.now();
+  }
+
+  // Signatures and keys follow the active network, testnets use their own chain id and TST keys
+  private chainId(): Buffer {
+    const chainId = this.steemApi.getChainId();
+    return chainId ? Buffer.from(chainId, 'hex') : DEFAULT_CHAIN_ID;
+  }
+
+  private addressPrefix(): string {
+    return this.steemApi.getNetwork().addressPrefix;
+  }
+
+  private async read(): Promise<PendingMultisigTransaction[]> {
+    return (await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.MULTISIG_TRANSACTIONS)) || [];
+  }
+
+  private async write(queue: PendingMultisigTransaction[]): Promise<void> {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.MULTISIG_TRANSACTIONS, queue);
+  }
+}
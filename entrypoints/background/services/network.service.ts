@@ -0,0 +1,78 @@
+import Logger from '../../../src/utils/logger.utils';
+import { KeychainError } from '../../../src/keychain-error';
+import { NetworkProfiles } from '../../../src/reference-data/network-profiles.list';
+import { NetworkId, NetworkProfile } from '../../../src/interfaces/network.interface';
+import NetworkUtils from '../utils/network.utils';
+import { SteemApiService } from './steem-api.service';
+import { RpcSettingsService } from './rpc-settings.service';
+import { jsonRpcRequest } from './rpc-pool.service';
+
+/**
+ * Mainnet, testnet and local devnet profiles. The active one decides the chain
+ * id and address prefix transactions use and the nodes in the API pool, and
+ * through LocalStorageUtils which accounts, permissions and queues are visible.
+ */
+export class NetworkService {
+  constructor(
+    private steemApi: SteemApiService,
+    private rpcSettings: RpcSettingsService
+  ) {}
+
+  async load(): Promise<NetworkProfile> {
+    const profile = await NetworkUtils.getActiveNetwork();
+    let chainId = profile.chainId;
+    if (!chainId) {
+      try {
+        chainId = await this.fetchChainId(profile);
+      } catch (error) {
+        // Keep the saved profile, calls will fail until the node is back
+        Logger.warn(`Could not read the chain id of ${profile.name}`, error);
+      }
+    }
+    await this.apply(profile, chainId);
+    return profile;
+  }
+
+  getNetwork(): { network: NetworkProfile; networks: NetworkProfile[] } {
+    return {
+      network: { ...this.steemApi.getNetwork(), chainId: this.steemApi.getChainId() },
+      networks: NetworkProfiles,
+    };
+  }
+
+  /**
+   * The chain id is resolved before anything is saved, so a devnet that is not
+   * running leaves the wallet on its current network.
+   */
+  async switchNetwork(id: NetworkId): Promise<NetworkProfile> {
+    const profile = NetworkUtils.getProfile(id);
+    const chainId = profile.chainId ?? (await this.fetchChainId(profile));
+
+    await NetworkUtils.saveActiveNetwork(profile.id);
+    await this.apply(profile, chainId);
+    Logger.info(`Switched to ${profile.name}`);
+    return profile;
+  }
+
+  private async apply(profile: NetworkProfile, chainId?: string): Promise<void> {
+    this.steemApi.setNetwork(profile, chainId);
+    await this.rpcSettings.load();
+  }
+
+  // Local devnets can be started with any chain id, so ask the node
+  private async fetchChainId(profile: NetworkProfile): Promise<string> {
+    const uri = profile.rpcs[0].uri;
+    try {
+      const config = await jsonRpcRequest(uri, 'condenser_api.get_config');
+      const chainId = config?.STEEM_CHAIN_ID ?? config?.STEEMIT_CHAIN_ID;
+      if (!chainId) {
+        throw new Error('Node did not report a chain id');
+      }
+      return chainId;
+    } catch (error: any) {
+      throw new KeychainError(`${profile.name} is not reachable at ${uri}: ${error?.message || error}`, [
+        'NETWORK_UNREACHABLE',
+      ]);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import { KeychainRequest } from './types/keychain-api.types';
+
+export type PermissionOperation = 'vote' | 'custom' | 'transfer';
+
+export interface PermissionRule {
+  id: string;
+  origin: string;
+  account: string;
+  operation: PermissionOperation;
+  customJsonId?: string; // custom only: the custom_json id the site may broadcast
+  dailyLimit?: number; // transfer only: max amount per UTC day
+  currency?: string; // transfer only: STEEM or SBD
+  spent?: { day: string; amount: number };
+  createdAt: number;
+  lastUsed?: number;
+}
+
+export type PermissionRuleInput = Pick<
+  PermissionRule,
+  'origin' | 'account' | 'operation' | 'customJsonId' | 'dailyLimit' | 'currency'
+>;
+
+// Only low-risk operations can be pre-approved; everything else always prompts
+export const AUTO_APPROVABLE_OPERATIONS: PermissionOperation[] = ['vote', 'custom', 'transfer'];
+
+/**
+ * Per-origin "don't ask again" rules, keyed by origin + account + operation.
+ * A matching rule lets a request skip the approval window.
+ */
+export class PermissionService {
+  private lock: Promise<unknown> = Promise.resolve();
+
+  static isAutoApprovable(type: string): type is PermissionOperation {
+    return AUTO_APPROVABLE_OPERATIONS.includes(type as PermissionOperation);
+  }
+
+  /**
+   * Build the rule a user would expect from ticking "don't ask again" on a request
+   */
+  static ruleFromRequest(request: KeychainRequest, origin: string, dailyLimit?: number): PermissionRuleInput {
+    if (!PermissionService.isAutoApprovable(request.type)) {
+      throw new KeychainError(`Operation ${request.type} cannot be pre-approved`, ['PERMISSION_NOT_ALLOWED']);
+    }
+
+    const rule: PermissionRuleInput = {
+      origin,
+      account: request.username || '',
+      operation: request.type,
+    };
+    if (request.type === 'custom') {
+      rule.customJsonId = request.id;
+    }
+    if (request.type === 'transfer') {
+      rule.currency = request.currency;
+      rule.dailyLimit = dailyLimit;
+    }
+    return rule;
+  }
+
+  async getRules(): Promise<PermissionRule[]> {
+    return (await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.PERMISSIONS)) || [];
+  }
+
+  async addRule(input: PermissionRuleInput): Promise<PermissionRule> {
+    this.validateRule(input);
+
+    const rule: PermissionRule = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+    };
+
+    await this.mutate((rules) => [
+      // Re-adding the same scope replaces the previous rule instead of stacking
+      ...rules.filter((existing) => !this.sameScope(existing, rule)),
+      rule,
+    ]);
+    Logger.info('Permission rule added:', { origin: rule.origin, account: rule.account, operation: rule.operation });
+    return rule;
+  }
+
+  async updateRule(id: string, changes: Partial<PermissionRuleInput>): Promise<PermissionRule> {
+    let updated: PermissionRule | undefined;
+    await this.mutate((rules) =>
+      rules.map((rule) => {
+        if (rule.id !== id) return rule;
+        updated = { ...rule, ...changes, id: rule.id, createdAt: rule.createdAt };
+        this.validateRule(updated);
+        return updated;
+      })
+    );
+
+    if (!updated) {
+      throw new KeychainError('Permission rule not found', ['RULE_NOT_FOUND']);
+    }
+    return updated;
+  }
+
+  async removeRule(id: string): Promise<void> {
+    await this.mutate((rules) => rules.filter((rule) => rule.id !== id));
+  }
+
+  async removeRulesForOrigin(origin: string): Promise<void> {
+    await this.mutate((rules) => rules.filter((rule) => rule.origin !== origin));
+  }
+
+  /**
+   * Find a rule that covers this request and, for transfers, reserve the amount
+   * against today's limit. Returns null when the user must be asked.
+   */
+  async authorize(request: KeychainRequest, origin: string): Promise<PermissionRule | null> {
+    if (!PermissionService.isAutoApprovable(request.type) || !request.username) {
+      return null;
+    }
+
+    let granted: PermissionRule | null = null;
+    await this.mutate((rules) =>
+      rules.map((rule) => {
+        if (granted || !this.matches(rule, request, origin)) return rule;
+
+        const next: PermissionRule = { ...rule, lastUsed: Date.now() };
+        if (rule.operation === 'transfer') {
+          const amount = this.parseAmount(request.amount);
+          const spent = this.spentToday(rule);
+          if (amount === null || spent + amount > (rule.dailyLimit ?? 0)) {
+            return rule;
+          }
+          next.spent = { day: this.today(), amount: spent + amount };
+        }
+
+        granted = next;
+        return next;
+      })
+    );
+    return granted;
+  }
+
+  /**
+   * Give back a transfer reservation when the broadcast did not go through
+   */
+  async refund(ruleId: string, request: KeychainRequest): Promise<void> {
+    const amount = this.parseAmount(request.amount);
+    if (request.type !== 'transfer' || amount === null) return;
+
+    await this.mutate((rules) =>
+      rules.map((rule) => {
+        if (rule.id !== ruleId || !rule.spent || rule.spent.day !== this.today()) return rule;
+        return { ...rule, spent: { ...rule.spent, amount: Math.max(0, rule.spent.amount - amount) } };
+      })
+    );
+  }
+
+  private matches(rule: PermissionRule, request: KeychainRequest, origin: string): boolean {
+    if (rule.origin !== origin || rule.account !== request.username || rule.operation !== request.type) {
+      return false;
+    }
+
+    switch (rule.operation) {
+      case 'custom':
+        // Active-key custom_json always prompts, even for trusted sites
+        return rule.customJsonId === request.id && (request.method || 'Posting').toLowerCase() === 'posting';
+      case 'transfer':
+        return rule.currency === request.currency;
+      default:
+        return true;
+    }
+  }
+
+  private validateRule(rule: PermissionRuleInput): void {
+    if (!rule.origin || !rule.account) {
+      throw new KeychainError('Permission rules need an origin and account', ['INVALID_RULE']);
+    }
+    if (!PermissionService.isAutoApprovable(rule.operation)) {
+      throw new KeychainError(`Operation ${rule.operation} cannot be pre-approved`, ['PERMISSION_NOT_ALLOWED']);
+    }
+    if (rule.operation === 'custom' && !rule.customJsonId) {
+      throw new KeychainError('Custom JSON rules must name a custom_json id', ['INVALID_RULE']);
+    }
+    if (rule.operation === 'transfer') {
+      if (!rule.currency || !(typeof rule.dailyLimit === 'number' && rule.dailyLimit > 0)) {
+        throw new KeychainError('Transfer rules need a currency and a positive daily limit', ['INVALID_RULE']);
+      }
+    }
+  }
+
+  private sameScope(a: PermissionRuleInput, b: PermissionRuleInput): boolean {
+    return (
+      a.origin === b.origin &&
+      a.account === b.account &&
+      a.operation === b.operation &&
+      a.customJsonId === b.customJsonId &&
+      a.currency === b.currency
+    );
+  }
+
+  private spentToday(rule: PermissionRule): number {
+    return rule.spent?.day === this.today() ? rule.spent.amount : 0;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private parseAmount(amount: unknown): number | null {
+    const value = parseFloat(String(amount));
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+
+  private mutate(update: (rules: PermissionRule[]) => PermissionRule[]): Promise<PermissionRule[]> {
+    const next = this.lock.then(async () => {
+      const rules = update(await this.getRules());
+      await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.PERMISSIONS, rules);
+      return rules;
+    });
+    this.lock = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,290 @@
+import { browser, type Browser } from 'wxt/browser';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { NetworkProfiles } from '../../../src/reference-data/network-profiles.list';
+import NetworkUtils from '../utils/network.utils';
+import { KeychainRequest, KeychainResponse } from './types/keychain-api.types';
+
+export interface PendingApproval {
+  id: string;
+  request: KeychainRequest;
+  origin: string;
+  tabId?: number;
+  // Frame of the tab that sent the request, so the response doesn't reach other frames
+  frameId?: number;
+  // Network the request was made on; it is only signed on that network
+  network?: string;
+  timestamp: number;
+  expiresAt: number;
+}
+
+export type RequestDispatcher = (request: KeychainRequest) => Promise<KeychainResponse>;
+
+// Read-only requests never touch keys, so they are answered without a prompt
+const UNGATED_REQUEST_TYPES = new Set([
+  'query_custom_json_by_account',
+  'query_custom_json_by_block',
+  'query_custom_json_by_date_range',
+  'query_custom_json_by_block_range',
+]);
+
+/**
+ * Queue of dApp requests waiting for the user. Entries and the id of the
+ * approval window live in session storage so they survive the service worker
+ * being suspended, and results are pushed back to the originating tab instead
+ * of relying on an open message channel.
+ */
+export class RequestApprovalService {
+  static readonly PORT_NAME = 'transaction-approval';
+  static readonly EXPIRY_ALARM = 'request-queue-expiry';
+  static readonly REQUEST_TTL = 3 * 60 * 1000; // 3 minutes, well inside the page timeout
+  private static readonly WINDOW_WIDTH = 480;
+  private static readonly WINDOW_HEIGHT = 700;
+
+  private ports = new Set<Browser.runtime.Port>();
+  private windowOpening: Promise<void> | null = null;
+  private queueLock: Promise<unknown> = Promise.resolve();
+
+  constructor(private dispatch: RequestDispatcher) {}
+
+  static requiresApproval(request: KeychainRequest): boolean {
+    return !UNGATED_REQUEST_TYPES.has(request?.type);
+  }
+
+  /**
+   * Add a request to the queue and bring up the approval window
+   */
+  async enqueue(request: KeychainRequest, origin: string, tabId?: number, frameId?: number): Promise<PendingApproval> {
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: crypto.randomUUID(),
+      request,
+      origin,
+      tabId,
+      frameId,
+      network: (await NetworkUtils.getActiveNetwork()).id,
+      timestamp: now,
+      expiresAt: now + RequestApprovalService.REQUEST_TTL,
+    };
+
+    await this.mutateQueue((queue) => [...queue, approval]);
+    Logger.info('Request queued for approval:', { id: approval.id, type: request.type, origin });
+
+    this.broadcast(approval);
+    try {
+      await this.openApprovalWindow();
+    } catch (error) {
+      Logger.error('Failed to open approval window:', error);
+      await this.reject([approval.id], 'Unable to open approval window');
+    }
+
+    return approval;
+  }
+
+  async getPendingRequests(): Promise<PendingApproval[]> {
+    await this.pruneExpired();
+    return this.readQueue();
+  }
+
+  /**
+   * Dispatch the given requests in queue order and push each result to its tab
+   */
+  async approve(ids: string[]): Promise<Record<string, KeychainResponse>> {
+    const approvals = await this.take(ids);
+    const results: Record<string, KeychainResponse> = {};
+    const network = (await NetworkUtils.getActiveNetwork()).id;
+
+    for (const approval of approvals) {
+      let response: KeychainResponse;
+      try {
+        if (approval.network && approval.network !== network) {
+          const name = NetworkProfiles.find((profile) => profile.id === approval.network)?.name ?? approval.network;
+          throw new Error(`The request was made on ${name}, switch back to that network to approve it`);
+        }
+        response = await this.dispatch(approval.request);
+      } catch (error) {
+        response = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Request failed',
+          request_id: approval.request.request_id,
+        };
+      }
+      results[approval.id] = response;
+      await this.deliver(approval, response);
+    }
+
+    return results;
+  }
+
+  async reject(ids: string[], reason = 'User rejected the request'): Promise<number> {
+    const approvals = await this.take(ids);
+
+    for (const approval of approvals) {
+      await this.deliver(approval, {
+        success: false,
+        error: reason,
+        message: 'Request was not approved',
+        request_id: approval.request.request_id,
+      });
+    }
+
+    return approvals.length;
+  }
+
+  async rejectAll(reason?: string): Promise<number> {
+    const queue = await this.readQueue();
+    return this.reject(queue.map((approval) => approval.id), reason);
+  }
+
+  /**
+   * Move the given ids to the front of the queue in the order supplied;
+   * anything not mentioned keeps its relative position behind them
+   */
+  async reorder(ids: string[]): Promise<PendingApproval[]> {
+    return this.mutateQueue((queue) => {
+      const byId = new Map(queue.map((approval) => [approval.id, approval]));
+      const front = ids
+        .map((id) => byId.get(id))
+        .filter((approval): approval is PendingApproval => !!approval);
+      const rest = queue.filter((approval) => !ids.includes(approval.id));
+      return [...front, ...rest];
+    });
+  }
+
+  /**
+   * Reject anything that has been waiting longer than REQUEST_TTL
+   */
+  async pruneExpired(): Promise<number> {
+    const now = Date.now();
+    const queue = await this.readQueue();
+    const expired = queue.filter((approval) => approval.expiresAt <= now);
+    if (expired.length === 0) return 0;
+
+    Logger.info(`Expiring ${expired.length} stale request(s)`);
+    return this.reject(
+      expired.map((approval) => approval.id),
+      'Request expired before it was approved'
+    );
+  }
+
+  /**
+   * Register a port opened by the approval UI so new requests are pushed to it live
+   */
+  attachPort(port: Browser.runtime.Port): void {
+    this.ports.add(port);
+    port.onDisconnect.addListener(() => this.ports.delete(port));
+  }
+
+  /**
+   * Closing the approval window counts as rejecting everything still in it
+   */
+  async handleWindowRemoved(windowId: number): Promise<void> {
+    if (windowId !== (await this.getApprovalWindowId())) return;
+
+    await this.setApprovalWindowId(null);
+    await this.rejectAll('User closed the approval window');
+  }
+
+  private async getApprovalWindowId(): Promise<number | null> {
+    return (await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.APPROVAL_WINDOW)) ?? null;
+  }
+
+  private async setApprovalWindowId(windowId: number | null): Promise<void> {
+    if (windowId === null) {
+      await LocalStorageUtils.removeValueFromSessionStorage(LocalStorageKeyEnum.APPROVAL_WINDOW);
+    } else {
+      await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.APPROVAL_WINDOW, windowId);
+    }
+  }
+
+  private async readQueue(): Promise<PendingApproval[]> {
+    return (
+      (await LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.PENDING_REQUESTS)) || []
+    );
+  }
+
+  // Serialise read-modify-write cycles so concurrent requests don't drop entries
+  private mutateQueue(
+    update: (queue: PendingApproval[]) => PendingApproval[]
+  ): Promise<PendingApproval[]> {
+    const next = this.queueLock.then(async () => {
+      const queue = update(await this.readQueue());
+      await LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.PENDING_REQUESTS, queue);
+      return queue;
+    });
+    this.queueLock = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(ids: string[]): Promise<PendingApproval[]> {
+    let taken: PendingApproval[] = [];
+    await this.mutateQueue((queue) => {
+      taken = queue.filter((approval) => ids.includes(approval.id));
+      return queue.filter((approval) => !ids.includes(approval.id));
+    });
+    return taken;
+  }
+
+  private async deliver(approval: PendingApproval, response: KeychainResponse): Promise<void> {
+    if (approval.tabId === undefined) {
+      Logger.warn('No tab to deliver response to:', approval.id);
+      return;
+    }
+
+    try {
+      // Without a frame id the message would go to every frame, third-party iframes included
+      await browser.tabs.sendMessage(
+        approval.tabId,
+        { type: 'keychain_response', response },
+        { frameId: approval.frameId ?? 0 }
+      );
+    } catch (error) {
+      // The tab was closed or navigated away; nobody is waiting anymore
+      Logger.warn('Failed to deliver response to tab:', { tabId: approval.tabId, error });
+    }
+  }
+
+  private broadcast(approval: PendingApproval): void {
+    for (const port of this.ports) {
+      try {
+        port.postMessage({ type: 'transaction_request', ...approval });
+      } catch (error) {
+        Logger.warn('Dropping stale approval port:', error);
+        this.ports.delete(port);
+      }
+    }
+  }
+
+  // Concurrent requests share one pending open so only a single window appears
+  private openApprovalWindow(): Promise<void> {
+    if (!this.windowOpening) {
+      this.windowOpening = this.focusOrCreateWindow().finally(() => {
+        this.windowOpening = null;
+      });
+    }
+    return this.windowOpening;
+  }
+
+  private async focusOrCreateWindow(): Promise<void> {
+    const approvalWindowId = await this.getApprovalWindowId();
+    if (approvalWindowId !== null) {
+      try {
+        await browser.windows.update(approvalWindowId, { focused: true });
+        return;
+      } catch {
+        // Window was closed without us noticing, open a fresh one
+        await this.setApprovalWindowId(null);
+      }
+    }
+
+    const approvalWindow = await browser.windows.create({
+      url: browser.runtime.getURL('/approval.html'),
+      type: 'popup',
+      width: RequestApprovalService.WINDOW_WIDTH,
+      height: RequestApprovalService.WINDOW_HEIGHT,
+      focused: true,
+    });
+    await this.setApprovalWindowId(approvalWindow?.id ?? null);
+  }
+}
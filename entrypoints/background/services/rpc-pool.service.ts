@@ -0,0 +1,235 @@
+import Config from '../../../src/config';
+import Logger from '../../../src/utils/logger.utils';
+import { Rpc, RpcHealth } from '../../../src/interfaces/rpc.interface';
+import { DefaultRpcs } from '../../../src/reference-data/default-rpc.list';
+
+/**
+ * Single JSON-RPC call to a specific node, independent of the node steem-tx-js
+ * is pointed at. Resolves with the whole response body, `error` included, and
+ * only throws when the node itself fails to answer.
+ */
+export async function jsonRpcCall(uri: string, method: string, params: any = []): Promise<any> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), Config.rpc.defaultTimeout);
+
+  try {
+    const response = await fetch(uri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method, params, id: 1 }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    throw controller.signal.aborted ? new Error(`${uri} timed out`) : error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Like jsonRpcCall, but resolves with the result and throws the RPC error.
+ * Used for health checks, node tests and the API calls of SteemApiService.
+ */
+export async function jsonRpcRequest(uri: string, method: string, params: any = []): Promise<any> {
+  const body = await jsonRpcCall(uri, method, params);
+  if (body?.error) {
+    throw new Error(body.error.message || `RPC error ${body.error.code}`);
+  }
+  return body?.result;
+}
+
+interface NodeState {
+  rpc: Rpc;
+  latencyMs: number | null;
+  headBlock: number | null;
+  blockLag: number;
+  // Most recent call outcomes, newest last, capped at HEALTH_WINDOW
+  outcomes: boolean[];
+  ejected: boolean;
+  lastChecked: number | null;
+  lastError?: string;
+}
+
+/**
+ * Pool of RPC nodes scored by latency, head block lag and recent error rate.
+ * Nodes are pinged with `get_dynamic_global_properties` on a timer, and every
+ * API call reports back whether it succeeded. Nodes that fall behind the best
+ * head block or keep failing are ejected until a later check finds them healthy.
+ */
+export class RpcPoolService {
+  static readonly HEALTH_ALARM = 'rpc-health-check';
+
+  private nodes = new Map<string, NodeState>();
+  private preferredUri: string | null = null;
+
+  constructor(rpcs: Rpc[] = DefaultRpcs) {
+    rpcs.forEach((rpc) => this.addNode(rpc));
+  }
+
+  addNode(rpc: Rpc): void {
+    if (this.nodes.has(rpc.uri)) return;
+    this.nodes.set(rpc.uri, {
+      rpc,
+      latencyMs: null,
+      headBlock: null,
+      blockLag: 0,
+      outcomes: [],
+      ejected: false,
+      lastChecked: null,
+    });
+  }
+
+  removeNode(uri: string): void {
+    this.nodes.delete(uri);
+    if (this.preferredUri === uri) {
+      this.preferredUri = null;
+    }
+  }
+
+  /**
+   * The node the user picked is used first for as long as it stays healthy
+   */
+  setPreferred(rpc: Rpc | null): void {
+    if (rpc) {
+      this.addNode(rpc);
+    }
+    this.preferredUri = rpc?.uri ?? null;
+  }
+
+  /**
+   * Nodes in the order calls should try them: the preferred node if healthy,
+   * then healthy nodes by score, then ejected nodes as a last resort
+   */
+  getRankedNodes(): Rpc[] {
+    const states = [...this.nodes.values()];
+    const byScore = (a: NodeState, b: NodeState) => this.score(b) - this.score(a);
+    const healthy = states.filter((state) => !state.ejected).sort(byScore);
+    const ejected = states.filter((state) => state.ejected).sort(byScore);
+
+    const preferred = healthy.find((state) => state.rpc.uri === this.preferredUri);
+    const ordered = preferred ? [preferred, ...healthy.filter((state) => state !== preferred)] : healthy;
+    return [...ordered, ...ejected].map((state) => state.rpc);
+  }
+
+  recordSuccess(uri: string, latencyMs: number): void {
+    const state = this.nodes.get(uri);
+    if (!state) return;
+    state.latencyMs = state.latencyMs === null ? latencyMs : Math.round(state.latencyMs * 0.7 + latencyMs * 0.3);
+    this.pushOutcome(state, true);
+  }
+
+  recordFailure(uri: string, error?: unknown): void {
+    const state = this.nodes.get(uri);
+    if (!state) return;
+    state.lastError = error instanceof Error ? error.message : error ? String(error) : undefined;
+    this.pushOutcome(state, false);
+    if (this.errorRate(state) > Config.rpc.MAX_ERROR_RATE && state.outcomes.length >= 3) {
+      this.eject(state, 'error rate');
+    }
+  }
+
+  /**
+   * Ping a node once. Works for nodes outside the pool too, e.g. a custom node
+   * the user is about to add; only pool members have the result recorded.
+   */
+  async probe(uri: string): Promise<{ latencyMs: number; headBlock: number }> {
+    const start = Date.now();
+    const state = this.nodes.get(uri);
+
+    try {
+      const properties = await jsonRpcRequest(uri, 'condenser_api.get_dynamic_global_properties');
+      const headBlock = Number(properties?.head_block_number);
+      if (!headBlock) {
+        throw new Error('Invalid dynamic global properties response');
+      }
+
+      const latencyMs = Date.now() - start;
+      if (state) {
+        state.headBlock = headBlock;
+        state.lastChecked = Date.now();
+        this.recordSuccess(uri, latencyMs);
+      }
+      return { latencyMs, headBlock };
+    } catch (error) {
+      if (state) {
+        state.lastChecked = Date.now();
+        this.recordFailure(uri, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ping every node, then eject the ones behind the best head block or failing
+   * too often and bring back the ones that recovered
+   */
+  async checkAll(): Promise<RpcHealth[]> {
+    const uris = [...this.nodes.keys()];
+    const results = await Promise.allSettled(uris.map((uri) => this.probe(uri)));
+
+    const bestHead = Math.max(0, ...[...this.nodes.values()].map((state) => state.headBlock ?? 0));
+    uris.forEach((uri, index) => {
+      const state = this.nodes.get(uri);
+      if (!state) return;
+
+      if (results[index].status === 'rejected') {
+        state.headBlock = null;
+        this.eject(state, 'unreachable');
+        return;
+      }
+      state.blockLag = bestHead - (state.headBlock ?? bestHead);
+      if (state.blockLag > Config.rpc.MAX_BLOCK_LAG) {
+        this.eject(state, `${state.blockLag} blocks behind`);
+      } else if (this.errorRate(state) <= Config.rpc.MAX_ERROR_RATE) {
+        state.ejected = false;
+      }
+    });
+
+    return this.getHealth();
+  }
+
+  getHealth(): RpcHealth[] {
+    return [...this.nodes.values()].map((state) => ({
+      uri: state.rpc.uri,
+      latencyMs: state.latencyMs,
+      headBlock: state.headBlock,
+      blockLag: state.blockLag,
+      errorRate: +this.errorRate(state).toFixed(2),
+      score: this.score(state),
+      ejected: state.ejected,
+      lastChecked: state.lastChecked,
+      lastError: state.lastError,
+    }));
+  }
+
+  // 0-100: latency costs up to 40 points, errors up to 40 and block lag up to 20
+  private score(state: NodeState): number {
+    const latencyPenalty = state.latencyMs === null ? 20 : Math.min(40, state.latencyMs / 50);
+    const errorPenalty = this.errorRate(state) * 40;
+    const lagPenalty = Math.min(20, state.blockLag);
+    return Math.round(Math.max(0, 100 - latencyPenalty - errorPenalty - lagPenalty));
+  }
+
+  private errorRate(state: NodeState): number {
+    if (!state.outcomes.length) return 0;
+    return state.outcomes.filter((ok) => !ok).length / state.outcomes.length;
+  }
+
+  private pushOutcome(state: NodeState, ok: boolean): void {
+    state.outcomes.push(ok);
+    if (state.outcomes.length > Config.rpc.HEALTH_WINDOW) {
+      state.outcomes.shift();
+    }
+  }
+
+  private eject(state: NodeState, reason: string): void {
+    if (!state.ejected) {
+      Logger.warn(`Ejecting RPC node ${state.rpc.uri}: ${reason}`);
+    }
+    state.ejected = true;
+  }
+}
@@ -0,0 +1,179 @@
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import { NetworkProfiles } from '../../../src/reference-data/network-profiles.list';
+import { Rpc, RpcHealth, RpcSettings, RpcTestResult } from '../../../src/interfaces/rpc.interface';
+import { NetworkProfile } from '../../../src/interfaces/network.interface';
+import NetworkUtils from '../utils/network.utils';
+import { SteemApiService } from './steem-api.service';
+import { jsonRpcRequest } from './rpc-pool.service';
+
+/**
+ * The node the user picked and the custom nodes they added, persisted under
+ * `LocalStorageKeyEnum.RPC` for the active network. Custom nodes join the API
+ * pool once they pass a node test, which checks that the node serves the chain
+ * of the active network.
+ */
+export class RpcSettingsService {
+  private settings: RpcSettings | undefined;
+  private profile: NetworkProfile = NetworkProfiles[0];
+
+  constructor(private steemApi: SteemApiService) {}
+
+  /**
+   * Restore the saved settings into the API service. Settings saved before the
+   * RPC key existed only stored the current node under "currentRpc".
+   */
+  async load(): Promise<RpcSettings> {
+    // Settings are per network, so a network switch reads them again
+    this.settings = undefined;
+    const settings = await this.read();
+    settings.customRpcs.forEach((rpc) => this.steemApi.addRpcNode(rpc));
+    await this.steemApi.switchRpc(settings.currentRpc);
+    return settings;
+  }
+
+  async getSettings(): Promise<RpcSettings & { defaultRpcs: Rpc[]; health: RpcHealth[] }> {
+    const settings = await this.read();
+    return { ...settings, defaultRpcs: this.profile.rpcs, health: this.steemApi.getRpcHealth() };
+  }
+
+  async setRpc(rpc: Rpc): Promise<Rpc> {
+    const settings = await this.read();
+    const known = rpc?.uri === 'DEFAULT' ? rpc : this.findKnown(settings, rpc?.uri);
+    if (!known) {
+      throw new KeychainError(`Unknown RPC node ${rpc?.uri}, add it as a custom node first`, ['UNKNOWN_RPC']);
+    }
+
+    await this.steemApi.switchRpc(known);
+    settings.currentRpc = known;
+    await this.save(settings);
+    return known;
+  }
+
+  async saveCustomRpcs(rpcs: Rpc[]): Promise<Rpc[]> {
+    if (!Array.isArray(rpcs)) {
+      throw new KeychainError('Custom RPC nodes must be a list', ['INVALID_RPC']);
+    }
+
+    const settings = await this.read();
+    const customRpcs: Rpc[] = [];
+    for (const rpc of rpcs) {
+      const uri = this.normalizeUri(rpc?.uri);
+      const isDefault = this.profile.rpcs.some((node) => node.uri === uri);
+      if (isDefault || customRpcs.some((node) => node.uri === uri)) continue;
+
+      // The chain id always comes from the network, so a typed one is dropped
+      customRpcs.push({ uri, ...(rpc.testnet && { testnet: true }) });
+    }
+
+    // Only nodes new to the list are checked, so one being down doesn't block other edits
+    const newResults: RpcTestResult[] = [];
+    for (const rpc of customRpcs.filter((node) => !this.findKnown(settings, node.uri))) {
+      const result = await this.probe(rpc.uri);
+      if (!result.success) {
+        throw new KeychainError(`Could not add ${rpc.uri}: ${result.error}`, ['INVALID_RPC']);
+      }
+      newResults.push(result);
+    }
+    newResults.forEach((result) => (settings.testResults[result.uri] = result));
+
+    settings.customRpcs
+      .filter((rpc) => !customRpcs.some((node) => node.uri === rpc.uri))
+      .forEach((rpc) => {
+        this.steemApi.removeRpcNode(rpc.uri);
+        delete settings.testResults[rpc.uri];
+      });
+    customRpcs.forEach((rpc) => this.steemApi.addRpcNode(rpc));
+    settings.customRpcs = customRpcs;
+
+    // The current node was removed from the list, fall back to the default one
+    if (!this.findKnown(settings, settings.currentRpc.uri) && settings.currentRpc.uri !== 'DEFAULT') {
+      settings.currentRpc = this.profile.rpcs[0];
+      await this.steemApi.switchRpc(settings.currentRpc);
+    }
+
+    await this.save(settings);
+    return customRpcs;
+  }
+
+  /**
+   * Ping a node and compare its chain id with the active network's. The result
+   * is kept per node so the settings page can show it later.
+   */
+  async testRpc(rpc: Rpc | string): Promise<RpcTestResult> {
+    const uri = this.normalizeUri(typeof rpc === 'string' ? rpc : rpc?.uri);
+    const settings = await this.read();
+    const result = await this.probe(uri);
+
+    // Only nodes the user kept are worth remembering
+    if (this.findKnown(settings, uri)) {
+      settings.testResults[uri] = result;
+      await this.save(settings);
+    }
+    return result;
+  }
+
+  private async probe(uri: string): Promise<RpcTestResult> {
+    const expectedChainId = this.steemApi.getChainId();
+    let result: RpcTestResult;
+    try {
+      const { latencyMs, headBlock } = await this.steemApi.testRpc(uri);
+      const config = await jsonRpcRequest(uri, 'condenser_api.get_config');
+      const chainId = config?.STEEM_CHAIN_ID ?? config?.STEEMIT_CHAIN_ID;
+
+      let error: string | undefined;
+      if (!chainId) {
+        error = 'Node did not report a chain id';
+      } else if (expectedChainId && chainId !== expectedChainId) {
+        error = `Node serves chain ${chainId.slice(0, 8)}…, expected ${expectedChainId.slice(0, 8)}… (${this.profile.name})`;
+      }
+      result = { uri, success: !error, latencyMs, headBlock, chainId, error, testedAt: Date.now() };
+    } catch (error: any) {
+      Logger.warn(`RPC test failed for ${uri}`, error);
+      result = { uri, success: false, error: error?.message || 'RPC node unreachable', testedAt: Date.now() };
+    }
+    return result;
+  }
+
+  private findKnown(settings: RpcSettings, uri?: string): Rpc | undefined {
+    return [...this.profile.rpcs, ...settings.customRpcs].find((rpc) => rpc.uri === uri);
+  }
+
+  // Plain http is only accepted for nodes running on this machine
+  private normalizeUri(uri?: string): string {
+    const isLocal = typeof uri === 'string' && /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?(\/|$)/.test(uri);
+    if (typeof uri !== 'string' || (!uri.startsWith('https://') && !isLocal)) {
+      throw new KeychainError('RPC URL must start with https://', ['INVALID_RPC']);
+    }
+    try {
+      new URL(uri);
+    } catch {
+      throw new KeychainError(`Invalid RPC URL ${uri}`, ['INVALID_RPC']);
+    }
+    return uri.replace(/\/+$/, '');
+  }
+
+  private async read(): Promise<RpcSettings> {
+    if (!this.settings) {
+      this.profile = await NetworkUtils.getActiveNetwork();
+      const saved: Partial<RpcSettings> | null = await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.RPC);
+      const legacyRpc: Rpc | null =
+        saved || this.profile.id !== 'mainnet' ? null : await LocalStorageUtils.getValueFromLocalStorage('currentRpc');
+      const legacyCustom =
+        legacyRpc?.uri && legacyRpc.uri !== 'DEFAULT' && !this.profile.rpcs.some((rpc) => rpc.uri === legacyRpc.uri);
+      this.settings = {
+        currentRpc: saved?.currentRpc || legacyRpc || this.profile.rpcs[0],
+        customRpcs: saved?.customRpcs || (legacyCustom ? [legacyRpc!] : []),
+        testResults: saved?.testResults || {},
+      };
+    }
+    return this.settings;
+  }
+
+  private async save(settings: RpcSettings): Promise<void> {
+    this.settings = settings;
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.RPC, settings);
+  }
+}
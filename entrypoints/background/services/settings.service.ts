@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { browser } from 'wxt/browser';
+import Config from '../../../src/config';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import { KeychainSettings, KeychainSettingsUpdate } from '../../../src/interfaces/settings.interface';
+
+const SETTINGS_VERSION = 1;
+
+const minutes = (name: string, min: number, max: number) => {
+  const message = `${name} must be a whole number of minutes between ${min} and ${max}`;
+  return z.number({ invalid_type_error: message }).int(message).min(min, message).max(max, message);
+};
+
+const flag = (name: string) => z.boolean({ invalid_type_error: `${name} must be true or false` });
+
+const AutoLockSchema = z.object({
+  idleMinutes: minutes('idleMinutes', 0, Config.autoLock.MAX_MINUTES),
+  lockOnSystemLock: flag('lockOnSystemLock'),
+  lockOnBrowserClose: flag('lockOnBrowserClose'),
+  maxSessionMinutes: minutes('maxSessionMinutes', 0, Config.autoLock.MAX_MINUTES),
+});
+
+const SettingsSchema = z.object({
+  version: z.number().int(),
+  autoLock: AutoLockSchema,
+  theme: z.enum(['system', 'light', 'dark'], {
+    errorMap: () => ({ message: 'theme must be system, light or dark' }),
+  }),
+  language: z
+    .string()
+    .refine((language) => language in Config.settings.LANGUAGES, (language) => ({
+      message: `Unsupported language ${language}`,
+    })),
+  debugLogging: flag('debugLogging'),
+  transactionExpirationMinutes: minutes(
+    'transactionExpirationMinutes',
+    1,
+    Config.settings.MAX_TRANSACTION_EXPIRATION_MINUTES
+  ),
+  waitForConfirmation: flag('waitForConfirmation'),
+  fiatCurrency: z
+    .string()
+    .refine((currency) => Config.settings.FIAT_CURRENCIES.includes(currency), (currency) => ({
+      message: `Unsupported currency ${currency}`,
+    })),
+}) satisfies z.ZodType<KeychainSettings>;
+
+const SettingsUpdateSchema = SettingsSchema.omit({ version: true })
+  .extend({ autoLock: AutoLockSchema.partial() })
+  .partial()
+  .strict();
+
+type SettingsMigration = (settings: Record<string, any>) => Record<string, any>;
+
+/**
+ * Reshapes of the stored settings, keyed by the version they upgrade from.
+ * A new field only needs a default, the schema fills it in on read; settings
+ * without a version are version 1, as the auto-lock policies were saved alone.
+ */
+export const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {};
+
+const migrate = (settings: Record<string, any>): Record<string, any> => {
+  let current = settings;
+  for (let version = settings.version || 1; version < SETTINGS_VERSION; version++) {
+    const step = SETTINGS_MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No settings migration from version ${version}`);
+    }
+    current = { ...step(current), version: version + 1 };
+  }
+  return current;
+};
+
+// Keep each valid field and fall back to the default for the rest, so one bad value doesn't reset them all
+const pickValid = (schema: z.AnyZodObject, value: any, defaults: Record<string, any>): any => {
+  const picked: Record<string, any> = {};
+  for (const [key, field] of Object.entries(schema.shape) as [string, z.ZodTypeAny][]) {
+    if (field instanceof z.ZodObject) {
+      picked[key] = pickValid(field, value?.[key], defaults[key]);
+      continue;
+    }
+    const parsed = field.safeParse(value?.[key]);
+    if (!parsed.success && value?.[key] !== undefined) {
+      Logger.warn(`Ignoring invalid setting ${key}`, value[key]);
+    }
+    picked[key] = parsed.success ? parsed.data : defaults[key];
+  }
+  return picked;
+};
+
+export type SettingsListener = (settings: KeychainSettings, previous: KeychainSettings) => void | Promise<void>;
+
+/**
+ * The user's preferences, saved under `LocalStorageKeyEnum.SETTINGS` and shared
+ * by every network. Updates are validated as a whole before anything is saved,
+ * and each change is passed to the background listeners and any open popup.
+ */
+export class SettingsService {
+  private listeners: SettingsListener[] = [];
+
+  static getDefaultSettings(): KeychainSettings {
+    return {
+      version: SETTINGS_VERSION,
+      autoLock: {
+        idleMinutes: Config.autoLock.IDLE_MINUTES,
+        lockOnSystemLock: Config.autoLock.LOCK_ON_SYSTEM_LOCK,
+        lockOnBrowserClose: Config.autoLock.LOCK_ON_BROWSER_CLOSE,
+        maxSessionMinutes: Config.autoLock.MAX_SESSION_MINUTES,
+      },
+      theme: Config.settings.THEME as KeychainSettings['theme'],
+      language: Config.settings.LANGUAGE,
+      debugLogging: Config.settings.DEBUG_LOGGING,
+      transactionExpirationMinutes: Config.transactions.expirationTimeInMinutes,
+      waitForConfirmation: Config.settings.WAIT_FOR_CONFIRMATION,
+      fiatCurrency: Config.settings.FIAT_CURRENCY,
+    };
+  }
+
+  async getSettings(): Promise<KeychainSettings> {
+    const stored = await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.SETTINGS);
+    if (!stored) {
+      return SettingsService.getDefaultSettings();
+    }
+    return { ...pickValid(SettingsSchema, migrate(stored), SettingsService.getDefaultSettings()), version: SETTINGS_VERSION };
+  }
+
+  async updateSettings(update: KeychainSettingsUpdate): Promise<KeychainSettings> {
+    const parsedUpdate = SettingsUpdateSchema.safeParse(update ?? {});
+    if (!parsedUpdate.success) {
+      throw this.toError(parsedUpdate.error);
+    }
+
+    const previous = await this.getSettings();
+    const { autoLock, ...rest } = parsedUpdate.data;
+    const parsed = SettingsSchema.safeParse({
+      ...previous,
+      ...rest,
+      autoLock: { ...previous.autoLock, ...autoLock },
+    });
+    if (!parsed.success) {
+      throw this.toError(parsed.error);
+    }
+
+    await this.save(parsed.data, previous);
+    return parsed.data;
+  }
+
+  async resetSettings(): Promise<KeychainSettings> {
+    const previous = await this.getSettings();
+    const settings = SettingsService.getDefaultSettings();
+    await this.save(settings, previous);
+    return settings;
+  }
+
+  /**
+   * Run `listener` after every change, returns a function that removes it
+   */
+  onChange(listener: SettingsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  private async save(settings: KeychainSettings, previous: KeychainSettings): Promise<void> {
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.SETTINGS, settings);
+    Logger.info('Settings saved:', settings);
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(settings, previous);
+      } catch (error) {
+        Logger.error('Settings listener failed', error);
+      }
+    }
+    // Nothing listens while no popup is open
+    browser.runtime.sendMessage({ action: 'settingsChanged', data: settings }).catch(() => undefined);
+  }
+
+  private toError(error: z.ZodError): KeychainError {
+    return new KeychainError(error.issues[0]?.message || 'Invalid settings', ['INVALID_SETTINGS']);
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
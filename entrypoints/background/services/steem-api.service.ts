@@ -1,16 +1,25 @@
 import { ExtendedAccount, DynamicGlobalProperties, Operation, Transaction } from '@steempro/dsteem';
-import { call, config as SteemTxConfig } from '@steempro/steem-tx-js';
-import { Rpc } from '../../../src/interfaces/rpc.interface';
+import { config as SteemTxConfig } from '@steempro/steem-tx-js';
+import { Rpc, RpcHealth } from '../../../src/interfaces/rpc.interface';
 import { DefaultRpcs } from '../../../src/reference-data/default-rpc.list';
 import Logger from '../../../src/utils/logger.utils';
 import { RC } from '../../../src/interfaces/active-account.interface';
+import { RpcPoolService, jsonRpcCall, jsonRpcRequest } from './rpc-pool.service';
+import { NetworkProfile } from '../../../src/interfaces/network.interface';
+import { NetworkProfiles } from '../../../src/reference-data/network-profiles.list';
 
 export class SteemApiService {
   private static instance: SteemApiService;
   private currentRpc: Rpc;
+  private network: NetworkProfile = NetworkProfiles[0];
+  private chainId: string | undefined = NetworkProfiles[0].chainId;
+  private pool = new RpcPoolService(DefaultRpcs);
+  // Node a request pinned with its `rpc` parameter, see forRpc
+  private pinned: Rpc | null = null;
 
   constructor(rpc?: Rpc) {
     this.currentRpc = rpc || DefaultRpcs[0];
+    this.pool.setPreferred(this.currentRpc.uri === 'DEFAULT' ? null : this.currentRpc);
     Logger.log('SteemApiService constructor - Initial config.node:', {
       value: SteemTxConfig.node,
       type: typeof SteemTxConfig.node,
@@ -26,11 +35,9 @@ export class SteemApiService {
     return SteemApiService.instance;
   }
 
+  // The chain id stays the network's, see setNetwork
   private setRpc(rpc: Rpc): void {
-    SteemTxConfig.node = rpc.uri === 'DEFAULT' ? DefaultRpcs[0].uri : rpc.uri;
-    if (rpc.chainId) {
-      SteemTxConfig.chain_id = rpc.chainId;
-    }
+    SteemTxConfig.node = rpc.uri === 'DEFAULT' ? this.network.rpcs[0].uri : rpc.uri;
     Logger.log('RPC set to:', {
       value: SteemTxConfig.node,
       type: typeof SteemTxConfig.node,
@@ -41,16 +48,16 @@ export class SteemApiService {
 
   async getAccount(username: string): Promise<ExtendedAccount[]> {
     return await this.retryApiCall(
-      async () => {
-        Logger.log('Getting account:', username, 'from RPC:', SteemTxConfig.node);
-        const response = await call('condenser_api.get_accounts', [[username]]);
+      async (node) => {
+        Logger.log('Getting account:', username, 'from RPC:', node.uri);
+        const response = await this.call(node, 'condenser_api.get_accounts', [[username]]);
         
         // Handle both direct array response and wrapped response
         const accounts = Array.isArray(response) ? response : response?.result;
         
         Logger.log('Got accounts from API:', { 
           username, 
-          rpcUsed: SteemTxConfig.node,
+          rpcUsed: node.uri,
           responseType: typeof response,
           isArray: Array.isArray(response),
           hasResult: response?.result !== undefined,
@@ -71,7 +78,10 @@ export class SteemApiService {
 
   async getAccountRC(username: string): Promise<RC> {
     try {
-      const rcAccount = await call('rc_api.find_rc_accounts', { accounts: [username] });
+      const rcAccount = await this.retryApiCall(
+        async (node) => await this.call(node, 'rc_api.find_rc_accounts', { accounts: [username] }),
+        `getAccountRC(${username})`
+      );
       if (!rcAccount?.rc_accounts?.length) {
         throw new Error('RC account not found');
       }
@@ -82,11 +92,37 @@ export class SteemApiService {
     }
   }
 
+  async getResourceParams(): Promise<any> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'rc_api.get_resource_params', {}),
+        'getResourceParams'
+      );
+      return response?.result || response;
+    } catch (error) {
+      Logger.error('Error getting RC resource params', error);
+      throw error;
+    }
+  }
+
+  async getResourcePool(): Promise<any> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'rc_api.get_resource_pool', {}),
+        'getResourcePool'
+      );
+      return response?.result || response;
+    } catch (error) {
+      Logger.error('Error getting RC resource pool', error);
+      throw error;
+    }
+  }
+
   async getDynamicGlobalProperties(): Promise<DynamicGlobalProperties> {
     try {
       Logger.log('📊 Getting dynamic global properties...');
       const response = await this.retryApiCall(
-        async () => await call('condenser_api.get_dynamic_global_properties', []),
+        async (node) => await this.call(node, 'condenser_api.get_dynamic_global_properties', []),
         'getDynamicGlobalProperties'
       );
       
@@ -144,7 +180,7 @@ export class SteemApiService {
 
       // Get the block header to extract the block ID
       const blockHeader = await this.retryApiCall(
-        async () => await call('condenser_api.get_block_header', [blockNumber]),
+        async (node) => await this.call(node, 'condenser_api.get_block_header', [blockNumber]),
         `getRefBlockHeader(${blockNumber})`
       );
       
@@ -229,8 +265,15 @@ export class SteemApiService {
     const retryDelay = 1000; // 1 second
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      // Every attempt goes to the healthiest node that has not failed it yet
+      const nodes = this.getCandidateNodes();
+      const node = nodes[(attempt - 1) % nodes.length];
+      const start = Date.now();
+      let requestSent = false;
+      let nodeAnswered = false;
+
       try {
-        Logger.log(`Broadcasting transaction attempt ${attempt}/${maxRetries}`);
+        Logger.log(`Broadcasting transaction attempt ${attempt}/${maxRetries} on ${node.uri}`);
         
         // Log the actual transaction structure for debugging
         Logger.log('🔍 Raw transaction object structure:', {
@@ -269,16 +312,20 @@ export class SteemApiService {
         });
         
         // Log the exact JSON-RPC call being made
-        const jsonRpcCall = {
+        const rpcPayload = {
           jsonrpc: "2.0",
           method: "condenser_api.broadcast_transaction",
           params: [cleanTransaction],
           id: 1
         };
         
-        Logger.log('📡 Exact JSON-RPC call:', JSON.stringify(jsonRpcCall, null, 2));
+        Logger.log('📡 Exact JSON-RPC call:', JSON.stringify(rpcPayload, null, 2));
         
-        const result = await call('condenser_api.broadcast_transaction', [cleanTransaction]);
+        requestSent = true;
+        const result = await jsonRpcCall(node.uri, 'condenser_api.broadcast_transaction', [cleanTransaction]);
+        // A chain error in the response is not the node's fault
+        nodeAnswered = true;
+        this.pool.recordSuccess(node.uri, Date.now() - start);
         
         // Extract transaction ID from different RPC response formats
         const transactionId = this.extractTransactionId(result, tx);
@@ -290,32 +337,39 @@ export class SteemApiService {
           hasResult: !!result?.result
         });
         
+        // The body also carries the JSON-RPC request id, so only the result is kept
         return {
           id: transactionId,
-          ...result
+          ...(typeof result?.result === 'object' ? result.result : {})
         };
       } catch (error) {
-        Logger.error(`Broadcast attempt ${attempt}/${maxRetries} failed:`, error);
-        
+        Logger.error(`Broadcast attempt ${attempt}/${maxRetries} failed on ${node.uri}:`, error);
+        if (requestSent && !nodeAnswered) {
+          this.pool.recordFailure(node.uri, error);
+        }
+
         if (attempt === maxRetries) {
-          // If this was the last attempt, try switching to a different RPC node
-          if (this.tryNextRpc()) {
-            Logger.log('Switched to next RPC node for final retry');
+          // Last resort: send the transaction as is through another healthy node
+          const fallback = this.getCandidateNodes().find(rpc => rpc.uri !== node.uri);
+          if (fallback) {
+            Logger.log(`Retrying broadcast on ${fallback.uri}`);
+            const fallbackStart = Date.now();
             try {
-              const result = await call('condenser_api.broadcast_transaction', [tx]);
+              const result = await jsonRpcCall(fallback.uri, 'condenser_api.broadcast_transaction', [tx]);
+              this.pool.recordSuccess(fallback.uri, Date.now() - fallbackStart);
               const transactionId = this.extractTransactionId(result, tx);
               return {
                 id: transactionId,
-                ...result
+                ...(typeof result?.result === 'object' ? result.result : {})
               };
             } catch (finalError) {
-              Logger.error('Final broadcast attempt failed after RPC switch:', finalError);
+              Logger.error('Final broadcast attempt failed on fallback node:', finalError);
               throw finalError;
             }
           }
           throw error;
         }
-        
+
         // Wait before retrying
         await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
       }
@@ -376,20 +430,151 @@ export class SteemApiService {
 
   async getChainProperties(): Promise<any> {
     try {
-      return await call('condenser_api.get_chain_properties', []);
+      return await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_chain_properties', []),
+        'getChainProperties'
+      );
     } catch (error) {
       Logger.error('Error getting chain properties', error);
       throw error;
     }
   }
 
+  async findProposals(proposalIds: number[]): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.find_proposals', [proposalIds]),
+        'findProposals'
+      );
+      const proposals = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(proposals) ? proposals : [];
+    } catch (error) {
+      Logger.error('Error finding proposals', error);
+      throw error;
+    }
+  }
+
+  async getCurrentMedianHistoryPrice(): Promise<{ base: string; quote: string }> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_current_median_history_price', []),
+        'getCurrentMedianHistoryPrice'
+      );
+      return response?.result || response;
+    } catch (error) {
+      Logger.error('Error getting median history price', error);
+      throw error;
+    }
+  }
+
+  async getConversionRequests(username: string): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_conversion_requests', [username]),
+        'getConversionRequests'
+      );
+      const requests = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(requests) ? requests : [];
+    } catch (error) {
+      Logger.error('Error getting conversion requests', error);
+      throw error;
+    }
+  }
+
+  async getSavingsWithdrawFrom(username: string): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_savings_withdraw_from', [username]),
+        'getSavingsWithdrawFrom'
+      );
+      const withdrawals = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(withdrawals) ? withdrawals : [];
+    } catch (error) {
+      Logger.error('Error getting savings withdrawals', error);
+      throw error;
+    }
+  }
+
+  async getWithdrawRoutes(username: string): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_withdraw_routes', [username, 'outgoing']),
+        'getWithdrawRoutes'
+      );
+      const routes = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(routes) ? routes : [];
+    } catch (error) {
+      Logger.error('Error getting withdraw routes', error);
+      throw error;
+    }
+  }
+
+  async getOrderBook(limit: number = 50): Promise<any> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_order_book', [limit]),
+        'getOrderBook'
+      );
+      return response?.result || response;
+    } catch (error) {
+      Logger.error('Error getting order book', error);
+      throw error;
+    }
+  }
+
+  async getOpenOrders(username: string): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_open_orders', [username]),
+        'getOpenOrders'
+      );
+      const orders = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(orders) ? orders : [];
+    } catch (error) {
+      Logger.error('Error getting open orders', error);
+      throw error;
+    }
+  }
+
+  async getEscrow(from: string, escrowId: number): Promise<any | null> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_escrow', [from, escrowId]),
+        'getEscrow'
+      );
+      // The node answers null once an escrow is fully released or declined
+      const escrow = response?.jsonrpc ? response.result : response;
+      return escrow || null;
+    } catch (error) {
+      Logger.error('Error getting escrow', error);
+      throw error;
+    }
+  }
+
+  async getWitnessesByVote(from: string = '', limit: number = 100): Promise<any[]> {
+    try {
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_witnesses_by_vote', [from, limit]),
+        'getWitnessesByVote'
+      );
+      const witnesses = Array.isArray(response) ? response : response?.result;
+      return Array.isArray(witnesses) ? witnesses : [];
+    } catch (error) {
+      Logger.error('Error getting witnesses by vote', error);
+      throw error;
+    }
+  }
+
   async getAccountHistory(username: string, start: number, limit: number): Promise<any[]> {
     try {
       // STEEM API has a limit of 100 operations per request
       const cappedLimit = Math.min(limit, 100);
       
       Logger.log(`📊 Getting account history for ${username}, limit: ${cappedLimit}`);
-      const response = await call('condenser_api.get_account_history', [username, start, cappedLimit]);
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_account_history', [username, start, cappedLimit]),
+        `getAccountHistory(${username})`
+      );
       
       // Check for JSON-RPC error first
       if (response?.error) {
@@ -488,7 +673,10 @@ export class SteemApiService {
     try {
       Logger.log(`🔍 Searching for custom_json operations with ID "${customJsonId}" in block: ${blockNumber}`);
       
-      const response = await call('condenser_api.get_ops_in_block', [blockNumber, false]);
+      const response = await this.retryApiCall(
+        async (node) => await this.call(node, 'condenser_api.get_ops_in_block', [blockNumber, false]),
+        `getCustomJsonInBlock(${blockNumber})`
+      );
       
       // Check for JSON-RPC error first
       if (response?.error) {
@@ -626,6 +814,7 @@ export class SteemApiService {
 
   async switchRpc(rpc: Rpc): Promise<void> {
     this.currentRpc = rpc;
+    this.pool.setPreferred(rpc.uri === 'DEFAULT' ? null : rpc);
     this.setRpc(rpc);
   }
 
@@ -633,44 +822,123 @@ export class SteemApiService {
     return this.currentRpc;
   }
 
-  private tryNextRpc(): boolean {
-    const currentIndex = DefaultRpcs.findIndex(rpc => rpc.uri === this.currentRpc.uri);
-    const nextIndex = (currentIndex + 1) % DefaultRpcs.length;
-    
-    // Don't switch to the same RPC
-    if (nextIndex === currentIndex) {
-      return false;
+  /**
+   * Move to another chain: a fresh node pool from the profile, its chain id and
+   * address prefix. Local devnets pass the chain id their node reported.
+   */
+  setNetwork(profile: NetworkProfile, chainId = profile.chainId): void {
+    this.network = profile;
+    this.chainId = chainId;
+    this.pool = new RpcPoolService(profile.rpcs);
+    this.currentRpc = profile.rpcs[0];
+    if (chainId) {
+      SteemTxConfig.chain_id = chainId;
     }
-    
-    const nextRpc = DefaultRpcs[nextIndex];
-    Logger.log(`Switching from ${this.currentRpc.uri} to ${nextRpc.uri}`);
-    this.switchRpc(nextRpc);
-    return true;
+    SteemTxConfig.address_prefix = profile.addressPrefix;
+    this.setRpc(this.currentRpc);
+  }
+
+  getNetwork(): NetworkProfile {
+    return this.network;
+  }
+
+  getChainId(): string | undefined {
+    return this.chainId;
+  }
+
+  getRpcHealth(): RpcHealth[] {
+    return this.pool.getHealth();
+  }
+
+  /**
+   * Ping every node in the pool and refresh their scores
+   */
+  async checkRpcHealth(): Promise<RpcHealth[]> {
+    return this.pool.checkAll();
+  }
+
+  /**
+   * Ping a single node, which does not have to be part of the pool
+   */
+  async testRpc(uri: string): Promise<{ latencyMs: number; headBlock: number }> {
+    return this.pool.probe(uri);
   }
 
+  addRpcNode(rpc: Rpc): void {
+    this.pool.addNode(rpc);
+  }
+
+  removeRpcNode(uri: string): void {
+    this.pool.removeNode(uri);
+  }
+
+  /**
+   * A copy of this service with every call pinned to `rpc`, without failing
+   * over to the pool. Used for requests that name their own node, which has to
+   * serve the chain of the active network; 'DEFAULT' keeps using the pool.
+   */
+  async forRpc(rpc: Rpc | string): Promise<SteemApiService> {
+    const uri = typeof rpc === 'string' ? rpc : rpc?.uri;
+    if (!uri || uri === 'DEFAULT') {
+      return this;
+    }
+    if (!uri.startsWith('https://')) {
+      throw new Error('RPC URL must start with https://');
+    }
+
+    const config = await jsonRpcRequest(uri, 'condenser_api.get_config');
+    const chainId = config?.STEEM_CHAIN_ID ?? config?.STEEMIT_CHAIN_ID;
+    if (!chainId || (this.chainId && chainId !== this.chainId)) {
+      throw new Error(`${uri} does not serve the ${this.network.name} chain`);
+    }
+
+    const pinned = Object.create(SteemApiService.prototype) as SteemApiService;
+    Object.assign(pinned, this, { pinned: { uri } });
+    return pinned;
+  }
+
+  // An empty pool falls back to the network's first node rather than indexing nothing
+  private getCandidateNodes(): Rpc[] {
+    if (this.pinned) {
+      return [this.pinned];
+    }
+    const nodes = this.pool.getRankedNodes();
+    return nodes.length ? nodes : [this.network.rpcs[0]];
+  }
+
+  // One call on `node`, which throws the RPC error instead of returning it
+  private async call(node: Rpc, method: string, params: any): Promise<any> {
+    return await jsonRpcRequest(node.uri, method, params);
+  }
+
+  /**
+   * Run an API call against the healthiest nodes of the pool, moving on to the
+   * next node when one fails. Every outcome feeds back into the node scores.
+   */
   private async retryApiCall<T>(
-    operation: () => Promise<T>,
+    operation: (node: Rpc) => Promise<T>,
     operationName: string,
     maxRetries: number = 2
   ): Promise<T> {
-    const retryDelay = 500; // 500ms
+    const nodes = this.getCandidateNodes();
+    let lastError: unknown;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const node = nodes[(attempt - 1) % nodes.length];
+      const start = Date.now();
+
       try {
-        return await operation();
+        const result = await operation(node);
+        this.pool.recordSuccess(node.uri, Date.now() - start);
+        return result;
       } catch (error) {
-        Logger.error(`${operationName} attempt ${attempt}/${maxRetries} failed:`, error);
-        
-        if (attempt === maxRetries) {
-          throw error;
-        }
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
+        Logger.error(`${operationName} attempt ${attempt}/${maxRetries} failed on ${node.uri}:`, error);
+        this.pool.recordFailure(node.uri, error);
+        lastError = error;
       }
     }
-    
-    throw new Error(`${operationName} failed after ${maxRetries} attempts`);
+
+    throw lastError ?? new Error(`${operationName} failed after ${maxRetries} attempts`);
   }
   
   private validateTransaction(tx: any): { valid: boolean; errors: string[] } {
@@ -0,0 +1,146 @@
+import ky from 'ky';
+import Config from '../../../src/config';
+import Logger from '../../../src/utils/logger.utils';
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { KeychainError } from '../../../src/keychain-error';
+import { SidechainTransaction, Token, TokenBalance } from '../../../src/interfaces/token.interface';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * JSON-RPC client for the Steem-Engine sidechain. Reads go to the node's
+ * `contracts` and `blockchain` endpoints; writes are custom_json operations
+ * broadcast on STEEM and confirmed here by transaction id.
+ */
+export class SteemEngineService {
+  private rpc: string | undefined;
+  private requestId = 1;
+
+  constructor(rpc?: string) {
+    this.rpc = rpc;
+  }
+
+  async getRpc(): Promise<string> {
+    if (!this.rpc) {
+      this.rpc =
+        (await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.STEEM_ENGINE_RPC)) ||
+        Config.steemEngine.rpc;
+    }
+    return this.rpc!;
+  }
+
+  async setRpc(rpc: string): Promise<void> {
+    try {
+      new URL(rpc);
+    } catch {
+      throw new KeychainError('Invalid Steem-Engine RPC URL', ['INVALID_RPC']);
+    }
+    this.rpc = rpc.replace(/\/+$/, '');
+    await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.STEEM_ENGINE_RPC, this.rpc);
+  }
+
+  async getBalances(account: string): Promise<TokenBalance[]> {
+    const balances = await this.find('tokens', 'balances', { account });
+    return balances.map((balance: any) => ({
+      account: balance.account,
+      symbol: balance.symbol,
+      balance: balance.balance,
+      stake: balance.stake || '0',
+      pendingUnstake: balance.pendingUnstake || '0',
+      delegationsIn: balance.delegationsIn || '0',
+      delegationsOut: balance.delegationsOut || '0',
+      pendingUndelegations: balance.pendingUndelegations || '0',
+    }));
+  }
+
+  async getBalance(account: string, symbol: string): Promise<TokenBalance | undefined> {
+    return (await this.getBalances(account)).find((balance) => balance.symbol === symbol);
+  }
+
+  async getToken(symbol: string): Promise<Token | null> {
+    const token = await this.findOne('tokens', 'tokens', { symbol });
+    if (!token) return null;
+    return {
+      symbol: token.symbol,
+      name: token.name,
+      precision: token.precision,
+      stakingEnabled: !!token.stakingEnabled,
+      delegationEnabled: !!token.delegationEnabled,
+    };
+  }
+
+  async getTransactionInfo(transactionId: string): Promise<SidechainTransaction | null> {
+    const info = await this.call('blockchain', 'getTransactionInfo', { txid: transactionId });
+    if (!info) return null;
+
+    let logs: SidechainTransaction['logs'] = {};
+    try {
+      logs = typeof info.logs === 'string' ? JSON.parse(info.logs) : info.logs || {};
+    } catch {
+      Logger.warn('Unreadable sidechain logs for', transactionId);
+    }
+
+    return {
+      transactionId: info.transactionId,
+      blockNumber: info.blockNumber,
+      contract: info.contract,
+      action: info.action,
+      logs,
+    };
+  }
+
+  /**
+   * Poll the sidechain until it has processed `transactionId`. Resolves with the
+   * transaction, rejects if the sidechain reported errors or never picked it up.
+   */
+  async confirmTransaction(
+    transactionId: string,
+    attempts: number = Config.steemEngine.confirmationAttempts,
+    intervalInMs: number = Config.steemEngine.confirmationIntervalInMs
+  ): Promise<SidechainTransaction> {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const transaction = await this.getTransactionInfo(transactionId);
+      if (transaction) {
+        if (transaction.logs.errors?.length) {
+          throw new KeychainError(transaction.logs.errors[0], ['SIDECHAIN_ERROR']);
+        }
+        return transaction;
+      }
+      await wait(intervalInMs);
+    }
+    throw new KeychainError('Sidechain did not confirm the transaction in time', ['SIDECHAIN_TIMEOUT']);
+  }
+
+  private async find(contract: string, table: string, query: Record<string, any>, limit = 1000): Promise<any[]> {
+    return (await this.call('contracts', 'find', { contract, table, query, limit, offset: 0, indexes: [] })) || [];
+  }
+
+  private async findOne(contract: string, table: string, query: Record<string, any>): Promise<any> {
+    return this.call('contracts', 'findOne', { contract, table, query });
+  }
+
+  private async call(endpoint: 'contracts' | 'blockchain', method: string, params: Record<string, any>): Promise<any> {
+    const rpc = await this.getRpc();
+    try {
+      const response: any = await ky
+        .post(`${rpc}/${endpoint}`, {
+          json: { jsonrpc: '2.0', id: this.requestId++, method, params },
+          timeout: Config.rpc.defaultTimeout * 5,
+          retry: 1,
+        })
+        .json();
+
+      if (response?.error) {
+        throw new Error(response.error.message || 'Sidechain RPC error');
+      }
+      return response?.result ?? null;
+    } catch (error) {
+      Logger.error(`Steem-Engine ${method} failed:`, error);
+      throw new KeychainError(
+        `Steem-Engine RPC error: ${error instanceof Error ? error.message : 'unknown error'}`,
+        ['SIDECHAIN_RPC']
+      );
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Operation, Transaction } from "@steempro/dsteem";
+import { Authority, Operation, Transaction } from "@steempro/dsteem";
 import {
   PrivateKey,
   Transaction as SteemTransaction,
@@ -8,18 +8,46 @@ import {
   TransactionOptions,
 } from "../../../src/interfaces/keys.interface";
 import { TransactionResult } from "../../../src/interfaces/steem-tx.interface";
+import {
+  MultisigProgress,
+  MultisigRole,
+  PendingMultisigTransaction,
+} from "../../../src/interfaces/multisig.interface";
+import {
+  RcEstimate,
+  RequiredAuthority,
+  SimulationIssue,
+  TransactionSimulation,
+} from "../../../src/interfaces/simulation.interface";
 import { SteemApiService } from "./steem-api.service";
 import { KeyManagementService } from "./key-management.service";
+import { MultisigService } from "./multisig.service";
+import { AccountClaimService } from "./account-claim.service";
+import { SettingsService, settingsService } from "./settings.service";
 import Logger from "../../../src/utils/logger.utils";
 import MkUtils from "../utils/mk.utils";
+import SimulationUtils from "../utils/simulation.utils";
+import Config from "../../../src/config";
 
 const MINUTE = 60;
 
 export class TransactionService {
+  private multisig: MultisigService;
+
   constructor(
     private steemApi: SteemApiService,
     private keyManager: KeyManagementService,
-  ) {}
+    private settings: SettingsService = settingsService,
+  ) {
+    this.multisig = new MultisigService(steemApi);
+  }
+
+  /**
+   * The same service reading and broadcasting through `steemApi`
+   */
+  withSteemApi(steemApi: SteemApiService): TransactionService {
+    return new TransactionService(steemApi, this.keyManager, this.settings);
+  }
 
   /**
    * Send operations to the blockchain
@@ -59,8 +87,37 @@ export class TransactionService {
         headBlockId,
       );
 
-      // Create transaction
-      const expireTime = options?.expire || 1 * MINUTE;
+      // Handle Master Key encryption if needed
+      let signingKey = key.value;
+      if (MkUtils.isMK(key.value)) {
+        signingKey = MkUtils.getDecrypted(key.value);
+      }
+
+      // Keys below the authority threshold start a multisig flow instead of broadcasting
+      const multisigContext = await this.detectMultisig(
+        operations,
+        signingKey,
+        key.type,
+      );
+      if (multisigContext) {
+        const expiration = new Date(
+          Date.now() +
+            Config.transactions.multisigExpirationTimeInMinutes * MINUTE * 1000,
+        )
+          .toISOString()
+          .split(".")[0];
+        const progress = await this.multisig.create(
+          { ...refBlockData, expiration, operations, extensions: [] },
+          signingKey,
+          multisigContext,
+        );
+        return this.toMultisigResult(progress);
+      }
+
+      // Create transaction, the request's own expiration and confirmation win over the settings
+      const { transactionExpirationMinutes, waitForConfirmation } =
+        await this.settings.getSettings();
+      const expireTime = options?.expire || transactionExpirationMinutes * MINUTE;
       const expirationDate = new Date(Date.now() + expireTime * 1000);
       const expiration = expirationDate.toISOString().split(".")[0]; // Remove milliseconds
 
@@ -78,12 +135,6 @@ export class TransactionService {
         extensions: [],
       });
 
-      // Handle Master Key encryption if needed
-      let signingKey = key.value;
-      if (MkUtils.isMK(key.value)) {
-        signingKey = MkUtils.getDecrypted(key.value);
-      }
-
       // Sign transaction
       const privateKey = PrivateKey.fromString(signingKey);
       tx.sign(privateKey);
@@ -124,7 +175,7 @@ export class TransactionService {
         operations: operations.length,
       });
 
-      if (confirmation && result) {
+      if ((confirmation ?? waitForConfirmation) && result) {
         // Wait for confirmation if requested
         await this.waitForConfirmation(result.id);
       }
@@ -144,6 +195,73 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Dry run of `operations` signed with `key`: checks the operation fields, the
+   * signing key against the accounts' on-chain authorities, liquid balances for
+   * what the operations spend and the RC the broadcast would cost. Nothing is
+   * signed or broadcast.
+   */
+  async simulateTransaction(
+    operations: Operation[],
+    key: Key,
+  ): Promise<TransactionSimulation> {
+    const issues = SimulationUtils.validateOperations(operations);
+    // Malformed operations are rejected before authorities or balances matter
+    if (issues.some(({ severity }) => severity === "error")) {
+      return SimulationUtils.toSimulation(issues);
+    }
+
+    const required = SimulationUtils.getRequiredAuthorities(operations);
+    const spending = SimulationUtils.getSpending(operations);
+    const names = [
+      ...new Set([
+        ...required.map(({ account }) => account),
+        ...Object.keys(spending),
+      ]),
+    ];
+    const accounts = new Map<string, any>();
+    for (const name of names) {
+      const [account] = await this.steemApi.getAccount(name);
+      if (account) accounts.set(name, account);
+    }
+
+    const signingKey = MkUtils.isMK(key.value)
+      ? MkUtils.getDecrypted(key.value)
+      : key.value;
+    const publicKey =
+      this.keyManager.getPublicKeyFromPrivateKeyString(signingKey);
+
+    issues.push(
+      ...SimulationUtils.checkAuthorityMix(required),
+      ...this.checkAuthorities(required, accounts, publicKey),
+      ...SimulationUtils.checkBalances(spending, accounts),
+    );
+
+    let rc: RcEstimate | undefined;
+    if (required.length && accounts.has(required[0].account)) {
+      const estimate = await this.estimateRc(operations, required[0].account);
+      rc = estimate.rc;
+      issues.push(...estimate.issues);
+    }
+
+    return SimulationUtils.toSimulation(issues, rc);
+  }
+
+  /**
+   * Dry run of the custom JSON operation broadcastCustomJson would send
+   */
+  async simulateCustomJson(
+    id: string,
+    json: any,
+    account: string,
+    key: Key,
+  ): Promise<TransactionSimulation> {
+    return this.simulateTransaction(
+      [this.toCustomJsonOperation(id, json, account, key)],
+      key,
+    );
+  }
+
   /**
    * Broadcast a custom JSON operation
    */
@@ -154,17 +272,10 @@ export class TransactionService {
     key: Key,
     displayName?: string,
   ): Promise<TransactionResult | null> {
-    const operation: Operation = [
-      "custom_json",
-      {
-        required_auths: key.type === "active" ? [account] : [],
-        required_posting_auths: key.type === "posting" ? [account] : [],
-        id,
-        json: JSON.stringify(json),
-      },
-    ];
-
-    return this.sendOperation([operation], key);
+    return this.sendOperation(
+      [this.toCustomJsonOperation(id, json, account, key)],
+      key,
+    );
   }
 
   /**
@@ -275,6 +386,211 @@ export class TransactionService {
     return this.sendOperation([operation], key);
   }
 
+  /**
+   * Partially signed transactions waiting for co-signers
+   */
+  async getPendingMultisigTransactions(): Promise<PendingMultisigTransaction[]> {
+    return this.multisig.getPending();
+  }
+
+  /**
+   * Serialize a partially signed transaction so a co-signer can import it
+   */
+  async exportMultisigTransaction(id: string): Promise<string> {
+    return this.multisig.export(id);
+  }
+
+  /**
+   * Merge a co-signer's partially signed transaction, broadcasting once the
+   * authority threshold is met
+   */
+  async importMultisigTransaction(json: string): Promise<TransactionResult> {
+    return this.toMultisigResult(await this.multisig.import(json));
+  }
+
+  /**
+   * Add a signature from a key held in this keychain
+   */
+  async signMultisigTransaction(
+    id: string,
+    key: Key,
+  ): Promise<TransactionResult> {
+    const signingKey = MkUtils.isMK(key.value)
+      ? MkUtils.getDecrypted(key.value)
+      : key.value;
+    return this.toMultisigResult(await this.multisig.sign(id, signingKey));
+  }
+
+  async discardMultisigTransaction(id: string): Promise<void> {
+    await this.multisig.remove(id);
+  }
+
+  private async detectMultisig(
+    operations: Operation[],
+    signingKey: string,
+    keyType: Key["type"],
+  ) {
+    if (keyType === "memo") return null;
+    try {
+      return await this.multisig.detect(
+        operations,
+        signingKey,
+        keyType as MultisigRole,
+      );
+    } catch (error) {
+      // Detection is best effort; a failed lookup falls back to a normal broadcast
+      Logger.warn("Multisig detection failed:", error);
+      return null;
+    }
+  }
+
+  private toCustomJsonOperation(
+    id: string,
+    json: any,
+    account: string,
+    key: Key,
+  ): Operation {
+    return [
+      "custom_json",
+      {
+        required_auths: key.type === "active" ? [account] : [],
+        required_posting_auths: key.type === "posting" ? [account] : [],
+        id,
+        json: JSON.stringify(json),
+      },
+    ];
+  }
+
+  private checkAuthorities(
+    required: RequiredAuthority[],
+    accounts: Map<string, any>,
+    publicKey: string | null,
+  ): SimulationIssue[] {
+    const issues: SimulationIssue[] = [];
+
+    for (const { account: name, role } of required) {
+      const account = accounts.get(name);
+      if (!account) {
+        issues.push(
+          SimulationUtils.issue(
+            `@${name}`,
+            "account",
+            `Account @${name} does not exist`,
+          ),
+        );
+        continue;
+      }
+      if (!publicKey) {
+        issues.push(
+          SimulationUtils.issue(
+            `@${name} ${role}`,
+            "authority",
+            "The signing key is not a valid private key",
+          ),
+        );
+        continue;
+      }
+
+      const satisfied = SimulationUtils.getSatisfyingRoles(role).some(
+        (level) => {
+          const authority = account[level] as Authority;
+          return this.keyManager.hasRequiredAuthority(
+            publicKey,
+            authority.weight_threshold,
+            authority,
+          );
+        },
+      );
+      if (satisfied) continue;
+
+      const authority = account[role] as Authority;
+      const weight = this.keyManager.getPubkeyWeight(publicKey, authority);
+      if (weight > 0) {
+        // sendOperation turns this into a multisig transaction
+        issues.push(
+          SimulationUtils.issue(
+            `@${name} ${role}`,
+            "authority",
+            `The key carries ${weight} of the ${authority.weight_threshold} weight @${name}'s ${role} authority needs, co-signers must add the rest`,
+            "warning",
+          ),
+        );
+      } else if (authority.account_auths.length) {
+        issues.push(
+          SimulationUtils.issue(
+            `@${name} ${role}`,
+            "authority",
+            `The key is not listed on @${name}'s ${role} authority and can only sign through an authorized account`,
+            "warning",
+          ),
+        );
+      } else {
+        issues.push(
+          SimulationUtils.issue(
+            `@${name} ${role}`,
+            "authority",
+            `The key cannot sign with @${name}'s ${role} authority`,
+          ),
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  // RC is billed to the first signing account
+  private async estimateRc(
+    operations: Operation[],
+    username: string,
+  ): Promise<{ rc?: RcEstimate; issues: SimulationIssue[] }> {
+    try {
+      const [rcAccount, resourceParams, resourcePool, props] =
+        await Promise.all([
+          this.steemApi.getAccountRC(username),
+          this.steemApi.getResourceParams(),
+          this.steemApi.getResourcePool(),
+          this.steemApi.getDynamicGlobalProperties(),
+        ]);
+      const cost = SimulationUtils.estimateRcCost(
+        operations,
+        resourceParams,
+        resourcePool,
+        String(props.total_vesting_shares),
+      );
+      const { currentMana } = AccountClaimService.getCurrentMana(rcAccount);
+      return SimulationUtils.checkRc(username, cost, currentMana);
+    } catch (error) {
+      // The estimate is advisory; a failed lookup shouldn't hide the other checks
+      Logger.warn("RC estimate failed:", error);
+      return {
+        issues: [
+          SimulationUtils.issue(
+            `@${username} RC`,
+            "rc",
+            "The RC cost could not be estimated",
+            "warning",
+          ),
+        ],
+      };
+    }
+  }
+
+  private toMultisigResult(progress: MultisigProgress): TransactionResult {
+    const { transaction, broadcastResult } = progress;
+    return {
+      success: true,
+      result: {
+        ...broadcastResult,
+        tx_id: transaction.id,
+        isUsingMultisig: true,
+        status: broadcastResult ? "broadcast" : "pending_signatures",
+        signedWeight: transaction.signedWeight,
+        threshold: transaction.threshold,
+      },
+      transaction: transaction.transaction,
+    };
+  }
+
   /**
    * Wait for transaction confirmation
    */
@@ -19,6 +19,21 @@ export interface AuthorityObject {
   key_auths: Array<[string, number]>;
 }
 
+export interface AuthorityDiffEntry {
+  type: 'account' | 'key';
+  name: string;
+  before?: number; // weight before the change, undefined when added
+  after?: number; // weight after the change, undefined when removed
+}
+
+export interface AuthorityChangePreview {
+  account: string;
+  role: string;
+  before: AuthorityObject | string; // memo changes carry the memo key itself
+  after: AuthorityObject | string;
+  changes: AuthorityDiffEntry[];
+}
+
 export interface AccountKeys {
   active?: string;
   posting?: string;
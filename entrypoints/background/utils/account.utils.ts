@@ -16,9 +16,10 @@ import LocalStorageUtils from '../../../src/utils/localStorage.utils';
 import Logger from '../../../src/utils/logger.utils';
 import EncryptUtils from './encrypt.utils';
 import { KeysUtils } from './keys.utils';
-import MkUtils from './mk.utils';
+import NetworkUtils from './network.utils';
 import { SteemTxUtils } from './steem-tx.utils';
 import Config from '../../../src/config';
+import { vaultSession } from '../lib/vault-session';
 
 export enum AccountErrorMessages {
   INCORRECT_KEY = 'popup_accounts_incorrect_key',
@@ -74,7 +75,7 @@ const verifyAccount = async (
   password: string,
   existingAccounts: LocalAccount[],
 ): Promise<Keys | null> => {
-  if (password.startsWith('STM')) {
+  if (NetworkUtils.isPublicKeyFormat(password)) {
     throw new Error(AccountErrorMessages.PASSWORD_IS_PUBLIC_KEY);
   }
 
@@ -100,7 +101,8 @@ const saveAccounts = async (localAccounts: LocalAccount[], mk: string) => {
 const getAccountFromLocalStorage = async (
   username: string,
 ): Promise<LocalAccount | undefined> => {
-  const mk = await MkUtils.getMkFromLocalStorage();
+  const mk = await vaultSession.getVaultKey();
+  if (!mk) return undefined;
   const accounts = await getAccountsFromLocalStorage(mk);
   return accounts.find((acc) => acc.name === username);
 };
@@ -247,7 +249,7 @@ const addKey = async (
     throw new Error(AccountErrorMessages.MISSING_FIELDS);
   }
 
-  if (privateKey.startsWith('STM')) {
+  if (NetworkUtils.isPublicKeyFormat(privateKey)) {
     throw new Error(AccountErrorMessages.PASSWORD_IS_PUBLIC_KEY);
   }
   const keys = await AccountUtils.getKeys(activeAccount.name!, privateKey);
@@ -509,9 +511,8 @@ const getUpdateAccountTransaction = (
 };
 
 const addAccount = async (username: string, keys: Keys) => {
-  const mk = await LocalStorageUtils.getValueFromSessionStorage(
-    LocalStorageKeyEnum.__MK,
-  );
+  const mk = await vaultSession.getVaultKey();
+  if (!mk) throw new KeychainError('Keychain is locked');
 
   const localAccounts = await AccountUtils.getAccountsFromLocalStorage(mk);
   localAccounts.push({ name: username, keys: keys });
@@ -519,9 +520,8 @@ const addAccount = async (username: string, keys: Keys) => {
 };
 
 const addMultipleAccounts = async (localAccounts: LocalAccount[]) => {
-  const mk = await LocalStorageUtils.getValueFromSessionStorage(
-    LocalStorageKeyEnum.__MK,
-  );
+  const mk = await vaultSession.getVaultKey();
+  if (!mk) throw new KeychainError('Keychain is locked');
 
   let savedAccounts = await AccountUtils.getAccountsFromLocalStorage(mk);
   if (!savedAccounts) savedAccounts = [];
@@ -0,0 +1,125 @@
+import { PublicKey } from '@steempro/dsteem';
+import { KeychainError } from '../../../src/keychain-error';
+import { AuthorityDiffEntry, AuthorityObject } from '../services/types/keychain-api.types';
+
+// authority weights are uint16 on chain
+const MAX_WEIGHT = 65535;
+
+const isValidPublicKey = (key: string): boolean => {
+  try {
+    PublicKey.fromString(key);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const validateWeight = (weight: number): void => {
+  if (!Number.isInteger(weight) || weight < 1 || weight > MAX_WEIGHT) {
+    throw new KeychainError(`Invalid weight: ${weight}. Must be an integer between 1 and ${MAX_WEIGHT}`, [
+      'INVALID_WEIGHT',
+    ]);
+  }
+};
+
+/**
+ * Copy an on-chain authority into plain arrays (key_auths may hold PublicKey objects)
+ */
+const normalize = (authority: any): AuthorityObject => ({
+  weight_threshold: authority.weight_threshold,
+  account_auths: authority.account_auths.map(([name, weight]: [string, number]) => [name, weight]),
+  key_auths: authority.key_auths.map(([key, weight]: [any, number]) => [key.toString(), weight]),
+});
+
+// The chain stores auths in flat_maps, so the serialized order must match its sort
+// or the signature won't verify: names by byte order, keys by compressed key bytes
+const sort = (authority: AuthorityObject): AuthorityObject => ({
+  ...authority,
+  account_auths: [...authority.account_auths].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  key_auths: [...authority.key_auths].sort(([a], [b]) =>
+    Buffer.compare(PublicKey.fromString(a).key, PublicKey.fromString(b).key)
+  ),
+});
+
+const upsert = (entries: Array<[string, number]>, name: string, weight: number): Array<[string, number]> => [
+  ...entries.filter(([existing]) => existing !== name),
+  [name, weight],
+];
+
+const addAccountAuth = (authority: AuthorityObject, username: string, weight: number): AuthorityObject => {
+  validateWeight(weight);
+  const current = normalize(authority);
+  return sort({ ...current, account_auths: upsert(current.account_auths, username, weight) });
+};
+
+const removeAccountAuth = (authority: AuthorityObject, username: string): AuthorityObject => {
+  const current = normalize(authority);
+  if (!current.account_auths.some(([name]) => name === username)) {
+    throw new KeychainError(`@${username} is not part of this authority`, ['AUTHORITY_NOT_FOUND']);
+  }
+  return sort({ ...current, account_auths: current.account_auths.filter(([name]) => name !== username) });
+};
+
+const addKeyAuth = (authority: AuthorityObject, key: string, weight: number): AuthorityObject => {
+  validateWeight(weight);
+  const current = normalize(authority);
+  return sort({ ...current, key_auths: upsert(current.key_auths, key, weight) });
+};
+
+const removeKeyAuth = (authority: AuthorityObject, key: string): AuthorityObject => {
+  const current = normalize(authority);
+  if (!current.key_auths.some(([existing]) => existing === key)) {
+    throw new KeychainError(`${key} is not part of this authority`, ['AUTHORITY_NOT_FOUND']);
+  }
+  return sort({ ...current, key_auths: current.key_auths.filter(([existing]) => existing !== key) });
+};
+
+/**
+ * Whether the listed keys and accounts can still reach the threshold together
+ */
+const isReachable = (authority: AuthorityObject): boolean => {
+  const total = [...authority.account_auths, ...authority.key_auths].reduce((sum, [, weight]) => sum + weight, 0);
+  return total >= authority.weight_threshold;
+};
+
+const diff = (before: AuthorityObject, after: AuthorityObject): AuthorityDiffEntry[] => {
+  const compare = (type: AuthorityDiffEntry['type'], a: Array<[string, number]>, b: Array<[string, number]>) => {
+    const beforeMap = new Map(a);
+    const afterMap = new Map(b);
+    const names = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()]));
+    return names
+      .filter((name) => beforeMap.get(name) !== afterMap.get(name))
+      .map((name) => ({ type, name, before: beforeMap.get(name), after: afterMap.get(name) }));
+  };
+
+  const current = normalize(before);
+  return [
+    ...compare('account', current.account_auths, after.account_auths),
+    ...compare('key', current.key_auths, after.key_auths),
+  ];
+};
+
+/**
+ * account_update replaces every field it carries, so the memo key and metadata
+ * are always copied from the current account alongside the changed role
+ */
+const toAccountUpdate = (account: any, changes: Record<string, AuthorityObject | string>) => ({
+  account: account.name,
+  memo_key: account.memo_key,
+  json_metadata: account.json_metadata || '',
+  ...changes,
+});
+
+const AuthorityUtils = {
+  isValidPublicKey,
+  normalize,
+  addAccountAuth,
+  removeAccountAuth,
+  addKeyAuth,
+  removeKeyAuth,
+  isReachable,
+  diff,
+  toAccountUpdate,
+};
+
+export default AuthorityUtils;
@@ -1,13 +1,98 @@
 import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { scrypt } from '@noble/hashes/scrypt';
+import { argon2id } from '@noble/hashes/argon2';
 import { sha256 } from '@noble/hashes/sha256';
 import { gcm } from '@noble/ciphers/aes';
-import { randomBytes } from '@noble/hashes/utils';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/hashes/utils';
+import Config from '../../../src/config';
+import { KdfName, KdfParams, VaultEnvelope, VaultKeyParams } from '../../../src/interfaces/vault.interface';
 import Logger from '../../../src/utils/logger.utils';
 
 const KEY_SIZE = 256;
-const ITERATIONS = 100;
-const SALT_SIZE = 16;
-const IV_SIZE = 16;
+const VAULT_VERSION = 2;
+const CIPHER = 'aes-256-gcm';
+const SALT_SIZE = 32;
+const NONCE_SIZE = 12;
+
+// Version 1 vaults are a bare hex string: salt, iv and ciphertext keyed with 100 PBKDF2 rounds
+const LEGACY_ITERATIONS = 100;
+const LEGACY_SALT_SIZE = 16;
+const LEGACY_IV_SIZE = 16;
+
+// Accounts are decrypted on most requests, so keys derived with a slow KDF are
+// kept for the few salts in use rather than derived again on every read
+const MAX_CACHED_KEYS = 4;
+const derivedKeys = new Map<string, Uint8Array>();
+
+const getDefaultKdf = (): KdfParams => {
+  const { KDF, PBKDF2_ITERATIONS, SCRYPT, ARGON2ID } = Config.vault;
+  switch (KDF as KdfName) {
+    case 'pbkdf2':
+      return { name: 'pbkdf2', hash: 'sha256', iterations: PBKDF2_ITERATIONS };
+    case 'argon2id':
+      return { name: 'argon2id', ...ARGON2ID };
+    default:
+      return { name: 'scrypt', ...SCRYPT };
+  }
+};
+
+const deriveKey = (password: string, salt: Uint8Array, kdf: KdfParams): Uint8Array => {
+  const passwordBytes = new TextEncoder().encode(password);
+  const cacheKey = `${JSON.stringify(kdf)}:${bytesToHex(salt)}:${bytesToHex(sha256(passwordBytes))}`;
+  const cached = derivedKeys.get(cacheKey);
+  if (cached) return cached;
+
+  const dkLen = KEY_SIZE / 8;
+  let key: Uint8Array;
+  switch (kdf.name) {
+    case 'pbkdf2':
+      key = pbkdf2(sha256, passwordBytes, salt, { c: kdf.iterations, dkLen });
+      break;
+    case 'scrypt':
+      key = scrypt(passwordBytes, salt, { N: kdf.N, r: kdf.r, p: kdf.p, dkLen });
+      break;
+    case 'argon2id':
+      key = argon2id(passwordBytes, salt, { t: kdf.t, m: kdf.m, p: kdf.p, dkLen });
+      break;
+    default:
+      throw new Error(`Unsupported KDF: ${(kdf as any).name}`);
+  }
+
+  if (derivedKeys.size >= MAX_CACHED_KEYS) {
+    derivedKeys.delete(derivedKeys.keys().next().value!);
+  }
+  derivedKeys.set(cacheKey, key);
+  return key;
+};
+
+/**
+ * Forget derived keys, e.g. when the keychain locks
+ */
+const clearKeyCache = (): void => {
+  derivedKeys.clear();
+};
+
+/**
+ * Fresh parameters for deriving a vault key, e.g. when the password is set or changed
+ */
+const createVaultKeyParams = (): VaultKeyParams => ({
+  salt: bytesToHex(randomBytes(SALT_SIZE)),
+  kdf: getDefaultKdf(),
+});
+
+/**
+ * Derive the key the vaults are encrypted with from the keychain password,
+ * so that only the key and never the password has to be kept while unlocked
+ */
+const deriveVaultKey = (password: string, params: VaultKeyParams): string => {
+  return bytesToHex(deriveKey(password, hexToBytes(params.salt), params.kdf));
+};
+
+const parseEnvelope = (message: string): VaultEnvelope | null => {
+  if (typeof message !== 'string' || !message.startsWith('{')) return null;
+  const envelope = JSON.parse(message);
+  return envelope?.version && envelope?.kdf ? (envelope as VaultEnvelope) : null;
+};
 
 const encryptJson = (content: any, encryptPassword: string): string => {
   // Add hash for integrity check
@@ -16,51 +101,50 @@ const encryptJson = (content: any, encryptPassword: string): string => {
   return msg;
 };
 
-const encrypt = (content: string, encryptPassword: string): string => {
+/**
+ * Encrypt into a self-describing vault envelope (JSON), keyed with `kdf` or the configured KDF
+ */
+const encrypt = (content: string, encryptPassword: string, kdf: KdfParams = getDefaultKdf()): string => {
   const salt = randomBytes(SALT_SIZE);
-  const key = pbkdf2(sha256, new TextEncoder().encode(encryptPassword), salt, {
-    c: ITERATIONS,
-    dkLen: KEY_SIZE / 8,
-  });
-
-  const iv = randomBytes(IV_SIZE);
-  const cipher = gcm(key, iv);
-  const encrypted = cipher.encrypt(new TextEncoder().encode(content));
-
-  // Combine salt, iv, and encrypted data
-  const combined = new Uint8Array(salt.length + iv.length + encrypted.length);
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(encrypted, salt.length + iv.length);
-
-  // Convert to hex string
-  return Array.from(combined)
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
+  const nonce = randomBytes(NONCE_SIZE);
+  const key = deriveKey(encryptPassword, salt, kdf);
+  const encrypted = gcm(key, nonce).encrypt(new TextEncoder().encode(content));
+
+  const envelope: VaultEnvelope = {
+    version: VAULT_VERSION,
+    kdf,
+    cipher: CIPHER,
+    salt: bytesToHex(salt),
+    nonce: bytesToHex(nonce),
+    data: bytesToHex(encrypted),
+  };
+  return JSON.stringify(envelope);
 };
 
+const decryptLegacy = (transitmessage: string, pass: string): Uint8Array => {
+  const bytes = hexToBytes(transitmessage);
+  const salt = bytes.slice(0, LEGACY_SALT_SIZE);
+  const iv = bytes.slice(LEGACY_SALT_SIZE, LEGACY_SALT_SIZE + LEGACY_IV_SIZE);
+  const encrypted = bytes.slice(LEGACY_SALT_SIZE + LEGACY_IV_SIZE);
+  const key = deriveKey(pass, salt, { name: 'pbkdf2', hash: 'sha256', iterations: LEGACY_ITERATIONS });
+  return gcm(key, iv).decrypt(encrypted);
+};
+
+/**
+ * Decrypt a vault envelope, or a version 1 hex vault
+ */
 const decrypt = (transitmessage: string, pass: string): string => {
   try {
-    // Convert hex string back to bytes
-    const bytes = new Uint8Array(
-      transitmessage.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-    );
-
-    // Extract salt, iv, and encrypted data
-    const salt = bytes.slice(0, SALT_SIZE);
-    const iv = bytes.slice(SALT_SIZE, SALT_SIZE + IV_SIZE);
-    const encrypted = bytes.slice(SALT_SIZE + IV_SIZE);
-
-    // Derive key
-    const key = pbkdf2(sha256, new TextEncoder().encode(pass), salt, {
-      c: ITERATIONS,
-      dkLen: KEY_SIZE / 8,
-    });
-
-    // Decrypt
-    const cipher = gcm(key, iv);
-    const decrypted = cipher.decrypt(encrypted);
+    const envelope = parseEnvelope(transitmessage);
+    if (!envelope) {
+      return new TextDecoder().decode(decryptLegacy(transitmessage, pass));
+    }
+    if (envelope.cipher !== CIPHER) {
+      throw new Error(`Unsupported cipher: ${envelope.cipher}`);
+    }
 
+    const key = deriveKey(pass, hexToBytes(envelope.salt), envelope.kdf);
+    const decrypted = gcm(key, hexToBytes(envelope.nonce)).decrypt(hexToBytes(envelope.data));
     return new TextDecoder().decode(decrypted);
   } catch (e) {
     Logger.error('Error while decrypting', e);
@@ -68,6 +152,23 @@ const decrypt = (transitmessage: string, pass: string): string => {
   }
 };
 
+/**
+ * Whether a vault predates the envelope or uses other KDF settings than the configured ones
+ */
+const needsUpgrade = (message: string): boolean => {
+  try {
+    const envelope = parseEnvelope(message);
+    if (!envelope || envelope.version < VAULT_VERSION) return true;
+    const current = getDefaultKdf();
+    return (
+      Object.keys(envelope.kdf).length !== Object.keys(current).length ||
+      Object.entries(current).some(([param, value]) => (envelope.kdf as any)[param] !== value)
+    );
+  } catch {
+    return true;
+  }
+};
+
 const decryptToJsonWithoutMD5Check = (msg: string, pwd: string) => {
   try {
     const decrypted = decrypt(msg, pwd);
@@ -107,6 +208,11 @@ const EncryptUtils = {
   decryptToJson,
   decryptToJsonWithoutMD5Check,
   decrypt,
+  needsUpgrade,
+  getDefaultKdf,
+  clearKeyCache,
+  createVaultKeyParams,
+  deriveVaultKey,
 };
 
-export default EncryptUtils;
\ No newline at end of file
+export default EncryptUtils;
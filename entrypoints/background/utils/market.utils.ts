@@ -0,0 +1,115 @@
+import Config from '../../../src/config';
+import { KeychainError } from '../../../src/keychain-error';
+import { LimitOrderEstimate, MarketAsset, OrderBook, OrderBookEntry } from '../../../src/interfaces/market.interface';
+
+const ASSET_PATTERN = /^(\d+\.\d{3}) (STEEM|SBD)$/;
+
+const parseAsset = (asset: string): { amount: number; symbol: MarketAsset } => {
+  const match = ASSET_PATTERN.exec(String(asset || '').trim());
+  if (!match || Number(match[1]) <= 0) {
+    throw new KeychainError(`Invalid amount: ${asset}. Use 3 decimals and STEEM or SBD, e.g. 1.000 STEEM`, [
+      'INVALID_AMOUNT',
+    ]);
+  }
+  return { amount: Number(match[1]), symbol: match[2] as MarketAsset };
+};
+
+// condenser_api.get_order_book reports amounts in thousandths
+const toEntry = (order: any): OrderBookEntry => ({
+  price: Number(order.real_price),
+  steem: Number(order.steem) / 1000,
+  sbd: Number(order.sbd) / 1000,
+});
+
+const toOrderBook = (book: any): OrderBook => ({
+  bids: (book?.bids || []).map(toEntry),
+  asks: (book?.asks || []).map(toEntry),
+});
+
+/**
+ * Simulate how much of an order fills against the current book. Orders match
+ * at the resting orders' prices, so the average price moves away from the best
+ * price as deeper levels are consumed.
+ */
+const estimateLimitOrder = (sell: string, receive: string, book: OrderBook): LimitOrderEstimate => {
+  const sold = parseAsset(sell);
+  const received = parseAsset(receive);
+  if (sold.symbol === received.symbol) {
+    throw new KeychainError('An order must trade STEEM against SBD', ['INVALID_MARKET']);
+  }
+
+  const side = sold.symbol === 'STEEM' ? 'sell' : 'buy';
+  const steemAmount = side === 'sell' ? sold.amount : received.amount;
+  const limitPrice = side === 'sell' ? received.amount / sold.amount : sold.amount / received.amount;
+  const levels = side === 'sell' ? book.bids : book.asks;
+  const crosses = (price: number) => (side === 'sell' ? price >= limitPrice : price <= limitPrice);
+
+  let filledSteem = 0;
+  let filledSbd = 0;
+  // Buy orders are capped by the SBD they spend, sell orders by the STEEM they sell
+  for (const level of levels) {
+    if (!crosses(level.price)) break;
+    const remainingSteem =
+      side === 'sell' ? steemAmount - filledSteem : (sold.amount - filledSbd) / level.price;
+    if (remainingSteem <= 0) break;
+    const steem = Math.min(level.steem, remainingSteem);
+    filledSteem += steem;
+    filledSbd += steem * level.price;
+  }
+
+  const bestPrice = levels.length ? levels[0].price : null;
+  const averagePrice = filledSteem > 0 ? filledSbd / filledSteem : null;
+  const priceImpactPct =
+    bestPrice && averagePrice ? +((Math.abs(bestPrice - averagePrice) / bestPrice) * 100).toFixed(2) : 0;
+  const filledPct = +Math.min(100, (filledSteem / steemAmount) * 100).toFixed(2);
+
+  const warnings: string[] = [];
+  if (priceImpactPct >= Config.market.PRICE_IMPACT_WARNING_PCT) {
+    warnings.push(`This order moves the price ${priceImpactPct}% away from the best ${side === 'sell' ? 'bid' : 'ask'}`);
+  }
+  if (bestPrice && !averagePrice) {
+    const gapPct = +((Math.abs(bestPrice - limitPrice) / bestPrice) * 100).toFixed(2);
+    if (gapPct >= Config.market.PRICE_IMPACT_WARNING_PCT) {
+      warnings.push(`The limit price is ${gapPct}% away from the market and will not fill right away`);
+    }
+  }
+  if (!levels.length) {
+    warnings.push(`There are no ${side === 'sell' ? 'bids' : 'asks'} on the order book`);
+  }
+
+  return {
+    side,
+    limitPrice,
+    bestPrice,
+    filledSteem: +filledSteem.toFixed(3),
+    filledPct,
+    averagePrice,
+    priceImpactPct,
+    warnings,
+  };
+};
+
+/**
+ * Chain expiration for an order: an ISO date within the allowed window, or the
+ * longest allowed expiration when none is given
+ */
+const getExpiration = (expiration?: string, now: number = Date.now()): string => {
+  const maxExpiration = now + Config.market.MAX_ORDER_EXPIRATION_DAYS * 24 * 3600 * 1000;
+  const time = expiration ? new Date(expiration).getTime() : maxExpiration;
+  if (!Number.isFinite(time) || time <= now || time > maxExpiration) {
+    throw new KeychainError(
+      `Expiration must be a date within the next ${Config.market.MAX_ORDER_EXPIRATION_DAYS} days`,
+      ['INVALID_EXPIRATION']
+    );
+  }
+  return new Date(time).toISOString().slice(0, 19);
+};
+
+const MarketUtils = {
+  parseAsset,
+  toOrderBook,
+  estimateLimitOrder,
+  getExpiration,
+};
+
+export default MarketUtils;
@@ -0,0 +1,55 @@
+import { Memo, PrivateKey, PublicKey } from '@steempro/dsteem';
+import { KeychainError } from '../../../src/keychain-error';
+
+// steem-js marks encrypted memos (and memos to be encrypted) with a leading '#'
+const MEMO_PREFIX = '#';
+
+const isEncrypted = (memo: string): boolean => {
+  return typeof memo === 'string' && memo.length > 1 && memo.startsWith(MEMO_PREFIX);
+};
+
+const isValidPublicKey = (publicKey: string): boolean => {
+  try {
+    PublicKey.fromString(publicKey);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Encrypts a message for the owner of `publicKey` using ECDH with the sender's
+ * private key and AES-256-CBC, producing the same `#base58` format as steem-js.
+ * A missing `#` is added so the message is always encrypted.
+ */
+const encodeMemo = (privateKey: string, publicKey: string, message: string): string => {
+  if (!isValidPublicKey(publicKey)) {
+    throw new KeychainError(`Invalid public key: ${publicKey}`, ['INVALID_PUBLIC_KEY']);
+  }
+  const memo = message.startsWith(MEMO_PREFIX) ? message : `${MEMO_PREFIX}${message}`;
+  return Memo.encode(PrivateKey.fromString(privateKey), publicKey, memo);
+};
+
+/**
+ * Decrypts a `#`-prefixed memo with either the sender's or the recipient's
+ * private key. The result keeps the leading `#`, as steem-js does.
+ */
+const decodeMemo = (privateKey: string, memo: string): string => {
+  if (!isEncrypted(memo)) {
+    throw new KeychainError('Message is not an encrypted memo', ['NOT_ENCRYPTED']);
+  }
+  try {
+    return Memo.decode(PrivateKey.fromString(privateKey), memo);
+  } catch (e) {
+    throw new KeychainError('Unable to decrypt message with this key', ['DECRYPT_FAILED']);
+  }
+};
+
+const MemoUtils = {
+  isEncrypted,
+  isValidPublicKey,
+  encodeMemo,
+  decodeMemo,
+};
+
+export default MemoUtils;
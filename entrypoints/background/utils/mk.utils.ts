@@ -24,16 +24,6 @@ const login = async (password: string): Promise<any> => {
   return accounts ? true : false;
 };
 
-/* istanbul ignore next */
-const getMkFromLocalStorage = () => {
-  return LocalStorageUtils.getValueFromSessionStorage(LocalStorageKeyEnum.__MK);
-};
-
-/* istanbul ignore next */
-const saveMkInLocalStorage = (mk: string): void => {
-  LocalStorageUtils.saveValueInSessionStorage(LocalStorageKeyEnum.__MK, mk);
-};
-
 const isMK = (value: string): boolean => {
   // Check if the value is a master key (encrypted format)
   return value.startsWith("MK#");
@@ -51,8 +41,6 @@ const getDecrypted = (encryptedMk: string): string => {
 const MkUtils = {
   isPasswordValid,
   login,
-  getMkFromLocalStorage,
-  saveMkInLocalStorage,
   isMK,
   getDecrypted,
 };
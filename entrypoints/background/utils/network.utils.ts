@@ -0,0 +1,46 @@
+import LocalStorageUtils from '../../../src/utils/localStorage.utils';
+import { LocalStorageKeyEnum } from '../../../src/reference-data/local-storage-key.enum';
+import { NetworkProfiles } from '../../../src/reference-data/network-profiles.list';
+import { KeychainError } from '../../../src/keychain-error';
+import { NetworkId, NetworkProfile } from '../../../src/interfaces/network.interface';
+
+// Mirrors the saved network once the background has read it, for sync checks
+let activeProfile: NetworkProfile = NetworkProfiles[0];
+
+const getProfile = (id: NetworkId | string): NetworkProfile => {
+  const profile = NetworkProfiles.find((network) => network.id === id);
+  if (!profile) {
+    throw new KeychainError(`Unknown network ${id}`, ['UNKNOWN_NETWORK']);
+  }
+  return profile;
+};
+
+const getActiveNetwork = async (): Promise<NetworkProfile> => {
+  const id = await LocalStorageUtils.getValueFromLocalStorage(LocalStorageKeyEnum.NETWORK);
+  activeProfile = NetworkProfiles.find((network) => network.id === id) ?? NetworkProfiles[0];
+  return activeProfile;
+};
+
+// Scoped stores switch along with this key, see LocalStorageUtils
+const saveActiveNetwork = async (id: NetworkId): Promise<NetworkProfile> => {
+  const profile = getProfile(id);
+  await LocalStorageUtils.saveValueInLocalStorage(LocalStorageKeyEnum.NETWORK, profile.id);
+  activeProfile = profile;
+  return profile;
+};
+
+// Public keys carry the chain's address prefix, STM on mainnet and TST on testnets
+const getAddressPrefix = (): string => activeProfile.addressPrefix;
+
+const isPublicKeyFormat = (value: string): boolean =>
+  typeof value === 'string' && value.startsWith(activeProfile.addressPrefix);
+
+const NetworkUtils = {
+  getProfile,
+  getActiveNetwork,
+  saveActiveNetwork,
+  getAddressPrefix,
+  isPublicKeyFormat,
+};
+
+export default NetworkUtils;
@@ -0,0 +1,493 @@
+import Config from '../../../src/config';
+import {
+  AuthorityRole,
+  RcEstimate,
+  RequiredAuthority,
+  SimulationIssue,
+  SimulationRule,
+  SimulationSeverity,
+  TransactionSimulation,
+} from '../../../src/interfaces/simulation.interface';
+
+type FieldType = 'account' | 'accounts' | 'asset' | 'string' | 'integer' | 'boolean' | 'array' | 'json';
+
+interface OperationSchema {
+  fields: Record<string, FieldType>;
+  // Account field that signs and the authority it signs with (custom_json lists its own)
+  authority?: [string, AuthorityRole];
+  // Account field that pays and the asset fields it pays
+  spends?: [string, string[]];
+}
+
+const ACCOUNT_PATTERN = /^[a-z][a-z0-9\-.]{2,15}$/;
+const ASSET_PATTERN = /^(\d+)\.(\d+) ([A-Z]+)$/;
+const CUSTOM_ID_MAX_LENGTH = 32;
+const MAX_VOTE_WEIGHT = 10000;
+
+// Keys of a higher authority can sign for the lower ones
+const AUTHORITY_LEVELS: AuthorityRole[] = ['posting', 'active', 'owner'];
+
+const OPERATION_SCHEMAS: Record<string, OperationSchema> = {
+  vote: {
+    fields: { voter: 'account', author: 'account', permlink: 'string', weight: 'integer' },
+    authority: ['voter', 'posting'],
+  },
+  comment: {
+    fields: {
+      parent_author: 'string',
+      parent_permlink: 'string',
+      author: 'account',
+      permlink: 'string',
+      title: 'string',
+      body: 'string',
+      json_metadata: 'string',
+    },
+    authority: ['author', 'posting'],
+  },
+  comment_options: {
+    fields: {
+      author: 'account',
+      permlink: 'string',
+      max_accepted_payout: 'asset',
+      percent_steem_dollars: 'integer',
+      allow_votes: 'boolean',
+      allow_curation_rewards: 'boolean',
+    },
+    authority: ['author', 'posting'],
+  },
+  delete_comment: {
+    fields: { author: 'account', permlink: 'string' },
+    authority: ['author', 'posting'],
+  },
+  claim_reward_balance: {
+    fields: { account: 'account', reward_steem: 'asset', reward_sbd: 'asset', reward_vests: 'asset' },
+    authority: ['account', 'posting'],
+  },
+  custom_json: {
+    fields: { required_auths: 'accounts', required_posting_auths: 'accounts', id: 'string', json: 'json' },
+  },
+  transfer: {
+    fields: { from: 'account', to: 'account', amount: 'asset', memo: 'string' },
+    authority: ['from', 'active'],
+    spends: ['from', ['amount']],
+  },
+  transfer_to_vesting: {
+    fields: { from: 'account', to: 'string', amount: 'asset' },
+    authority: ['from', 'active'],
+    spends: ['from', ['amount']],
+  },
+  withdraw_vesting: {
+    fields: { account: 'account', vesting_shares: 'asset' },
+    authority: ['account', 'active'],
+  },
+  delegate_vesting_shares: {
+    fields: { delegator: 'account', delegatee: 'account', vesting_shares: 'asset' },
+    authority: ['delegator', 'active'],
+  },
+  transfer_to_savings: {
+    fields: { from: 'account', to: 'account', amount: 'asset', memo: 'string' },
+    authority: ['from', 'active'],
+    spends: ['from', ['amount']],
+  },
+  transfer_from_savings: {
+    fields: { from: 'account', request_id: 'integer', to: 'account', amount: 'asset', memo: 'string' },
+    authority: ['from', 'active'],
+  },
+  cancel_transfer_from_savings: {
+    fields: { from: 'account', request_id: 'integer' },
+    authority: ['from', 'active'],
+  },
+  account_witness_vote: {
+    fields: { account: 'account', witness: 'account', approve: 'boolean' },
+    authority: ['account', 'active'],
+  },
+  account_witness_proxy: {
+    fields: { account: 'account', proxy: 'string' },
+    authority: ['account', 'active'],
+  },
+  limit_order_create: {
+    fields: {
+      owner: 'account',
+      orderid: 'integer',
+      amount_to_sell: 'asset',
+      min_to_receive: 'asset',
+      fill_or_kill: 'boolean',
+      expiration: 'string',
+    },
+    authority: ['owner', 'active'],
+    spends: ['owner', ['amount_to_sell']],
+  },
+  limit_order_cancel: {
+    fields: { owner: 'account', orderid: 'integer' },
+    authority: ['owner', 'active'],
+  },
+  convert: {
+    fields: { owner: 'account', requestid: 'integer', amount: 'asset' },
+    authority: ['owner', 'active'],
+    spends: ['owner', ['amount']],
+  },
+  escrow_transfer: {
+    fields: {
+      from: 'account',
+      to: 'account',
+      agent: 'account',
+      escrow_id: 'integer',
+      sbd_amount: 'asset',
+      steem_amount: 'asset',
+      fee: 'asset',
+      ratification_deadline: 'string',
+      escrow_expiration: 'string',
+      json_meta: 'string',
+    },
+    authority: ['from', 'active'],
+    spends: ['from', ['sbd_amount', 'steem_amount', 'fee']],
+  },
+  claim_account: {
+    fields: { creator: 'account', fee: 'asset' },
+    authority: ['creator', 'active'],
+    spends: ['creator', ['fee']],
+  },
+  update_proposal_votes: {
+    fields: { voter: 'account', proposal_ids: 'array', approve: 'boolean' },
+    authority: ['voter', 'active'],
+  },
+};
+
+// Operations the rc plugin also bills market bytes for
+const MARKET_OPERATIONS = [
+  'transfer',
+  'transfer_to_vesting',
+  'transfer_to_savings',
+  'transfer_from_savings',
+  'limit_order_create',
+  'limit_order_create2',
+  'limit_order_cancel',
+  'convert',
+  'escrow_transfer',
+];
+
+// Chain objects an operation creates, priced by the state byte sizes in rc_api size_info
+const OPERATION_STATE_SIZES: Record<string, string> = {
+  vote: 'comment_vote_object_base_size',
+  limit_order_create: 'limit_order_object_base_size',
+  convert: 'convert_request_object_base_size',
+  transfer_from_savings: 'savings_withdraw_object_byte_size',
+  escrow_transfer: 'escrow_object_base_size',
+};
+
+// Reference block, expiration, extensions and one signature of a packed transaction
+const TRANSACTION_OVERHEAD_BYTES = 80;
+// RC regenerates over five days of three second blocks
+const RC_REGEN_BLOCKS = 432000 / 3;
+
+const issue = (
+  field: string,
+  rule: SimulationRule,
+  message: string,
+  severity: SimulationSeverity = 'error'
+): SimulationIssue => ({ field, rule, message, severity });
+
+const parseAsset = (value: any): { amount: number; precision: number; symbol: string } | null => {
+  const match = ASSET_PATTERN.exec(String(value ?? '').trim());
+  if (!match) return null;
+  return { amount: Number(`${match[1]}.${match[2]}`), precision: match[2].length, symbol: match[3] };
+};
+
+const isInteger = (value: any): boolean =>
+  (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) && Number.isInteger(Number(value));
+
+const checkField = (value: any, type: FieldType): string | null => {
+  switch (type) {
+    case 'account':
+      return typeof value === 'string' && ACCOUNT_PATTERN.test(value) ? null : `"${value}" is not a valid account name`;
+    case 'accounts':
+      if (!Array.isArray(value)) return 'Expected a list of account names';
+      return value.every((name) => typeof name === 'string' && ACCOUNT_PATTERN.test(name))
+        ? null
+        : 'Contains an invalid account name';
+    case 'asset': {
+      const asset = parseAsset(value);
+      if (!asset) return `"${value}" is not an amount like 1.000 STEEM`;
+      const precision = asset.symbol === 'VESTS' ? 6 : 3;
+      return asset.precision === precision ? null : `${asset.symbol} amounts take ${precision} decimals`;
+    }
+    case 'string':
+      return typeof value === 'string' ? null : 'Expected text';
+    case 'integer':
+      return isInteger(value) ? null : 'Expected a whole number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Expected true or false';
+    case 'array':
+      return Array.isArray(value) ? null : 'Expected a list';
+    case 'json':
+      if (typeof value !== 'string') return 'Expected a JSON string';
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return 'Not valid JSON';
+      }
+  }
+};
+
+/**
+ * Check every operation against the fields the chain expects for it. Operations
+ * without a schema pass with an info note rather than a guess.
+ */
+const validateOperations = (operations: any[]): SimulationIssue[] => {
+  const issues: SimulationIssue[] = [];
+
+  operations.forEach((operation, index) => {
+    const [name, data] = Array.isArray(operation) ? operation : [];
+    const label = operations.length > 1 ? `#${index + 1} ${name}` : String(name);
+
+    if (typeof name !== 'string' || !data || typeof data !== 'object') {
+      issues.push(issue(`operations[${index}]`, 'format', 'Expected [operation_name, operation_data]'));
+      return;
+    }
+
+    const schema = OPERATION_SCHEMAS[name];
+    if (!schema) {
+      issues.push(issue(label, 'schema', `${name} operations are not checked before signing`, 'info'));
+      return;
+    }
+
+    for (const [field, type] of Object.entries(schema.fields)) {
+      const value = data[field];
+      if (value === undefined || value === null) {
+        issues.push(issue(`${label}.${field}`, 'required', `${field} is required`));
+        continue;
+      }
+      const message = checkField(value, type);
+      if (message) {
+        issues.push(issue(`${label}.${field}`, 'format', message));
+      }
+    }
+
+    if (name === 'vote' && isInteger(data.weight) && Math.abs(Number(data.weight)) > MAX_VOTE_WEIGHT) {
+      issues.push(issue(`${label}.weight`, 'format', `Vote weight must be between -${MAX_VOTE_WEIGHT} and ${MAX_VOTE_WEIGHT}`));
+    }
+
+    if (name === 'custom_json') {
+      if (!data.required_auths?.length && !data.required_posting_auths?.length) {
+        issues.push(issue(`${label}.required_auths`, 'required', 'custom_json needs at least one signing account'));
+      }
+      if (typeof data.id === 'string' && data.id.length > CUSTOM_ID_MAX_LENGTH) {
+        issues.push(issue(`${label}.id`, 'format', `id must be at most ${CUSTOM_ID_MAX_LENGTH} characters`));
+      }
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Accounts and authorities the operations have to be signed with, in operation order
+ */
+const getRequiredAuthorities = (operations: any[]): RequiredAuthority[] => {
+  const required = new Map<string, RequiredAuthority>();
+  const add = (account: string, role: AuthorityRole) => required.set(`${account}:${role}`, { account, role });
+
+  for (const [name, data] of operations) {
+    if (name === 'custom_json') {
+      (data.required_auths || []).forEach((account: string) => add(account, 'active'));
+      (data.required_posting_auths || []).forEach((account: string) => add(account, 'posting'));
+      continue;
+    }
+    const authority = OPERATION_SCHEMAS[name]?.authority;
+    if (authority && typeof data[authority[0]] === 'string') {
+      add(data[authority[0]], authority[1]);
+    }
+  }
+
+  return [...required.values()];
+};
+
+/**
+ * Authorities whose keys satisfy `role`
+ */
+const getSatisfyingRoles = (role: AuthorityRole): AuthorityRole[] =>
+  AUTHORITY_LEVELS.slice(AUTHORITY_LEVELS.indexOf(role));
+
+// The chain refuses transactions that need posting alongside active or owner authority
+const checkAuthorityMix = (required: RequiredAuthority[]): SimulationIssue[] =>
+  required.some(({ role }) => role === 'posting') && required.some(({ role }) => role !== 'posting')
+    ? [issue('operations', 'authority', 'Posting operations cannot share a transaction with active operations')]
+    : [];
+
+/**
+ * Totals each paying account spends per asset, in thousandths
+ */
+const getSpending = (operations: any[]): Record<string, Record<string, number>> => {
+  const spending: Record<string, Record<string, number>> = {};
+
+  for (const [name, data] of operations) {
+    const spends = OPERATION_SCHEMAS[name]?.spends;
+    if (!spends) continue;
+    const [accountField, assetFields] = spends;
+    const account = data[accountField];
+
+    for (const field of assetFields) {
+      const asset = parseAsset(data[field]);
+      if (!asset || asset.amount === 0) continue;
+      spending[account] = spending[account] || {};
+      spending[account][asset.symbol] = (spending[account][asset.symbol] || 0) + Math.round(asset.amount * 1000);
+    }
+  }
+
+  return spending;
+};
+
+/**
+ * Compare what each account spends with its liquid balances. `accounts` holds
+ * chain accounts by name; missing accounts are left to the authority check.
+ */
+const checkBalances = (
+  spending: Record<string, Record<string, number>>,
+  accounts: Map<string, any>
+): SimulationIssue[] => {
+  const issues: SimulationIssue[] = [];
+  const format = (thousandths: number, symbol: string) => `${(thousandths / 1000).toFixed(3)} ${symbol}`;
+
+  for (const [name, totals] of Object.entries(spending)) {
+    const account = accounts.get(name);
+    if (!account) continue;
+    const balances = [parseAsset(account.balance), parseAsset(account.sbd_balance)];
+
+    for (const [symbol, amount] of Object.entries(totals)) {
+      const balance = balances.find((asset) => asset?.symbol === symbol);
+      const available = balance ? Math.round(balance.amount * 1000) : 0;
+      if (amount > available) {
+        issues.push(
+          issue(
+            `@${name} ${symbol}`,
+            'balance',
+            `Needs ${format(amount, symbol)} but @${name} has ${format(available, symbol)}`
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+};
+
+const estimateTransactionSize = (operations: any[]): number =>
+  JSON.stringify(operations).length + TRANSACTION_OVERHEAD_BYTES;
+
+/**
+ * Resources a transaction consumes, following the rc plugin's counting. JSON is
+ * longer than the packed encoding, so byte counts err high.
+ */
+const countResources = (operations: any[], sizeInfo: any): Record<string, bigint> => {
+  const size = BigInt(estimateTransactionSize(operations));
+  const stateSizes = sizeInfo?.resource_state_bytes || {};
+  const execTimes = sizeInfo?.resource_execution_time || {};
+  const value = (amount: any) => BigInt(amount || 0);
+
+  let newAccounts = 0n;
+  let stateBytes = value(stateSizes.transaction_object_base_size) + value(stateSizes.transaction_object_byte_size) * size;
+  let executionTime = 0n;
+
+  for (const [name, data] of operations) {
+    executionTime += value(execTimes[`${name}_operation_exec_time`]);
+    stateBytes += value(stateSizes[OPERATION_STATE_SIZES[name]]);
+    if (name === 'comment') {
+      stateBytes +=
+        value(stateSizes.comment_object_base_size) +
+        value(stateSizes.comment_object_permlink_char_size) * BigInt(String(data.permlink || '').length);
+    }
+    // Free account claims are paid with RC instead of the STEEM fee
+    if (name === 'claim_account' && parseAsset(data.fee)?.amount === 0) {
+      newAccounts += 1n;
+    }
+  }
+
+  return {
+    resource_history_bytes: size,
+    resource_new_accounts: newAccounts,
+    resource_market_bytes: operations.some(([name]) => MARKET_OPERATIONS.includes(name)) ? size : 0n,
+    resource_state_bytes: stateBytes,
+    resource_execution_time: executionTime,
+  };
+};
+
+// Price of `count` units on the resource's curve: the emptier the pool, the higher the price
+const getResourceCost = (curve: any, pool: bigint, count: bigint, regen: bigint): bigint => {
+  if (count <= 0n) return 0n;
+  const numerator = (((regen * BigInt(curve.coeff_a)) >> BigInt(curve.shift)) + 1n) * count;
+  const denominator = BigInt(curve.coeff_b) + (pool > 0n ? pool : 0n);
+  return numerator / denominator + 1n;
+};
+
+/**
+ * Estimated RC cost of broadcasting `operations`, from rc_api.get_resource_params,
+ * rc_api.get_resource_pool and the chain's total vesting shares
+ */
+const estimateRcCost = (operations: any[], resourceParams: any, resourcePool: any, totalVestingShares: string): number => {
+  const usage = countResources(operations, resourceParams?.size_info);
+  // VESTS carry six decimals; the chain works on the raw integer amount
+  const regen = BigInt(String(totalVestingShares).split(' ')[0].replace('.', '')) / BigInt(RC_REGEN_BLOCKS);
+
+  let total = 0n;
+  for (const [resource, count] of Object.entries(usage)) {
+    const params = resourceParams?.resource_params?.[resource];
+    const pool = resourcePool?.resource_pool?.[resource]?.pool;
+    if (!params || pool === undefined) continue;
+    const units = count * BigInt(params.resource_dynamics_params?.resource_unit || 1);
+    total += getResourceCost(params.price_curve_params, BigInt(pool), units, regen);
+  }
+  return Number(total);
+};
+
+const formatMana = (mana: number): string =>
+  new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(mana);
+
+const checkRc = (
+  account: string,
+  cost: number,
+  currentMana: number
+): { rc: RcEstimate; issues: SimulationIssue[] } => {
+  const pctOfCurrent = currentMana > 0 ? +((cost / currentMana) * 100).toFixed(2) : 100;
+  const rc: RcEstimate = { account, cost, currentMana, pctOfCurrent };
+  const field = `@${account} RC`;
+
+  if (cost > currentMana) {
+    return {
+      rc,
+      issues: [issue(field, 'rc', `Needs about ${formatMana(cost)} RC but @${account} has ${formatMana(currentMana)}`)],
+    };
+  }
+
+  const message = `Uses about ${pctOfCurrent}% of the RC @${account} has now`;
+  return {
+    rc,
+    issues: [issue(field, 'rc', message, pctOfCurrent >= Config.simulation.RC_WARNING_PCT ? 'warning' : 'info')],
+  };
+};
+
+const toSimulation = (issues: SimulationIssue[], rc?: RcEstimate): TransactionSimulation => {
+  const errors = issues.filter(({ severity }) => severity === 'error');
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: issues.filter(({ severity }) => severity === 'warning'),
+    info: issues.filter(({ severity }) => severity === 'info'),
+    ...(rc ? { rc } : {}),
+  };
+};
+
+const SimulationUtils = {
+  issue,
+  validateOperations,
+  getRequiredAuthorities,
+  getSatisfyingRoles,
+  checkAuthorityMix,
+  getSpending,
+  checkBalances,
+  estimateRcCost,
+  checkRc,
+  toSimulation,
+};
+
+export default SimulationUtils;
@@ -0,0 +1,92 @@
+import { KeychainError } from '../../../src/keychain-error';
+import { SidechainOperation } from '../../../src/interfaces/token.interface';
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z.]{0,9}$/;
+
+const validateSymbol = (symbol: string): void => {
+  if (!SYMBOL_PATTERN.test(symbol || '')) {
+    throw new KeychainError(`Invalid token symbol: ${symbol}`, ['INVALID_SYMBOL']);
+  }
+};
+
+/**
+ * Round a quantity down to the token's precision, as the sidechain rejects
+ * quantities with more decimals than the token allows
+ */
+const formatQuantity = (quantity: string | number, precision: number): string => {
+  const value = Number(quantity);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new KeychainError('Invalid amount', ['INVALID_AMOUNT']);
+  }
+  const factor = 10 ** precision;
+  const rounded = Math.floor(value * factor + 1e-9) / factor;
+  if (rounded <= 0) {
+    throw new KeychainError(`Amount is below the token precision of ${precision} decimals`, ['INVALID_AMOUNT']);
+  }
+  return rounded.toFixed(precision);
+};
+
+const tokenOperation = (contractAction: string, contractPayload: Record<string, any>): SidechainOperation => ({
+  contractName: 'tokens',
+  contractAction,
+  contractPayload,
+});
+
+const transfer = (to: string, symbol: string, quantity: string, memo: string = ''): SidechainOperation => {
+  validateSymbol(symbol);
+  return tokenOperation('transfer', { symbol, to, quantity, memo });
+};
+
+const stake = (to: string, symbol: string, quantity: string): SidechainOperation => {
+  validateSymbol(symbol);
+  return tokenOperation('stake', { to, symbol, quantity });
+};
+
+const unstake = (symbol: string, quantity: string): SidechainOperation => {
+  validateSymbol(symbol);
+  return tokenOperation('unstake', { symbol, quantity });
+};
+
+const delegate = (to: string, symbol: string, quantity: string): SidechainOperation => {
+  validateSymbol(symbol);
+  return tokenOperation('delegate', { to, symbol, quantity });
+};
+
+// Market prices are quoted in the sidechain's base token (STEEMP) with 8 decimals
+const marketOrder = (
+  side: 'buy' | 'sell',
+  symbol: string,
+  quantity: string,
+  price: string | number
+): SidechainOperation => {
+  validateSymbol(symbol);
+  const numericPrice = Number(price);
+  if (!Number.isFinite(numericPrice) || numericPrice <= 0) {
+    throw new KeychainError('Invalid price', ['INVALID_PRICE']);
+  }
+  return {
+    contractName: 'market',
+    contractAction: side,
+    contractPayload: { symbol, quantity, price: numericPrice.toFixed(8) },
+  };
+};
+
+/**
+ * Wrap sidechain operations in the custom_json body the sidechain expects.
+ * Several operations are sent as an array and processed in order.
+ */
+const toCustomJson = (operations: SidechainOperation | SidechainOperation[]) =>
+  Array.isArray(operations) && operations.length === 1 ? operations[0] : operations;
+
+const SteemEngineUtils = {
+  validateSymbol,
+  formatQuantity,
+  transfer,
+  stake,
+  unstake,
+  delegate,
+  marketOrder,
+  toCustomJson,
+};
+
+export default SteemEngineUtils;
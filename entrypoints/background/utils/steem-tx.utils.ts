@@ -27,15 +27,14 @@ import { KeychainError } from "../../../src/keychain-error";
 import Logger from "../../../src/utils/logger.utils";
 import AccountUtils from "./account.utils";
 import { KeysUtils } from "./keys.utils";
-import MkUtils from "./mk.utils";
+import { vaultSession } from "../lib/vault-session";
+import { settingsService } from "../services/settings.service";
 
 const MINUTE = 60;
 
 const setRpc = async (rpc: Rpc) => {
+  // The chain id belongs to the network profile, not to the node
   SteemTxConfig.node = rpc.uri === "DEFAULT" ? DefaultRpcs[0].uri : rpc.uri;
-  if (rpc.chainId) {
-    SteemTxConfig.chain_id = rpc.chainId;
-  }
 };
 
 const sendOperation = async (
@@ -75,7 +74,7 @@ const createTransaction = async (operations: Operation[]) => {
   let steemTransaction = new SteemTransaction();
   const tx = await steemTransaction.create(
     operations,
-    Config.transactions.expirationTimeInMinutes * MINUTE,
+    (await settingsService.getSettings()).transactionExpirationMinutes * MINUTE,
   );
   Logger.log(`length of transaction => ${JSON.stringify(tx).length}`);
   return tx;
@@ -89,7 +88,7 @@ const createSignAndBroadcastTransaction = async (
   let steemTransaction = new SteemTransaction();
   let transaction = await steemTransaction.create(
     operations,
-    Config.transactions.expirationTimeInMinutes * MINUTE,
+    (await settingsService.getSettings()).transactionExpirationMinutes * MINUTE,
   );
 
   const username = getFirstAccountFromOps(operations);
@@ -97,9 +96,11 @@ const createSignAndBroadcastTransaction = async (
     username!.toString(),
   );
 
-  const localAccounts = await AccountUtils.getAccountsFromLocalStorage(
-    await MkUtils.getMkFromLocalStorage(),
-  );
+  const vaultKey = await vaultSession.getVaultKey();
+  if (!vaultKey) {
+    throw new KeychainError("Keychain is locked");
+  }
+  const localAccounts = await AccountUtils.getAccountsFromLocalStorage(vaultKey);
 
   const localAccount = localAccounts.find(
     (account) =>
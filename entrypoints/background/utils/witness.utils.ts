@@ -0,0 +1,80 @@
+import Config from '../../../src/config';
+import { KeychainError } from '../../../src/keychain-error';
+import { WitnessFlag, WitnessSummary, WitnessVoteChange } from '../../../src/interfaces/witness.interface';
+
+// Signing key witnesses set when they stop producing blocks
+const DISABLED_SIGNING_KEY = 'STM1111111111111111111111111111111114T1Anm';
+
+const parseChainDate = (date: string): number => new Date(date.endsWith('Z') ? date : `${date}Z`).getTime();
+
+const getWitnessFlags = (witness: any, now: number = Date.now()): WitnessFlag[] => {
+  const flags: WitnessFlag[] = [];
+  if (witness.signing_key === DISABLED_SIGNING_KEY) {
+    flags.push('disabled');
+  }
+  const lastFeedUpdate = witness.last_sbd_exchange_update ? parseChainDate(witness.last_sbd_exchange_update) : 0;
+  if (!lastFeedUpdate || now - lastFeedUpdate > Config.witnesses.STALE_FEED_HOURS * 3600 * 1000) {
+    flags.push('stale_feed');
+  }
+  if (Number(witness.total_missed || 0) >= Config.witnesses.MISSED_BLOCKS_WARNING) {
+    flags.push('missed_blocks');
+  }
+  return flags;
+};
+
+const toWitnessSummary = (witness: any, rank: number, now: number = Date.now()): WitnessSummary => ({
+  owner: witness.owner,
+  rank,
+  votes: String(witness.votes),
+  url: witness.url || '',
+  missedBlocks: Number(witness.total_missed || 0),
+  lastFeedUpdate: witness.last_sbd_exchange_update || '',
+  feedPrice: witness.sbd_exchange_rate?.base || '',
+  runningVersion: witness.running_version || '',
+  flags: getWitnessFlags(witness, now),
+});
+
+/**
+ * Reduce requested vote changes to the ones that actually change something on
+ * chain, keeping the last change per witness, and check the result against
+ * the vote limit. Throws when nothing is left to broadcast.
+ */
+const planVoteChanges = (currentVotes: string[], changes: WitnessVoteChange[], proxy: string): WitnessVoteChange[] => {
+  if (proxy) {
+    throw new KeychainError(`Witness votes cannot be changed while @${proxy} is set as proxy`, ['PROXY_SET']);
+  }
+
+  const latest = new Map<string, boolean>();
+  for (const change of changes) {
+    if (!change?.witness) {
+      throw new KeychainError('Invalid witness vote change', ['INVALID_WITNESS']);
+    }
+    latest.delete(change.witness);
+    latest.set(change.witness, !!change.approve);
+  }
+
+  const planned = [...latest.entries()]
+    .filter(([witness, approve]) => currentVotes.includes(witness) !== approve)
+    .map(([witness, approve]) => ({ witness, approve }));
+
+  if (!planned.length) {
+    throw new KeychainError('No witness vote changes to broadcast', ['NO_CHANGES']);
+  }
+
+  const voteCount = planned.reduce((count, change) => count + (change.approve ? 1 : -1), currentVotes.length);
+  if (voteCount > Config.witnesses.MAX_VOTES) {
+    throw new KeychainError(`An account can vote for at most ${Config.witnesses.MAX_VOTES} witnesses`, [
+      'TOO_MANY_VOTES',
+    ]);
+  }
+
+  return planned;
+};
+
+const WitnessUtils = {
+  getWitnessFlags,
+  toWitnessSummary,
+  planVoteChanges,
+};
+
+export default WitnessUtils;
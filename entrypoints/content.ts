@@ -15,6 +15,9 @@ export default defineContentScript({
           event: event.data.event,
           data: event.data.data
         }).then((response) => {
+          // Queued requests are answered later through the tab listener below
+          if (response?.queued) return;
+
           // Forward response back to page
           const messageType = event.data.event === 'swHandshake' 
             ? 'keychain_handshake_to_page' 
@@ -39,6 +42,16 @@ export default defineContentScript({
       }
     });
 
+    // Results of requests the user approved or rejected in the approval window
+    browser.runtime.onMessage.addListener((message) => {
+      if (message?.type === 'keychain_response') {
+        window.postMessage({
+          type: 'keychain_response_to_page',
+          response: message.response
+        }, '*');
+      }
+    });
+
     console.log('Etta Keychain content script initialized');
   },
 });
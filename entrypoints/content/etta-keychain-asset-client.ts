@@ -99,9 +99,9 @@ export class EttaKeychainAssetClient implements EttaKeychainAssetAPI {
         if (response.success) {
           resolve({
             success: true,
-            transaction_id: response.transaction_id,
-            universal_id: response.universal_id,
-            operation_data: response.asset
+            transaction_id: response.result?.transaction_id,
+            universal_id: response.result?.universal_id,
+            operation_data: response.result?.asset
           });
         } else {
           reject({
@@ -180,8 +180,8 @@ export class EttaKeychainAssetClient implements EttaKeychainAssetAPI {
         if (response.success) {
           resolve({
             success: true,
-            transaction_id: response.transaction_id,
-            universal_id: response.universal_id
+            transaction_id: response.result?.transaction_id,
+            universal_id: response.result?.universal_id
           });
         } else {
           reject({
@@ -247,9 +247,9 @@ export class EttaKeychainAssetClient implements EttaKeychainAssetAPI {
         if (response.success) {
           resolve({
             success: true,
-            transaction_id: response.transaction_id,
-            universal_id: response.universal_id,
-            operation_data: response.conversion_result
+            transaction_id: response.result?.transaction_id,
+            universal_id: response.result?.universal_id,
+            operation_data: response.result
           });
         } else {
           reject({
@@ -364,10 +364,10 @@ export class EttaKeychainAssetClient implements EttaKeychainAssetAPI {
   ): Promise<{ verified: boolean; owner?: string }> {
     return new Promise((resolve, reject) => {
       this.requestAssetOwnershipVerification(account, universalId, (response) => {
-        if (response.success) {
+        if (response.success && response.result?.verified) {
           resolve({
             verified: true,
-            owner: account
+            owner: response.result.owner
           });
         } else {
           resolve({
@@ -11,7 +11,8 @@ export default defineContentScript({
     console.log('Current document state:', document.readyState);
     console.log('URL:', window.location.href);
     // This script gets injected into the page's main world
-    const REQUEST_TIMEOUT = 30000;
+    // Requests wait on the user in the approval window, so allow plenty of time
+    const REQUEST_TIMEOUT = 5 * 60 * 1000;
 
     class EttaKeychainAPI {
       current_id = 1;
@@ -47,7 +48,7 @@ export default defineContentScript({
               this.requests[requestId]({
                 success: false,
                 error: 'Request timeout',
-                message: 'The request timed out after 30 seconds'
+                message: 'The request timed out after 5 minutes'
               });
               delete this.requests[requestId];
               delete this.timeouts[requestId];
@@ -343,21 +344,159 @@ export default defineContentScript({
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestDelegation(account: string, delegatee: string, amount: string, callback: any): void {
+      requestDelegation(account: string, delegatee: string, amount: string, unit: string, callback: any): void {
         const request = {
           type: 'delegation',
           username: account,
           delegatee,
-          amount
+          amount,
+          unit
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestConversion(account: string, amount: string, callback: any): void {
+      requestConversion(account: string, amount: string, collaterized: boolean, callback: any): void {
         const request = {
-          type: 'conversion',
+          type: 'convert',
           username: account,
-          amount
+          amount,
+          collaterized
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestTransferToSavings(account: string, to: string, amount: string, currency: string, memo: string, callback: any): void {
+        const request = {
+          type: 'transferToSavings',
+          username: account,
+          to,
+          amount,
+          currency,
+          memo
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestTransferFromSavings(account: string, to: string, amount: string, currency: string, memo: string, callback: any): void {
+        const request = {
+          type: 'transferFromSavings',
+          username: account,
+          to,
+          amount,
+          currency,
+          memo
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestCancelTransferFromSavings(account: string, savingsRequestId: number, callback: any): void {
+        const request = {
+          type: 'cancelTransferFromSavings',
+          username: account,
+          savings_request_id: savingsRequestId
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestClaimRewards(account: string, callback: any): void {
+        const request = {
+          type: 'claimRewards',
+          username: account
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestLimitOrderCreate(account: string, amountToSell: string, minToReceive: string, fillOrKill: boolean, expiration: string | undefined, callback: any): void {
+        const request = {
+          type: 'limitOrderCreate',
+          username: account,
+          amount_to_sell: amountToSell,
+          min_to_receive: minToReceive,
+          fill_or_kill: fillOrKill,
+          expiration
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestLimitOrderCreate2(account: string, amountToSell: string, exchangeRate: { base: string; quote: string }, fillOrKill: boolean, expiration: string | undefined, callback: any): void {
+        const request = {
+          type: 'limitOrderCreate2',
+          username: account,
+          amount_to_sell: amountToSell,
+          exchange_rate: exchangeRate,
+          fill_or_kill: fillOrKill,
+          expiration
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestLimitOrderCancel(account: string, orderid: number, callback: any): void {
+        const request = {
+          type: 'limitOrderCancel',
+          username: account,
+          orderid
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestEscrowTransfer(account: string, to: string, agent: string, sbdAmount: string, steemAmount: string, fee: string, options: { ratificationDeadline?: string; escrowExpiration?: string; jsonMeta?: string; universalId?: string } = {}, callback: any): void {
+        const request = {
+          type: 'escrow_transfer',
+          username: account,
+          to,
+          agent,
+          sbd_amount: sbdAmount,
+          steem_amount: steemAmount,
+          fee,
+          ratification_deadline: options.ratificationDeadline,
+          escrow_expiration: options.escrowExpiration,
+          json_meta: options.jsonMeta,
+          universal_id: options.universalId
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestEscrowApprove(account: string, from: string, escrowId: number, approve: boolean, callback: any): void {
+        const request = {
+          type: 'escrow_approve',
+          username: account,
+          from,
+          escrow_id: escrowId,
+          approve
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestEscrowDispute(account: string, from: string, escrowId: number, callback: any): void {
+        const request = {
+          type: 'escrow_dispute',
+          username: account,
+          from,
+          escrow_id: escrowId
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestEscrowRelease(account: string, from: string, escrowId: number, receiver: string, sbdAmount: string, steemAmount: string, callback: any): void {
+        const request = {
+          type: 'escrow_release',
+          username: account,
+          from,
+          escrow_id: escrowId,
+          receiver,
+          sbd_amount: sbdAmount,
+          steem_amount: steemAmount
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestSetWithdrawVestingRoute(account: string, to: string, percent: number, autoVest: boolean, callback: any): void {
+        const request = {
+          type: 'setWithdrawVestingRoute',
+          username: account,
+          to,
+          percent,
+          auto_vest: autoVest
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
@@ -376,11 +515,11 @@ export default defineContentScript({
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestPowerDown(account: string, amount: string, callback: any): void {
+      requestPowerDown(account: string, steemPower: string, callback: any): void {
         const request = {
           type: 'powerDown',
           username: account,
-          amount
+          steem_power: steemPower
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
@@ -389,8 +528,8 @@ export default defineContentScript({
         const request = {
           type: 'powerUp',
           username: account,
-          to,
-          amount
+          recipient: to,
+          steem: amount
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
@@ -415,23 +554,81 @@ export default defineContentScript({
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestRemoveProposal(account: string, proposalId: string, callback: any): void {
+      requestCreateProposal(
+        account: string,
+        receiver: string,
+        subject: string,
+        permlink: string,
+        dailyPay: string,
+        start: string,
+        end: string,
+        extensions: string,
+        callback: any
+      ): void {
+        const request = {
+          type: 'createProposal',
+          username: account,
+          receiver,
+          subject,
+          permlink,
+          daily_pay: dailyPay,
+          start,
+          end,
+          extensions
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestRemoveProposal(account: string, proposalIds: string, extensions: string, callback: any): void {
         const request = {
           type: 'removeProposal',
           username: account,
-          proposal_id: proposalId
+          proposal_ids: proposalIds,
+          extensions
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestSendToken(account: string, to: string, amount: string, symbol: string, memo: string, callback: any): void {
+      requestSendToken(account: string, to: string, amount: string, memo: string, currency: string, callback: any): void {
         const request = {
           type: 'sendToken',
           username: account,
           to,
           amount,
+          memo,
+          currency
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestStakeToken(account: string, to: string, symbol: string, amount: string, callback: any): void {
+        const request = {
+          type: 'stakeToken',
+          username: account,
+          to,
           symbol,
-          memo
+          amount
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestUnstakeToken(account: string, symbol: string, amount: string, callback: any): void {
+        const request = {
+          type: 'unstakeToken',
+          username: account,
+          symbol,
+          amount
+        };
+        this.dispatchCustomEvent('swRequest', request, callback);
+      }
+
+      requestDelegateToken(account: string, to: string, symbol: string, amount: string, callback: any): void {
+        const request = {
+          type: 'delegateToken',
+          username: account,
+          to,
+          symbol,
+          amount
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
@@ -447,23 +644,26 @@ export default defineContentScript({
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestSwap(account: string, fromToken: string, toToken: string, amount: string, callback: any): void {
+      requestSwap(account: string, startToken: string, endToken: string, amount: number, slippage: number, steps: any[], callback: any): void {
         const request = {
           type: 'swap',
           username: account,
-          from_token: fromToken,
-          to_token: toToken,
-          amount
+          startToken,
+          endToken,
+          amount,
+          slippage,
+          steps
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestUpdateProposalVote(account: string, proposalId: string, approve: boolean, callback: any): void {
+      requestUpdateProposalVote(account: string, proposalIds: string, approve: boolean, extensions: string, callback: any): void {
         const request = {
           type: 'updateProposalVote',
           username: account,
-          proposal_id: proposalId,
-          approve
+          proposal_ids: proposalIds,
+          approve,
+          extensions
         };
         this.dispatchCustomEvent('swRequest', request, callback);
       }
@@ -478,11 +678,11 @@ export default defineContentScript({
         this.dispatchCustomEvent('swRequest', request, callback);
       }
 
-      requestEncodeWithKeys(account: string, receiver: string, message: string, keyType: string, callback: any): void {
+      requestEncodeWithKeys(account: string, publicKeys: string[], message: string, keyType: string, callback: any): void {
         const request = {
           type: 'encodeWithKeys',
           username: account,
-          receiver,
+          publicKeys,
           message,
           method: keyType
         };
@@ -37,6 +37,8 @@ export interface AssetTransferKeychainRequest {
   to_user: string;
   transfer_type: 'sale' | 'gift' | 'trade' | 'conversion';
   price?: { amount: string; currency: string };
+  // Hold a sale until this escrow from the buyer is released to the seller
+  escrow?: { from: string; escrow_id: number };
   game_context?: string;
   memo?: string;
   display_msg?: string;
@@ -97,7 +99,8 @@ export interface EttaKeychainAssetAPI {
    * @param toUser Recipient of the asset
    * @param transferType Type of transfer (sale, gift, trade, etc.)
    * @param callback Function that handles Keychain's response
-   * @param options Additional transfer options
+   * @param options Additional transfer options. A sale with `escrow` is only
+   * delivered once that escrow's payment is released to the seller.
    * @param rpc Override user's RPC settings
    */
   requestAssetTransfer(
@@ -108,6 +111,7 @@ export interface EttaKeychainAssetAPI {
     callback: (response: AssetKeychainResponse) => void,
     options?: {
       price?: { amount: string; currency: string };
+      escrow?: { from: string; escrow_id: number };
       gameContext?: string;
       memo?: string;
       displayMsg?: string;
@@ -6,12 +6,25 @@ import { AccountList } from './components/AccountList';
 import { AccountImportForm } from './components/AccountImportForm';
 import { AccountConnection } from './pages/AccountConnection';
 import { AccountDetails } from './pages/AccountDetails';
+import { WitnessBrowser } from './pages/WitnessBrowser';
+import { CreateAccount } from './pages/CreateAccount';
+import { MultisigTransactions } from './pages/MultisigTransactions';
+import { Settings } from './pages/Settings';
 import { AuthorizationManager } from './components/AuthorizationManager';
+import { NetworkBadge } from './components/NetworkBadge';
+import { AutoLockCountdown } from './components/AutoLockCountdown';
 import { Button } from '@/components/ui/button';
 import { browser } from 'wxt/browser';
+import type { KeychainSettings } from '@/src/interfaces';
 
 type AuthState = 'loading' | 'setup' | 'locked' | 'unlocked';
 
+const applyAppearance = ({ theme, language }: KeychainSettings) => {
+  const prefersDark = window.matchMedia?.('(prefers-color-scheme: dark)').matches;
+  document.documentElement.classList.toggle('dark', theme === 'dark' || (theme === 'system' && prefersDark));
+  document.documentElement.lang = language;
+};
+
 function AccountsPage({ onLock }: { onLock: () => void }) {
   const navigate = useNavigate();
   
@@ -20,13 +33,20 @@ function AccountsPage({ onLock }: { onLock: () => void }) {
       <div className="sticky top-0 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b p-4">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-xl font-semibold text-foreground">Etta Keychain</h1>
+            <div className="flex items-center gap-2">
+              <h1 className="text-xl font-semibold text-foreground">Etta Keychain</h1>
+              <NetworkBadge />
+              <AutoLockCountdown onExpire={onLock} />
+            </div>
             <p className="text-sm text-muted-foreground">Secure STEEM wallet</p>
           </div>
           <div className="flex gap-2">
             <Button variant="outline" size="sm" onClick={() => navigate('/authorizations')} className="text-xs">
               Auth
             </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/settings')} className="text-xs">
+              Settings
+            </Button>
             <Button variant="outline" size="sm" onClick={onLock} className="text-xs">
               Lock
             </Button>
@@ -94,6 +114,26 @@ function AppContent() {
     checkAuthState();
   }, []);
 
+  // Theme and language apply on every screen, including the lock screen
+  useEffect(() => {
+    browser.runtime
+      .sendMessage({ action: 'getSettings' })
+      .then((response: any) => {
+        if (response?.success) applyAppearance(response.data);
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load settings:', err);
+      });
+
+    const handleMessage = (message: any) => {
+      if (message.action === 'settingsChanged') {
+        applyAppearance(message.data);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
   const checkAuthState = async () => {
     try {
       console.log('Popup checking auth state...');
@@ -162,11 +202,31 @@ function AppContent() {
       <Route path="/connection" element={<ConnectionPage />} />
       <Route path="/import" element={<ImportPage />} />
       <Route path="/authorizations" element={<AuthorizationsPage />} />
+      <Route path="/settings" element={
+        <div className="min-h-[500px] w-[380px]">
+          <Settings />
+        </div>
+      } />
       <Route path="/account/:username" element={
         <div className="min-h-[400px] w-[350px]">
           <AccountDetails />
         </div>
       } />
+      <Route path="/account/:username/witnesses" element={
+        <div className="min-h-[400px] w-[350px]">
+          <WitnessBrowser />
+        </div>
+      } />
+      <Route path="/account/:username/create-account" element={
+        <div className="min-h-[400px] w-[350px]">
+          <CreateAccount />
+        </div>
+      } />
+      <Route path="/account/:username/multisig" element={
+        <div className="min-h-[400px] w-[350px]">
+          <MultisigTransactions />
+        </div>
+      } />
     </Routes>
   );
 }
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AuthorityChangePreview,
+  AuthorityObject,
+  KeychainRequest,
+} from '../../background/services/types/keychain-api.types';
+
+interface AuthorityDiffProps {
+  request: KeychainRequest;
+  className?: string;
+}
+
+const AUTHORITY_REQUEST_TYPES = [
+  'addAccountAuthority',
+  'removeAccountAuthority',
+  'addKeyAuthority',
+  'removeKeyAuthority',
+];
+
+export function AuthorityDiff({ request, className }: AuthorityDiffProps) {
+  const [preview, setPreview] = useState<AuthorityChangePreview | null>(null);
+  const [error, setError] = useState<string>('');
+  const isAuthorityRequest = AUTHORITY_REQUEST_TYPES.includes(request.type);
+
+  useEffect(() => {
+    if (!isAuthorityRequest) return;
+    let cancelled = false;
+    setPreview(null);
+    setError('');
+
+    browser.runtime
+      .sendMessage({ action: 'previewAuthorityChange', request })
+      .then((response: any) => {
+        if (cancelled) return;
+        if (response?.success) {
+          setPreview(response.result);
+        } else {
+          setError(response?.error || 'Unable to load the current authority');
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load the current authority');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, isAuthorityRequest]);
+
+  if (!isAuthorityRequest) return null;
+
+  if (error) {
+    return (
+      <Card className={`border-red-200 bg-red-50 dark:bg-red-950 ${className || ''}`}>
+        <CardContent className="p-4 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Loading current authority...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const changed = new Set(preview.changes.map(change => `${change.type}:${change.name}`));
+
+  const renderAuthority = (authority: AuthorityObject, side: 'before' | 'after') => {
+    const entries = [
+      ...authority.account_auths.map(([name, weight]) => ({ type: 'account', name, weight })),
+      ...authority.key_auths.map(([name, weight]) => ({ type: 'key', name, weight })),
+    ];
+
+    return (
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">Threshold: {authority.weight_threshold}</div>
+        {entries.length === 0 && <div className="text-xs text-muted-foreground">No entries</div>}
+        {entries.map(entry => {
+          const isChanged = changed.has(`${entry.type}:${entry.name}`);
+          const highlight = !isChanged
+            ? ''
+            : side === 'before'
+              ? 'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300'
+              : 'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300';
+          return (
+            <div
+              key={`${entry.type}:${entry.name}`}
+              className={`flex items-center justify-between gap-2 rounded px-1 text-xs ${highlight}`}
+            >
+              <span className="font-mono truncate">
+                {entry.type === 'account' ? `@${entry.name}` : entry.name}
+              </span>
+              <span>{entry.weight}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderSide = (value: AuthorityObject | string, side: 'before' | 'after') =>
+    typeof value === 'string' ? (
+      <div
+        className={`font-mono text-xs break-all rounded px-1 ${
+          side === 'before'
+            ? 'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300'
+            : 'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300'
+        }`}
+      >
+        {value}
+      </div>
+    ) : (
+      renderAuthority(value, side)
+    );
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span>Authority Changes</span>
+          <Badge variant="outline">@{preview.account} · {preview.role}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <div className="text-xs font-medium">Before</div>
+          {renderSide(preview.before, 'before')}
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs font-medium">After</div>
+          {renderSide(preview.after, 'after')}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,8 +4,9 @@ import { TokenAuthDialog } from './TokenAuthDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Shield, Clock, Trash2, Globe, AlertTriangle } from 'lucide-react';
+import { Shield, Clock, Trash2, Globe, AlertTriangle, ShieldCheck, Pencil, Check, X } from 'lucide-react';
 
 interface AuthorizationRecord {
   token: string;
@@ -16,6 +17,19 @@ interface AuthorizationRecord {
   expires: number;
 }
 
+interface PermissionRule {
+  id: string;
+  origin: string;
+  account: string;
+  operation: 'vote' | 'custom' | 'transfer';
+  customJsonId?: string;
+  dailyLimit?: number;
+  currency?: string;
+  spent?: { day: string; amount: number };
+  createdAt: number;
+  lastUsed?: number;
+}
+
 interface AuthRequest {
   id: string;
   origin: string;
@@ -29,12 +43,86 @@ export function AuthorizationManager() {
   const [authorizations, setAuthorizations] = useState<AuthorizationRecord[]>([]);
   const [pendingRequest, setPendingRequest] = useState<AuthRequest | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [editLimit, setEditLimit] = useState('');
+  const [ruleError, setRuleError] = useState('');
 
   useEffect(() => {
     loadAuthorizations();
+    loadRules();
     setupMessageListener();
   }, []);
 
+  const loadRules = async () => {
+    try {
+      const response = await browser.runtime.sendMessage({
+        action: 'getPermissionRules'
+      });
+
+      if (response.success) {
+        setRules(response.rules || []);
+      }
+    } catch (err) {
+      console.error('Failed to load permission rules:', err);
+    }
+  };
+
+  const removeRule = async (id: string) => {
+    try {
+      await browser.runtime.sendMessage({
+        action: 'removePermissionRule',
+        id
+      });
+
+      loadRules();
+    } catch (err) {
+      console.error('Failed to remove permission rule:', err);
+    }
+  };
+
+  const startEditingRule = (rule: PermissionRule) => {
+    setEditingRuleId(rule.id);
+    setEditLimit(String(rule.dailyLimit ?? ''));
+    setRuleError('');
+  };
+
+  const saveRuleLimit = async (id: string) => {
+    try {
+      const response = await browser.runtime.sendMessage({
+        action: 'updatePermissionRule',
+        id,
+        changes: { dailyLimit: parseFloat(editLimit) }
+      });
+
+      if (!response.success) {
+        setRuleError(response.error || 'Failed to update rule');
+        return;
+      }
+
+      setEditingRuleId(null);
+      loadRules();
+    } catch (err) {
+      console.error('Failed to update permission rule:', err);
+    }
+  };
+
+  const describeRule = (rule: PermissionRule) => {
+    switch (rule.operation) {
+      case 'custom':
+        return `Custom JSON "${rule.customJsonId}"`;
+      case 'transfer':
+        return `Transfers up to ${rule.dailyLimit} ${rule.currency}/day`;
+      default:
+        return 'Votes';
+    }
+  };
+
+  const getSpentToday = (rule: PermissionRule) => {
+    const today = new Date().toISOString().slice(0, 10);
+    return rule.spent?.day === today ? rule.spent.amount : 0;
+  };
+
   const loadAuthorizations = async () => {
     try {
       const response = await browser.runtime.sendMessage({
@@ -204,6 +292,97 @@ export function AuthorizationManager() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Trusted Site Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Every request asks for approval. Tick "Don't ask again" when approving to add a rule.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div key={rule.id} className="p-3 border rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Globe className="h-4 w-4" />
+                        <span className="font-medium text-sm">{rule.origin}</span>
+                      </div>
+
+                      <div className="text-xs text-muted-foreground mb-2">
+                        Account: @{rule.account}
+                      </div>
+
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge variant="outline" className="text-xs">
+                          {describeRule(rule)}
+                        </Badge>
+                        {rule.operation === 'transfer' && (
+                          <span className="text-xs text-muted-foreground">
+                            {getSpentToday(rule)} {rule.currency} used today
+                          </span>
+                        )}
+                      </div>
+
+                      {editingRuleId === rule.id && (
+                        <div className="flex items-center gap-2 mb-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.001"
+                            value={editLimit}
+                            onChange={(e) => setEditLimit(e.target.value)}
+                            className="h-8"
+                          />
+                          <Button variant="ghost" size="sm" onClick={() => saveRuleLimit(rule.id)}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingRuleId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                      {editingRuleId === rule.id && ruleError && (
+                        <p className="text-xs text-red-600 mb-2">{ruleError}</p>
+                      )}
+
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Clock className="h-3 w-3" />
+                        <span>
+                          {rule.lastUsed ? `Last used: ${formatDate(rule.lastUsed)}` : `Added: ${formatDate(rule.createdAt)}`}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center">
+                      {rule.operation === 'transfer' && editingRuleId !== rule.id && (
+                        <Button variant="ghost" size="sm" onClick={() => startEditingRule(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeRule(rule.id)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Warning about expired authorizations */}
       {authorizations.some(auth => isExpired(auth.expires)) && (
         <Alert>
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { AutoLockReason, AutoLockStatus } from '@/src/interfaces/auto-lock.interface';
+
+interface AutoLockCountdownProps {
+  onExpire: () => void;
+  className?: string;
+}
+
+const REASON_LABELS: Record<AutoLockReason, string> = {
+  idle: 'after inactivity',
+  max_session: 'at the end of the session',
+  system_lock: 'when the system locks',
+  browser_close: 'when the browser closes',
+};
+
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+// Time left before the background locks the keychain; hidden when no timed policy is on
+export function AutoLockCountdown({ onExpire, className }: AutoLockCountdownProps) {
+  const [status, setStatus] = useState<AutoLockStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    browser.runtime
+      .sendMessage({ action: 'getAutoLockStatus' })
+      .then((response: any) => {
+        if (!cancelled && response?.success) {
+          setStatus(response.data);
+        }
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load the auto-lock status:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!status?.lockAt) return;
+
+    let cancelled = false;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current < status.lockAt!) return;
+
+      clearInterval(timer);
+      // Activity elsewhere may have pushed the deadline back, so check before locking
+      browser.runtime
+        .sendMessage({ action: 'getAutoLockStatus' })
+        .then((response: any) => {
+          if (cancelled) return;
+          if (response?.success && response.data.lockAt > Date.now()) {
+            setStatus(response.data);
+          } else {
+            onExpire();
+          }
+        })
+        .catch(() => {
+          if (!cancelled) onExpire();
+        });
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [status?.lockAt]);
+
+  if (!status?.lockAt || !status.reason) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 font-mono text-xs ${className || ''}`}
+      title={`Locks ${REASON_LABELS[status.reason]}`}
+    >
+      <Timer className="h-3 w-3" />
+      {formatRemaining(status.lockAt - now)}
+    </Badge>
+  );
+}
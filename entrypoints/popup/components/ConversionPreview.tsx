@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeychainRequest } from '../../background/services/types/keychain-api.types';
+
+interface ConversionPreviewProps {
+  request: KeychainRequest;
+  className?: string;
+}
+
+interface Conversion {
+  from: string;
+  to: string;
+  amount: string;
+  estimate: string;
+  medianPrice: { base: string; quote: string };
+  feePct: number;
+  delayHours: number;
+  settlesAt: string;
+}
+
+export function ConversionPreview({ request, className }: ConversionPreviewProps) {
+  const [conversion, setConversion] = useState<Conversion | null>(null);
+  const [error, setError] = useState<string>('');
+  const isConversionRequest = request.type === 'convert';
+
+  useEffect(() => {
+    if (!isConversionRequest) return;
+    let cancelled = false;
+    setConversion(null);
+    setError('');
+
+    browser.runtime
+      .sendMessage({ action: 'previewConversion', request })
+      .then((response: any) => {
+        if (cancelled) return;
+        if (response?.success) {
+          setConversion(response.result);
+        } else {
+          setError(response?.error || 'Unable to load the feed price');
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load the feed price');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, isConversionRequest]);
+
+  if (!isConversionRequest) return null;
+
+  if (error) {
+    return (
+      <Card className={`border-red-200 bg-red-50 dark:bg-red-950 ${className || ''}`}>
+        <CardContent className="p-4 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!conversion) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Loading feed price...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm">
+          Convert {conversion.from} to {conversion.to}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 text-xs">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Median feed price</span>
+          <span>{conversion.medianPrice.base} / {conversion.medianPrice.quote}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            {conversion.feePct ? 'Paid now (estimate)' : 'Receive (estimate)'}
+          </span>
+          <span className="font-medium">{conversion.estimate}</span>
+        </div>
+        {conversion.feePct > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Conversion fee</span>
+            <span>{conversion.feePct}%</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Settles after</span>
+          <span>
+            {conversion.delayHours / 24} days ({new Date(conversion.settlesAt).toLocaleString()})
+          </span>
+        </div>
+        <div className="text-muted-foreground pt-1">
+          {conversion.feePct
+            ? 'Excess collateral is returned once the conversion settles at the median price.'
+            : 'The final amount uses the median price at settlement and may differ from this estimate.'}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { LimitOrderEstimate, OrderBook } from '@/src/interfaces';
+import { KeychainRequest } from '../../background/services/types/keychain-api.types';
+
+interface MarketOrderPreviewProps {
+  request: KeychainRequest;
+  className?: string;
+}
+
+interface MarketPreview {
+  amount_to_sell: string;
+  min_to_receive: string;
+  book: OrderBook;
+  estimate: LimitOrderEstimate;
+}
+
+const LIMIT_ORDER_TYPES = ['limitOrderCreate', 'limitOrderCreate2'];
+
+const formatPrice = (price: number | null) => (price === null ? '—' : `${price.toFixed(6)} SBD`);
+
+export function MarketOrderPreview({ request, className }: MarketOrderPreviewProps) {
+  const [preview, setPreview] = useState<MarketPreview | null>(null);
+  const [error, setError] = useState<string>('');
+  const isLimitOrderRequest = LIMIT_ORDER_TYPES.includes(request.type);
+
+  useEffect(() => {
+    if (!isLimitOrderRequest) return;
+    let cancelled = false;
+    setPreview(null);
+    setError('');
+
+    browser.runtime
+      .sendMessage({ action: 'previewLimitOrder', request })
+      .then((response: any) => {
+        if (cancelled) return;
+        if (response?.success) {
+          setPreview(response.result);
+        } else {
+          setError(response?.error || 'Unable to load the order book');
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load the order book');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, isLimitOrderRequest]);
+
+  if (!isLimitOrderRequest) return null;
+
+  if (error) {
+    return (
+      <Card className={`border-red-200 bg-red-50 dark:bg-red-950 ${className || ''}`}>
+        <CardContent className="p-4 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Loading order book...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { estimate, book } = preview;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm">
+          {estimate.side === 'sell' ? 'Sell' : 'Buy'} STEEM on the internal market
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 text-xs">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Order</span>
+          <span>
+            {preview.amount_to_sell} for at least {preview.min_to_receive}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Limit price</span>
+          <span>{formatPrice(estimate.limitPrice)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Best bid / ask</span>
+          <span>
+            {formatPrice(book.bids[0]?.price ?? null)} / {formatPrice(book.asks[0]?.price ?? null)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Fills right away</span>
+          <span>
+            {estimate.filledPct}%
+            {estimate.averagePrice !== null && ` at ${formatPrice(estimate.averagePrice)} on average`}
+          </span>
+        </div>
+        {estimate.filledPct < 100 && (
+          <div className="text-muted-foreground pt-1">
+            The rest stays on the order book until it fills, is cancelled or expires.
+          </div>
+        )}
+        {estimate.warnings.map((warning) => (
+          <div key={warning} className="rounded bg-red-50 dark:bg-red-950 p-2 text-red-700 dark:text-red-300">
+            {warning}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
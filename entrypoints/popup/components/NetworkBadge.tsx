@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Badge } from '@/components/ui/badge';
+import type { NetworkProfile } from '@/src/interfaces/network.interface';
+
+interface NetworkBadgeProps {
+  className?: string;
+}
+
+// Which chain requests will be signed for, so testnet accounts are never mistaken for real ones
+export function NetworkBadge({ className }: NetworkBadgeProps) {
+  const [network, setNetwork] = useState<NetworkProfile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    browser.runtime
+      .sendMessage({ action: 'getNetwork' })
+      .then((response: any) => {
+        if (!cancelled && response?.success) {
+          setNetwork(response.data.network);
+        }
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load the active network:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!network) return null;
+
+  if (network.id === 'mainnet') {
+    return (
+      <Badge variant="outline" className={className}>
+        {network.name}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      className={`border-transparent bg-amber-500 text-white hover:bg-amber-500/80 ${className || ''}`}
+      title={network.chainId ? `Chain ${network.chainId.slice(0, 8)}…` : undefined}
+    >
+      {network.name}
+    </Badge>
+  );
+}
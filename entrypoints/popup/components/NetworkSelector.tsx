@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import type { NetworkProfile } from '@/src/interfaces/network.interface';
+
+interface NetworkSelectorProps {
+  onChange?: (network: NetworkProfile) => void;
+}
+
+export function NetworkSelector({ onChange }: NetworkSelectorProps) {
+  const [network, setNetwork] = useState<NetworkProfile | null>(null);
+  const [networks, setNetworks] = useState<NetworkProfile[]>([]);
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadNetwork();
+  }, []);
+
+  const loadNetwork = async () => {
+    try {
+      const response = await browser.runtime.sendMessage({ action: 'getNetwork' });
+      if (response.success) {
+        setNetwork(response.data.network);
+        setNetworks(response.data.networks);
+      }
+    } catch (err) {
+      console.error('Failed to load networks:', err);
+    }
+  };
+
+  const handleNetworkChange = async (id: string) => {
+    setSwitching(true);
+    try {
+      const response = await browser.runtime.sendMessage({
+        action: 'setNetwork',
+        payload: { network: id }
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to switch network');
+      }
+
+      setNetwork(response.data.network);
+      setError(null);
+      onChange?.(response.data.network);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Network
+          {switching && <Loader2 className="h-4 w-4 animate-spin" />}
+        </CardTitle>
+        <CardDescription>
+          Accounts, site permissions and nodes are kept separately for each network.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Select value={network?.id} onValueChange={handleNetworkChange} disabled={switching || !network}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a network" />
+          </SelectTrigger>
+          <SelectContent>
+            {networks.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name} ({profile.addressPrefix})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+}
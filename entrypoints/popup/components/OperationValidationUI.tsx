@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import type { RcEstimate, TransactionSimulation } from '@/src/interfaces';
+import { KeychainRequest } from '../../background/services/types/keychain-api.types';
 
 interface ValidationRule {
   field: string;
@@ -21,15 +25,21 @@ interface ValidationResult {
 interface OperationValidationUIProps {
   operationType: string;
   validation: ValidationResult;
+  rc?: RcEstimate;
   onRetry?: () => void;
 }
 
+// Request types the background can dry run before approval
+const SIMULATED_TYPES = ['broadcast', 'custom'];
+
 const OPERATION_ICONS: Record<string, string> = {
   requestTransfer: '💸',
   requestVote: '🗳️',
   requestCustomJson: '⚙️',
   requestVerifyKey: '🔐',
   requestHandshake: '🤝',
+  broadcast: '📡',
+  custom: '⚙️',
   post: '📝',
   witness: '👑',
   delegation: '🤝',
@@ -47,6 +57,8 @@ const OPERATION_NAMES: Record<string, string> = {
   requestCustomJson: 'Custom JSON',
   requestVerifyKey: 'Key Verification',
   requestHandshake: 'Handshake',
+  broadcast: 'Broadcast',
+  custom: 'Custom JSON',
   post: 'Post/Comment',
   witness: 'Witness Vote',
   delegation: 'Delegation',
@@ -60,6 +72,7 @@ const OPERATION_NAMES: Record<string, string> = {
 export function OperationValidationUI({
   operationType,
   validation,
+  rc,
   onRetry
 }: OperationValidationUIProps) {
   const operationIcon = OPERATION_ICONS[operationType] || OPERATION_ICONS.default;
@@ -160,6 +173,9 @@ export function OperationValidationUI({
         case 'account':
           tips.push('Double-check that the account name is spelled correctly');
           break;
+        case 'rc':
+          tips.push('Wait for your Resource Credits to regenerate or power up more STEEM');
+          break;
       }
     });
 
@@ -193,6 +209,12 @@ export function OperationValidationUI({
               </div>
             </div>
           </div>
+          {rc && (
+            <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+              <span>Resource Credits for @{rc.account}</span>
+              <span className="font-medium">~{rc.pctOfCurrent}% of available</span>
+            </div>
+          )}
         </div>
 
         {/* Validation Errors */}
@@ -283,7 +305,7 @@ export function OperationValidationUI({
               </ul>
             )}
             
-            {operationType === 'requestCustomJson' && (
+            {(operationType === 'requestCustomJson' || operationType === 'custom') && (
               <ul className="list-disc list-inside space-y-1">
                 <li>Verify the application requesting the operation</li>
                 <li>Review the JSON data being submitted</li>
@@ -301,7 +323,7 @@ export function OperationValidationUI({
               </ul>
             )}
 
-            {!['requestTransfer', 'requestVote', 'requestCustomJson', 'requestVerifyKey'].includes(operationType) && (
+            {!['requestTransfer', 'requestVote', 'requestCustomJson', 'custom', 'requestVerifyKey'].includes(operationType) && (
               <ul className="list-disc list-inside space-y-1">
                 <li>Carefully review all operation parameters</li>
                 <li>Ensure you understand the consequences of this operation</li>
@@ -338,7 +360,88 @@ export function OperationValidationUI({
             </AlertDescription>
           </Alert>
         )}
+
+        {onRetry && (
+          <Button variant="outline" size="sm" className="w-full" onClick={onRetry}>
+            Check again
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
+}
+
+interface TransactionSimulationPreviewProps {
+  request: KeychainRequest;
+}
+
+// Dry run of a broadcast or custom JSON request so failures show up before approval
+export function TransactionSimulationPreview({ request }: TransactionSimulationPreviewProps) {
+  const [simulation, setSimulation] = useState<TransactionSimulation | null>(null);
+  const [error, setError] = useState<string>('');
+  const [attempt, setAttempt] = useState(0);
+  const isSimulated = SIMULATED_TYPES.includes(request.type);
+
+  const retry = useCallback(() => setAttempt((count) => count + 1), []);
+
+  useEffect(() => {
+    if (!isSimulated) return;
+    let cancelled = false;
+    setSimulation(null);
+    setError('');
+
+    browser.runtime
+      .sendMessage({ action: 'simulateTransaction', request })
+      .then((response: any) => {
+        if (cancelled) return;
+        if (response?.success) {
+          setSimulation(response.result);
+        } else {
+          setError(response?.error || 'Unable to simulate the transaction');
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to simulate the transaction');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, isSimulated, attempt]);
+
+  if (!isSimulated) return null;
+
+  if (error) {
+    return (
+      <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950">
+        <CardContent className="p-4 space-y-2 text-sm text-amber-700 dark:text-amber-300">
+          <div>Could not check this transaction before approval: {error}</div>
+          <Button variant="outline" size="sm" onClick={retry}>
+            Try again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!simulation) {
+    return (
+      <Card>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Simulating transaction...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <OperationValidationUI
+      operationType={request.type}
+      validation={simulation}
+      rc={simulation.rc}
+      onRetry={retry}
+    />
+  );
 }
\ No newline at end of file
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { KeychainRequest } from '../../background/services/types/keychain-api.types';
+
+interface ProposalPreviewProps {
+  request: KeychainRequest;
+  className?: string;
+}
+
+interface Proposal {
+  id: number;
+  creator: string;
+  receiver: string;
+  subject: string;
+  daily_pay: string;
+  start_date: string;
+  end_date: string;
+  total_votes?: string;
+}
+
+const PROPOSAL_REQUEST_TYPES = ['removeProposal', 'updateProposalVote'];
+
+export function ProposalPreview({ request, className }: ProposalPreviewProps) {
+  const [proposals, setProposals] = useState<Proposal[] | null>(null);
+  const [missing, setMissing] = useState<number[]>([]);
+  const [error, setError] = useState<string>('');
+  const isProposalRequest = PROPOSAL_REQUEST_TYPES.includes(request.type);
+
+  useEffect(() => {
+    if (!isProposalRequest) return;
+    let cancelled = false;
+    setProposals(null);
+    setMissing([]);
+    setError('');
+
+    browser.runtime
+      .sendMessage({ action: 'previewProposals', request })
+      .then((response: any) => {
+        if (cancelled) return;
+        if (response?.success) {
+          setProposals(response.result.proposals);
+          setMissing(response.result.missing);
+        } else {
+          setError(response?.error || 'Unable to load proposals');
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load proposals');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, isProposalRequest]);
+
+  if (!isProposalRequest) return null;
+
+  if (error) {
+    return (
+      <Card className={`border-red-200 bg-red-50 dark:bg-red-950 ${className || ''}`}>
+        <CardContent className="p-4 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!proposals) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Loading proposals...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const formatDate = (date: string) => new Date(`${date}Z`).toLocaleDateString();
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm">
+          {proposals.length === 1 ? 'Proposal' : `Proposals (${proposals.length})`}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposals.map(proposal => (
+          <div key={proposal.id} className="space-y-1 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium truncate">{proposal.subject}</span>
+              <Badge variant="outline">#{proposal.id}</Badge>
+            </div>
+            <div className="text-muted-foreground">
+              @{proposal.creator} → @{proposal.receiver} · {proposal.daily_pay}/day
+            </div>
+            <div className="text-muted-foreground">
+              {formatDate(proposal.start_date)} – {formatDate(proposal.end_date)}
+            </div>
+          </div>
+        ))}
+        {missing.length > 0 && (
+          <div className="text-xs text-red-600">
+            Not found on chain: {missing.map(id => `#${id}`).join(', ')}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,16 +6,21 @@ import { Separator } from '@/components/ui/separator';
 import { KeychainRequest } from '../../background/services/types/keychain-api.types';
 
 interface PendingRequest {
+  id: string;
   request: KeychainRequest;
   origin: string;
   timestamp: number;
+  expiresAt?: number;
 }
 
 interface RequestQueueProps {
   requests: PendingRequest[];
-  currentRequestId?: number;
+  currentRequestId?: string;
   onSelectRequest: (request: PendingRequest) => void;
   onRejectAll: () => void;
+  onApproveAll?: () => void;
+  onReorder?: (ids: string[]) => void;
+  disabled?: boolean;
   className?: string;
 }
 
@@ -24,6 +29,9 @@ export function RequestQueue({
   currentRequestId,
   onSelectRequest,
   onRejectAll,
+  onApproveAll,
+  onReorder,
+  disabled,
   className
 }: RequestQueueProps) {
   
@@ -67,6 +75,15 @@ export function RequestQueue({
     return new Date(timestamp).toLocaleDateString();
   };
 
+  const moveRequest = (index: number, offset: number) => {
+    const target = index + offset;
+    if (!onReorder || target < 0 || target >= requests.length) return;
+
+    const ids = requests.map(req => req.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    onReorder(ids);
+  };
+
   const getOperationRisk = (type: string): 'low' | 'medium' | 'high' => {
     const highRisk = ['requestPowerDown', 'requestRemoveAccountAuthority', 'requestRemoveKeyAuthority'];
     const mediumRisk = ['requestTransfer', 'requestDelegateVestingShares', 'requestAddAccountAuthority', 'requestCustomJson'];
@@ -119,14 +136,28 @@ export function RequestQueue({
             Request Queue ({requests.length})
           </CardTitle>
           {requests.length > 1 && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onRejectAll}
-              className="text-xs text-muted-foreground hover:text-destructive"
-            >
-              Reject All
-            </Button>
+            <div className="flex items-center gap-1">
+              {onApproveAll && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onApproveAll}
+                  disabled={disabled}
+                  className="text-xs text-muted-foreground hover:text-primary"
+                >
+                  Approve All
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRejectAll}
+                disabled={disabled}
+                className="text-xs text-muted-foreground hover:text-destructive"
+              >
+                Reject All
+              </Button>
+            </div>
           )}
         </div>
       </CardHeader>
@@ -134,11 +165,11 @@ export function RequestQueue({
       <CardContent className="space-y-2 pt-0">
         {requests.map((pendingRequest, index) => {
           const { request, origin, timestamp } = pendingRequest;
-          const isActive = request.request_id === currentRequestId;
+          const isActive = pendingRequest.id === currentRequestId;
           const risk = getOperationRisk(request.type);
           
           return (
-            <div key={request.request_id}>
+            <div key={pendingRequest.id}>
               <div
                 className={`p-3 rounded-lg cursor-pointer transition-all duration-200 ${
                   isActive
@@ -181,6 +212,36 @@ export function RequestQueue({
                     </div>
                   </div>
 
+                  {/* Queue Order Controls */}
+                  {onReorder && requests.length > 1 && (
+                    <div className="flex flex-col">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-xs"
+                        disabled={disabled || index === 0}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveRequest(index, -1);
+                        }}
+                      >
+                        ▲
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-xs"
+                        disabled={disabled || index === requests.length - 1}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveRequest(index, 1);
+                        }}
+                      >
+                        ▼
+                      </Button>
+                    </div>
+                  )}
+
                   {/* Active Indicator */}
                   {isActive && (
                     <div className="w-2 h-2 bg-primary rounded-full mt-2"></div>
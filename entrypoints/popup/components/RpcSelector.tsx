@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Badge } from '@/components/ui/badge';
 import { Loader2, AlertCircle, CheckCircle2, Plus, Trash2, RefreshCw } from 'lucide-react';
 import { DefaultRpcs } from '@/src/reference-data/default-rpc.list';
+import type { RpcHealth } from '@/src/interfaces/rpc.interface';
 
 interface RpcNode {
   uri: string;
@@ -20,12 +21,28 @@ interface RpcNode {
 interface RpcStatus {
   uri: string;
   latency?: number;
+  score?: number;
+  blockLag?: number;
+  ejected?: boolean;
   status: 'online' | 'offline' | 'checking';
   lastChecked?: Date;
 }
 
+// Pool health as measured by the background, so badges match the node actually used
+const toStatus = (health: RpcHealth): RpcStatus => ({
+  uri: health.uri,
+  latency: health.latencyMs ?? undefined,
+  score: health.score,
+  blockLag: health.blockLag,
+  ejected: health.ejected,
+  status: health.lastChecked && health.latencyMs !== null && !health.lastError ? 'online' : 'offline',
+  lastChecked: health.lastChecked ? new Date(health.lastChecked) : undefined
+});
+
 export function RpcSelector() {
   const [currentRpc, setCurrentRpc] = useState<RpcNode>(DefaultRpcs[0]);
+  // Built-in nodes of the active network
+  const [defaultRpcs, setDefaultRpcs] = useState<RpcNode[]>(DefaultRpcs);
   const [customRpcs, setCustomRpcs] = useState<RpcNode[]>([]);
   const [rpcStatuses, setRpcStatuses] = useState<Map<string, RpcStatus>>(new Map());
   const [loading, setLoading] = useState(false);
@@ -35,19 +52,27 @@ export function RpcSelector() {
   const [isTestingNewRpc, setIsTestingNewRpc] = useState(false);
 
   useEffect(() => {
-    loadSettings();
-    checkAllRpcStatuses();
+    loadSettings().then(checkAllRpcStatuses);
   }, []);
 
-  const loadSettings = async () => {
+  const loadSettings = async (): Promise<RpcNode[] | undefined> => {
     try {
       const response = await browser.runtime.sendMessage({
         action: 'getRpcSettings'
       });
 
       if (response.success) {
-        setCurrentRpc(response.data.currentRpc || DefaultRpcs[0]);
+        const networkRpcs = response.data.defaultRpcs || DefaultRpcs;
+        setDefaultRpcs(networkRpcs);
+        setCurrentRpc(response.data.currentRpc || networkRpcs[0]);
         setCustomRpcs(response.data.customRpcs || []);
+        const checked = (response.data.health || []).filter((health: RpcHealth) => health.lastChecked);
+        setRpcStatuses(prev => {
+          const statuses = new Map(prev);
+          checked.forEach((health: RpcHealth) => statuses.set(health.uri, toStatus(health)));
+          return statuses;
+        });
+        return [...networkRpcs, ...(response.data.customRpcs || [])];
       }
     } catch (err) {
       console.error('Failed to load RPC settings:', err);
@@ -72,28 +97,27 @@ export function RpcSelector() {
     }
   };
 
-  const testRpcNode = async (uri: string): Promise<{ success: boolean; latency?: number }> => {
-    const startTime = Date.now();
-    
+  const testRpcNode = async (
+    uri: string
+  ): Promise<{ success: boolean; latency?: number; error?: string; health?: RpcHealth }> => {
     try {
       const response = await browser.runtime.sendMessage({
         action: 'testRpc',
         payload: { uri }
       });
 
-      const latency = Date.now() - startTime;
-
       return {
         success: response.success,
-        latency: response.success ? latency : undefined
+        latency: response.success ? response.latencyMs : undefined,
+        error: response.error,
+        health: response.health
       };
     } catch (err) {
       return { success: false };
     }
   };
 
-  const checkAllRpcStatuses = async () => {
-    const allRpcs = [...DefaultRpcs, ...customRpcs];
+  const checkAllRpcStatuses = async (allRpcs: RpcNode[] = [...defaultRpcs, ...customRpcs]) => {
     
     for (const rpc of allRpcs) {
       setRpcStatuses(prev => new Map(prev).set(rpc.uri, {
@@ -103,7 +127,7 @@ export function RpcSelector() {
 
       const result = await testRpcNode(rpc.uri);
       
-      setRpcStatuses(prev => new Map(prev).set(rpc.uri, {
+      setRpcStatuses(prev => new Map(prev).set(rpc.uri, result.health ? toStatus(result.health) : {
         uri: rpc.uri,
         status: result.success ? 'online' : 'offline',
         latency: result.latency,
@@ -114,7 +138,7 @@ export function RpcSelector() {
 
   const handleRpcChange = async (uri: string) => {
     setLoading(true);
-    const rpc = [...DefaultRpcs, ...customRpcs].find(r => r.uri === uri);
+    const rpc = [...defaultRpcs, ...customRpcs].find(r => r.uri === uri);
     
     if (rpc) {
       await saveSettings(rpc);
@@ -133,7 +157,7 @@ export function RpcSelector() {
     const result = await testRpcNode(newRpcUri);
     
     if (!result.success) {
-      setError('Failed to connect to RPC node. Please check the URL and try again.');
+      setError(result.error || 'Failed to connect to RPC node. Please check the URL and try again.');
       setIsTestingNewRpc(false);
       return;
     }
@@ -147,20 +171,22 @@ export function RpcSelector() {
         payload: { customRpcs: updatedCustomRpcs }
       });
 
-      if (response.success) {
-        setCustomRpcs(updatedCustomRpcs);
-        setNewRpcUri('');
-        setIsAddDialogOpen(false);
-        setError(null);
-        
-        // Update status
-        setRpcStatuses(prev => new Map(prev).set(newRpcUri, {
-          uri: newRpcUri,
-          status: 'online',
-          latency: result.latency,
-          lastChecked: new Date()
-        }));
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to save custom RPC nodes');
       }
+
+      setCustomRpcs(response.data.customRpcs);
+      setNewRpcUri('');
+      setIsAddDialogOpen(false);
+      setError(null);
+
+      // Update status
+      setRpcStatuses(prev => new Map(prev).set(newRpcUri, {
+        uri: newRpcUri,
+        status: 'online',
+        latency: result.latency,
+        lastChecked: new Date()
+      }));
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -177,19 +203,19 @@ export function RpcSelector() {
         payload: { customRpcs: updatedCustomRpcs }
       });
 
-      if (response.success) {
-        setCustomRpcs(updatedCustomRpcs);
-        setRpcStatuses(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(uri);
-          return newMap;
-        });
-
-        // If the removed RPC was the current one, switch to default
-        if (currentRpc.uri === uri) {
-          await saveSettings(DefaultRpcs[0]);
-        }
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to save custom RPC nodes');
       }
+
+      setCustomRpcs(response.data.customRpcs);
+      setRpcStatuses(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(uri);
+        return newMap;
+      });
+
+      // The background falls back to the default node when the current one is removed
+      setCurrentRpc(response.data.currentRpc);
     } catch (err: any) {
       setError(err.message);
     }
@@ -205,11 +231,24 @@ export function RpcSelector() {
     if (status.status === 'offline') {
       return <Badge variant="destructive">Offline</Badge>;
     }
+
+    if (status.ejected) {
+      return (
+        <Badge variant="destructive" title="Skipped until it catches up">
+          {status.blockLag ? `${status.blockLag} blocks behind` : 'Unreliable'}
+        </Badge>
+      );
+    }
     
     return (
-      <Badge variant="default" className="flex items-center gap-1">
+      <Badge
+        variant="default"
+        className="flex items-center gap-1"
+        title={status.score !== undefined ? `Health score ${status.score}/100` : undefined}
+      >
         <CheckCircle2 className="w-3 h-3" />
         {status.latency ? `${status.latency}ms` : 'Online'}
+        {status.score !== undefined && ` · ${status.score}`}
       </Badge>
     );
   };
@@ -227,7 +266,7 @@ export function RpcSelector() {
           <Button
             variant="ghost"
             size="icon"
-            onClick={checkAllRpcStatuses}
+            onClick={() => checkAllRpcStatuses()}
             title="Refresh node status"
           >
             <RefreshCw className="h-4 w-4" />
@@ -249,7 +288,7 @@ export function RpcSelector() {
               <div className="font-semibold text-sm px-2 py-1.5 text-muted-foreground">
                 Default Nodes
               </div>
-              {DefaultRpcs.map((rpc) => (
+              {defaultRpcs.map((rpc) => (
                 <SelectItem key={rpc.uri} value={rpc.uri}>
                   <div className="flex items-center justify-between w-full">
                     <span className="mr-2">{rpc.uri}</span>
@@ -350,6 +389,7 @@ export function RpcSelector() {
 
         <div className="text-sm text-muted-foreground">
           <p>Current node: <span className="font-medium">{currentRpc.uri}</span></p>
+          <p>Requests move to the healthiest node when this one fails or falls behind.</p>
           {rpcStatuses.get(currentRpc.uri)?.lastChecked && (
             <p>Last checked: {rpcStatuses.get(currentRpc.uri)?.lastChecked?.toLocaleTimeString()}</p>
           )}
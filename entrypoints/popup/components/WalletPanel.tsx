@@ -0,0 +1,418 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { PendingRewards, RewardClaimResult, TrackedEscrow } from '@/src/interfaces';
+
+interface WalletPanelProps {
+  username: string;
+}
+
+interface WalletOverview {
+  savings: {
+    steem: string;
+    sbd: string;
+    withdrawals: Array<{ request_id: number; to: string; amount: string; complete: string }>;
+  };
+  rewards: PendingRewards;
+  routes: Array<{ to_account: string; percent: number; auto_vest: boolean }>;
+}
+
+interface OpenOrder {
+  orderid: number;
+  sell_price: { base: string; quote: string };
+  for_sale: number;
+  expiration: string;
+}
+
+const CURRENCIES = ['STEEM', 'SBD'] as const;
+
+export function WalletPanel({ username }: WalletPanelProps) {
+  const [overview, setOverview] = useState<WalletOverview | null>(null);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [escrows, setEscrows] = useState<TrackedEscrow[]>([]);
+  const [autoClaim, setAutoClaim] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<(typeof CURRENCIES)[number]>('STEEM');
+  const [routeTo, setRouteTo] = useState('');
+  const [routePercent, setRoutePercent] = useState('');
+  const [routeAutoVest, setRouteAutoVest] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      const response: any = await browser.runtime.sendMessage({
+        action: 'getWalletOverview',
+        request: { type: 'getWalletOverview', request_id: Date.now(), username },
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to load wallet');
+      }
+      setOverview(response.result);
+
+      const orders: any = await browser.runtime.sendMessage({ action: 'getOpenOrders', username });
+      setOpenOrders(orders?.success ? orders.orders : []);
+
+      const tracked: any = await browser.runtime.sendMessage({ action: 'getOpenEscrows', username });
+      setEscrows(tracked?.success ? tracked.escrows : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load wallet');
+    }
+  }, [username]);
+
+  useEffect(() => {
+    loadOverview();
+    browser.runtime
+      .sendMessage({ action: 'getAutoClaimRewards' })
+      .then((response: any) => setAutoClaim(!!response?.enabled))
+      .catch(() => setAutoClaim(false));
+  }, [loadOverview]);
+
+  const run = async (message: Record<string, any>, successMessage: (result: any) => string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response: any = await browser.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Transaction failed');
+      }
+      setNotice(successMessage(response.result));
+      await loadOverview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const walletRequest = (type: string, params: Record<string, any>, successMessage: string) =>
+    run(
+      { action: 'walletRequest', request: { type, request_id: Date.now(), username, ...params } },
+      () => successMessage
+    );
+
+  const formattedAmount = () => Number(amount).toFixed(3);
+
+  const claimAll = () =>
+    run({ action: 'claimAllRewards' }, (results: RewardClaimResult[]) => {
+      const claimed = results.filter((result) => result.claimed).map((result) => `@${result.username}`);
+      return claimed.length ? `Claimed rewards for ${claimed.join(', ')}` : 'No account had rewards to claim';
+    });
+
+  const toggleAutoClaim = async (enabled: boolean) => {
+    setAutoClaim(enabled);
+    await browser.runtime.sendMessage({ action: 'setAutoClaimRewards', enabled });
+  };
+
+  if (!overview) {
+    return error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    ) : (
+      <div className="text-muted-foreground">Loading...</div>
+    );
+  }
+
+  const hasRewards = [overview.rewards.reward_steem, overview.rewards.reward_sbd, overview.rewards.reward_vests].some(
+    (value) => parseFloat(value) > 0
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Pending rewards</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm space-y-1">
+            <div>{overview.rewards.reward_steem}</div>
+            <div>{overview.rewards.reward_sbd}</div>
+            <div>{overview.rewards.reward_vests}</div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={busy || !hasRewards}
+              onClick={() => walletRequest('claimRewards', {}, 'Rewards claimed')}
+            >
+              Claim
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={claimAll}>
+              Claim for all accounts
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" checked={autoClaim} onChange={(event) => toggleAutoClaim(event.target.checked)} />
+            Claim rewards for all accounts automatically while unlocked
+          </label>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Savings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm space-y-1">
+            <div>{overview.savings.steem}</div>
+            <div>{overview.savings.sbd}</div>
+          </div>
+          <div className="flex gap-2">
+            <Input placeholder="0.000" value={amount} onChange={(event) => setAmount(event.target.value)} />
+            {CURRENCIES.map((symbol) => (
+              <Button
+                key={symbol}
+                size="sm"
+                variant={currency === symbol ? 'default' : 'outline'}
+                onClick={() => setCurrency(symbol)}
+              >
+                {symbol}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={busy || !(Number(amount) > 0)}
+              onClick={() =>
+                walletRequest(
+                  'transferToSavings',
+                  { amount: formattedAmount(), currency },
+                  `Moved ${formattedAmount()} ${currency} to savings`
+                )
+              }
+            >
+              Deposit
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={busy || !(Number(amount) > 0)}
+              onClick={() =>
+                walletRequest(
+                  'transferFromSavings',
+                  { amount: formattedAmount(), currency },
+                  `Withdrawal of ${formattedAmount()} ${currency} started, funds arrive in 3 days`
+                )
+              }
+            >
+              Withdraw
+            </Button>
+          </div>
+          {overview.savings.withdrawals.map((withdrawal) => (
+            <div key={withdrawal.request_id} className="flex items-center justify-between text-xs">
+              <span>
+                {withdrawal.amount} → @{withdrawal.to} on {new Date(`${withdrawal.complete}Z`).toLocaleDateString()}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onClick={() =>
+                  walletRequest(
+                    'cancelTransferFromSavings',
+                    { savings_request_id: withdrawal.request_id },
+                    'Withdrawal cancelled'
+                  )
+                }
+              >
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Power down routes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {overview.routes.length === 0 && (
+            <div className="text-xs text-muted-foreground">Power down payments go to @{username}</div>
+          )}
+          {overview.routes.map((route) => (
+            <div key={route.to_account} className="flex items-center justify-between text-xs">
+              <span>
+                {route.percent / 100}% → @{route.to_account}
+                {route.auto_vest ? ' (powered up)' : ''}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onClick={() =>
+                  walletRequest(
+                    'setWithdrawVestingRoute',
+                    { to: route.to_account, percent: 0, auto_vest: false },
+                    `Route to @${route.to_account} removed`
+                  )
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input placeholder="Account" value={routeTo} onChange={(event) => setRouteTo(event.target.value.trim())} />
+            <Input
+              placeholder="%"
+              className="w-20"
+              value={routePercent}
+              onChange={(event) => setRoutePercent(event.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={routeAutoVest}
+                onChange={(event) => setRouteAutoVest(event.target.checked)}
+              />
+              Power up at destination
+            </label>
+            <Button
+              size="sm"
+              disabled={busy || !routeTo || !(Number(routePercent) > 0)}
+              onClick={() =>
+                walletRequest(
+                  'setWithdrawVestingRoute',
+                  { to: routeTo, percent: Number(routePercent), auto_vest: routeAutoVest },
+                  `Route to @${routeTo} set to ${routePercent}%`
+                )
+              }
+            >
+              Set route
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {escrows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Escrows</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {escrows.map((escrow) => {
+              const escrowRef = { from: escrow.from, escrow_id: escrow.escrow_id };
+              const needsApproval =
+                (username === escrow.to && !escrow.to_approved) || (username === escrow.agent && !escrow.agent_approved);
+              const approved = escrow.to_approved && escrow.agent_approved;
+              // Without a dispute only the sender releases to the receiver and vice versa
+              const canRelease = approved && (escrow.disputed ? username === escrow.agent : username !== escrow.agent);
+
+              return (
+                <div key={`${escrow.from}/${escrow.escrow_id}`} className="space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span>
+                      #{escrow.escrow_id} @{escrow.from} → @{escrow.to} (agent @{escrow.agent})
+                    </span>
+                    <span className="text-muted-foreground">
+                      {escrow.disputed ? 'Disputed' : approved ? 'Approved' : 'Awaiting approval'}
+                    </span>
+                  </div>
+                  <div>
+                    {escrow.sbd_amount}, {escrow.steem_amount}
+                    {escrow.linked_asset && ` for asset ${escrow.linked_asset.universal_id}`}
+                  </div>
+                  <div className="flex gap-2">
+                    {needsApproval && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={busy}
+                          onClick={() =>
+                            walletRequest('escrow_approve', { ...escrowRef, approve: true }, 'Escrow approved')
+                          }
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busy}
+                          onClick={() =>
+                            walletRequest('escrow_approve', { ...escrowRef, approve: false }, 'Escrow declined')
+                          }
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {canRelease && (
+                      <Button
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => walletRequest('escrow_release', escrowRef, 'Escrow released')}
+                      >
+                        Release
+                      </Button>
+                    )}
+                    {approved && !escrow.disputed && username !== escrow.agent && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busy}
+                        onClick={() => walletRequest('escrow_dispute', escrowRef, 'Escrow handed to the agent')}
+                      >
+                        Dispute
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {openOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Open market orders</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {openOrders.map((order) => (
+              <div key={order.orderid} className="flex items-center justify-between text-xs">
+                <span>
+                  {order.sell_price.base} for {order.sell_price.quote}, until{' '}
+                  {new Date(`${order.expiration}Z`).toLocaleDateString()}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busy}
+                  onClick={() =>
+                    walletRequest('limitOrderCancel', { orderid: order.orderid }, `Order ${order.orderid} cancelled`)
+                  }
+                >
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
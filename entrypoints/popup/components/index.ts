@@ -13,5 +13,13 @@ export { TransferOperationForm } from './TransferOperationForm';
 export { VoteOperationUI } from './VoteOperationUI';
 export { CustomJsonFormatter } from './CustomJsonFormatter';
 export { KeyVerificationDisplay } from './KeyVerificationDisplay';
-export { OperationValidationUI } from './OperationValidationUI';
-export { LoadingErrorStates } from './LoadingErrorStates';
\ No newline at end of file
+export { OperationValidationUI, TransactionSimulationPreview } from './OperationValidationUI';
+export { LoadingErrorStates } from './LoadingErrorStates';
+export { AuthorityDiff } from './AuthorityDiff';
+export { ProposalPreview } from './ProposalPreview';
+export { ConversionPreview } from './ConversionPreview';
+export { MarketOrderPreview } from './MarketOrderPreview';
+export { WalletPanel } from './WalletPanel';
+export { NetworkBadge } from './NetworkBadge';
+export { NetworkSelector } from './NetworkSelector';
+export { AutoLockCountdown } from './AutoLockCountdown';
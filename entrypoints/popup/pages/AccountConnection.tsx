@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { AccountLookup } from '../components/AccountLookup';
 import { RpcSelector } from '../components/RpcSelector';
+import { NetworkSelector } from '../components/NetworkSelector';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -13,6 +14,8 @@ interface AccountConnectionProps {
 
 export function AccountConnection({ onBack, onImportAccount }: AccountConnectionProps) {
   const [activeTab, setActiveTab] = useState('lookup');
+  // Remounts the node list, which belongs to the active network
+  const [networkId, setNetworkId] = useState<string>();
 
   return (
     <div className="min-h-screen bg-background p-4">
@@ -47,8 +50,9 @@ export function AccountConnection({ onBack, onImportAccount }: AccountConnection
             />
           </TabsContent>
 
-          <TabsContent value="settings" className="mt-4">
-            <RpcSelector />
+          <TabsContent value="settings" className="mt-4 space-y-4">
+            <NetworkSelector onChange={(network) => setNetworkId(network.id)} />
+            <RpcSelector key={networkId} />
           </TabsContent>
         </Tabs>
 
@@ -10,8 +10,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AssetPortfolioView } from '../components/AssetPortfolioView';
 import { AssetMintForm } from '../components/AssetMintForm';
 import { AssetTransferForm } from '../components/AssetTransferForm';
+import { WalletPanel } from '../components/WalletPanel';
 import type { Keys } from '@/src/interfaces';
 
+interface ConversionRequest {
+  id: number;
+  requestid: number;
+  amount: string;
+  conversion_date: string;
+}
+
 interface AccountDetailsData {
   username: string;
   isActive: boolean;
@@ -28,9 +36,11 @@ export const AccountDetails = () => {
   const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
   const [copiedKeys, setCopiedKeys] = useState<Set<string>>(new Set());
   const [masterPassword, setMasterPassword] = useState<string | null>(null);
+  const [pendingClaimedAccounts, setPendingClaimedAccounts] = useState<number | null>(null);
+  const [conversions, setConversions] = useState<ConversionRequest[]>([]);
   
   // Portfolio and operations state
-  const [activeTab, setActiveTab] = useState<'keys' | 'portfolio' | 'operations'>('keys');
+  const [activeTab, setActiveTab] = useState<'keys' | 'wallet' | 'portfolio' | 'operations'>('keys');
   const [operationMode, setOperationMode] = useState<'overview' | 'mint' | 'transfer' | null>('overview');
   const [selectedAssets, setSelectedAssets] = useState<any[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<any | null>(null);
@@ -39,8 +49,8 @@ export const AccountDetails = () => {
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const tabParam = urlParams.get('tab');
-    if (tabParam && ['keys', 'portfolio', 'operations'].includes(tabParam)) {
-      setActiveTab(tabParam as 'keys' | 'portfolio' | 'operations');
+    if (tabParam && ['keys', 'wallet', 'portfolio', 'operations'].includes(tabParam)) {
+      setActiveTab(tabParam as 'keys' | 'wallet' | 'portfolio' | 'operations');
     }
   }, []);
 
@@ -79,6 +89,29 @@ export const AccountDetails = () => {
     loadAccountDetails();
   }, [username]);
 
+  // Claimed account tokens come from the chain, so they load separately and may be missing offline
+  useEffect(() => {
+    if (!username) return;
+
+    chrome.runtime
+      .sendMessage({ action: 'getAccountClaimStatus', username })
+      .then((response) => {
+        if (response?.success) {
+          setPendingClaimedAccounts(response.status.pendingClaimedAccounts);
+        }
+      })
+      .catch((err) => console.error('Failed to load claimed accounts:', err));
+
+    chrome.runtime
+      .sendMessage({ action: 'getConversionRequests', username })
+      .then((response) => {
+        if (response?.success) {
+          setConversions(response.conversions);
+        }
+      })
+      .catch((err) => console.error('Failed to load conversions:', err));
+  }, [username]);
+
   const toggleKeyVisibility = (keyType: string) => {
     setVisibleKeys(prev => {
       const newSet = new Set(prev);
@@ -397,6 +430,31 @@ export const AccountDetails = () => {
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back
         </Button>
+        <div className="flex gap-2">
+          {!!pendingClaimedAccounts && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/account/${account.username}/create-account`)}
+            >
+              Create account
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/account/${account.username}/witnesses`)}
+          >
+            Witnesses
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/account/${account.username}/multisig`)}
+          >
+            Multisig
+          </Button>
+        </div>
       </div>
 
       <div className="mb-6">
@@ -408,14 +466,38 @@ export const AccountDetails = () => {
           {account.isMasterPassword && (
             <Badge variant="outline">Master Password</Badge>
           )}
+          {pendingClaimedAccounts !== null && (
+            <Badge variant="outline">
+              {pendingClaimedAccounts} claimed account {pendingClaimedAccounts === 1 ? 'token' : 'tokens'}
+            </Badge>
+          )}
         </div>
       </div>
 
+      {conversions.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-base">Pending conversions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {conversions.map((conversion) => (
+              <div key={conversion.id} className="flex items-center justify-between text-sm">
+                <span className="font-medium">{conversion.amount}</span>
+                <span className="text-muted-foreground">
+                  {new Date(`${conversion.conversion_date}Z`).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Separator className="mb-6" />
 
-      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'keys' | 'portfolio' | 'operations')}>
-        <TabsList className="grid w-full grid-cols-3">
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'keys' | 'wallet' | 'portfolio' | 'operations')}>
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="keys">🔑 Keys</TabsTrigger>
+          <TabsTrigger value="wallet">💰 Wallet</TabsTrigger>
           <TabsTrigger value="portfolio">📊 Portfolio</TabsTrigger>
           <TabsTrigger value="operations">⚙️ Operations</TabsTrigger>
         </TabsList>
@@ -424,6 +506,10 @@ export const AccountDetails = () => {
           {renderKeysContent()}
         </TabsContent>
 
+        <TabsContent value="wallet" className="mt-6">
+          {username && <WalletPanel username={username} />}
+        </TabsContent>
+
         <TabsContent value="portfolio" className="mt-6">
           {renderPortfolioContent()}
         </TabsContent>
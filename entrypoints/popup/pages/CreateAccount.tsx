@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { browser } from 'wxt/browser';
+import { ArrowLeft, Copy, Check, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { KeyHandoffBundle } from '@/src/interfaces';
+
+const ROLES = ['owner', 'active', 'posting', 'memo'] as const;
+
+const formatBundle = (handoff: KeyHandoffBundle) =>
+  [
+    `Account: @${handoff.account}`,
+    `Created by: @${handoff.creator} on ${handoff.createdAt}`,
+    '',
+    `Master password: ${handoff.masterPassword}`,
+    '',
+    ...ROLES.flatMap((role) => [
+      `${role} private key: ${handoff.keys[role].private}`,
+      `${role} public key: ${handoff.keys[role].public}`,
+    ]),
+  ].join('\n');
+
+// Creates an account from a claimed account token. The new user's keys only live in this page's state.
+export const CreateAccount = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const [newAccount, setNewAccount] = useState('');
+  const [handoff, setHandoff] = useState<KeyHandoffBundle | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const create = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response: any = await browser.runtime.sendMessage({
+        action: 'createOnboardingAccount',
+        request: {
+          type: 'createOnboardingAccount',
+          request_id: Date.now(),
+          username,
+          new_account: newAccount.trim().toLowerCase(),
+        },
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Account creation failed');
+      }
+      setHandoff(response.result.handoff);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Account creation failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const copyBundle = async () => {
+    if (!handoff) return;
+    try {
+      await navigator.clipboard.writeText(formatBundle(handoff));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const downloadBundle = () => {
+    if (!handoff) return;
+    const url = URL.createObjectURL(new Blob([formatBundle(handoff)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${handoff.account}-keys.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Dropping the bundle here is what makes it a one-time handoff
+  const finish = () => {
+    setHandoff(null);
+    navigate(`/account/${username}`);
+  };
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto space-y-4">
+      <Button variant="ghost" size="sm" onClick={() => (handoff ? finish() : navigate(`/account/${username}`))}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back
+      </Button>
+
+      <div>
+        <h1 className="text-2xl font-bold">Create account</h1>
+        <p className="text-sm text-muted-foreground">Uses one of @{username}'s claimed account tokens</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!handoff && (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="newAccount">New account name</Label>
+              <Input
+                id="newAccount"
+                value={newAccount}
+                placeholder="username"
+                onChange={(event) => setNewAccount(event.target.value)}
+              />
+            </div>
+            <Button className="w-full" disabled={!newAccount.trim() || submitting} onClick={create}>
+              {submitting ? 'Creating...' : 'Create account'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {handoff && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">@{handoff.account} was created</CardTitle>
+            <CardDescription>
+              Hand these keys to the new user now. They are shown once and the keychain does not keep them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label>Master password</Label>
+              <div className="font-mono text-xs break-all bg-muted p-2 rounded">{handoff.masterPassword}</div>
+            </div>
+            {ROLES.map((role) => (
+              <div key={role} className="space-y-1">
+                <Label className="capitalize">{role} key</Label>
+                <div className="font-mono text-xs break-all bg-muted p-2 rounded">{handoff.keys[role].private}</div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={copyBundle}>
+                {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                Copy
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={downloadBundle}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </div>
+            <Button className="w-full" onClick={finish}>
+              I have saved the keys
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
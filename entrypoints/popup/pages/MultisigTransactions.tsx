@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { browser } from 'wxt/browser';
+import { ArrowLeft, Copy, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { PendingMultisigTransaction } from '@/src/interfaces';
+
+const describeResult = (result: any) =>
+  result?.status === 'broadcast'
+    ? `Broadcast as ${result.tx_id}`
+    : `Signed ${result?.signedWeight}/${result?.threshold}, export it to the next co-signer`;
+
+// Transactions waiting for co-signers. Signing uses @username's key for the transaction's role.
+export const MultisigTransactions = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const [transactions, setTransactions] = useState<PendingMultisigTransaction[]>([]);
+  const [importJson, setImportJson] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadTransactions = async () => {
+    try {
+      const response: any = await browser.runtime.sendMessage({ action: 'getMultisigTransactions' });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to load multisig transactions');
+      }
+      setTransactions(response.transactions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load multisig transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTransactions();
+  }, []);
+
+  const send = async (message: any, describe: (response: any) => string) => {
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response: any = await browser.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Multisig request failed');
+      }
+      setNotice(describe(response));
+      await loadTransactions();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Multisig request failed');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const sign = (id: string) =>
+    send({ action: 'signMultisigTransaction', id, username }, (response) => describeResult(response.result));
+
+  const discard = (id: string) => send({ action: 'discardMultisigTransaction', id }, () => 'Transaction discarded');
+
+  const importTransaction = async () => {
+    const imported = await send({ action: 'importMultisigTransaction', json: importJson.trim() }, (response) =>
+      describeResult(response.result)
+    );
+    if (imported) {
+      setImportJson('');
+    }
+  };
+
+  const exportTransaction = async (id: string) => {
+    setError(null);
+    try {
+      const response: any = await browser.runtime.sendMessage({ action: 'exportMultisigTransaction', id });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to export the transaction');
+      }
+      await navigator.clipboard.writeText(response.json);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the transaction');
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto space-y-4">
+      <Button variant="ghost" size="sm" onClick={() => navigate(`/account/${username}`)}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back
+      </Button>
+
+      <div>
+        <h1 className="text-2xl font-bold">Multisig</h1>
+        <p className="text-sm text-muted-foreground">Signing as @{username}</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && <div className="text-muted-foreground">Loading...</div>}
+
+      {!loading && transactions.length === 0 && (
+        <div className="text-sm text-muted-foreground">No transactions are waiting for signatures</div>
+      )}
+
+      {transactions.map((pending) => (
+        <Card key={pending.id}>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              @{pending.account}
+              <Badge variant="outline" className="capitalize">
+                {pending.role}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Signed {pending.signedWeight}/{pending.threshold} · {new Date(pending.createdAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="font-mono text-xs break-all bg-muted p-2 rounded">
+              {pending.transaction.operations.map((operation) => operation[0]).join(', ')}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" disabled={submitting} onClick={() => sign(pending.id)}>
+                Sign
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => exportTransaction(pending.id)}>
+                {copiedId === pending.id ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                Export
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" disabled={submitting} onClick={() => discard(pending.id)}>
+                Discard
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Import</CardTitle>
+          <CardDescription>Paste a transaction exported by a co-signer</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="importJson">Exported transaction</Label>
+            <textarea
+              id="importJson"
+              className="w-full min-h-[80px] rounded-md border bg-background p-2 font-mono text-xs"
+              value={importJson}
+              onChange={(event) => setImportJson(event.target.value)}
+            />
+          </div>
+          <Button className="w-full" disabled={!importJson.trim() || submitting} onClick={importTransaction}>
+            Import
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { browser } from 'wxt/browser';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RpcSelector } from '../components/RpcSelector';
+import Config from '@/src/config';
+import type { AutoLockSettings, KeychainSettings, ThemePreference } from '@/src/interfaces';
+
+const THEME_LABELS: Record<ThemePreference, string> = {
+  system: 'Match the system',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+export const Settings = () => {
+  const navigate = useNavigate();
+  const [saved, setSaved] = useState<KeychainSettings | null>(null);
+  const [draft, setDraft] = useState<KeychainSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Remounts the node picker after a reset moved the node back to the default
+  const [rpcKey, setRpcKey] = useState(0);
+
+  const showSettings = (settings: KeychainSettings) => {
+    setSaved(settings);
+    setDraft(settings);
+  };
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response: any = await browser.runtime.sendMessage({ action: 'getSettings' });
+        if (!response?.success) {
+          throw new Error(response?.error || 'Failed to load settings');
+        }
+        showSettings(response.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+
+    // Another popup may save first
+    const handleMessage = (message: any) => {
+      if (message.action === 'settingsChanged') {
+        showSettings(message.data);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  const update = (changes: Partial<KeychainSettings>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+    setNotice(null);
+  };
+
+  const updateAutoLock = (changes: Partial<AutoLockSettings>) => {
+    setDraft((current) => (current ? { ...current, autoLock: { ...current.autoLock, ...changes } } : current));
+    setNotice(null);
+  };
+
+  const send = async (message: any, successMessage: string) => {
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response: any = await browser.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to save settings');
+      }
+      showSettings(response.data);
+      setNotice(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const { version, ...payload } = draft;
+    send({ action: 'updateSettings', payload }, 'Settings saved');
+  };
+
+  const reset = async () => {
+    await send({ action: 'resetSettings' }, 'Settings restored to their defaults');
+    setRpcKey((key) => key + 1);
+  };
+
+  const isDirty = !!draft && JSON.stringify(draft) !== JSON.stringify(saved);
+
+  // Empty inputs read as 0 so the field can be cleared while typing
+  const minutesValue = (value: string) => (value === '' ? 0 : Number(value));
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/accounts')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button variant="ghost" size="sm" onClick={reset} disabled={loading || submitting}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <p className="text-sm text-muted-foreground">Apply to every network and account</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && <div className="text-muted-foreground">Loading...</div>}
+
+      {draft && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Auto-lock</CardTitle>
+              <CardDescription>Set a limit to 0 to turn it off</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="idleMinutes">Lock after inactivity (minutes)</Label>
+                <Input
+                  id="idleMinutes"
+                  type="number"
+                  min={0}
+                  max={Config.autoLock.MAX_MINUTES}
+                  value={draft.autoLock.idleMinutes}
+                  onChange={(event) => updateAutoLock({ idleMinutes: minutesValue(event.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxSessionMinutes">Lock after being unlocked for (minutes)</Label>
+                <Input
+                  id="maxSessionMinutes"
+                  type="number"
+                  min={0}
+                  max={Config.autoLock.MAX_MINUTES}
+                  value={draft.autoLock.maxSessionMinutes}
+                  onChange={(event) => updateAutoLock({ maxSessionMinutes: minutesValue(event.target.value) })}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.autoLock.lockOnSystemLock}
+                  onChange={(event) => updateAutoLock({ lockOnSystemLock: event.target.checked })}
+                />
+                Lock when the computer locks or sleeps
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.autoLock.lockOnBrowserClose}
+                  onChange={(event) => updateAutoLock({ lockOnBrowserClose: event.target.checked })}
+                />
+                Lock when the last browser window closes
+              </label>
+            </CardContent>
+          </Card>
+
+          {/* The node is saved for the active network as soon as it is picked */}
+          <RpcSelector key={rpcKey} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Transactions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="transactionExpirationMinutes">Expire unconfirmed transactions after (minutes)</Label>
+                <Input
+                  id="transactionExpirationMinutes"
+                  type="number"
+                  min={1}
+                  max={Config.settings.MAX_TRANSACTION_EXPIRATION_MINUTES}
+                  value={draft.transactionExpirationMinutes}
+                  onChange={(event) => update({ transactionExpirationMinutes: minutesValue(event.target.value) })}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.waitForConfirmation}
+                  onChange={(event) => update({ waitForConfirmation: event.target.checked })}
+                />
+                Wait for transactions to be included in a block
+              </label>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Display</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="theme">Theme</Label>
+                <Select value={draft.theme} onValueChange={(value: ThemePreference) => update({ theme: value })}>
+                  <SelectTrigger id="theme">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(THEME_LABELS).map(([theme, label]) => (
+                      <SelectItem key={theme} value={theme}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="language">Language</Label>
+                <Select value={draft.language} onValueChange={(value) => update({ language: value })}>
+                  <SelectTrigger id="language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(Config.settings.LANGUAGES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fiatCurrency">Fiat currency</Label>
+                <Select value={draft.fiatCurrency} onValueChange={(value) => update({ fiatCurrency: value })}>
+                  <SelectTrigger id="fiatCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Config.settings.FIAT_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Advanced</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.debugLogging}
+                  onChange={(event) => update({ debugLogging: event.target.checked })}
+                />
+                Write debug logs to the background console
+              </label>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" disabled={!isDirty || submitting} onClick={() => saved && setDraft(saved)}>
+              Discard
+            </Button>
+            <Button disabled={!isDirty || submitting} onClick={save}>
+              Save
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -3,10 +3,19 @@ import { browser } from 'wxt/browser';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { TransactionRequestDisplay } from '../components/TransactionRequestDisplay';
 import { OperationFormatter } from '../components/OperationFormatter';
 import { ApprovalButtons } from '../components/ApprovalButtons';
 import { RiskWarning } from '../components/RiskWarning';
+import { AuthorityDiff } from '../components/AuthorityDiff';
+import { ProposalPreview } from '../components/ProposalPreview';
+import { ConversionPreview } from '../components/ConversionPreview';
+import { MarketOrderPreview } from '../components/MarketOrderPreview';
+import { TransactionSimulationPreview } from '../components/OperationValidationUI';
+import { RequestQueue } from '../components/RequestQueue';
+import { NetworkBadge } from '../components/NetworkBadge';
 import { KeychainRequest, KeychainResponse } from '../../background/services/types/keychain-api.types';
 
 interface TransactionApprovalProps {
@@ -14,9 +23,11 @@ interface TransactionApprovalProps {
 }
 
 interface PendingRequest {
+  id: string;
   request: KeychainRequest;
   origin: string;
   timestamp: number;
+  expiresAt?: number;
 }
 
 export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
@@ -24,27 +35,41 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
   const [currentRequest, setCurrentRequest] = useState<PendingRequest | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string>('');
+  const [remember, setRemember] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState('');
+
+  // "Don't ask again" is a per-request choice
+  useEffect(() => {
+    setRemember(false);
+    setDailyLimit('');
+  }, [currentRequest?.id]);
+
+  const canRemember = (request: KeychainRequest): boolean =>
+    !!request.username &&
+    (request.type === 'vote' ||
+      request.type === 'transfer' ||
+      (request.type === 'custom' && (request.method || 'Posting').toLowerCase() === 'posting'));
 
   // Listen for new transaction requests
   useEffect(() => {
     const handleMessage = (message: any) => {
       if (message.type === 'transaction_request') {
         const newRequest: PendingRequest = {
+          id: message.id,
           request: message.request,
           origin: message.origin,
-          timestamp: Date.now()
+          timestamp: message.timestamp || Date.now(),
+          expiresAt: message.expiresAt
         };
         
-        setPendingRequests(prev => [...prev, newRequest]);
+        setPendingRequests(prev => (prev.some(req => req.id === newRequest.id) ? prev : [...prev, newRequest]));
         
         // If no current request, set this as current
-        if (!currentRequest) {
-          setCurrentRequest(newRequest);
-        }
+        setCurrentRequest(current => current ?? newRequest);
       }
     };
 
-    // Listen for messages from background script
+    // One port for the window's lifetime, so no request is broadcast while it reconnects
     const port = browser.runtime.connect({ name: 'transaction-approval' });
     port.onMessage.addListener(handleMessage);
 
@@ -52,7 +77,7 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
     return () => {
       port.disconnect();
     };
-  }, [currentRequest]);
+  }, []);
 
   // Load any pending requests on mount
   useEffect(() => {
@@ -64,14 +89,20 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
         
         if (response.success && response.requests) {
           const requests = response.requests.map((req: any) => ({
+            id: req.id,
             request: req.request,
             origin: req.origin,
-            timestamp: req.timestamp
+            timestamp: req.timestamp,
+            expiresAt: req.expiresAt
           }));
           
-          setPendingRequests(requests);
-          if (requests.length > 0 && !currentRequest) {
-            setCurrentRequest(requests[0]);
+          // Keep requests the port delivered while the queue was loading
+          setPendingRequests(prev => [
+            ...requests,
+            ...prev.filter(req => !requests.some((loaded: PendingRequest) => loaded.id === req.id)),
+          ]);
+          if (requests.length > 0) {
+            setCurrentRequest(current => current ?? requests[0]);
           }
         }
       } catch (err) {
@@ -83,29 +114,40 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
   }, []);
 
   const handleApprove = async (request: KeychainRequest) => {
+    if (!currentRequest) return;
+    const { id } = currentRequest;
+    const limit = parseFloat(dailyLimit);
+    if (remember && request.type === 'transfer' && !(limit > 0)) {
+      setError('Enter a daily limit to stop asking for transfers');
+      return;
+    }
+
     setIsProcessing(true);
     setError('');
 
     try {
       const response = await browser.runtime.sendMessage({
         action: 'approveTransaction',
+        id,
         request_id: request.request_id,
-        request
+        remember: remember && canRemember(request),
+        dailyLimit: request.type === 'transfer' ? limit : undefined
       });
 
       if (response.success) {
         // Remove from pending requests
-        setPendingRequests(prev => 
-          prev.filter(req => req.request.request_id !== request.request_id)
-        );
+        setPendingRequests(prev => prev.filter(req => req.id !== id));
         
         // Move to next request or clear current
-        const remaining = pendingRequests.filter(req => req.request.request_id !== request.request_id);
+        const remaining = pendingRequests.filter(req => req.id !== id);
         setCurrentRequest(remaining.length > 0 ? remaining[0] : null);
         
-        // Notify parent component
-        if (onComplete) {
-          onComplete(response);
+        // The request went through even when its rule could not be saved. The
+        // parent isn't told then, so the window stays open to show why.
+        if (response.ruleError) {
+          setError(`Approved, but the permission was not saved: ${response.ruleError}`);
+        } else if (onComplete) {
+          onComplete(response.result);
         }
       } else {
         setError(response.error || 'Transaction failed');
@@ -119,23 +161,24 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
   };
 
   const handleReject = async (request: KeychainRequest, reason?: string) => {
+    if (!currentRequest) return;
+    const { id } = currentRequest;
     setIsProcessing(true);
     setError('');
 
     try {
-      const response = await browser.runtime.sendMessage({
+      await browser.runtime.sendMessage({
         action: 'rejectTransaction',
+        id,
         request_id: request.request_id,
         reason
       });
 
       // Remove from pending requests regardless of response
-      setPendingRequests(prev => 
-        prev.filter(req => req.request.request_id !== request.request_id)
-      );
+      setPendingRequests(prev => prev.filter(req => req.id !== id));
       
       // Move to next request or clear current
-      const remaining = pendingRequests.filter(req => req.request.request_id !== request.request_id);
+      const remaining = pendingRequests.filter(req => req.id !== id);
       setCurrentRequest(remaining.length > 0 ? remaining[0] : null);
       
       // Notify parent component
@@ -154,6 +197,89 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
     }
   };
 
+  const handleApproveAll = async () => {
+    setIsProcessing(true);
+    setError('');
+
+    try {
+      const ids = pendingRequests.map(req => req.id);
+      const response = await browser.runtime.sendMessage({
+        action: 'approveRequests',
+        ids
+      });
+
+      if (!response.success) {
+        setError(response.error || 'Failed to approve requests');
+        return;
+      }
+
+      const failed = Object.values(response.results as Record<string, KeychainResponse>)
+        .filter(result => !result.success);
+      setPendingRequests([]);
+      setCurrentRequest(null);
+      if (failed.length > 0) {
+        setError(`${failed.length} request(s) failed`);
+      }
+
+      if (onComplete) {
+        Object.values(response.results as Record<string, KeychainResponse>).forEach(onComplete);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to approve requests';
+      setError(errorMessage);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRejectAll = async () => {
+    setIsProcessing(true);
+    setError('');
+
+    try {
+      const rejected = pendingRequests;
+      await browser.runtime.sendMessage({
+        action: 'rejectRequests',
+        ids: rejected.map(req => req.id),
+        reason: 'User rejected all requests'
+      });
+
+      setPendingRequests([]);
+      setCurrentRequest(null);
+
+      if (onComplete) {
+        rejected.forEach(req => onComplete({
+          success: false,
+          error: 'User rejected all requests',
+          request_id: req.request.request_id
+        }));
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reject requests';
+      setError(errorMessage);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReorder = async (ids: string[]) => {
+    // Reorder locally first so the list doesn't jump while the background catches up
+    setPendingRequests(prev =>
+      ids
+        .map(id => prev.find(req => req.id === id))
+        .filter((req): req is PendingRequest => !!req)
+    );
+
+    try {
+      await browser.runtime.sendMessage({
+        action: 'reorderRequests',
+        ids
+      });
+    } catch (err) {
+      console.error('Failed to reorder requests:', err);
+    }
+  };
+
   const handleSelectRequest = (request: PendingRequest) => {
     if (!isProcessing) {
       setCurrentRequest(request);
@@ -172,6 +298,7 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
               <p className="text-sm text-muted-foreground">
                 All transaction requests have been processed.
               </p>
+              {error && <p className="text-sm text-red-700 dark:text-red-300">{error}</p>}
             </div>
           </CardContent>
         </Card>
@@ -183,7 +310,10 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
     <div className="min-h-[400px] w-[450px] p-6 space-y-4">
       {/* Header with queue info */}
       <div className="flex items-center justify-between">
-        <h2 className="text-lg font-semibold">Transaction Approval</h2>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold">Transaction Approval</h2>
+          <NetworkBadge />
+        </div>
         {pendingRequests.length > 1 && (
           <Badge variant="secondary">
             {pendingRequests.length} pending
@@ -193,33 +323,16 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
 
       {/* Request queue (if multiple requests) */}
       {pendingRequests.length > 1 && (
-        <Card className="bg-muted/50">
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Request Queue</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2 pt-0">
-            {pendingRequests.map((req, index) => (
-              <div
-                key={req.request.request_id}
-                className={`p-2 rounded cursor-pointer transition-colors ${
-                  req.request.request_id === currentRequest.request.request_id
-                    ? 'bg-primary/10 border border-primary/20'
-                    : 'hover:bg-muted'
-                }`}
-                onClick={() => handleSelectRequest(req)}
-              >
-                <div className="flex items-center justify-between text-xs">
-                  <span className="font-medium">
-                    {req.request.type.replace('request', '')}
-                  </span>
-                  <span className="text-muted-foreground">
-                    {req.origin}
-                  </span>
-                </div>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
+        <RequestQueue
+          requests={pendingRequests}
+          currentRequestId={currentRequest.id}
+          onSelectRequest={handleSelectRequest}
+          onApproveAll={handleApproveAll}
+          onRejectAll={handleRejectAll}
+          onReorder={handleReorder}
+          disabled={isProcessing}
+          className="bg-muted/50"
+        />
       )}
 
       {/* Main transaction display */}
@@ -241,6 +354,21 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
         {/* Risk warning */}
         <RiskWarning request={currentRequest.request} />
 
+        {/* Before/after view of authority changes */}
+        <AuthorityDiff request={currentRequest.request} />
+
+        {/* Proposals targeted by DHF remove/vote requests */}
+        <ProposalPreview request={currentRequest.request} />
+
+        {/* Feed price and settlement window for conversions */}
+        <ConversionPreview request={currentRequest.request} />
+
+        {/* Order book fill estimate and price impact for limit orders */}
+        <MarketOrderPreview request={currentRequest.request} />
+
+        {/* Schema, authority, balance and RC checks for broadcast and custom JSON requests */}
+        <TransactionSimulationPreview request={currentRequest.request} />
+
         {/* Detailed operation view */}
         <Card>
           <CardHeader>
@@ -254,8 +382,43 @@ export function TransactionApproval({ onComplete }: TransactionApprovalProps) {
           </CardContent>
         </Card>
 
+        {/* Don't ask again for low-risk operations from this site */}
+        {canRemember(currentRequest.request) && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <input
+                id="remember-permission"
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <Label htmlFor="remember-permission" className="text-sm">
+                Don't ask again for {currentRequest.request.type} from {currentRequest.origin} as @{currentRequest.request.username}
+              </Label>
+            </div>
+            {remember && currentRequest.request.type === 'transfer' && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  placeholder="Daily limit"
+                  value={dailyLimit}
+                  onChange={(e) => setDailyLimit(e.target.value)}
+                  className="h-8"
+                />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {currentRequest.request.currency || 'STEEM'} per day
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Approval buttons */}
         <ApprovalButtons
+          key={currentRequest.id}
           request={currentRequest.request}
           onApprove={handleApprove}
           onReject={handleReject}
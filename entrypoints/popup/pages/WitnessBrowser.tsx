@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { browser } from 'wxt/browser';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { WitnessFlag, WitnessOverview } from '@/src/interfaces';
+
+const MAX_VOTES = 30;
+
+const FLAG_LABELS: Record<WitnessFlag, string> = {
+  disabled: 'Disabled',
+  stale_feed: 'Stale feed',
+  missed_blocks: 'Missed blocks',
+};
+
+// Witness votes are reported in micro-VESTS
+const formatVotes = (votes: string) => `${(Number(votes) / 1e12).toFixed(1)}M VESTS`;
+
+export const WitnessBrowser = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const [overview, setOverview] = useState<WitnessOverview | null>(null);
+  const [changes, setChanges] = useState<Map<string, boolean>>(new Map());
+  const [proxyInput, setProxyInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const request = (type: string, params: Record<string, any> = {}) => ({
+    type,
+    request_id: Date.now(),
+    username,
+    ...params,
+  });
+
+  const loadOverview = useCallback(async () => {
+    if (!username) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response: any = await browser.runtime.sendMessage({
+        action: 'getWitnessOverview',
+        request: request('getWitnessOverview'),
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to load witnesses');
+      }
+      setOverview(response.result);
+      setChanges(new Map());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load witnesses');
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const isVoted = (witness: string) =>
+    changes.has(witness) ? changes.get(witness)! : !!overview?.votes.includes(witness);
+
+  const toggleVote = (witness: string) => {
+    const current = !!overview?.votes.includes(witness);
+    const next = !isVoted(witness);
+    setChanges((prev) => {
+      const updated = new Map(prev);
+      if (next === current) {
+        updated.delete(witness);
+      } else {
+        updated.set(witness, next);
+      }
+      return updated;
+    });
+  };
+
+  const voteCount = useMemo(() => {
+    if (!overview) return 0;
+    let count = overview.votes.length;
+    changes.forEach((approve) => (count += approve ? 1 : -1));
+    return count;
+  }, [overview, changes]);
+
+  // Votes for witnesses outside the top list still need to be visible to be removed
+  const otherVotes = useMemo(
+    () => overview?.votes.filter((vote) => !overview.witnesses.some((witness) => witness.owner === vote)) || [],
+    [overview]
+  );
+
+  const send = async (action: string, payload: any, successMessage: string) => {
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response: any = await browser.runtime.sendMessage({ action, request: payload });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Transaction failed');
+      }
+      setNotice(successMessage);
+      await loadOverview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const applyVotes = () =>
+    send(
+      'updateWitnessVotes',
+      request('witnessVotes', {
+        votes: [...changes.entries()].map(([witness, approve]) => ({ witness, approve })),
+      }),
+      `Updated ${changes.size} witness ${changes.size === 1 ? 'vote' : 'votes'}`
+    );
+
+  const updateProxy = (proxy: string) =>
+    send('setWitnessProxy', request('proxy', { proxy }), proxy ? `Proxy set to @${proxy}` : 'Proxy removed');
+
+  const renderWitnessRow = (owner: string, details?: WitnessOverview['witnesses'][number]) => (
+    <div key={owner} className="flex items-center justify-between gap-2 py-2 border-b last:border-b-0">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          {details && <span className="text-xs text-muted-foreground w-6">#{details.rank}</span>}
+          <span className="text-sm font-medium truncate">@{owner}</span>
+          {changes.has(owner) && <Badge variant="secondary">Pending</Badge>}
+        </div>
+        {details && (
+          <div className="flex flex-wrap items-center gap-1 mt-1">
+            <span className="text-xs text-muted-foreground">{formatVotes(details.votes)}</span>
+            {details.flags.map((flag) => (
+              <Badge key={flag} variant={flag === 'disabled' ? 'destructive' : 'outline'} className="text-xs">
+                {flag === 'missed_blocks' ? `${details.missedBlocks} missed` : FLAG_LABELS[flag]}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <Button
+        variant={isVoted(owner) ? 'default' : 'outline'}
+        size="sm"
+        disabled={!!overview?.proxy || submitting}
+        onClick={() => toggleVote(owner)}
+      >
+        {isVoted(owner) ? 'Voted' : 'Vote'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/account/${username}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button variant="ghost" size="sm" onClick={loadOverview} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold">Witnesses</h1>
+        {overview && (
+          <p className="text-sm text-muted-foreground">
+            @{username} votes for {voteCount} of {MAX_VOTES} witnesses
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !overview && <div className="text-muted-foreground">Loading...</div>}
+
+      {overview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Proxy</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {overview.proxy ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">
+                    Voting through <span className="font-medium">@{overview.proxy}</span>
+                  </span>
+                  <Button variant="outline" size="sm" disabled={submitting} onClick={() => updateProxy('')}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Proxy account"
+                    value={proxyInput}
+                    onChange={(event) => setProxyInput(event.target.value.trim().replace(/^@/, ''))}
+                  />
+                  <Button size="sm" disabled={!proxyInput || submitting} onClick={() => updateProxy(proxyInput)}>
+                    Set
+                  </Button>
+                </div>
+              )}
+              {overview.proxy && (
+                <p className="text-xs text-muted-foreground">Remove the proxy to vote for witnesses directly.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {otherVotes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Other votes</CardTitle>
+              </CardHeader>
+              <CardContent>{otherVotes.map((owner) => renderWitnessRow(owner))}</CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Top witnesses</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overview.witnesses.map((witness) => renderWitnessRow(witness.owner, witness))}
+            </CardContent>
+          </Card>
+
+          {changes.size > 0 && (
+            <div className="sticky bottom-0 bg-background py-2 flex gap-2">
+              <Button variant="outline" className="flex-1" disabled={submitting} onClick={() => setChanges(new Map())}>
+                Discard
+              </Button>
+              <Button className="flex-1" disabled={submitting || voteCount > MAX_VOTES} onClick={applyVotes}>
+                {voteCount > MAX_VOTES
+                  ? `Over ${MAX_VOTES} votes`
+                  : `Apply ${changes.size} ${changes.size === 1 ? 'change' : 'changes'}`}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -153,13 +153,3 @@ export async function signBuffer(message: string, privateKeyString: string): Pro
 export async function signTransaction(transaction: any, privateKeyString: string): Promise<any> {
   return cryptoManager.signTransaction(transaction, privateKeyString);
 }
-
-export async function encodeMessage(message: string, privateKeyString: string): Promise<string> {
-  // TODO: Implement encode message logic
-  return 'encoded_message_result';
-}
-
-export async function encodeMessageWithKeys(message: string, keys: any): Promise<string> {
-  // TODO: Implement encode message with keys logic
-  return 'encoded_with_keys_result';
-}
\ No newline at end of file
@@ -3,13 +3,74 @@ export default {
     freeAccount: {
       MIN_RC_PCT: 90,
       MIN_RC: 5000000000,
+      CHECK_INTERVAL_IN_MINUTES: 60,
     },
   },
   transactions: {
     expirationTimeInMinutes: 2,
-    multisigExpirationTimeInMinutes: 24 * 60, // 24 hours
+    multisigExpirationTimeInMinutes: 60, // STEEM rejects expirations more than an hour out
+  },
+  vault: {
+    KDF: 'scrypt', // pbkdf2, scrypt or argon2id; vaults using other settings are re-encrypted on unlock
+    PBKDF2_ITERATIONS: 600000,
+    SCRYPT: { N: 2 ** 15, r: 8, p: 1 },
+    ARGON2ID: { t: 3, m: 65536, p: 1 }, // m in KiB
+  },
+  autoLock: {
+    IDLE_MINUTES: 15,
+    LOCK_ON_SYSTEM_LOCK: true,
+    LOCK_ON_BROWSER_CLOSE: true,
+    MAX_SESSION_MINUTES: 0,
+    MAX_MINUTES: 24 * 60, // longest idle or session limit that can be set
+  },
+  settings: {
+    THEME: 'system',
+    LANGUAGE: 'en',
+    LANGUAGES: { en: 'English' } as Record<string, string>,
+    FIAT_CURRENCY: 'USD',
+    FIAT_CURRENCIES: ['USD', 'EUR', 'GBP', 'JPY', 'KRW', 'CNY', 'INR', 'BRL'],
+    DEBUG_LOGGING: false,
+    WAIT_FOR_CONFIRMATION: false,
+    MAX_TRANSACTION_EXPIRATION_MINUTES: 60, // the chain's limit, as for multisig transactions
   },
   rpc: {
     defaultTimeout: 3000,
+    HEALTH_CHECK_INTERVAL_IN_MINUTES: 5,
+    HEALTH_WINDOW: 20, // recent calls the error rate is computed over
+    MAX_BLOCK_LAG: 20, // a minute of blocks behind the best node
+    MAX_ERROR_RATE: 0.5,
+  },
+  rewards: {
+    AUTO_CLAIM_INTERVAL_IN_MINUTES: 60,
+  },
+  market: {
+    ORDER_BOOK_DEPTH: 50,
+    MAX_ORDER_EXPIRATION_DAYS: 28,
+    PRICE_IMPACT_WARNING_PCT: 5,
+  },
+  escrow: {
+    RATIFICATION_HOURS: 72,
+    EXPIRATION_DAYS: 14,
+    SETTLEMENT_CHECK_INTERVAL_IN_MINUTES: 15,
+    HISTORY_LOOKBACK: 100, // account history entries searched for releases
+  },
+  conversions: {
+    DELAY_HOURS: 84, // conversions settle at the median feed price 3.5 days later
+    COLLATERALIZED_FEE_PCT: 5,
+  },
+  witnesses: {
+    MAX_VOTES: 30,
+    LIST_SIZE: 100,
+    STALE_FEED_HOURS: 24,
+    MISSED_BLOCKS_WARNING: 500, // total_missed is lifetime, so only flag persistent misses
+  },
+  simulation: {
+    RC_WARNING_PCT: 25, // share of current mana a single transaction may use before warning
+  },
+  steemEngine: {
+    rpc: 'https://api.steem-engine.net/rpc',
+    chainId: 'ssc-mainnet1', // custom_json id the sidechain listens to
+    confirmationAttempts: 10,
+    confirmationIntervalInMs: 1000, // sidechain blocks follow STEEM's 3s blocks
   },
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+export interface AccountClaimStatus {
+  username: string;
+  pendingClaimedAccounts: number;
+  rcPercentage: number;
+  currentMana: number;
+  canClaim: boolean;
+  autoClaim: boolean;
+}
+
+export interface AccountClaimResult {
+  username: string;
+  claimed: boolean;
+  reason?: string;
+  transactionId?: string;
+}
+
+export interface GeneratedAccountKey {
+  private: string;
+  public: string;
+}
+
+// Everything a new user needs to take over their account. Handed out once and never persisted.
+export interface KeyHandoffBundle {
+  account: string;
+  creator: string;
+  masterPassword: string;
+  keys: {
+    owner: GeneratedAccountKey;
+    active: GeneratedAccountKey;
+    posting: GeneratedAccountKey;
+    memo: GeneratedAccountKey;
+  };
+  createdAt: string;
+}
@@ -3,4 +3,5 @@ import { LocalAccount } from './local-account.interface';
 export interface Accounts {
   list: LocalAccount[];
   hash?: string;
+  version?: number; // storage schema version, see SecureStorage
 }
\ No newline at end of file
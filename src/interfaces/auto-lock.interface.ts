@@ -0,0 +1,15 @@
+export interface AutoLockSettings {
+  idleMinutes: number; // 0 turns the inactivity lock off
+  lockOnSystemLock: boolean; // screen lock or sleep
+  lockOnBrowserClose: boolean; // last browser window closed
+  maxSessionMinutes: number; // 0 turns the session age limit off
+}
+
+export type AutoLockReason = 'idle' | 'system_lock' | 'browser_close' | 'max_session';
+
+export interface AutoLockStatus {
+  settings: AutoLockSettings;
+  // The next deadline while unlocked, or null if no timed policy applies
+  lockAt: number | null;
+  reason: AutoLockReason | null;
+}
@@ -0,0 +1,39 @@
+// An asset sale waiting for its escrowed payment to be released to the seller
+export interface PendingAssetTransfer {
+  universal_id: string;
+  seller: string;
+  buyer: string;
+  price?: { amount: string; currency: string };
+  memo?: string;
+  game_context?: string;
+  // What the escrow held when the sale was linked; releases must add up to it
+  escrowed?: { sbd_amount: string; steem_amount: string };
+  transferred: boolean;
+  transaction_id?: string;
+}
+
+export interface TrackedEscrow {
+  from: string;
+  to: string;
+  agent: string;
+  escrow_id: number;
+  sbd_amount: string;
+  steem_amount: string;
+  fee: string;
+  ratification_deadline: string;
+  escrow_expiration: string;
+  to_approved: boolean;
+  agent_approved: boolean;
+  disputed: boolean;
+  // Set once the escrow no longer exists on chain: fully released or declined
+  closed: boolean;
+  linked_asset?: PendingAssetTransfer;
+}
+
+export interface EscrowSettlementResult {
+  from: string;
+  escrow_id: number;
+  universal_id: string;
+  transferred: boolean;
+  reason?: string;
+}
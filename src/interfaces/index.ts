@@ -3,4 +3,16 @@ export * from './local-account.interface';
 export * from './accounts.interface';
 export * from './active-account.interface';
 export * from './steem-tx.interface';
-export * from './rpc.interface';
\ No newline at end of file
+export * from './rpc.interface';
+export * from './multisig.interface';
+export * from './token.interface';
+export * from './account-claim.interface';
+export * from './witness.interface';
+export * from './rewards.interface';
+export * from './market.interface';
+export * from './escrow.interface';
+export * from './network.interface';
+export * from './simulation.interface';
+export * from './vault.interface';
+export * from './auto-lock.interface';
+export * from './settings.interface';
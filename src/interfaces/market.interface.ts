@@ -0,0 +1,24 @@
+export type MarketAsset = 'STEEM' | 'SBD';
+
+export interface OrderBookEntry {
+  price: number; // SBD per STEEM
+  steem: number;
+  sbd: number;
+}
+
+// Bids buy STEEM with SBD, asks sell STEEM for SBD. Both are sorted best price first.
+export interface OrderBook {
+  bids: OrderBookEntry[];
+  asks: OrderBookEntry[];
+}
+
+export interface LimitOrderEstimate {
+  side: 'buy' | 'sell'; // from the STEEM point of view
+  limitPrice: number;
+  bestPrice: number | null;
+  filledSteem: number;
+  filledPct: number;
+  averagePrice: number | null;
+  priceImpactPct: number;
+  warnings: string[];
+}
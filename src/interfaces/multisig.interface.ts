@@ -0,0 +1,32 @@
+import { SignedTransaction } from '@steempro/dsteem';
+
+export type MultisigRole = 'active' | 'posting' | 'owner';
+
+export interface MultisigSigner {
+  publicKey: string;
+  weight: number;
+  account?: string; // set when the key signs on behalf of an account_auths entry
+}
+
+export interface PendingMultisigTransaction {
+  id: string; // transaction id, stable while signatures are added
+  account: string;
+  role: MultisigRole;
+  transaction: SignedTransaction;
+  threshold: number;
+  signedWeight: number;
+  signers: MultisigSigner[];
+  createdAt: number;
+}
+
+// What gets passed between co-signers; everything else is recomputed on import
+export interface ExportedMultisigTransaction {
+  account: string;
+  role: MultisigRole;
+  transaction: SignedTransaction;
+}
+
+export interface MultisigProgress {
+  transaction: PendingMultisigTransaction;
+  broadcastResult?: any;
+}
@@ -0,0 +1,13 @@
+import { Rpc } from './rpc.interface';
+
+export type NetworkId = 'mainnet' | 'testnet' | 'devnet';
+
+export interface NetworkProfile {
+  id: NetworkId;
+  name: string;
+  // Unset for local devnets, whose chain id is read from the node when switching
+  chainId?: string;
+  addressPrefix: string;
+  rpcs: Rpc[];
+  assetNetwork: 'steem' | 'steem_testnet';
+}
@@ -0,0 +1,12 @@
+export interface PendingRewards {
+  reward_steem: string;
+  reward_sbd: string;
+  reward_vests: string;
+}
+
+export interface RewardClaimResult {
+  username: string;
+  claimed: boolean;
+  reason?: string;
+  rewards?: PendingRewards;
+}
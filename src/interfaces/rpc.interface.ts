@@ -2,4 +2,32 @@ export interface Rpc {
   uri: string;
   chainId?: string;
   testnet?: boolean;
-}
\ No newline at end of file
+}
+
+export interface RpcHealth {
+  uri: string;
+  latencyMs: number | null;
+  headBlock: number | null;
+  blockLag: number;
+  errorRate: number;
+  score: number;
+  ejected: boolean;
+  lastChecked: number | null;
+  lastError?: string;
+}
+
+export interface RpcTestResult {
+  uri: string;
+  success: boolean;
+  latencyMs?: number;
+  headBlock?: number;
+  chainId?: string;
+  error?: string;
+  testedAt: number;
+}
+
+export interface RpcSettings {
+  currentRpc: Rpc;
+  customRpcs: Rpc[];
+  testResults: Record<string, RpcTestResult>;
+}
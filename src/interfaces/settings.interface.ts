@@ -0,0 +1,19 @@
+import { AutoLockSettings } from './auto-lock.interface';
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export interface KeychainSettings {
+  version: number;
+  autoLock: AutoLockSettings;
+  theme: ThemePreference;
+  language: string;
+  debugLogging: boolean; // verbose background logs outside development builds
+  transactionExpirationMinutes: number;
+  waitForConfirmation: boolean; // wait for broadcasts to reach a block unless the request says otherwise
+  fiatCurrency: string;
+}
+
+// The node in use is kept per network with the RPC settings, not here
+export type KeychainSettingsUpdate = Partial<Omit<KeychainSettings, 'version' | 'autoLock'>> & {
+  autoLock?: Partial<AutoLockSettings>;
+};
@@ -0,0 +1,33 @@
+export type SimulationRule = 'required' | 'format' | 'schema' | 'account' | 'authority' | 'balance' | 'rc';
+
+export type SimulationSeverity = 'error' | 'warning' | 'info';
+
+export interface SimulationIssue {
+  field: string;
+  rule: SimulationRule;
+  message: string;
+  severity: SimulationSeverity;
+}
+
+export type AuthorityRole = 'posting' | 'active' | 'owner';
+
+export interface RequiredAuthority {
+  account: string;
+  role: AuthorityRole;
+}
+
+export interface RcEstimate {
+  account: string; // the chain bills the first signing account
+  cost: number;
+  currentMana: number;
+  pctOfCurrent: number;
+}
+
+// Errors mean the chain would reject the transaction as it stands
+export interface TransactionSimulation {
+  isValid: boolean;
+  errors: SimulationIssue[];
+  warnings: SimulationIssue[];
+  info: SimulationIssue[];
+  rc?: RcEstimate;
+}
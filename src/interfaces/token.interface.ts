@@ -0,0 +1,33 @@
+export interface TokenBalance {
+  account: string;
+  symbol: string;
+  balance: string;
+  stake: string;
+  pendingUnstake: string;
+  delegationsIn: string;
+  delegationsOut: string;
+  pendingUndelegations: string;
+}
+
+export interface Token {
+  symbol: string;
+  name: string;
+  precision: number;
+  stakingEnabled: boolean;
+  delegationEnabled: boolean;
+}
+
+// Result of a sidechain transaction once it has been included in a sidechain block
+export interface SidechainTransaction {
+  transactionId: string;
+  blockNumber: number;
+  contract: string;
+  action: string;
+  logs: { errors?: string[]; events?: any[] };
+}
+
+export interface SidechainOperation {
+  contractName: string;
+  contractAction: string;
+  contractPayload: Record<string, any>;
+}
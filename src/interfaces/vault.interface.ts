@@ -0,0 +1,22 @@
+export type KdfParams =
+  | { name: 'pbkdf2'; hash: 'sha256'; iterations: number }
+  | { name: 'scrypt'; N: number; r: number; p: number }
+  | { name: 'argon2id'; t: number; m: number; p: number }; // m in KiB
+
+export type KdfName = KdfParams['name'];
+
+// Everything needed to decrypt a vault except the password
+export interface VaultEnvelope {
+  version: number;
+  kdf: KdfParams;
+  cipher: 'aes-256-gcm';
+  salt: string;
+  nonce: string;
+  data: string;
+}
+
+// How the vault key is derived from the keychain password, kept with the auth data
+export interface VaultKeyParams {
+  salt: string;
+  kdf: KdfParams;
+}
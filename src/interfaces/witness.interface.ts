@@ -0,0 +1,25 @@
+export type WitnessFlag = 'disabled' | 'stale_feed' | 'missed_blocks';
+
+export interface WitnessSummary {
+  owner: string;
+  rank: number;
+  votes: string;
+  url: string;
+  missedBlocks: number;
+  lastFeedUpdate: string;
+  feedPrice: string;
+  runningVersion: string;
+  flags: WitnessFlag[];
+}
+
+export interface WitnessOverview {
+  username: string;
+  witnesses: WitnessSummary[];
+  votes: string[];
+  proxy: string;
+}
+
+export interface WitnessVoteChange {
+  witness: string;
+  approve: boolean;
+}
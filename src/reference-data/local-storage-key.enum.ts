@@ -1,8 +1,19 @@
 export enum LocalStorageKeyEnum {
   ACCOUNTS = 'accounts',
   ACTIVE_ACCOUNT = 'active_account',
-  __MK = '__mk',
+  VAULT_SESSION = '__vault_session',
   SETTINGS = 'settings',
   RPC = 'rpc',
   AUTH_DATA = 'auth_data',
+  VAULT_REKEY = 'vault_rekey',
+  PENDING_REQUESTS = 'pending_requests',
+  APPROVAL_WINDOW = 'approval_window',
+  PERMISSIONS = 'permissions',
+  MULTISIG_TRANSACTIONS = 'multisig_transactions',
+  STEEM_ENGINE_RPC = 'steem_engine_rpc',
+  AUTO_CLAIM_ACCOUNTS = 'auto_claim_accounts',
+  AUTO_CLAIM_REWARDS = 'auto_claim_rewards',
+  ESCROWS = 'escrows',
+  NETWORK = 'network',
+  AUTO_LOCK_SESSION = 'auto_lock_session',
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { NetworkProfile } from '../interfaces/network.interface';
+import { DefaultRpcs } from './default-rpc.list';
+
+export const NetworkProfiles: NetworkProfile[] = [
+  {
+    id: 'mainnet',
+    name: 'Mainnet',
+    chainId: '0000000000000000000000000000000000000000000000000000000000000000',
+    addressPrefix: 'STM',
+    rpcs: DefaultRpcs,
+    assetNetwork: 'steem',
+  },
+  {
+    id: 'testnet',
+    name: 'Testnet',
+    chainId: '46d82ab7d8db682eb1959aed0ada039a6d49afa1602491f93dde9cac3e8e6c32',
+    addressPrefix: 'TST',
+    rpcs: [{ uri: 'https://testnet.steemitdev.com', testnet: true }],
+    assetNetwork: 'steem_testnet',
+  },
+  {
+    id: 'devnet',
+    name: 'Local devnet',
+    addressPrefix: 'TST',
+    rpcs: [{ uri: 'http://127.0.0.1:8090', testnet: true }],
+    assetNetwork: 'steem_testnet',
+  },
+];
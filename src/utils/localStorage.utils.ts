@@ -2,26 +2,62 @@ import { storage } from "@wxt-dev/storage";
 
 import { LocalStorageKeyEnum } from "../reference-data/local-storage-key.enum";
 
+// Stores that belong to a single chain. Mainnet keeps the plain key, so data
+// saved before network profiles existed stays on mainnet.
+const NETWORK_SCOPED_KEYS: string[] = [
+  LocalStorageKeyEnum.ACCOUNTS,
+  LocalStorageKeyEnum.ACTIVE_ACCOUNT,
+  LocalStorageKeyEnum.PERMISSIONS,
+  LocalStorageKeyEnum.RPC,
+  LocalStorageKeyEnum.MULTISIG_TRANSACTIONS,
+  LocalStorageKeyEnum.AUTO_CLAIM_ACCOUNTS,
+  LocalStorageKeyEnum.ESCROWS,
+];
+
 export default class LocalStorageUtils {
   static async saveValueInLocalStorage(
     key: LocalStorageKeyEnum | string,
     value: any,
   ): Promise<void> {
-    await storage.setItem(`local:${key}`, value);
+    await storage.setItem(`local:${await this.scopeKey(key)}`, value);
   }
 
   static async getValueFromLocalStorage(
     key: LocalStorageKeyEnum | string,
   ): Promise<any> {
-    return await storage.getItem(`local:${key}`);
+    return await storage.getItem(`local:${await this.scopeKey(key)}`);
   }
 
   static async removeValueFromLocalStorage(
     key: LocalStorageKeyEnum | string,
   ): Promise<void> {
+    await storage.removeItem(`local:${await this.scopeKey(key)}`);
+  }
+
+  // The key a store uses on `network`, whichever network is selected
+  static getKeyForNetwork(key: LocalStorageKeyEnum | string, network: string): string {
+    if (!NETWORK_SCOPED_KEYS.includes(key)) return key;
+    return network && network !== "mainnet" ? `${key}@${network}` : key;
+  }
+
+  // Keys already resolved with getKeyForNetwork, read and written as they are
+  static async getUnscopedValueFromLocalStorage(key: string): Promise<any> {
+    return await storage.getItem(`local:${key}`);
+  }
+
+  static async saveUnscopedValueInLocalStorage(key: string, value: any): Promise<void> {
+    await storage.setItem(`local:${key}`, value);
+  }
+
+  static async removeUnscopedValueFromLocalStorage(key: string): Promise<void> {
     await storage.removeItem(`local:${key}`);
   }
 
+  private static async scopeKey(key: LocalStorageKeyEnum | string): Promise<string> {
+    const network = await storage.getItem<string>(`local:${LocalStorageKeyEnum.NETWORK}`);
+    return this.getKeyForNetwork(key, network || "mainnet");
+  }
+
   static async saveValueInSessionStorage(
     key: LocalStorageKeyEnum | string,
     value: any,
@@ -1,20 +1,30 @@
 export default class Logger {
   private static isDev = import.meta.env.DEV;
+  private static debugLogging = false;
+
+  // Set from the debug logging setting, so release builds can be diagnosed too
+  static setDebugLogging(enabled: boolean) {
+    this.debugLogging = enabled;
+  }
+
+  private static get verbose() {
+    return this.isDev || this.debugLogging;
+  }
 
   static log(...args: any[]) {
-    if (this.isDev) {
+    if (this.verbose) {
       console.log('[Etta Keychain]', ...args);
     }
   }
 
   static info(...args: any[]) {
-    if (this.isDev) {
+    if (this.verbose) {
       console.info('[Etta Keychain]', ...args);
     }
   }
 
   static warn(...args: any[]) {
-    if (this.isDev) {
+    if (this.verbose) {
       console.warn('[Etta Keychain]', ...args);
     }
   }
@@ -96,13 +96,13 @@ const BlockchainExplorer: React.FC<BlockchainExplorerProps> = ({ username, onRes
           setLoading(false);
           
           if (response.success) {
-            setOperations(response.operations || []);
+            setOperations(response.result?.operations || []);
             onResponse('Blockchain Query Success', {
               success: true,
-              count: response.count,
-              query_type: response.query_type,
+              count: response.result?.count,
+              query_type: response.result?.query_type,
               message: response.message,
-              operations: response.operations
+              operations: response.result?.operations
             });
           } else {
             onResponse('Blockchain Query Failed', {
@@ -107,8 +107,8 @@ const AssetMintTester: React.FC<AssetMintTesterProps> = ({
                 resolve({
                   asset: asset,
                   success: true,
-                  universal_id: response.universal_id,
-                  transaction_id: response.transaction_id,
+                  universal_id: response.result?.universal_id,
+                  transaction_id: response.result?.transaction_id,
                   mint_cost: '0.001 STEEM', // This would come from cost estimation
                   minted_via: 'extension_api'
                 });
@@ -6,7 +6,7 @@ export default defineConfig({
   manifest: {
     name: "Etta Keychain",
     description: "Lightweight keychain extension for STEEM blockchain",
-    permissions: ["storage", "tabs", "scripting"],
+    permissions: ["storage", "tabs", "scripting", "alarms", "idle"],
     host_permissions: ["<all_urls>"],
     content_security_policy: {
       extension_pages: